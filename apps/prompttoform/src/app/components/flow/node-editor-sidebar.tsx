@@ -8,7 +8,12 @@ import {
   CheckCircle,
   Settings,
 } from 'lucide-react';
-import type { PageProps } from '@devhelpr/react-forms';
+import {
+  getBranchExpression,
+  getBranchLabel,
+  validateBranchExpression,
+  type PageProps,
+} from '@devhelpr/react-forms';
 
 interface NodeEditorSidebarProps {
   isOpen: boolean;
@@ -27,6 +32,11 @@ interface NodeEditorSidebarProps {
   } | null;
   onSaveNode: (nodeId: string, pageData: Omit<PageProps, 'id'>) => void;
   onUpdateEdge: (edgeId: string, branchIndex: number | null) => void;
+  onUpdateBranchExpression: (
+    edgeId: string,
+    branchIndex: number,
+    expression: string
+  ) => void;
 }
 
 export function NodeEditorSidebar({
@@ -36,6 +46,7 @@ export function NodeEditorSidebar({
   selectedEdge,
   onSaveNode,
   onUpdateEdge,
+  onUpdateBranchExpression,
 }: NodeEditorSidebarProps) {
   const [jsonText, setJsonText] = useState('');
   const [isValid, setIsValid] = useState(true);
@@ -127,6 +138,40 @@ export function NodeEditorSidebar({
       ? selectedEdge.currentBranchIndex.toString()
       : 'direct';
 
+  const currentBranch =
+    selectedEdge && selectedEdge.currentBranchIndex !== null
+      ? selectedEdge.sourcePage?.branches?.[selectedEdge.currentBranchIndex]
+      : undefined;
+
+  // Branch expression editing, simple conditions are shown as their expression
+  const [expressionText, setExpressionText] = useState('');
+  const currentBranchExpression = currentBranch
+    ? getBranchExpression(currentBranch)
+    : '';
+  React.useEffect(() => {
+    setExpressionText(currentBranchExpression);
+  }, [currentBranchExpression]);
+
+  const expressionError =
+    expressionText.trim() !== ''
+      ? validateBranchExpression(expressionText)
+      : 'Expression is required';
+
+  const handleSaveExpression = () => {
+    if (
+      !selectedEdge ||
+      selectedEdge.currentBranchIndex === null ||
+      expressionError
+    ) {
+      return;
+    }
+    onUpdateBranchExpression(
+      selectedEdge.id,
+      selectedEdge.currentBranchIndex,
+      expressionText.trim()
+    );
+  };
+
   return (
     <div
       className={`fixed left-0 top-0 h-full bg-white shadow-lg border-r border-gray-200 transition-all duration-300 ease-in-out z-30 ${
@@ -351,21 +396,9 @@ export function NodeEditorSidebar({
                               Direct connection (no condition)
                             </option>
                             {selectedEdge.sourcePage.branches?.map(
-                              (
-                                branch: {
-                                  condition: {
-                                    field: string;
-                                    operator: string;
-                                    value: string;
-                                  };
-                                  nextPage: string;
-                                },
-                                index: number
-                              ) => (
+                              (branch, index) => (
                                 <option key={index} value={index}>
-                                  {branch.condition.field}{' '}
-                                  {branch.condition.operator}{' '}
-                                  {branch.condition.value}
+                                  {getBranchLabel(branch)}
                                 </option>
                               )
                             )}
@@ -384,26 +417,69 @@ export function NodeEditorSidebar({
                       )}
                     </div>
 
+                    {/* Branch Expression */}
+                    {currentBranch && (
+                      <div className="bg-gray-50 rounded-lg p-3">
+                        <label
+                          htmlFor="branch-expression"
+                          className="block font-medium text-gray-800 mb-2"
+                        >
+                          Branch Expression
+                        </label>
+                        <textarea
+                          id="branch-expression"
+                          value={expressionText}
+                          onChange={(event) =>
+                            setExpressionText(event.target.value)
+                          }
+                          rows={3}
+                          className={`w-full p-2 border rounded-md font-mono text-sm ${
+                            expressionError
+                              ? 'border-red-300 focus:border-red-500 focus:ring-2 focus:ring-red-500'
+                              : 'border-gray-300 focus:border-blue-500 focus:ring-2 focus:ring-blue-500'
+                          }`}
+                          placeholder="age >= 18 and contains(interests, 'sports')"
+                        />
+                        {expressionError ? (
+                          <div className="flex items-center text-red-600 text-xs mt-1">
+                            <AlertCircle className="w-3 h-3 mr-1" />
+                            {expressionError}
+                          </div>
+                        ) : (
+                          <p className="text-xs text-gray-500 mt-1">
+                            Use and, or, not, contains(), isEmpty() and
+                            isNotEmpty() with field ids and calculated values
+                          </p>
+                        )}
+                        <button
+                          onClick={handleSaveExpression}
+                          disabled={
+                            !!expressionError ||
+                            expressionText.trim() === currentBranchExpression
+                          }
+                          className={`mt-2 w-full px-4 py-2 rounded-md font-medium transition-colors flex items-center justify-center ${
+                            !expressionError &&
+                            expressionText.trim() !== currentBranchExpression
+                              ? 'bg-blue-500 text-white hover:bg-blue-600'
+                              : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                          }`}
+                        >
+                          <Save className="w-4 h-4 mr-2" />
+                          Save Expression
+                        </button>
+                      </div>
+                    )}
+
                     {/* Current Configuration */}
                     <div className="bg-yellow-50 rounded-lg p-3">
                       <h3 className="font-medium text-yellow-800 mb-1">
                         Current Configuration
                       </h3>
                       <p className="text-sm text-yellow-700">
-                        {selectedEdge.currentBranchIndex !== null
-                          ? `Using branch condition: ${
-                              selectedEdge.sourcePage?.branches?.[
-                                selectedEdge.currentBranchIndex
-                              ]?.condition.field
-                            } ${
-                              selectedEdge.sourcePage?.branches?.[
-                                selectedEdge.currentBranchIndex
-                              ]?.condition.operator
-                            } ${
-                              selectedEdge.sourcePage?.branches?.[
-                                selectedEdge.currentBranchIndex
-                              ]?.condition.value
-                            }`
+                        {currentBranch
+                          ? `Using branch condition: ${getBranchLabel(
+                              currentBranch
+                            )}`
                           : 'Direct connection'}
                       </p>
                     </div>
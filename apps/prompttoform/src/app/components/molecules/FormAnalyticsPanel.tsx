@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { FormEvent } from '@devhelpr/react-forms';
+import { UIJson } from '../../types/form-generator.types';
+import {
+  FormAnalyticsService,
+  FormAnalyticsSession,
+  generateGuid,
+} from '../../services/indexeddb';
+import {
+  calculateFormFunnel,
+  createSessionsFromEventLogs,
+} from '../../utils/form-analytics';
+import { ConfirmationDialog } from './ConfirmationDialog';
+import FormFlow from './FormFlow';
+
+type SessionSourceFilter = 'all' | FormAnalyticsSession['source'];
+
+interface FormAnalyticsPanelProps {
+  formJson: UIJson;
+  formSessionId: string | null;
+}
+
+export function FormAnalyticsPanel({
+  formJson,
+  formSessionId,
+}: FormAnalyticsPanelProps) {
+  const [sessions, setSessions] = useState<FormAnalyticsSession[]>([]);
+  const [sourceFilter, setSourceFilter] = useState<SessionSourceFilter>('all');
+  const [error, setError] = useState<string | null>(null);
+  const [isClearDialogOpen, setIsClearDialogOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadSessions = useCallback(async () => {
+    if (!formSessionId) {
+      setSessions([]);
+      return;
+    }
+    try {
+      setSessions(await FormAnalyticsService.getSessions(formSessionId));
+    } catch (loadError) {
+      console.error('Failed to load analytics sessions:', loadError);
+      setError('Failed to load the analytics sessions');
+    }
+  }, [formSessionId]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const filteredSessions = useMemo(
+    () =>
+      sourceFilter === 'all'
+        ? sessions
+        : sessions.filter((session) => session.source === sourceFilter),
+    [sessions, sourceFilter]
+  );
+
+  const funnel = useMemo(
+    () => calculateFormFunnel(formJson, filteredSessions),
+    [formJson, filteredSessions]
+  );
+
+  // Deployed forms log their onEvent events, one list of events per respondent
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !formSessionId) {
+      return;
+    }
+    try {
+      const eventLogs: unknown = JSON.parse(await file.text());
+      if (
+        !Array.isArray(eventLogs) ||
+        !eventLogs.every((events) => Array.isArray(events))
+      ) {
+        setError('The file should contain a list of event lists');
+        return;
+      }
+      const importedSessions = createSessionsFromEventLogs(
+        eventLogs as FormEvent[][],
+        { formSessionId, source: 'deployed', createId: generateGuid }
+      );
+      await FormAnalyticsService.saveSessions(importedSessions);
+      setError(null);
+      await loadSessions();
+    } catch (importError) {
+      console.error('Failed to import analytics sessions:', importError);
+      setError('The file could not be imported');
+    }
+  };
+
+  const handleClear = async () => {
+    setIsClearDialogOpen(false);
+    if (!formSessionId) {
+      return;
+    }
+    try {
+      await FormAnalyticsService.clearSessions(formSessionId);
+      setError(null);
+      await loadSessions();
+    } catch (clearError) {
+      console.error('Failed to clear analytics sessions:', clearError);
+      setError('Failed to clear the analytics sessions');
+    }
+  };
+
+  if (!formSessionId) {
+    return (
+      <div className="flex items-center justify-center h-64 text-zinc-500">
+        Analytics are recorded for saved sessions only
+      </div>
+    );
+  }
+
+  const completionRate =
+    funnel.sessionCount > 0
+      ? Math.round((funnel.submittedCount / funnel.sessionCount) * 100)
+      : 0;
+
+  return (
+    <div className="grid grid-rows-[auto_1fr] gap-4 h-full min-h-0">
+      <div className="bg-white p-4 rounded-lg border border-zinc-300 flex flex-wrap items-center justify-between gap-4">
+        <div className="text-sm text-zinc-700">
+          <span className="font-semibold">{funnel.sessionCount}</span> sessions
+          · <span className="font-semibold">{funnel.submittedCount}</span>{' '}
+          submitted ({completionRate}%)
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor="analytics-source" className="text-sm text-zinc-700">
+            Sessions
+          </label>
+          <select
+            id="analytics-source"
+            value={sourceFilter}
+            onChange={(e) =>
+              setSourceFilter(e.target.value as SessionSourceFilter)
+            }
+            className="px-2 py-1 border border-zinc-300 rounded-md text-sm"
+          >
+            <option value="all">All</option>
+            <option value="preview">Preview</option>
+            <option value="deployed">Deployed</option>
+          </select>
+          <button
+            onClick={loadSessions}
+            className="px-3 py-1 border border-zinc-300 rounded-md text-sm text-zinc-700 hover:bg-zinc-50"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1 border border-zinc-300 rounded-md text-sm text-zinc-700 hover:bg-zinc-50"
+            title="Import the events logged by a deployed form"
+          >
+            Import deployed sessions
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+            data-testid="analytics-import-input"
+          />
+          <button
+            onClick={() => setIsClearDialogOpen(true)}
+            disabled={sessions.length === 0}
+            className="px-3 py-1 border border-red-300 rounded-md text-sm text-red-600 hover:bg-red-50 disabled:opacity-50"
+          >
+            Clear
+          </button>
+        </div>
+        {error && <div className="w-full text-sm text-red-600">{error}</div>}
+      </div>
+
+      {funnel.sessionCount === 0 ? (
+        <div className="flex items-center justify-center h-64 text-zinc-500 text-center">
+          No sessions recorded yet. Sessions are recorded while the form is
+          filled in on the Form Preview tab.
+        </div>
+      ) : (
+        <div className="bg-white p-4 rounded-lg border border-zinc-300 min-h-0 h-full overflow-hidden">
+          <FormFlow formJson={formJson} readOnly={true} analytics={funnel} />
+        </div>
+      )}
+
+      <ConfirmationDialog
+        isOpen={isClearDialogOpen}
+        title="Clear analytics"
+        message="Delete all recorded sessions of this form?"
+        confirmText="Clear"
+        variant="danger"
+        onConfirm={handleClear}
+        onCancel={() => setIsClearDialogOpen(false)}
+      />
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import { BaseNode, BaseNodeContent } from '../flow/base-node';
 import {
   FormRenderer,
   PageProps,
+  getBranchLabel,
   type FormDefinition as LibraryFormDefinition,
 } from '@devhelpr/react-forms';
 import { LabeledHandle } from '../flow/labeled-handle';
@@ -33,6 +34,12 @@ import {
   reorderPagesByLogicalFlow,
   findBestInsertPosition,
 } from '../../utils/flow-ordering';
+import {
+  FormFunnel,
+  PageFunnelStats,
+  formatDuration,
+  getTransitionKey,
+} from '../../utils/form-analytics';
 
 import '@xyflow/react/dist/style.css';
 
@@ -116,15 +123,48 @@ const createPageFormDefinition = (page: PageProps) => ({
   },
 });
 
-function Tooltip({ data }: { data: { page: PageProps; version?: number } }) {
+// Reach, drop-off and median time of a page in the analytics view
+function PageAnalytics({ stats }: { stats: PageFunnelStats }) {
+  const percentage = (value: number) => `${Math.round(value * 100)}%`;
+  return (
+    <div
+      className="grid grid-cols-3 gap-2 px-3 py-2 bg-amber-50 border-b border-amber-200 text-xs text-zinc-700"
+      data-testid={`page-analytics-${stats.pageId}`}
+    >
+      <div>
+        <div className="font-semibold">
+          {stats.reach} ({percentage(stats.reachRate)})
+        </div>
+        <div className="text-zinc-500">reached</div>
+      </div>
+      <div>
+        <div
+          className={`font-semibold ${
+            stats.dropOffRate >= 0.25 ? 'text-red-600' : ''
+          }`}
+        >
+          {stats.dropOff} ({percentage(stats.dropOffRate)})
+        </div>
+        <div className="text-zinc-500">dropped off</div>
+      </div>
+      <div>
+        <div className="font-semibold">{formatDuration(stats.medianTime)}</div>
+        <div className="text-zinc-500">median time</div>
+      </div>
+    </div>
+  );
+}
+
+function Tooltip({
+  data,
+}: {
+  data: { page: PageProps; version?: number; analytics?: PageFunnelStats };
+}) {
   const pageFormDefinition = createPageFormDefinition(data.page);
 
   const branchInfo = data.page.branches
     ? data.page.branches
-        .map(
-          (branch) =>
-            `${branch.condition.field} ${branch.condition.operator} ${branch.condition.value} → ${branch.nextPage}`
-        )
+        .map((branch) => `${getBranchLabel(branch)} → ${branch.nextPage}`)
         .join(', ')
     : data.page.nextPage
     ? `Next: ${data.page.nextPage}`
@@ -155,6 +195,7 @@ function Tooltip({ data }: { data: { page: PageProps; version?: number } }) {
           >
             {data.page.title}
           </div>
+          {data.analytics && <PageAnalytics stats={data.analytics} />}
           <BaseNodeContent>
             <div className="nodrag nopan nowheel pointer-events-none w-[300px] h-[400px] overflow-auto">
               <FormRenderer
@@ -434,7 +475,7 @@ const generateFlowFromFormDefinition = (formDef: LibraryFormDefinition) => {
     // Create edges for branches (if any)
     if (page.branches) {
       page.branches.forEach((branch, branchIndex) => {
-        const edgeLabel = `${branch.condition.field} ${branch.condition.operator} ${branch.condition.value}`;
+        const edgeLabel = getBranchLabel(branch);
 
         edges.push({
           id: `${page.id}-branch-${branchIndex}-to-${branch.nextPage}`,
@@ -548,8 +589,7 @@ const generateCompleteFormDefinition = (nodes: Node[], edges: Edge[]) => {
         if (edge.label) {
           const edgeLabel = String(edge.label);
           const matchingBranch = existingBranches.find((branch) => {
-            const expectedLabel = `${branch.condition.field} ${branch.condition.operator} ${branch.condition.value}`;
-            return edgeLabel === expectedLabel;
+            return edgeLabel === getBranchLabel(branch);
           });
 
           if (matchingBranch) {
@@ -622,11 +662,13 @@ function Flow({
   onFormChange,
   onConflictDetected,
   readOnly = false,
+  analytics,
 }: {
   formDefinition: LibraryFormDefinition;
   onFormChange?: (nodes: Node[], edges: Edge[]) => void;
   onConflictDetected?: (conflict: any) => void;
   readOnly?: boolean;
+  analytics?: FormFunnel;
 }) {
   const [draggedNodeId, setDraggedNodeId] = useState<string | null>(null);
   const [selectedFormIndex, setSelectedFormIndex] = useState(0);
@@ -927,9 +969,7 @@ function Flow({
       const edgeLabel = String(edge.label);
       for (let i = 0; i < sourcePage.branches.length; i++) {
         const branch = sourcePage.branches[i];
-        const expectedLabel = `${branch.condition.field} ${branch.condition.operator} ${branch.condition.value}`;
-
-        if (edgeLabel === expectedLabel) {
+        if (edgeLabel === getBranchLabel(branch)) {
           currentBranchIndex = i;
           break;
         }
@@ -950,10 +990,22 @@ function Flow({
     };
   }, [selectedEdge, edges, nodes]);
 
-  // Apply selection styling to edges
+  // Apply selection styling to edges, with the number of respondents that
+  // followed an edge in the analytics view
   const styledEdges = useMemo(() => {
     return edges.map((edge) => ({
       ...edge,
+      ...(analytics && {
+        label: [
+          edge.label,
+          `${
+            analytics.transitions[getTransitionKey(edge.source, edge.target)] ??
+            0
+          } respondents`,
+        ]
+          .filter(Boolean)
+          .join(' · '),
+      }),
       style: {
         ...edge.style,
         strokeWidth: selectedEdge === edge.id ? 6 : 2,
@@ -970,12 +1022,15 @@ function Flow({
       },
       selected: selectedEdge === edge.id,
     }));
-  }, [edges, selectedEdge]);
+  }, [edges, selectedEdge, analytics]);
 
   // Apply active page highlighting to nodes and manage z-index for dragged nodes
   const styledNodes = useMemo(() => {
     return nodes.map((node) => ({
       ...node,
+      ...(analytics && {
+        data: { ...node.data, analytics: analytics.pages[node.id] },
+      }),
       style: {
         ...node.style,
         zIndex:
@@ -990,7 +1045,7 @@ function Flow({
             : node.style?.border || 'none',
       },
     }));
-  }, [nodes, activePageId, draggedNodeId]);
+  }, [nodes, activePageId, draggedNodeId, analytics]);
 
   const onNodesChange = useCallback(
     (changes: NodeChange[]) => {
@@ -1264,7 +1319,7 @@ function Flow({
               if (branch) {
                 return {
                   ...edge,
-                  label: `${branch.condition.field} ${branch.condition.operator} ${branch.condition.value}`,
+                  label: getBranchLabel(branch),
                   type: 'smoothstep', // Branched edges use smoothstep
                   style: {
                     ...edge.style,
@@ -1306,6 +1361,38 @@ function Flow({
     [nodes, debouncedOnFormChange]
   );
 
+  const onUpdateBranchExpression = useCallback(
+    (edgeId: string, branchIndex: number, expression: string) => {
+      const edge = edges.find((e) => e.id === edgeId);
+      if (!edge) return;
+
+      // Store the expression on the branch, it takes precedence over a simple condition
+      const updatedNodes = nodes.map((node) => {
+        if (node.id !== edge.source) return node;
+        const page = (node.data as { page: PageProps }).page;
+        const branches = (page.branches || []).map((branch, index) =>
+          index === branchIndex ? { ...branch, expression } : branch
+        );
+        return {
+          ...node,
+          data: { ...node.data, page: { ...page, branches } },
+        };
+      });
+      const updatedEdges = edges.map((e) =>
+        e.id === edgeId ? { ...e, label: expression } : e
+      );
+
+      setNodes(updatedNodes);
+      setEdges(updatedEdges);
+
+      // Notify parent about form changes for synchronization
+      if (debouncedOnFormChange) {
+        debouncedOnFormChange(updatedNodes, updatedEdges);
+      }
+    },
+    [nodes, edges, setNodes, setEdges, debouncedOnFormChange]
+  );
+
   // Helper function to extract all existing field IDs from the current flow
   const getAllExistingFieldIds = useCallback(() => {
     const existingFieldIds = new Set<string>();
@@ -1575,6 +1662,7 @@ function Flow({
         selectedEdge={selectedEdgeDetails}
         onSaveNode={onSaveNode}
         onUpdateEdge={onUpdateEdge}
+        onUpdateBranchExpression={onUpdateBranchExpression}
       />
 
       <CreateNodeModal
@@ -1630,6 +1718,8 @@ interface FormFlowProps {
   onFormChange?: (nodes: Node[], edges: Edge[]) => void;
   onConflictDetected?: (conflict: any) => void;
   readOnly?: boolean;
+  // Shows reach, drop-off and median time per page and respondents per edge
+  analytics?: FormFunnel;
 }
 
 const FormFlow: React.FC<FormFlowProps> = ({
@@ -1637,6 +1727,7 @@ const FormFlow: React.FC<FormFlowProps> = ({
   onFormChange,
   onConflictDetected,
   readOnly = false,
+  analytics,
 }) => {
   const isMobile = useIsMobile();
 
@@ -1650,6 +1741,7 @@ const FormFlow: React.FC<FormFlowProps> = ({
       onFormChange={onFormChange}
       onConflictDetected={onConflictDetected}
       readOnly={readOnly}
+      analytics={analytics}
     />
   );
 };
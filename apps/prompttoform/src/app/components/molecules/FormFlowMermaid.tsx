@@ -6,6 +6,7 @@ import React, {
   useCallback,
 } from 'react';
 import mermaid from 'mermaid';
+import type { VisibilityRule } from '@devhelpr/react-forms';
 
 interface BranchCondition {
   field: string;
@@ -14,7 +15,8 @@ interface BranchCondition {
 }
 
 interface Branch {
-  condition: BranchCondition;
+  condition?: BranchCondition;
+  expression?: string;
   nextPage: string;
 }
 
@@ -26,7 +28,7 @@ interface Page {
     id: string;
     type: string;
     label?: string;
-    visibilityConditions?: Array<BranchCondition>;
+    visibilityConditions?: VisibilityRule[];
   }>;
   nextPage?: string;
   branches?: Branch[];
@@ -355,8 +357,10 @@ const FormFlowMermaid: React.FC<FormFlowMermaidProps> = ({ formJson }) => {
       if (page.branches) {
         page.branches.forEach((branch) => {
           const targetId = branch.nextPage.replace(/[^a-zA-Z0-9]/g, '_');
-          const condition = `${branch.condition.field} ${branch.condition.operator} ${branch.condition.value}`;
-          diagram += `    ${sourceId} -->|${condition}| ${targetId}\n`;
+          const condition = branch.expression
+            ? branch.expression.trim().replace(/"/g, '#quot;')
+            : `${branch.condition?.field} ${branch.condition?.operator} ${branch.condition?.value}`;
+          diagram += `    ${sourceId} -->|"${condition}"| ${targetId}\n`;
         });
       }
 
@@ -2,14 +2,22 @@ import { UIJson } from '../../types/form-generator.types';
 import { ViewMode } from '../../store/use-app-store';
 import {
   FormRenderer,
+  FormEvent,
   PageChangeEvent,
   LanguageSelector,
   MultiLanguageFormRendererSettings,
 } from '@devhelpr/react-forms';
 import FormFlowMermaid from './FormFlowMermaid';
 import { JsonValidator } from './JsonValidator';
-import { useEffect, useMemo, useState } from 'react';
+import { FormAnalyticsPanel } from './FormAnalyticsPanel';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { parseJsonSafely } from '../../utils/json-utils';
+import {
+  FormAnalyticsService,
+  FormAnalyticsSession,
+  generateGuid,
+} from '../../services/indexeddb';
+import { applyFormEvent } from '../../utils/form-analytics';
 
 interface FormPreviewPanelProps {
   parsedJson: UIJson | null;
@@ -26,6 +34,8 @@ interface FormPreviewPanelProps {
   // Multi-language support
   currentLanguage?: string;
   onLanguageChange?: (language: string) => void;
+  // Session the preview sessions are recorded for in the analytics
+  currentSessionId?: string | null;
 }
 
 export function FormPreviewPanel({
@@ -42,9 +52,37 @@ export function FormPreviewPanel({
   siteUrl,
   currentLanguage = 'en',
   onLanguageChange,
+  currentSessionId = null,
 }: FormPreviewPanelProps) {
   const [jsonErrors, setJsonErrors] = useState<string[]>([]);
   const [isJsonValid, setIsJsonValid] = useState(true);
+  const analyticsSessionRef = useRef<FormAnalyticsSession | null>(null);
+
+  // Records the preview as analytics sessions of the current session
+  const handleFormEvent = useCallback(
+    (event: FormEvent) => {
+      if (!currentSessionId) {
+        return;
+      }
+      // The session of a previous editor session is never continued
+      const currentSession =
+        analyticsSessionRef.current?.formSessionId === currentSessionId
+          ? analyticsSessionRef.current
+          : null;
+      const session = applyFormEvent(currentSession, event, {
+        formSessionId: currentSessionId,
+        source: 'preview',
+        createId: generateGuid,
+      });
+      if (session && session !== currentSession) {
+        FormAnalyticsService.saveSession(session).catch((error) =>
+          console.error('Failed to save analytics session:', error)
+        );
+      }
+      analyticsSessionRef.current = session;
+    },
+    [currentSessionId]
+  );
 
   // Multi-language support
   const isMultiLanguage = useMemo(() => {
@@ -64,6 +102,7 @@ export function FormPreviewPanel({
       { id: 'form' as ViewMode, label: 'Form Preview', shortcut: '1' },
       { id: 'flow' as ViewMode, label: 'Form Logic', shortcut: '2' },
       { id: 'json' as ViewMode, label: 'JSON', shortcut: '3' },
+      { id: 'analytics' as ViewMode, label: 'Analytics', shortcut: '4' },
     ],
     []
   );
@@ -79,8 +118,8 @@ export function FormPreviewPanel({
         return;
       }
 
-      // Tab switching shortcuts (1-3)
-      if (e.key >= '1' && e.key <= '3') {
+      // Tab switching shortcuts (1-4)
+      if (e.key >= '1' && e.key <= '4') {
         const tabIndex = parseInt(e.key) - 1;
         if (tabs[tabIndex]) {
           e.preventDefault();
@@ -178,6 +217,7 @@ export function FormPreviewPanel({
                     onLanguageChange: onLanguageChange || (() => {}),
                   } as MultiLanguageFormRendererSettings
                 }
+                onEvent={handleFormEvent}
               />
             </div>
           </div>
@@ -200,6 +240,18 @@ export function FormPreviewPanel({
           </div>
         );
 
+      case 'analytics':
+        return parsedJson && parsedJson.app ? (
+          <FormAnalyticsPanel
+            formJson={parsedJson}
+            formSessionId={currentSessionId}
+          />
+        ) : (
+          <div className="flex items-center justify-center h-64 text-zinc-500">
+            No form data available
+          </div>
+        );
+
       case 'json':
         return (
           <div className="grid grid-rows-[auto_1fr] space-y-4 max-h-[calc(100vh-230px)] overflow-auto">
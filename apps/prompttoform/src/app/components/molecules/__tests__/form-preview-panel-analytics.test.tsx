@@ -0,0 +1,102 @@
+import { StrictMode } from 'react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { FormPreviewPanel } from '../FormPreviewPanel';
+import { UIJson } from '../../../types/form-generator.types';
+import { ViewMode } from '../../../store/use-app-store';
+import {
+  FormAnalyticsService,
+  FormAnalyticsSession,
+} from '../../../services/indexeddb';
+
+vi.mock('../FormFlowMermaid', () => ({
+  default: () => <div data-testid="form-flow">Form Flow</div>,
+}));
+
+vi.mock('../JsonValidator', () => ({
+  JsonValidator: () => <div data-testid="json-validator">JSON Validator</div>,
+}));
+
+describe('FormPreviewPanel - Analytics', () => {
+  const formJson: UIJson = {
+    app: {
+      title: 'Signup',
+      pages: [
+        {
+          id: 'personal',
+          title: 'Personal',
+          route: '/personal',
+          components: [{ id: 'name', type: 'input', label: 'Name' }],
+          nextPage: 'contact',
+        },
+        {
+          id: 'contact',
+          title: 'Contact',
+          route: '/contact',
+          isEndPage: true,
+          components: [{ id: 'email', type: 'input', label: 'Email' }],
+        },
+      ],
+    },
+  };
+
+  const defaultProps = {
+    parsedJson: formJson,
+    activeTab: 'form' as ViewMode,
+    onTabChange: vi.fn(),
+    onJsonChange: vi.fn(),
+    generatedJson: JSON.stringify(formJson),
+    onCopyToClipboard: vi.fn(),
+    onDownload: vi.fn(),
+    onDownloadZip: vi.fn(),
+    onExportSchema: vi.fn(),
+    isZipDownloading: false,
+    currentSessionId: 'session-1',
+  };
+
+  let savedSessions: FormAnalyticsSession[];
+
+  beforeEach(() => {
+    savedSessions = [];
+    vi.spyOn(FormAnalyticsService, 'saveSession').mockImplementation(
+      async (session) => {
+        savedSessions.push(session);
+      }
+    );
+  });
+
+  it('should keep the preview session active in StrictMode until the form is unmounted', async () => {
+    const { unmount } = render(
+      <StrictMode>
+        <FormPreviewPanel {...defaultProps} />
+      </StrictMode>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /next/i }));
+    await screen.findByLabelText('Email');
+
+    const lastSession = savedSessions[savedSessions.length - 1];
+    expect(lastSession.status).toBe('active');
+    expect(lastSession.pageVisits.map((visit) => visit.pageId)).toEqual([
+      'personal',
+      'contact',
+    ]);
+    expect(new Set(savedSessions.map((session) => session.id)).size).toBe(1);
+    expect(
+      savedSessions.some((session) => session.status === 'abandoned')
+    ).toBe(false);
+
+    unmount();
+
+    await waitFor(() =>
+      expect(savedSessions[savedSessions.length - 1]).toEqual(
+        expect.objectContaining({
+          id: lastSession.id,
+          formSessionId: 'session-1',
+          source: 'preview',
+          status: 'abandoned',
+        })
+      )
+    );
+  });
+});
@@ -780,6 +780,7 @@ export function MainAppPage({
                   siteUrl={siteUrl}
                   currentLanguage={currentLanguage}
                   onLanguageChange={setCurrentLanguage}
+                  currentSessionId={currentSessionId}
                 />
               </Suspense>
             }
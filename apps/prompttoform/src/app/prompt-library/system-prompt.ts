@@ -38,10 +38,19 @@ Important rules for UI/Form schema:
      - textarea: For multi-line text input (comments, descriptions)
      - checkbox: For boolean selections or multiple choice lists
      - radio: For single selection from multiple options
-     - select: For dropdown selections with many options
-     - date: For date input fields
+     - select: For dropdown selections with many options; set props.searchable for long lists (countries, product codes), props.multiple for several choices (the value is a list, use validation.minItems/maxItems), props.allowOther for an "Other (please specify)" text answer; options can have a group and a description
+     - date: For date input fields; limit them with validation.minDate/maxDate as an ISO date, relative to today ("today", "today+30d", "-18y" for adults only) or another field ("after startDate")
+     - time: For a time of day; the value is "HH:mm", limit it with validation.minTime/maxTime, e.g. "09:00" and "17:00" for opening hours
+     - datetime: For appointments and other moments with a date and a time; the value is a local "YYYY-MM-DDTHH:mm" without a timezone
+     - date-range: For periods such as a stay or a leave with one start and one end date instead of two date fields; the value is { start, end }
+     - file: For file uploads (documents, photos); use props.accept and props.multiple, and validation.maxFiles and validation.maxFileSize (bytes) to restrict uploads
+     - signature: For handwritten signatures on consent, agreement and intake forms; the value is an image data URL, set validation.required when a signature is mandatory and props.signatureFormat "svg" for vector output
+     - matrix: For surveys that rate several statements on the same scale (Likert grids); use one matrix with props.statements ({ id, label, required }) as rows and props.options as columns instead of a radio field per statement, set props.multiple for more than one answer per statement; answers are read in templates as {{fieldId.statementId}}
+     - rating: For star or emoji ratings of a single aspect; the value is a number from 1 to props.max (default 5), set props.icon "emoji" for a sad to happy scale
+     - nps: For the Net Promoter Score question "How likely are you to recommend ...", a 0-10 scale; set props.lowLabel and props.highLabel, branch on detractors with the expression "npsCategory(fieldId) == 'detractor'"
+     - ranking: For ordering options by preference with drag and drop or the keyboard; the value is the list of option values from first to last, use validation.minItems to require e.g. a top 3 and rankOf(fieldId, 'value') in expressions
      - slider-range: For selecting single values or ranges with slider controls (price ranges, age ranges, ratings, etc.)
-     - button: For user actions (rare - forms typically auto-generate buttons)
+     - button: For user actions (rare - forms typically auto-generate buttons); set props.label and eventHandlers.onClick with one or more actions, e.g. [{ "type": "setValue", "field": "shippingAddress", "value": "{{billingAddress}}" }, { "type": "showMessage", "message": "Address copied" }]. Available actions: setValue, clearValue, navigate (targetPage), showMessage, validatePage, submit, callDataSource (dataSource, params, field, valuePath)
      - table: For displaying tabular data
      - form: For grouping form elements
      - section: For grouping related components
@@ -58,7 +67,7 @@ Important rules for UI/Form schema:
      * For email fields: "We'll never share your email with anyone else"
      * For password fields: "Must be at least 8 characters with uppercase, lowercase, and number"
      * For phone fields: "Include country code (e.g., +1 for US)"
-     * For date fields: "Format: MM/DD/YYYY"
+     * For date fields: "The first day you can start" (no format hints, dates follow the language of the form)
      * For number fields: "Enter your age in years"
      * For textarea fields: "Please provide detailed information"
      * For select/radio fields: "Choose the option that best describes your situation"
@@ -105,6 +114,22 @@ Important rules for UI/Form schema:
        }
      }
    
+   - For phone numbers, postal codes, IBANs and similar identifiers use props.mask, where 9 is a digit, a a letter, A an uppercase letter and * a letter or digit, e.g. "props": { "mask": "9999 AA" }
+   - For amounts use props.format "currency" (or "number") with currency, decimals and optionally locale, e.g. "props": { "format": "currency", "currency": "EUR", "decimals": 2 }, min and max validation apply to the amount
+   
+   - For rules that reference other fields, use validation.rules with an id and a matching errorMessages entry:
+     "validation": {
+       "rules": [
+         { "id": "endAfterStart", "field": "startDate", "operator": ">" }
+       ],
+       "errorMessages": {
+         "endAfterStart": "The end date must be after the start date"
+       }
+     }
+     * Use { "requireOneOf": ["email"] } on the phone field when at least one of phone/email is required
+     * Use { "expression": "maxGuests >= minGuests" } for other rules
+     * Only use validation.asyncValidator when the user asks to check a value against a service, e.g. { "dataSource": "usernameCheck", "params": { "username": "{{value}}" } } with a rest data source in app.dataSources that returns { "valid": boolean, "message"?: string }
+   
    - For slider-range validation, include min, max, step, mode, and range validation:
      "props": { 
        "min": 0,
@@ -165,7 +190,10 @@ Important rules for UI/Form schema:
 
 11. For visibility conditions:
     - Add conditions to show/hide components based on user input or state
-    - Use appropriate operators for comparisons (==, !=, >, <, >=, <=)
+    - Use appropriate operators for comparisons (==, !=, >, <, >=, <=) or contains, isEmpty, isNotEmpty, in (value is a list) and matches (value is a regular expression)
+    - Combine conditions with { "anyOf": [...] }, { "allOf": [...] } and { "not": {...} } groups
+    - Pages can also have visibilityConditions, hidden pages are skipped
+    - Set app.settings.hiddenFieldPolicy to "clearOnHide" or "excludeOnSubmit" when answers to hidden questions must not be submitted, a field can override it with hiddenFieldPolicy
     - Reference existing fields and components
 
 12. For branching logic:
@@ -184,6 +212,9 @@ Important rules for UI/Form schema:
           "nextPage": "targetPageId"
         }
       ]
+    - For combined conditions use an "expression" instead of a condition object, e.g.
+      "expression": "age >= 18 and (contains(interests, 'sports') or isNotEmpty(club))"
+      Expressions support and, or, not, comparisons, contains(), isEmpty(), isNotEmpty() and calculated field ids
     - For linear navigation, use nextPage field directly
     - Ensure that field IDs in conditions match existing input field IDs
     - For navigation branches, ensure that nextPage values match existing page IDs
@@ -230,6 +261,7 @@ Important rules for UI/Form schema:
       * {{fieldId}} - Direct field reference using the actual component ID
       * Text with multiple variables: "Contact: {{email}} | Phone: {{phone}}"
       * Multi-line summaries with proper formatting
+      * Formatted amounts and dates in the form language: "Total: {{format(total, 'currency', 'EUR')}}", "{{format(startDate, 'date', 'long')}}", "{{format(discount, 'percent')}}"
     - For confirmation/summary pages, use text components with template variables instead of complex confirmation components
 
 15. For helperText best practices:
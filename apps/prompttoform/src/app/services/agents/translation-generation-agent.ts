@@ -202,6 +202,36 @@ You must return a complete JSON object with the following structure:
     "requiredText": "translated required text",
     "loadingText": "translated loading text",
     "submittingText": "translated submitting text",
+    "submitError": "translated submit error message",
+    "resumeDraftMessage": "translated resume draft message",
+    "resumeDraftButton": "translated resume draft button text",
+    "discardDraftButton": "translated discard draft button text",
+    "dataSourceError": "translated data source error message",
+    "retryButton": "translated retry button text",
+    "uploadingText": "translated uploading text",
+    "uploadError": "translated upload error message",
+    "clearSignatureButton": "translated clear signature button text",
+    "undoSignatureButton": "translated undo signature stroke button text",
+    "typeSignatureButton": "translated button text to type the name instead of drawing a signature",
+    "drawSignatureButton": "translated button text to draw a signature instead of typing the name",
+    "signaturePadLabel": "translated signature pad description for screen readers",
+    "ratingValueLabel": "translated screen reader label of a rating score, keep {value} and {max}",
+    "addToRankingButton": "translated button text to add an option to a ranking",
+    "removeFromRankingButton": "translated button text to remove an option from a ranking",
+    "moveUpButton": "translated button text to move a ranked option up",
+    "moveDownButton": "translated button text to move a ranked option down",
+    "unrankedOptionsLabel": "translated heading of the options that are not ranked yet",
+    "rankingPositionMessage": "translated screen reader announcement of a moved option, keep {option}, {position} and {count}",
+    "selectPlaceholder": "translated first entry of a select list",
+    "searchPlaceholder": "translated placeholder of a searchable select",
+    "noOptionsFound": "translated text shown when a search finds no options",
+    "otherOption": "translated label of the other choice of a select",
+    "otherInputLabel": "translated label of the text input for another answer",
+    "removeSelectionButton": "translated button text to remove a chosen option of a multi-select",
+    "startDateLabel": "translated label of the first date of a date range",
+    "endDateLabel": "translated label of the last date of a date range",
+    "validatingText": "translated validating text",
+    "actionError": "translated error message for failed button actions",
     "requiredFieldAriaLabel": "translated required field ARIA label",
     "optionalFieldAriaLabel": "translated optional field ARIA label",
     "errorAriaLabel": "translated error ARIA label",
@@ -222,6 +252,25 @@ You must return a complete JSON object with the following structure:
     "invalidEmail": "translated invalid email error (preserve {fieldLabel} placeholder)",
     "invalidNumber": "translated invalid number error (preserve {fieldLabel} placeholder)",
     "invalidDate": "translated invalid date error (preserve {fieldLabel} placeholder)",
+    "invalidMask": "translated incomplete masked value error (preserve {fieldLabel} placeholder)",
+    "maxDecimals": "translated maximum decimals error (preserve {fieldLabel} and {decimals} placeholders)",
+    "statementRequired": "translated unanswered matrix statement error (preserve {fieldLabel} and {statement} placeholders)",
+    "invalidTime": "translated invalid time error (preserve {fieldLabel} placeholder)",
+    "minTime": "translated minimum time error (preserve {fieldLabel} and {minTime} placeholders)",
+    "maxTime": "translated maximum time error (preserve {fieldLabel} and {maxTime} placeholders)",
+    "dateRangeIncomplete": "translated error for a date range with only one date (preserve {fieldLabel} placeholder)",
+    "dateRangeOrder": "translated error for a date range that ends before it starts (preserve {fieldLabel} placeholder)",
+    "maxFiles": "translated max files error (preserve {fieldLabel} and {maxFiles} placeholders)",
+    "maxFileSize": "translated max file size error (preserve {fileName} and {maxFileSize} placeholders)",
+    "invalidFileType": "translated invalid file type error (preserve {fileName} and {fieldLabel} placeholders)",
+    "fieldEquals": "translated field equals error (preserve {fieldLabel} and {otherFieldLabel} placeholders)",
+    "fieldNotEquals": "translated field not equals error (preserve {fieldLabel} and {otherFieldLabel} placeholders)",
+    "fieldGreaterThan": "translated field greater than error (preserve {fieldLabel} and {otherFieldLabel} placeholders)",
+    "fieldGreaterThanOrEqual": "translated field greater than or equal error (preserve {fieldLabel} and {otherFieldLabel} placeholders)",
+    "fieldLessThan": "translated field less than error (preserve {fieldLabel} and {otherFieldLabel} placeholders)",
+    "fieldLessThanOrEqual": "translated field less than or equal error (preserve {fieldLabel} and {otherFieldLabel} placeholders)",
+    "requireOneOf": "translated require one of error (preserve {fieldLabels} placeholder)",
+    "asyncValidation": "translated async validation error (preserve {fieldLabel} placeholder)",
     "generic": "translated generic error (preserve {fieldLabel} placeholder)"
   }
 }
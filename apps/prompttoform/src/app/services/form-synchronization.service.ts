@@ -1,4 +1,8 @@
-import { FormDefinition } from '@devhelpr/react-forms';
+import {
+  FormDefinition,
+  PageBranch,
+  getBranchLabel,
+} from '@devhelpr/react-forms';
 import { Node, Edge } from '@xyflow/react';
 
 export type SyncSource = 'flow' | 'json' | 'prompt' | 'import';
@@ -224,11 +228,11 @@ export class FormSynchronizationService {
 
       if (page.branches) {
         page.branches.forEach((branch, branchIndex) => {
-          if (!branch.condition) {
+          if (!branch.condition && !branch.expression) {
             errors.push(
-              `Page ${index} branch ${branchIndex} must have a condition`
+              `Page ${index} branch ${branchIndex} must have a condition or an expression`
             );
-          } else {
+          } else if (branch.condition) {
             if (!branch.condition.field) {
               errors.push(
                 `Page ${index} branch ${branchIndex} condition must have a field`
@@ -401,10 +405,9 @@ export class FormSynchronizationService {
           // Try to match edges to existing branches using edge labels
           if (edge.label) {
             const edgeLabel = String(edge.label);
-            const matchingBranch = existingBranches.find((branch: any) => {
-              const expectedLabel = `${branch.condition.field} ${branch.condition.operator} ${branch.condition.value}`;
-              return edgeLabel === expectedLabel;
-            });
+            const matchingBranch = existingBranches.find(
+              (branch: PageBranch) => edgeLabel === getBranchLabel(branch)
+            );
 
             if (matchingBranch) {
               return {
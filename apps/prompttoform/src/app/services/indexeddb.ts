@@ -19,10 +19,30 @@ export interface FormUpdate {
   updateType: 'patch' | 'evaluate'; // Type of update: patch (Update Form) or evaluate (Evaluate & Improve)
 }
 
+export interface FormAnalyticsPageVisit {
+  pageId: string;
+  enteredAt: number;
+  timeSpent?: number; // Milliseconds, set when the respondent leaves the page
+}
+
+// One respondent filling in the form of a FormSession
+export interface FormAnalyticsSession {
+  id: string; // GUID for the analytics session
+  formSessionId: string; // Links to the FormSession of the form
+  source: 'preview' | 'deployed';
+  formVersion?: string;
+  language?: string;
+  pageVisits: FormAnalyticsPageVisit[];
+  status: 'active' | 'submitted' | 'abandoned';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Extend Dexie to include our tables
 export class FormGeneratorDatabase extends Dexie {
   sessions!: Table<FormSession>;
   updates!: Table<FormUpdate>;
+  analyticsSessions!: Table<FormAnalyticsSession>;
 
   constructor() {
     super('FormGeneratorDatabase');
@@ -48,6 +68,13 @@ export class FormGeneratorDatabase extends Dexie {
             }
           });
       });
+
+    // Version 3 adds the analytics sessions of forms
+    this.version(3).stores({
+      sessions: 'id, createdAt',
+      updates: 'id, sessionId, createdAt',
+      analyticsSessions: 'id, formSessionId, createdAt',
+    });
   }
 }
 
@@ -116,14 +143,22 @@ export class FormSessionService {
     });
   }
 
-  // Delete a session and all its updates
+  // Delete a session, its updates and its analytics
   static async deleteSession(sessionId: string): Promise<void> {
-    await db.transaction('rw', [db.sessions, db.updates], async () => {
-      // Delete all updates for this session
-      await db.updates.where('sessionId').equals(sessionId).delete();
-      // Delete the session
-      await db.sessions.delete(sessionId);
-    });
+    await db.transaction(
+      'rw',
+      [db.sessions, db.updates, db.analyticsSessions],
+      async () => {
+        // Delete all updates and analytics for this session
+        await db.updates.where('sessionId').equals(sessionId).delete();
+        await db.analyticsSessions
+          .where('formSessionId')
+          .equals(sessionId)
+          .delete();
+        // Delete the session
+        await db.sessions.delete(sessionId);
+      }
+    );
   }
 
   // Store an update to a form
@@ -223,9 +258,45 @@ export class FormSessionService {
 
   // Clear all data (useful for testing or reset)
   static async clearAllData(): Promise<void> {
-    await db.transaction('rw', [db.sessions, db.updates], async () => {
-      await db.sessions.clear();
-      await db.updates.clear();
-    });
+    await db.transaction(
+      'rw',
+      [db.sessions, db.updates, db.analyticsSessions],
+      async () => {
+        await db.sessions.clear();
+        await db.updates.clear();
+        await db.analyticsSessions.clear();
+      }
+    );
+  }
+}
+
+// Service functions for the analytics of forms
+export class FormAnalyticsService {
+  // Store a new or updated analytics session
+  static async saveSession(session: FormAnalyticsSession): Promise<void> {
+    await db.analyticsSessions.put(session);
+  }
+
+  // Store several analytics sessions at once, e.g. imported sessions
+  static async saveSessions(sessions: FormAnalyticsSession[]): Promise<void> {
+    await db.analyticsSessions.bulkPut(sessions);
+  }
+
+  // Get all analytics sessions of a form session ordered by creation date
+  static async getSessions(
+    formSessionId: string
+  ): Promise<FormAnalyticsSession[]> {
+    return await db.analyticsSessions
+      .where('formSessionId')
+      .equals(formSessionId)
+      .sortBy('createdAt');
+  }
+
+  // Delete all analytics sessions of a form session
+  static async clearSessions(formSessionId: string): Promise<void> {
+    await db.analyticsSessions
+      .where('formSessionId')
+      .equals(formSessionId)
+      .delete();
   }
 }
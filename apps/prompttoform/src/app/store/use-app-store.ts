@@ -8,7 +8,7 @@ import {
 } from '../services/form-synchronization.service';
 
 // Types
-export type ViewMode = 'form' | 'flow' | 'mermaid-flow' | 'json';
+export type ViewMode = 'form' | 'flow' | 'mermaid-flow' | 'json' | 'analytics';
 export type AppView = 'initial' | 'editor';
 
 // Singleton service outside state (as recommended in research)
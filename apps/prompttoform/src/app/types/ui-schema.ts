@@ -23,6 +23,12 @@ export interface UISchema {
             $ref: string;
           };
         };
+        settings?: {
+          type: string;
+          properties: {
+            hiddenFieldPolicy?: { $ref: string };
+          };
+        };
       };
       required: string[];
     };
@@ -45,7 +51,7 @@ export interface UISchema {
         branches?: {
           type: string;
           items: {
-            $ref: "#/$defs/branch";
+            $ref: '#/$defs/branch';
           };
         };
         nextPage?: { type: string };
@@ -83,20 +89,26 @@ export interface UISchema {
             maxItems?: { type: string };
             minDate?: { type: string };
             maxDate?: { type: string };
+            rules?: {
+              type: string;
+              description?: string;
+              items: { $ref: string };
+            };
+            asyncValidator?: {
+              type: string;
+              description?: string;
+              properties: Record<string, { type: string }>;
+            };
           };
         };
         visibilityConditions?: {
           type: string;
+          description?: string;
           items: {
-            type: string;
-            properties: {
-              field: { type: string };
-              operator: { type: string; enum: string[] };
-              value: unknown;
-            };
-            required: string[];
+            $ref: string;
           };
         };
+        hiddenFieldPolicy?: { $ref: string };
         arrayItems?: {
           type: string;
           items: {
@@ -172,12 +184,173 @@ export interface UISchema {
         { properties: { type: { const: string } }; required: string[] }
       ];
     };
+    timeComponent: {
+      allOf: [
+        { $ref: string },
+        { properties: { type: { const: string } }; required: string[] }
+      ];
+    };
+    datetimeComponent: {
+      allOf: [
+        { $ref: string },
+        { properties: { type: { const: string } }; required: string[] }
+      ];
+    };
+    dateRangeComponent: {
+      allOf: [
+        { $ref: string },
+        { properties: { type: { const: string } }; required: string[] }
+      ];
+    };
     textComponent: {
       allOf: [
         { $ref: string },
         { properties: { type: { const: string } }; required: string[] }
       ];
     };
+    signatureComponent: {
+      allOf: [
+        { $ref: string },
+        {
+          properties: {
+            type: { const: string };
+            props?: {
+              allOf: [
+                { $ref: string },
+                {
+                  type: string;
+                  properties: {
+                    signatureFormat?: { type: string; enum: string[] };
+                    width?: { type: string };
+                    height?: { type: string };
+                    penColor?: { type: string };
+                    allowTyped?: { type: string };
+                  };
+                }
+              ];
+            };
+          };
+          required: string[];
+        }
+      ];
+    };
+    matrixComponent: {
+      allOf: [
+        { $ref: string },
+        {
+          properties: {
+            type: { const: string };
+            props: {
+              allOf: [
+                { $ref: string },
+                {
+                  type: string;
+                  properties: {
+                    statements: {
+                      type: string;
+                      items: {
+                        type: string;
+                        properties: Record<string, { type: string }>;
+                        required: string[];
+                      };
+                    };
+                    options: {
+                      type: string;
+                      items: {
+                        type: string;
+                        properties: Record<string, { type: string }>;
+                        required: string[];
+                      };
+                    };
+                    multiple?: { type: string };
+                  };
+                  required: string[];
+                }
+              ];
+            };
+          };
+          required: string[];
+        }
+      ];
+    };
+    ratingComponent: {
+      allOf: [
+        { $ref: string },
+        {
+          properties: {
+            type: { const: string };
+            props?: {
+              allOf: [
+                { $ref: string },
+                {
+                  type: string;
+                  properties: {
+                    max?: { type: string };
+                    icon?: { type: string; enum: string[] };
+                    lowLabel?: { type: string };
+                    highLabel?: { type: string };
+                  };
+                }
+              ];
+            };
+          };
+          required: string[];
+        }
+      ];
+    };
+    npsComponent: {
+      allOf: [
+        { $ref: string },
+        {
+          properties: {
+            type: { const: string };
+            props?: {
+              allOf: [
+                { $ref: string },
+                {
+                  type: string;
+                  properties: {
+                    lowLabel?: { type: string };
+                    highLabel?: { type: string };
+                  };
+                }
+              ];
+            };
+          };
+          required: string[];
+        }
+      ];
+    };
+    rankingComponent: {
+      allOf: [
+        { $ref: string },
+        {
+          properties: {
+            type: { const: string };
+            props: {
+              allOf: [
+                { $ref: string },
+                {
+                  type: string;
+                  properties: {
+                    options: {
+                      type: string;
+                      items: {
+                        type: string;
+                        properties: Record<string, { type: string }>;
+                        required: string[];
+                      };
+                    };
+                  };
+                  required: string[];
+                }
+              ];
+            };
+          };
+          required: string[];
+        }
+      ];
+    };
     arrayItem: {
       type: string;
       properties: {
@@ -205,6 +378,14 @@ export interface UISchema {
         { $ref: string },
         { $ref: string },
         { $ref: string },
+        { $ref: string },
+        { $ref: string },
+        { $ref: string },
+        { $ref: string },
+        { $ref: string },
+        { $ref: string },
+        { $ref: string },
+        { $ref: string },
         { $ref: string }
       ];
     };
@@ -271,9 +452,11 @@ export interface UISchema {
           };
           required: string[];
         };
+        expression?: { type: string; description?: string };
         nextPage: { type: string };
       };
       required: string[];
+      anyOf?: Array<{ required: string[] }>;
     };
   };
 }
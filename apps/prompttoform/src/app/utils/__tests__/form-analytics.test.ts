@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import { FormDefinition, FormEvent } from '@devhelpr/react-forms';
+import {
+  AnalyticsRecordingContext,
+  applyFormEvent,
+  calculateFormFunnel,
+  createSessionsFromEventLogs,
+  formatDuration,
+  getTransitionKey,
+  THANK_YOU_PAGE_ID,
+} from '../form-analytics';
+import { FormAnalyticsSession } from '../../services/indexeddb';
+
+const formJson: FormDefinition = {
+  app: {
+    title: 'Membership',
+    pages: [
+      { id: 'start', title: 'Start', route: '/start', components: [] },
+      { id: 'student', title: 'Student', route: '/student', components: [] },
+      { id: 'details', title: 'Details', route: '/details', components: [] },
+    ],
+    thankYouPage: { title: 'Thanks' },
+  },
+};
+
+const createContext = (): AnalyticsRecordingContext => {
+  let id = 0;
+  return {
+    formSessionId: 'form-1',
+    source: 'preview',
+    createId: () => `session-${++id}`,
+  };
+};
+
+const base = { timestamp: 1000, formVersion: '1.0', language: 'en' };
+const enter = (pageId: string, timestamp: number): FormEvent => ({
+  ...base,
+  type: 'pageEnter',
+  pageId,
+  timestamp,
+});
+const leave = (pageId: string, timeSpent: number): FormEvent => ({
+  ...base,
+  type: 'pageLeave',
+  pageId,
+  timeSpent,
+});
+
+const createSession = (
+  pages: Array<[string, number]>,
+  status: FormAnalyticsSession['status']
+): FormAnalyticsSession => ({
+  id: `${status}-${pages.map(([pageId]) => pageId).join('-')}`,
+  formSessionId: 'form-1',
+  source: 'preview',
+  pageVisits: pages.map(([pageId, timeSpent]) => ({
+    pageId,
+    enteredAt: 0,
+    timeSpent,
+  })),
+  status,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+});
+
+describe('form analytics', () => {
+  it('should record page visits, time spent and the result of a session', () => {
+    const context = createContext();
+    let session = applyFormEvent(null, enter('start', 1000), context);
+    session = applyFormEvent(session, leave('start', 4000), context);
+    session = applyFormEvent(session, enter('details', 5000), context);
+    session = applyFormEvent(
+      session,
+      { ...base, type: 'submitSuccess', pageId: 'details' },
+      context
+    );
+    session = applyFormEvent(session, leave('details', 2000), context);
+
+    expect(session).toMatchObject({
+      id: 'session-1',
+      formSessionId: 'form-1',
+      formVersion: '1.0',
+      status: 'submitted',
+      pageVisits: [
+        { pageId: 'start', enteredAt: 1000, timeSpent: 4000 },
+        { pageId: 'details', enteredAt: 5000, timeSpent: 2000 },
+      ],
+    });
+
+    // Entering a page after submitting starts a new session
+    expect(applyFormEvent(session, enter('start', 9000), context)?.id).toBe(
+      'session-2'
+    );
+  });
+
+  it('should mark a session as abandoned', () => {
+    const context = createContext();
+    const session = applyFormEvent(null, enter('start', 1000), context);
+    const abandoned = applyFormEvent(
+      session,
+      {
+        ...base,
+        type: 'formAbandon',
+        pageId: 'start',
+        timeSpent: 3000,
+        totalTime: 3000,
+      },
+      context
+    );
+
+    expect(abandoned?.status).toBe('abandoned');
+    expect(abandoned?.pageVisits[0].timeSpent).toBe(3000);
+    expect(
+      applyFormEvent(
+        abandoned,
+        { ...base, type: 'fieldFocus', fieldId: 'name' },
+        context
+      )
+    ).toBe(abandoned);
+  });
+
+  it('should create sessions from event logs of deployed forms', () => {
+    const context = { ...createContext(), source: 'deployed' as const };
+    const sessions = createSessionsFromEventLogs(
+      [
+        [enter('start', 1000), leave('start', 2000)],
+        [enter('start', 1000), { ...base, type: 'submitSuccess' }],
+      ],
+      context
+    );
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0]).toMatchObject({
+      source: 'deployed',
+      status: 'active',
+      pageVisits: [{ pageId: 'start', timeSpent: 2000 }],
+    });
+    expect(sessions[1].status).toBe('submitted');
+  });
+
+  it('should calculate reach, drop-off and median time per page', () => {
+    const funnel = calculateFormFunnel(formJson, [
+      createSession(
+        [
+          ['start', 1000],
+          ['student', 2000],
+          ['details', 1000],
+        ],
+        'submitted'
+      ),
+      createSession(
+        [
+          ['start', 3000],
+          ['details', 5000],
+        ],
+        'submitted'
+      ),
+      createSession(
+        [
+          ['start', 5000],
+          ['student', 4000],
+        ],
+        'abandoned'
+      ),
+      createSession([['start', 2000]], 'abandoned'),
+    ]);
+
+    expect(funnel.sessionCount).toBe(4);
+    expect(funnel.submittedCount).toBe(2);
+    expect(funnel.pages.start).toEqual({
+      pageId: 'start',
+      reach: 4,
+      reachRate: 1,
+      dropOff: 1,
+      dropOffRate: 0.25,
+      medianTime: 2500,
+    });
+    expect(funnel.pages.student).toMatchObject({
+      reach: 2,
+      reachRate: 0.5,
+      dropOff: 1,
+      dropOffRate: 0.5,
+      medianTime: 3000,
+    });
+    expect(funnel.pages[THANK_YOU_PAGE_ID].reach).toBe(2);
+    expect(funnel.transitions[getTransitionKey('start', 'student')]).toBe(2);
+    expect(funnel.transitions[getTransitionKey('start', 'details')]).toBe(1);
+    expect(
+      funnel.transitions[getTransitionKey('details', THANK_YOU_PAGE_ID)]
+    ).toBe(2);
+  });
+
+  it('should format durations', () => {
+    expect(formatDuration(undefined)).toBe('–');
+    expect(formatDuration(45_400)).toBe('45s');
+    expect(formatDuration(125_000)).toBe('2m 5s');
+  });
+});
@@ -0,0 +1,241 @@
+import type { FormDefinition, FormEvent } from '@devhelpr/react-forms';
+import type {
+  FormAnalyticsPageVisit,
+  FormAnalyticsSession,
+} from '../services/indexeddb';
+
+// Node id FormFlow uses for the thank you page
+export const THANK_YOU_PAGE_ID = 'thank-you-page';
+
+export interface AnalyticsRecordingContext {
+  formSessionId: string;
+  source: FormAnalyticsSession['source'];
+  createId: () => string;
+}
+
+export interface PageFunnelStats {
+  pageId: string;
+  // Sessions that entered the page
+  reach: number;
+  // Share of all sessions that entered the page, 0 to 1
+  reachRate: number;
+  // Sessions that ended on the page without submitting the form
+  dropOff: number;
+  // Share of the sessions that entered the page and ended on it, 0 to 1
+  dropOffRate: number;
+  // Median time spent on the page per session in milliseconds
+  medianTime?: number;
+}
+
+export interface FormFunnel {
+  sessionCount: number;
+  submittedCount: number;
+  pages: Record<string, PageFunnelStats>;
+  // Number of times respondents went from one page to another, see getTransitionKey
+  transitions: Record<string, number>;
+}
+
+export const getTransitionKey = (fromPageId: string, toPageId: string) =>
+  `${fromPageId}->${toPageId}`;
+
+const createSession = (
+  event: FormEvent,
+  context: AnalyticsRecordingContext
+): FormAnalyticsSession => ({
+  id: context.createId(),
+  formSessionId: context.formSessionId,
+  source: context.source,
+  formVersion: event.formVersion,
+  language: event.language,
+  pageVisits: [],
+  status: 'active',
+  createdAt: new Date(event.timestamp),
+  updatedAt: new Date(event.timestamp),
+});
+
+// Sets the time spent on the last visit of a page that has no time yet
+const setTimeSpent = (
+  visits: FormAnalyticsPageVisit[],
+  pageId: string | undefined,
+  timeSpent: number
+): FormAnalyticsPageVisit[] | null => {
+  for (let index = visits.length - 1; index >= 0; index--) {
+    const visit = visits[index];
+    if (visit.pageId === pageId && visit.timeSpent === undefined) {
+      return visits.map((item, itemIndex) =>
+        itemIndex === index ? { ...item, timeSpent } : item
+      );
+    }
+  }
+  return null;
+};
+
+/**
+ * Applies a FormRenderer event to the analytics session of a respondent. A new
+ * session starts when a page is entered while there is no active session.
+ * Returns the given session when the event doesn't change it.
+ */
+export function applyFormEvent(
+  session: FormAnalyticsSession | null,
+  event: FormEvent,
+  context: AnalyticsRecordingContext
+): FormAnalyticsSession | null {
+  const updatedAt = new Date(event.timestamp);
+  switch (event.type) {
+    case 'pageEnter': {
+      const current =
+        session?.status === 'active' ? session : createSession(event, context);
+      return {
+        ...current,
+        pageVisits: [
+          ...current.pageVisits,
+          { pageId: event.pageId, enteredAt: event.timestamp },
+        ],
+        updatedAt,
+      };
+    }
+    case 'pageLeave': {
+      // Submitting leaves the last page after the session was submitted
+      const pageVisits =
+        session &&
+        setTimeSpent(session.pageVisits, event.pageId, event.timeSpent);
+      return session && pageVisits
+        ? { ...session, pageVisits, updatedAt }
+        : session;
+    }
+    case 'submitSuccess':
+      return session?.status === 'active'
+        ? { ...session, status: 'submitted', updatedAt }
+        : session;
+    case 'formAbandon':
+      if (session?.status !== 'active') {
+        return session;
+      }
+      return {
+        ...session,
+        pageVisits:
+          setTimeSpent(session.pageVisits, event.pageId, event.timeSpent) ??
+          session.pageVisits,
+        status: 'abandoned',
+        updatedAt,
+      };
+    default:
+      return session;
+  }
+}
+
+/**
+ * Creates sessions from the events of deployed forms, one list of events per
+ * respondent in the order they happened
+ */
+export function createSessionsFromEventLogs(
+  eventLogs: FormEvent[][],
+  context: AnalyticsRecordingContext
+): FormAnalyticsSession[] {
+  return eventLogs.flatMap((events) => {
+    const sessions: FormAnalyticsSession[] = [];
+    let session: FormAnalyticsSession | null = null;
+    events.forEach((event) => {
+      const next = applyFormEvent(session, event, context);
+      if (next && next.id !== session?.id) {
+        sessions.push(next);
+      } else if (next && session) {
+        sessions[sessions.length - 1] = next;
+      }
+      session = next;
+    });
+    return sessions;
+  });
+}
+
+const getMedian = (values: number[]): number | undefined => {
+  if (values.length === 0) {
+    return undefined;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+};
+
+/**
+ * Reach, drop-off and median time per page and the transitions between pages.
+ * Submitted sessions reach the thank you page when the form has one.
+ */
+export function calculateFormFunnel(
+  formJson: FormDefinition,
+  sessions: FormAnalyticsSession[]
+): FormFunnel {
+  const pageIds = (formJson?.app?.pages ?? []).map((page) => page.id);
+  const hasThankYouPage = !!formJson?.app?.thankYouPage;
+  const sessionCount = sessions.length;
+  const submittedCount = sessions.filter(
+    (session) => session.status === 'submitted'
+  ).length;
+
+  const transitions: Record<string, number> = {};
+  const reach: Record<string, number> = {};
+  const dropOff: Record<string, number> = {};
+  const timesPerPage: Record<string, number[]> = {};
+
+  sessions.forEach((session) => {
+    const visits = session.pageVisits;
+    const timeSpent: Record<string, number> = {};
+    visits.forEach((visit, index) => {
+      timeSpent[visit.pageId] =
+        (timeSpent[visit.pageId] ?? 0) + (visit.timeSpent ?? 0);
+      if (index > 0) {
+        const key = getTransitionKey(visits[index - 1].pageId, visit.pageId);
+        transitions[key] = (transitions[key] ?? 0) + 1;
+      }
+    });
+    Object.entries(timeSpent).forEach(([pageId, time]) => {
+      reach[pageId] = (reach[pageId] ?? 0) + 1;
+      timesPerPage[pageId] = [...(timesPerPage[pageId] ?? []), time];
+    });
+
+    const lastPageId = visits[visits.length - 1]?.pageId;
+    if (!lastPageId) {
+      return;
+    }
+    if (session.status !== 'submitted') {
+      dropOff[lastPageId] = (dropOff[lastPageId] ?? 0) + 1;
+    } else if (hasThankYouPage) {
+      const key = getTransitionKey(lastPageId, THANK_YOU_PAGE_ID);
+      transitions[key] = (transitions[key] ?? 0) + 1;
+    }
+  });
+
+  const getStats = (pageId: string, pageReach: number): PageFunnelStats => ({
+    pageId,
+    reach: pageReach,
+    reachRate: sessionCount > 0 ? pageReach / sessionCount : 0,
+    dropOff: dropOff[pageId] ?? 0,
+    dropOffRate: pageReach > 0 ? (dropOff[pageId] ?? 0) / pageReach : 0,
+    medianTime: getMedian(timesPerPage[pageId] ?? []),
+  });
+
+  const pages: Record<string, PageFunnelStats> = {};
+  pageIds.forEach((pageId) => {
+    pages[pageId] = getStats(pageId, reach[pageId] ?? 0);
+  });
+  if (hasThankYouPage) {
+    pages[THANK_YOU_PAGE_ID] = getStats(THANK_YOU_PAGE_ID, submittedCount);
+  }
+
+  return { sessionCount, submittedCount, pages, transitions };
+}
+
+// Duration for display, e.g. "45s" or "2m 5s"
+export const formatDuration = (milliseconds?: number): string => {
+  if (milliseconds === undefined) {
+    return '–';
+  }
+  const seconds = Math.round(milliseconds / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${seconds % 60}s`;
+};
@@ -362,11 +362,11 @@ export const validateFormStructure = (
 
     if (page.branches) {
       page.branches.forEach((branch, branchIndex) => {
-        if (!branch.condition) {
+        if (!branch.condition && !branch.expression) {
           errors.push(
-            `Page ${index} branch ${branchIndex} must have a condition`
+            `Page ${index} branch ${branchIndex} must have a condition or an expression`
           );
-        } else {
+        } else if (branch.condition) {
           if (!branch.condition.field) {
             errors.push(
               `Page ${index} branch ${branchIndex} condition must have a field`
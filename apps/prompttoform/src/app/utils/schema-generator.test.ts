@@ -436,6 +436,421 @@ describe('Enhanced Schema Generator', () => {
     expect(schema.description).toContain('visibility conditions');
   });
 
+  it('should describe file fields as a list of file references', () => {
+    const formWithFiles: FormDefinition = {
+      app: {
+        title: 'Application',
+        pages: [
+          {
+            id: 'documents',
+            title: 'Documents',
+            route: '/documents',
+            components: [
+              {
+                type: 'file',
+                id: 'attachments',
+                label: 'Attachments',
+                props: { accept: 'image/*,.pdf', multiple: true },
+                validation: {
+                  required: true,
+                  maxFiles: 3,
+                  maxFileSize: 1048576,
+                },
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    const schema = generateJsonSchema(formWithFiles);
+    const fileSchema = schema.properties.attachments;
+
+    expect(schema.required).toContain('attachments');
+    expect(fileSchema.type).toBe('array');
+    expect(fileSchema.minItems).toBe(1);
+    expect(fileSchema.maxItems).toBe(3);
+    expect(fileSchema.items.required).toEqual(['name', 'size', 'type']);
+    expect(fileSchema.items.properties.size.maximum).toBe(1048576);
+    expect(fileSchema.description).toContain('image/*,.pdf');
+  });
+
+  it('should describe signature fields as image data URLs', () => {
+    const consentForm: FormDefinition = {
+      app: {
+        title: 'Consent',
+        pages: [
+          {
+            id: 'consent',
+            title: 'Consent',
+            route: '/consent',
+            components: [
+              {
+                type: 'signature',
+                id: 'signature',
+                label: 'Signature',
+                validation: { required: true },
+              },
+              {
+                type: 'signature',
+                id: 'witness',
+                label: 'Witness',
+                props: { signatureFormat: 'svg', allowTyped: false },
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    const schema = generateJsonSchema(consentForm);
+    const signatureSchema = schema.properties.signature;
+    const witnessSchema = schema.properties.witness;
+
+    expect(schema.required).toEqual(['signature']);
+    expect(signatureSchema.type).toBe('string');
+    expect(signatureSchema.minLength).toBe(1);
+    expect(
+      new RegExp(signatureSchema.pattern).test('data:image/png;base64,')
+    ).toBe(true);
+    expect(
+      new RegExp(signatureSchema.pattern).test(
+        'data:image/svg+xml;charset=utf-8,'
+      )
+    ).toBe(true);
+    expect(
+      new RegExp(witnessSchema.pattern).test('data:image/png;base64,')
+    ).toBe(false);
+    expect(witnessSchema.description).toContain('image/svg+xml');
+  });
+
+  it('should describe matrix fields as answers keyed by statement id', () => {
+    const surveyForm: FormDefinition = {
+      app: {
+        title: 'Survey',
+        pages: [
+          {
+            id: 'survey',
+            title: 'Survey',
+            route: '/survey',
+            components: [
+              {
+                type: 'matrix',
+                id: 'satisfaction',
+                label: 'Satisfaction',
+                props: {
+                  statements: [
+                    { id: 'speed', label: 'Speed', required: true },
+                    { id: 'quality', label: 'Quality' },
+                  ],
+                  options: [
+                    { label: 'Unsatisfied', value: 'unsatisfied' },
+                    { label: 'Satisfied', value: 'satisfied' },
+                  ],
+                },
+              },
+              {
+                type: 'matrix',
+                id: 'channels',
+                label: 'Channels',
+                validation: { required: true },
+                props: {
+                  multiple: true,
+                  statements: [{ id: 'support', label: 'Support' }],
+                  options: ['Email', 'Phone'],
+                },
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    const schema = generateJsonSchema(surveyForm);
+    const satisfactionSchema = schema.properties.satisfaction;
+    const channelsSchema = schema.properties.channels;
+
+    expect(satisfactionSchema.type).toBe('object');
+    expect(satisfactionSchema.additionalProperties).toBe(false);
+    expect(satisfactionSchema.required).toEqual(['speed']);
+    expect(satisfactionSchema.properties.speed).toEqual({
+      type: 'string',
+      enum: ['unsatisfied', 'satisfied'],
+      title: 'Speed',
+    });
+    expect(channelsSchema.required).toEqual(['support']);
+    expect(channelsSchema.properties.support.type).toBe('array');
+    expect(channelsSchema.properties.support.items.enum).toEqual([
+      'Email',
+      'Phone',
+    ]);
+  });
+
+  it('should describe rating, NPS and ranking fields', () => {
+    const feedbackForm: FormDefinition = {
+      app: {
+        title: 'Feedback',
+        pages: [
+          {
+            id: 'feedback',
+            title: 'Feedback',
+            route: '/feedback',
+            components: [
+              {
+                type: 'rating',
+                id: 'service',
+                label: 'Service',
+                props: { max: 10, icon: 'emoji' },
+              },
+              { type: 'nps', id: 'recommend', label: 'Recommend' },
+              {
+                type: 'ranking',
+                id: 'priorities',
+                label: 'Priorities',
+                props: {
+                  options: [
+                    { label: 'Price', value: 'price' },
+                    { label: 'Speed', value: 'speed' },
+                  ],
+                },
+                validation: { required: true, minItems: 2 },
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    const schema = generateJsonSchema(feedbackForm);
+
+    expect(schema.properties.service).toMatchObject({
+      type: 'integer',
+      minimum: 1,
+      maximum: 10,
+    });
+    expect(schema.properties.recommend).toMatchObject({
+      type: 'integer',
+      minimum: 0,
+      maximum: 10,
+    });
+    expect(schema.properties.priorities).toMatchObject({
+      type: 'array',
+      items: { type: 'string', enum: ['price', 'speed'] },
+      uniqueItems: true,
+      minItems: 2,
+    });
+    expect(schema.required).toEqual(['priorities']);
+  });
+
+  it('should describe multi-selects and other answers', () => {
+    const profileForm: FormDefinition = {
+      app: {
+        title: 'Profile',
+        pages: [
+          {
+            id: 'profile',
+            title: 'Profile',
+            route: '/profile',
+            components: [
+              {
+                type: 'select',
+                id: 'languages',
+                label: 'Languages',
+                props: {
+                  multiple: true,
+                  options: [
+                    { label: 'English', value: 'en', group: 'Common' },
+                    { label: 'Dutch', value: 'nl' },
+                  ],
+                },
+                validation: { required: true, maxItems: 2 },
+              },
+              {
+                type: 'select',
+                id: 'country',
+                label: 'Country',
+                props: {
+                  searchable: true,
+                  allowOther: true,
+                  options: [{ label: 'Netherlands', value: 'NL' }],
+                },
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    const schema = generateJsonSchema(profileForm);
+
+    expect(schema.properties.languages).toMatchObject({
+      type: 'array',
+      items: { type: 'string', enum: ['en', 'nl'] },
+      uniqueItems: true,
+      minItems: 1,
+      maxItems: 2,
+    });
+    expect(schema.properties.country.type).toBe('string');
+    expect(schema.properties.country.enum).toBeUndefined();
+    expect(schema.properties.country.description).toContain(
+      'Netherlands or another answer as text'
+    );
+  });
+
+  it('should describe time, datetime and date-range fields', () => {
+    const bookingForm: FormDefinition = {
+      app: {
+        title: 'Booking',
+        pages: [
+          {
+            id: 'booking',
+            title: 'Booking',
+            route: '/booking',
+            components: [
+              {
+                type: 'date-range',
+                id: 'stay',
+                label: 'Stay',
+                validation: {
+                  required: true,
+                  minDate: 'today',
+                  maxDate: '2026-12-31',
+                },
+              },
+              {
+                type: 'time',
+                id: 'arrival',
+                label: 'Arrival',
+                validation: { minTime: '09:00', maxTime: '17:00' },
+              },
+              {
+                type: 'datetime',
+                id: 'callback',
+                label: 'Call me back at',
+                validation: { minDate: 'after stay' },
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    const schema = generateJsonSchema(bookingForm);
+
+    expect(schema.required).toEqual(['stay']);
+    expect(schema.properties.stay).toMatchObject({
+      type: 'object',
+      properties: {
+        start: { type: 'string', format: 'date', maximum: '2026-12-31' },
+        end: { type: 'string', format: 'date', maximum: '2026-12-31' },
+      },
+      required: ['start', 'end'],
+    });
+    expect(schema.properties.stay.properties.start.minimum).toBeUndefined();
+    expect(schema.properties.stay.description).toContain('(min: today)');
+    expect(schema.properties.arrival).toMatchObject({
+      type: 'string',
+      minimum: '09:00',
+      maximum: '17:00',
+    });
+    expect(new RegExp(schema.properties.arrival.pattern).test('14:30')).toBe(
+      true
+    );
+    expect(
+      new RegExp(schema.properties.callback.pattern).test('2025-06-01T14:30')
+    ).toBe(true);
+    expect(schema.properties.callback.minimum).toBeUndefined();
+    expect(schema.properties.callback.description).toContain(
+      '(min: after stay)'
+    );
+  });
+
+  it('should export cross-field rules that JSON schema can express', () => {
+    const contactForm: FormDefinition = {
+      app: {
+        title: 'Contact',
+        pages: [
+          {
+            id: 'contact',
+            title: 'Contact',
+            route: '/contact',
+            components: [
+              { type: 'input', id: 'email', label: 'Email' },
+              {
+                type: 'input',
+                id: 'phone',
+                label: 'Phone',
+                validation: { rules: [{ requireOneOf: ['email'] }] },
+              },
+              {
+                type: 'input',
+                id: 'confirmEmail',
+                label: 'Confirm email',
+                validation: { rules: [{ field: 'email', operator: '==' }] },
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    const schema = generateJsonSchema(contactForm);
+
+    expect(schema.allOf).toEqual([
+      {
+        anyOf: [
+          { properties: { phone: { minLength: 1 } }, required: ['phone'] },
+          { properties: { email: { minLength: 1 } }, required: ['email'] },
+        ],
+      },
+    ]);
+    expect(schema.properties.confirmEmail.description).toContain(
+      'Must be == email.'
+    );
+  });
+
+  it('should describe the raw values of masked and formatted inputs', () => {
+    const paymentForm: FormDefinition = {
+      app: {
+        title: 'Payment',
+        pages: [
+          {
+            id: 'payment',
+            title: 'Payment',
+            route: '/payment',
+            components: [
+              {
+                type: 'input',
+                id: 'postalCode',
+                label: 'Postal code',
+                props: { mask: '9999 AA' },
+              },
+              {
+                type: 'input',
+                id: 'amount',
+                label: 'Amount',
+                props: { format: 'currency', currency: 'EUR', decimals: 2 },
+                validation: { min: 1 },
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    const schema = generateJsonSchema(paymentForm);
+
+    expect(schema.properties.postalCode.type).toBe('string');
+    expect(schema.properties.postalCode.pattern).toBe(
+      '^\\d\\d\\d\\d[A-Z][A-Z]$'
+    );
+    expect(schema.properties.amount.type).toBe('number');
+    expect(schema.properties.amount.minimum).toBe(1);
+    expect(schema.properties.amount.description).toContain(
+      'Amount in EUR with at most 2 decimals.'
+    );
+  });
+
   it('should handle empty form definition', () => {
     const emptyForm: FormDefinition = {
       app: {
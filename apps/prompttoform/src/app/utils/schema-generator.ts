@@ -1,5 +1,20 @@
-import { FormDefinition, FormComponentFieldProps } from '@devhelpr/react-forms';
-import { FieldType } from '@devhelpr/react-forms';
+import {
+  FormDefinition,
+  FormComponentFieldProps,
+  isVisibilityCondition,
+  isFieldComparisonRule,
+  isRequireOneOfRule,
+  getCrossFieldValidationRules,
+  getDateFieldKind,
+  getDateLimits,
+  getMaskPattern,
+  getMatrixOptions,
+  getMatrixStatements,
+  getRatingMax,
+  getRankingOptions,
+  getSelectOptions,
+  parseDateFieldValue,
+} from '@devhelpr/react-forms';
 
 interface JsonSchema {
   $schema: string;
@@ -29,7 +44,7 @@ interface SchemaField {
   type?: string;
   title?: string;
   description?: string;
-  required?: boolean;
+  required?: boolean | string[];
   [key: string]: any;
 }
 
@@ -83,6 +98,8 @@ export function generateJsonSchema(formDefinition: FormDefinition): JsonSchema {
     addDependentValidation(schema, formDefinition);
   }
 
+  addCrossFieldValidation(schema, formDefinition);
+
   return schema;
 }
 
@@ -195,9 +212,11 @@ function hasFieldDependencies(
   for (const page of formDefinition.app.pages) {
     if (page.branches && page.branches.length > 0) {
       for (const branch of page.branches) {
-        const conditionField = branch.condition.field;
         // If this field is the condition field for a branch, it has dependencies
-        if (conditionField === fieldId) {
+        if (branch.condition?.field === fieldId) {
+          return true;
+        }
+        if (branch.expression?.match(/[A-Za-z_]\w*/g)?.includes(fieldId)) {
           return true;
         }
 
@@ -272,10 +291,24 @@ function processComponents(
   });
 }
 
-function isDataField(type: FieldType): boolean {
-  return ['input', 'textarea', 'checkbox', 'radio', 'select', 'date'].includes(
-    type
-  );
+function isDataField(type: FormComponentFieldProps['type']): boolean {
+  return [
+    'input',
+    'textarea',
+    'checkbox',
+    'radio',
+    'select',
+    'date',
+    'time',
+    'datetime',
+    'date-range',
+    'file',
+    'signature',
+    'matrix',
+    'rating',
+    'nps',
+    'ranking',
+  ].includes(type);
 }
 
 function generateFieldSchema(
@@ -310,7 +343,34 @@ function generateFieldSchema(
     case 'select':
       return generateSelectSchema(component, baseSchema);
     case 'date':
+    case 'time':
+    case 'datetime':
       return generateDateSchema(component, baseSchema);
+    case 'date-range':
+      return generateDateRangeSchema(component, baseSchema);
+    case 'file':
+      return generateFileSchema(component, baseSchema);
+    case 'signature':
+      return generateSignatureSchema(component, baseSchema);
+    case 'matrix':
+      return generateMatrixSchema(component, baseSchema);
+    case 'rating':
+      return {
+        ...baseSchema,
+        type: 'integer',
+        minimum: 1,
+        maximum: getRatingMax(component),
+      };
+    case 'nps':
+      return {
+        ...baseSchema,
+        type: 'integer',
+        minimum: 0,
+        maximum: 10,
+        description: `${baseSchema.description || ''} Net Promoter Score.`,
+      };
+    case 'ranking':
+      return generateRankingSchema(component, baseSchema);
     default:
       return null;
   }
@@ -335,6 +395,14 @@ function generateFieldDescription(
     description += 'This field has visibility conditions.';
   }
 
+  // Comparisons with other fields can't be expressed in JSON schema
+  getCrossFieldValidationRules(component)
+    .filter(isFieldComparisonRule)
+    .forEach((rule) => {
+      if (description) description += ' ';
+      description += `Must be ${rule.operator} ${rule.field}.`;
+    });
+
   return description;
 }
 
@@ -344,6 +412,35 @@ function generateInputSchema(
 ): SchemaField {
   const inputType = component.props?.inputType || 'text';
 
+  // Masked and formatted inputs submit the raw value
+  if (component.props?.mask) {
+    return {
+      ...baseSchema,
+      type: 'string',
+      pattern: getMaskPattern(component.props.mask),
+      description: `${baseSchema.description || ''} Value for the mask "${
+        component.props.mask
+      }" without its literal characters.`,
+    };
+  }
+  if (
+    component.props?.format === 'number' ||
+    component.props?.format === 'currency'
+  ) {
+    const decimals = component.props.decimals;
+    return {
+      ...baseSchema,
+      type: 'number',
+      minimum: component.validation?.min,
+      maximum: component.validation?.max,
+      description: `${baseSchema.description || ''} ${
+        component.props.format === 'currency'
+          ? `Amount in ${component.props.currency ?? 'EUR'}`
+          : 'Numeric value'
+      }${decimals !== undefined ? ` with at most ${decimals} decimals` : ''}.`,
+    };
+  }
+
   switch (inputType) {
     case 'email':
       return {
@@ -450,6 +547,47 @@ function generateSelectSchema(
   component: FormComponentFieldProps,
   baseSchema: SchemaField
 ): SchemaField {
+  // Multi-selects are lists of option values, other answers are free text
+  if (
+    component.type === 'select' &&
+    (component.props?.multiple || component.props?.allowOther)
+  ) {
+    const selectOptions = getSelectOptions(component);
+    const optionLabels = selectOptions.map((option) => option.label).join(', ');
+    const otherText = component.props.allowOther
+      ? ' or another answer as text'
+      : '';
+    const item = component.props.allowOther
+      ? { type: 'string' }
+      : {
+          type: 'string',
+          enum: selectOptions.map((option) => option.value),
+        };
+
+    if (component.props.multiple) {
+      return {
+        ...baseSchema,
+        type: 'array',
+        items: item,
+        uniqueItems: true,
+        minItems:
+          component.validation?.minItems ??
+          (component.validation?.required ? 1 : undefined),
+        maxItems: component.validation?.maxItems,
+        description: `${
+          baseSchema.description || ''
+        } Values of the chosen options: ${optionLabels}${otherText}.`,
+      };
+    }
+    return {
+      ...baseSchema,
+      ...item,
+      description: `${
+        baseSchema.description || ''
+      } One of the available options: ${optionLabels}${otherText}.`,
+    };
+  }
+
   // Check both component.props.options and component.options
   const options =
     (component.props as any)?.options || (component as any)?.options;
@@ -483,28 +621,203 @@ function generateSelectSchema(
   };
 }
 
+const dateFieldNames = {
+  date: 'Date',
+  time: 'Time',
+  datetime: 'Local date and time',
+};
+
+// Only ISO limits fit in the schema, relative limits ("today+30d") and
+// references to other fields are described
+function getDateSchemaLimits(component: FormComponentFieldProps) {
+  const kind = getDateFieldKind(component.type) ?? 'date';
+  const { min, max } = getDateLimits(component);
+  const isIsoValue = (limit?: string) =>
+    !!limit && !!parseDateFieldValue(limit, kind);
+  return {
+    minimum: isIsoValue(min) ? min : undefined,
+    maximum: isIsoValue(max) ? max : undefined,
+    description: `${min ? ` (min: ${min})` : ''}${max ? ` (max: ${max})` : ''}`,
+  };
+}
+
+function getDateValueSchema(type: FormComponentFieldProps['type']) {
+  switch (getDateFieldKind(type)) {
+    case 'time':
+      return { type: 'string', pattern: '^\\d{2}:\\d{2}$' };
+    case 'datetime':
+      return {
+        type: 'string',
+        pattern: '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}$',
+      };
+    default:
+      return { type: 'string', format: 'date' };
+  }
+}
+
 function generateDateSchema(
   component: FormComponentFieldProps,
   baseSchema: SchemaField
 ): SchemaField {
+  const kind = getDateFieldKind(component.type) ?? 'date';
+  const { minimum, maximum, description } = getDateSchemaLimits(component);
+
+  return {
+    ...baseSchema,
+    ...getDateValueSchema(component.type),
+    minimum,
+    maximum,
+    description: `${baseSchema.description || ''} ${
+      dateFieldNames[kind]
+    } field${description}.`,
+  };
+}
+
+function generateDateRangeSchema(
+  component: FormComponentFieldProps,
+  baseSchema: SchemaField
+): SchemaField {
+  const { minimum, maximum, description } = getDateSchemaLimits(component);
+  const dateSchema = { type: 'string', format: 'date', minimum, maximum };
+
+  return {
+    ...baseSchema,
+    type: 'object',
+    properties: {
+      start: dateSchema,
+      end: dateSchema,
+    },
+    required: ['start', 'end'],
+    description: `${
+      baseSchema.description || ''
+    } Date range field with the first and last day${description}.`,
+  };
+}
+
+function generateFileSchema(
+  component: FormComponentFieldProps,
+  baseSchema: SchemaField
+): SchemaField {
+  const accept = component.props?.accept;
+  const maxFiles = component.props?.multiple
+    ? component.validation?.maxFiles
+    : 1;
+  const maxFileSize = component.validation?.maxFileSize;
+
+  return {
+    ...baseSchema,
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        size: {
+          type: 'integer',
+          minimum: 0,
+          maximum: maxFileSize,
+        },
+        type: { type: 'string' },
+        url: { type: 'string', format: 'uri-reference' },
+        id: { type: 'string' },
+      },
+      required: ['name', 'size', 'type'],
+    },
+    minItems: component.validation?.required ? 1 : undefined,
+    maxItems: maxFiles,
+    description: `${baseSchema.description || ''} File references${
+      accept ? ` (accepted types: ${accept})` : ''
+    }${maxFileSize ? ` (max size per file: ${maxFileSize} bytes)` : ''}.`,
+  };
+}
+
+function generateSignatureSchema(
+  component: FormComponentFieldProps,
+  baseSchema: SchemaField
+): SchemaField {
+  // Typed names are always SVG images
+  const imageTypes = [
+    component.props?.signatureFormat === 'svg' ? 'svg+xml' : 'png',
+  ];
+  if (component.props?.allowTyped !== false && imageTypes[0] !== 'svg+xml') {
+    imageTypes.push('svg+xml');
+  }
+
   return {
     ...baseSchema,
     type: 'string',
-    format: 'date',
-    minimum: component.validation?.minDate,
-    maximum: component.validation?.maxDate,
-    description: `${baseSchema.description || ''} Date field${
-      component.validation?.minDate
-        ? ` (min: ${component.validation.minDate})`
-        : ''
-    }${
-      component.validation?.maxDate
-        ? ` (max: ${component.validation.maxDate})`
-        : ''
+    pattern: `^data:image/(${imageTypes
+      .map((imageType) => imageType.replace('+', '\\+'))
+      .join('|')})[;,]`,
+    minLength: component.validation?.required ? 1 : undefined,
+    description: `${
+      baseSchema.description || ''
+    } Signature as a data URL of an image (${imageTypes
+      .map((imageType) => `image/${imageType}`)
+      .join(' or ')}).`,
+  };
+}
+
+function generateMatrixSchema(
+  component: FormComponentFieldProps,
+  baseSchema: SchemaField
+): SchemaField {
+  const statements = getMatrixStatements(component);
+  const optionValues = getMatrixOptions(component).map(
+    (option) => option.value
+  );
+  const answerSchema = component.props?.multiple
+    ? {
+        type: 'array',
+        items: { type: 'string', enum: optionValues },
+        uniqueItems: true,
+        minItems: 1,
+      }
+    : { type: 'string', enum: optionValues };
+  const requiredStatements = statements
+    .filter((statement) => statement.required || component.validation?.required)
+    .map((statement) => statement.id);
+
+  return {
+    ...baseSchema,
+    type: 'object',
+    properties: Object.fromEntries(
+      statements.map((statement) => [
+        statement.id,
+        { ...answerSchema, title: statement.label },
+      ])
+    ),
+    required: requiredStatements.length > 0 ? requiredStatements : undefined,
+    additionalProperties: false,
+    description: `${
+      baseSchema.description || ''
+    } Answers keyed by statement id${
+      component.props?.multiple ? ', each a list of options' : ''
     }.`,
   };
 }
 
+function generateRankingSchema(
+  component: FormComponentFieldProps,
+  baseSchema: SchemaField
+): SchemaField {
+  return {
+    ...baseSchema,
+    type: 'array',
+    items: {
+      type: 'string',
+      enum: getRankingOptions(component).map((option) => option.value),
+    },
+    uniqueItems: true,
+    minItems:
+      component.validation?.minItems ??
+      (component.validation?.required ? 1 : undefined),
+    maxItems: component.validation?.maxItems,
+    description: `${
+      baseSchema.description || ''
+    } Option values from first to last rank.`,
+  };
+}
+
 function generateArraySchema(
   component: FormComponentFieldProps,
   page?: any
@@ -564,9 +877,11 @@ function addConditionalValidation(
 
   formDefinition.app.pages.forEach((page) => {
     page.components.forEach((component) => {
+      // Condition groups and expressions can't be expressed as JSON schema rules
       if (
         component.visibilityConditions &&
-        component.visibilityConditions.length > 0
+        component.visibilityConditions.length > 0 &&
+        component.visibilityConditions.every(isVisibilityCondition)
       ) {
         conditionalFields.set(component.id, component.visibilityConditions);
       }
@@ -687,6 +1002,10 @@ function addDependentValidation(
   formDefinition.app.pages.forEach((page) => {
     if (page.branches && page.branches.length > 0) {
       page.branches.forEach((branch) => {
+        // Branch expressions can't be expressed as JSON schema conditions
+        if (!branch.condition) {
+          return;
+        }
         const conditionField = branch.condition.field;
         const conditionValue = branch.condition.value;
 
@@ -754,6 +1073,44 @@ function addDependentValidation(
   }
 }
 
+function addCrossFieldValidation(
+  schema: JsonSchema,
+  formDefinition: FormDefinition
+): void {
+  const ruleConditions: Record<string, unknown>[] = [];
+
+  const collectRules = (components: FormComponentFieldProps[]) => {
+    components.forEach((component) => {
+      if (component.type === 'section' && component.children) {
+        collectRules(component.children);
+        return;
+      }
+      getCrossFieldValidationRules(component)
+        .filter(isRequireOneOfRule)
+        .forEach((rule) => {
+          // At least one of the fields has a non-empty value
+          ruleConditions.push({
+            anyOf: [component.id, ...rule.requireOneOf].map((field) => ({
+              properties: { [field]: { minLength: 1 } },
+              required: [field],
+            })),
+          });
+        });
+    });
+  };
+
+  formDefinition.app.pages.forEach((page) => {
+    collectRules(page.components);
+  });
+
+  if (ruleConditions.length > 0) {
+    if (!schema.allOf) {
+      schema.allOf = [];
+    }
+    schema.allOf.push(...ruleConditions);
+  }
+}
+
 function getConditionOperator(operator: string): string {
   switch (operator) {
     case '==':
@@ -1,1110 +1,890 @@
-import { FormSchema, Component, Action } from "./types";
-
-interface Page {
+import {
+  ActionContext,
+  ActionMessage,
+  ActionType,
+  DataSourceService,
+  FormCore,
+  FormCoreOptions,
+  FormValues,
+  Option,
+  formatInputValue,
+  getEditableInputValue,
+  getInputMode,
+  hasInputFormat,
+  parseInputValue,
+  runActions,
+  toActionList,
+} from "@devhelpr/react-forms/core";
+import { Component, FormSchema, Page } from "./types";
+
+const inputClassName =
+  "mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500";
+
+type ArrayItemValue = Record<string, unknown>;
+
+interface FocusState {
   id: string;
-  title: string;
-  route: string;
-  layout?: string;
-  components: Component[];
-  isEndPage?: boolean;
-  branches?: Array<{
-    condition: {
-      field: string;
-      operator: "==" | "!=" | ">" | "<" | ">=" | "<=";
-      value: string;
-    };
-    nextPage: string;
-  }>;
-  nextPage?: string;
-}
-
-export interface ExtendedFormSchema extends FormSchema {
-  pages: Page[];
+  selectionStart: number | null;
+  selectionEnd: number | null;
 }
 
+/**
+ * Renders a form with the DOM. Values, validation, visibility, branching and
+ * navigation are handled by FormCore, the engine FormRenderer uses as well, so
+ * an exported form behaves like the preview.
+ */
 export class VanillaFormCore {
-  private _schema: ExtendedFormSchema;
+  private _schema: FormSchema;
   private container: HTMLElement;
-  private currentPage: Page | null = null;
-  private formData: Record<string, unknown> = {};
-  private pageHistory: string[] = [];
-  private branchHistory: Array<{ pageId: string; branchIndex: number | null }> =
-    [];
-  private touchedFields: Set<string> = new Set();
-  private validationErrors: Record<string, string> = {};
-
-  constructor(schema: ExtendedFormSchema, containerId: string) {
+  private formCore: FormCore;
+  private dataSourceService: DataSourceService;
+  // Message shown by the showMessage action
+  private actionMessage: ActionMessage | null = null;
+  // Describes the rendered page, the page is only rebuilt when it changes so
+  // inputs keep their focus while typing
+  private renderedLayout = "";
+  // Update error messages and calculated texts of the rendered page
+  private updaters: Array<() => void> = [];
+
+  constructor(
+    schema: FormSchema,
+    containerId: string,
+    options: FormCoreOptions = {}
+  ) {
     this._schema = schema;
     const container = document.getElementById(containerId);
     if (!container) {
       throw new Error(`Container with id "${containerId}" not found`);
     }
     this.container = container;
+    this.formCore = new FormCore(schema, {
+      ...options,
+      onSubmit: (values) => {
+        // Emit a custom event with the form data
+        this.container.dispatchEvent(
+          new CustomEvent("formSubmit", { detail: values, bubbles: true })
+        );
+        return options.onSubmit?.(values);
+      },
+    });
+    this.dataSourceService = new DataSourceService(schema.app.dataSources);
   }
 
   public init(): void {
-    this.renderTitle();
-    this.navigateToPage(this._schema.app.pages[0].id);
+    this.formCore.subscribe(() => this.render());
+    this.render();
+    this.formCore.start();
   }
 
-  private renderTitle(): void {
-    const title = document.createElement("h1");
-    title.className = "text-2xl font-semibold text-gray-900 mb-6";
-    title.textContent = this._schema.app.title;
-    this.container.appendChild(title);
+  public get core(): FormCore {
+    return this.formCore;
   }
 
-  public navigateToPage(
-    pageId: string,
-    branchIndex: number | null = null
-  ): void {
-    const page = this._schema.app.pages.find((p) => p.id === pageId);
-    if (!page) {
-      throw new Error(`Page with id "${pageId}" not found`);
-    }
-
-    // Validate current page before navigation
-    if (this.currentPage) {
-      const isValid = this.validateForm();
-      if (!isValid) {
-        return; // Don't navigate if validation fails
-      }
-    }
+  public get schema(): FormSchema {
+    return this._schema;
+  }
 
-    this.currentPage = page;
-    this.pageHistory.push(pageId);
-    this.branchHistory.push({ pageId, branchIndex });
-    this.container.innerHTML = "";
-    this.renderTitle();
-    this.renderPage(page);
+  public navigateToPage(pageId: string): void {
+    this.formCore.goTo(pageId);
   }
 
-  private renderPage(page: Page): void {
-    const form = document.createElement("form");
-    form.className = "space-y-6 max-w-md mx-auto";
+  public validateForm(): boolean {
+    return this.formCore.validate();
+  }
 
-    page.components.forEach((component) => {
-      if (this.isComponentVisible(component)) {
-        const element = this.renderComponent(component);
-        if (element) {
-          form.appendChild(element);
-        }
-      }
-    });
+  public handleNext(): void {
+    this.formCore.next();
+  }
 
-    this.container.appendChild(form);
+  public handlePrevious(): void {
+    this.formCore.previous();
   }
 
-  private isComponentVisible(component: Component): boolean {
-    if (!component.visibilityConditions) return true;
-
-    return component.visibilityConditions.every((condition) => {
-      const fieldValue = this.formData[condition.field];
-      if (fieldValue === undefined) return false;
-
-      switch (condition.operator) {
-        case "==":
-          return String(fieldValue) === String(condition.value);
-        case "!=":
-          return String(fieldValue) !== String(condition.value);
-        case ">":
-          return Number(fieldValue) > Number(condition.value);
-        case "<":
-          return Number(fieldValue) < Number(condition.value);
-        case ">=":
-          return Number(fieldValue) >= Number(condition.value);
-        case "<=":
-          return Number(fieldValue) <= Number(condition.value);
-        default:
-          return true;
-      }
-    });
+  public handleFormSubmit(): Promise<boolean> {
+    return this.formCore.submit();
   }
 
-  public renderComponent(component: Component): HTMLElement | null {
-    const wrapper = document.createElement("div");
-    wrapper.className = "space-y-2";
-    wrapper.id = `component-${component.id}`;
+  private render(): void {
+    const layout = this.getLayout();
+    if (layout !== this.renderedLayout) {
+      const focus = this.getFocus();
+      this.renderedLayout = layout;
+      this.updaters = [];
+      this.container.innerHTML = "";
+      this.renderTitle();
 
-    if (component.label) {
-      const label = document.createElement("label");
-      label.htmlFor = component.id;
-      label.className = "block text-sm font-medium text-gray-700";
-      label.textContent = component.label;
-      if (component.validation?.required) {
-        const requiredMarker = document.createElement("span");
-        requiredMarker.textContent = " *";
-        requiredMarker.className = "text-red-500";
-        label.appendChild(requiredMarker);
+      const page = this.formCore.currentPage;
+      if (this.formCore.getState().isCompleted) {
+        this.renderThankYouPage();
+      } else if (page) {
+        this.renderPage(page);
       }
-      wrapper.appendChild(label);
-    }
-
-    let element: HTMLElement | null = null;
-
-    switch (component.type) {
-      case "input":
-        element = this.createTextInput(component);
-        break;
-      case "text":
-        element = this.createText(component);
-        break;
-      case "textarea":
-        element = this.createTextarea(component);
-        break;
-      case "select":
-        element = this.createSelect(component);
-        break;
-      case "radio":
-        element = this.createRadioGroup(component);
-        break;
-      case "checkbox":
-        element = this.createCheckbox(component);
-        break;
-      case "array":
-        element = this.createArrayField(component);
-        break;
-      default:
-        element = document.createElement("div");
-        element.textContent = `Unsupported component type: ${component.type}`;
+      this.restoreFocus(focus);
     }
+    this.updaters.forEach((update) => update());
+  }
 
-    if (element) {
-      // Only restore form data and setup validation for input elements
-      if (
-        element instanceof HTMLInputElement ||
-        element instanceof HTMLTextAreaElement ||
-        element instanceof HTMLSelectElement
-      ) {
-        if (this.formData[component.id]) {
-          element.value = this.formData[component.id] as string;
-        }
-        this.setupValidation(component, element);
-      }
-      this.setupEventHandlers(component, element);
-      wrapper.appendChild(element);
+  // The field that has the focus, so it can keep it when the page is rebuilt
+  private getFocus(): FocusState | null {
+    const element = document.activeElement;
+    if (!element?.id || !this.container.contains(element)) {
+      return null;
     }
-
-    return wrapper;
+    const input = element as HTMLInputElement;
+    return {
+      id: element.id,
+      selectionStart:
+        typeof input.selectionStart === "number" ? input.selectionStart : null,
+      selectionEnd:
+        typeof input.selectionEnd === "number" ? input.selectionEnd : null,
+    };
   }
 
-  private createTextInput(component: Component): HTMLInputElement {
-    const input = document.createElement("input");
-    input.type = component.props?.type || "text";
-    input.id = component.id;
-    input.name = component.id;
-    input.className = `mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
-      this.validationErrors[component.id] ? "border-red-500" : ""
-    }`;
-
-    if (component.props) {
-      Object.entries(component.props).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          input.setAttribute(key, String(value));
-        }
-      });
+  private restoreFocus(focus: FocusState | null): void {
+    const element = focus && document.getElementById(focus.id);
+    if (!element || !this.container.contains(element)) {
+      return;
+    }
+    element.focus();
+    if (focus.selectionStart !== null && focus.selectionEnd !== null) {
+      (element as HTMLInputElement).setSelectionRange(
+        focus.selectionStart,
+        focus.selectionEnd
+      );
     }
-
-    return input;
   }
 
-  private createTextarea(component: Component): HTMLTextAreaElement {
-    const textarea = document.createElement("textarea");
-    textarea.id = component.id;
-    textarea.name = component.id;
-    textarea.className = `mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
-      this.validationErrors[component.id] ? "border-red-500" : ""
-    }`;
-
-    if (component.props) {
-      Object.entries(component.props).forEach(([key, value]) => {
-        textarea.setAttribute(key, value.toString());
-      });
-    }
+  private getLayout(): string {
+    const { currentPageIndex, isCompleted, values } = this.formCore.getState();
+    const describe = (components: Component[], parentId?: string): string =>
+      components
+        .filter((component) => this.formCore.isComponentVisible(component))
+        .map((component) => {
+          const fieldId = this.getFieldId(component, parentId);
+          const items = values[fieldId];
+          const itemCount = Array.isArray(items) ? `[${items.length}]` : "";
+          return `${fieldId}${itemCount}(${describe(
+            component.children ?? [],
+            fieldId
+          )})`;
+        })
+        .join(",");
+    return `${currentPageIndex}|${isCompleted}|${describe(
+      this.formCore.currentPage?.components ?? []
+    )}`;
+  }
 
-    return textarea;
+  private renderTitle(): void {
+    const title = document.createElement("h1");
+    title.className = "text-2xl font-semibold text-gray-900 mb-6";
+    title.textContent = this.formCore.translationService.translateApp(
+      "title",
+      this._schema.app.title
+    );
+    this.container.appendChild(title);
   }
 
-  private createSelect(component: Component): HTMLSelectElement {
-    const select = document.createElement("select");
-    select.id = component.id;
-    select.name = component.id;
-    select.className = `mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
-      this.validationErrors[component.id] ? "border-red-500" : ""
-    }`;
-
-    if (component.props?.options) {
-      component.props.options.forEach(
-        (option: { value: string; label: string }) => {
-          const optionElement = document.createElement("option");
-          optionElement.value = option.value;
-          optionElement.textContent = option.label;
-          select.appendChild(optionElement);
-        }
-      );
+  private renderThankYouPage(): void {
+    const { translationService } = this.formCore;
+    const thankYouPage = this._schema.app.thankYouPage;
+
+    const wrapper = document.createElement("div");
+    wrapper.className = "space-y-4 max-w-md mx-auto";
+
+    const title = document.createElement("h2");
+    title.className = "text-xl font-bold text-green-700";
+    title.textContent =
+      thankYouPage?.title || translationService.translateUI("thankYouTitle");
+    wrapper.appendChild(title);
+
+    const message = document.createElement("p");
+    message.className = "text-gray-700";
+    message.textContent =
+      thankYouPage?.message ||
+      translationService.translateUI("thankYouMessage");
+    wrapper.appendChild(message);
+
+    if (thankYouPage?.showRestartButton) {
+      const restartButton = document.createElement("button");
+      restartButton.type = "button";
+      restartButton.className =
+        "px-4 py-2 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700";
+      restartButton.textContent =
+        translationService.translateUI("restartButton");
+      restartButton.addEventListener("click", () => this.formCore.reset());
+      wrapper.appendChild(restartButton);
     }
 
-    return select;
+    this.container.appendChild(wrapper);
   }
 
-  private createText(component: Component): HTMLElement {
-    const text = document.createElement("p");
-    text.id = component.id;
-    text.className = "text-gray-600";
-    text.textContent = component.props?.text || "";
-    return text;
-  }
-
-  private createRadioGroup(component: Component): HTMLDivElement {
-    const container = document.createElement("div");
-    container.className = "space-y-2";
+  private renderPage(page: Page): void {
+    const form = document.createElement("form");
+    form.className = "space-y-6 max-w-md mx-auto";
+    form.noValidate = true;
+    form.addEventListener("submit", (event) => {
+      event.preventDefault();
+      this.formCore.next();
+    });
 
-    if (component.props?.options) {
-      component.props.options.forEach(
-        (option: { value: string; label: string }) => {
-          const wrapper = document.createElement("div");
-          wrapper.className = "flex items-center";
-
-          const input = document.createElement("input");
-          input.type = "radio";
-          input.id = `${component.id}-${option.value}`;
-          input.name = component.id;
-          input.value = option.value;
-          input.className =
-            "h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300";
-
-          // Set initial value if it exists in formData
-          if (this.formData[component.id] === option.value) {
-            input.checked = true;
-          }
+    const pageTitle = document.createElement("h2");
+    pageTitle.className = "text-lg font-medium text-gray-900";
+    pageTitle.textContent = this.formCore.translationService.translatePage(
+      this.formCore.getState().currentPageIndex,
+      "title",
+      page.title
+    );
+    form.appendChild(pageTitle);
 
-          const label = document.createElement("label");
-          label.htmlFor = input.id;
-          label.className = "ml-3 block text-sm font-medium text-gray-700";
-          label.textContent = option.label;
+    this.formCore.getVisibleComponents().forEach((component) => {
+      form.appendChild(this.renderComponent(component));
+    });
 
-          wrapper.appendChild(input);
-          wrapper.appendChild(label);
-          container.appendChild(wrapper);
-        }
+    const submitError = document.createElement("p");
+    submitError.className = "text-sm text-red-600";
+    submitError.setAttribute("role", "alert");
+    this.updaters.push(() => {
+      submitError.textContent = this.formCore.getState().submitError ?? "";
+    });
+    form.appendChild(submitError);
+
+    const actionMessage = document.createElement("div");
+    this.updaters.push(() => {
+      const message = this.actionMessage;
+      actionMessage.textContent = message?.text ?? "";
+      actionMessage.setAttribute(
+        "role",
+        message?.type === "error" ? "alert" : "status"
       );
-    }
+      actionMessage.className =
+        message?.type === "error" ? "p-4 text-red-500" : "p-4 text-gray-700";
+    });
+    form.appendChild(actionMessage);
 
-    return container;
+    this.container.appendChild(form);
   }
 
-  private createCheckbox(component: Component): HTMLDivElement {
+  public renderComponent(component: Component, parentId?: string): HTMLElement {
+    const fieldId = this.getFieldId(component, parentId);
     const wrapper = document.createElement("div");
-    wrapper.className = "flex items-center";
-
-    const input = document.createElement("input");
-    input.type = "checkbox";
-    input.id = component.id;
-    input.name = component.id;
-    input.className =
-      "h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded";
+    wrapper.className = "space-y-2";
+    wrapper.id = `component-${fieldId}`;
 
-    // Set initial value if it exists in formData
-    if (this.formData[component.id] !== undefined) {
-      input.checked = Boolean(this.formData[component.id]);
+    switch (component.type) {
+      case "text":
+        wrapper.appendChild(this.createText(component));
+        return wrapper;
+      case "section":
+      case "form":
+        wrapper.appendChild(this.createSection(component, fieldId));
+        return wrapper;
+      case "confirmation":
+        wrapper.appendChild(this.createSummary());
+        return wrapper;
+      case "button":
+        wrapper.appendChild(this.createButton(component, fieldId));
+        return wrapper;
+      case "checkbox":
+        // The checkbox renders its own label
+        break;
+      default:
+        wrapper.appendChild(this.createLabel(component, fieldId));
     }
 
-    const label = document.createElement("label");
-    label.htmlFor = component.id;
-    label.className = "ml-3 block text-sm font-medium text-gray-700";
-    label.textContent = component.label || "";
-
-    wrapper.appendChild(input);
-    wrapper.appendChild(label);
+    const element =
+      component.type === "array"
+        ? this.createArrayField(component, fieldId)
+        : this.createField(
+            component,
+            fieldId,
+            this.formCore.getState().values[fieldId],
+            (value) => this.formCore.setValue(fieldId, value)
+          );
+    wrapper.appendChild(element);
+    wrapper.appendChild(this.createErrorContainer(fieldId, element));
     return wrapper;
   }
 
-  private createArrayField(component: Component): HTMLDivElement {
-    const container = document.createElement("div");
-    container.className = "space-y-4";
-    container.id = component.id;
-
-    // Initialize array data if not exists
-    if (!this.formData[component.id]) {
-      this.formData[component.id] = [];
+  // Runs the actions of an event handler with the same runtime as FormRenderer
+  private async runEventActions(
+    handlerActions: ActionType | ActionType[] | undefined,
+    fieldId: string
+  ): Promise<void> {
+    const actionList = toActionList(handlerActions);
+    if (actionList.length === 0) {
+      return;
     }
 
-    const items = this.formData[component.id] as Record<string, unknown>[];
-    const arrayItems = component.arrayItems || [];
+    const context: ActionContext = {
+      fieldId,
+      getValues: () => this.formCore.getState().values,
+      setValue: (id, value) => {
+        // Fields only read their value when they are created
+        this.renderedLayout = "";
+        this.formCore.setValues({ [id]: value });
+      },
+      navigate: (pageId) => this.formCore.goTo(pageId),
+      showMessage: (text, type = "info") =>
+        this.showActionMessage({ text, type }),
+      validatePage: () => this.formCore.validate(),
+      submit: async () => {
+        await this.formCore.submit();
+      },
+      reset: () => this.formCore.reset(),
+      loadDataSource: (dataSourceId, params) =>
+        this.dataSourceService.load(dataSourceId, params),
+    };
 
-    // Render existing items
-    items.forEach((item, index) => {
-      const itemContainer = this.renderArrayItem(component, item, index);
-      container.appendChild(itemContainer);
+    this.showActionMessage(null);
+    await runActions(actionList, context, {
+      onError: () =>
+        this.showActionMessage({
+          text: this.formCore.translationService.translateUI("actionError"),
+          type: "error",
+        }),
     });
+  }
 
-    // Add "Add Item" button
-    const addButton = document.createElement("button");
-    addButton.type = "button";
-    addButton.textContent = "Add Item";
-    addButton.className =
-      "mt-2 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500";
-    addButton.addEventListener("click", () => {
-      const newItem: Record<string, unknown> = {};
-      arrayItems.forEach((arrayItem) => {
-        arrayItem.components.forEach((comp) => {
-          newItem[comp.id] = "";
-        });
-      });
-      items.push(newItem);
-      this.formData[component.id] = items;
-      this.updateArrayField(component);
-    });
+  private showActionMessage(message: ActionMessage | null): void {
+    this.actionMessage = message;
+    this.render();
+  }
 
-    container.appendChild(addButton);
-    return container;
+  private getFieldId(component: Component, parentId?: string): string {
+    return parentId ? `${parentId}.${component.id}` : component.id;
   }
 
-  private renderArrayItem(
+  private translate(
     component: Component,
-    item: Record<string, unknown>,
-    index: number
-  ): HTMLElement {
-    const itemContainer = document.createElement("div");
-    itemContainer.className = "p-4 border border-gray-200 rounded-lg space-y-4";
-
-    component.arrayItems?.forEach((arrayItem) => {
-      const itemContent = document.createElement("div");
-      itemContent.className = "space-y-4";
-
-      arrayItem.components.forEach((comp) => {
-        const itemId = `${component.id}[${index}].${comp.id}`;
-        const hasError = !!this.validationErrors[itemId];
-
-        const fieldContainer = document.createElement("div");
-        fieldContainer.className = "space-y-2";
-
-        const label = document.createElement("label");
-        label.className = "block text-sm font-medium text-gray-700";
-        label.htmlFor = itemId;
-        label.textContent = comp.label || "";
-        if (comp.validation?.required) {
-          const requiredSpan = document.createElement("span");
-          requiredSpan.className = "text-red-500 ml-1";
-          requiredSpan.textContent = "*";
-          label.appendChild(requiredSpan);
-        }
-        fieldContainer.appendChild(label);
-
-        // Create input field directly instead of using renderComponent
-        let field: HTMLElement;
-        if (comp.type === "input") {
-          const input = document.createElement("input");
-          input.type = comp.props?.type || "text";
-          input.id = itemId;
-          input.name = itemId;
-          input.value = (item[comp.id] as string) || "";
-          input.className = `mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 ${
-            hasError ? "border-red-500" : ""
-          }`;
-
-          if (comp.props) {
-            Object.entries(comp.props).forEach(([key, value]) => {
-              if (value !== undefined && value !== null && key !== "type") {
-                input.setAttribute(key, String(value));
-              }
-            });
-          }
-
-          // Add change listener to update formData
-          input.addEventListener("change", (e) => {
-            const target = e.target as HTMLInputElement;
-            item[comp.id] = target.value;
-            // Validate on change
-            if (comp.validation) {
-              this.validateField(input, comp.validation, true);
-            }
-          });
-
-          // Add blur listener for validation
-          input.addEventListener("blur", (e) => {
-            const target = e.target as HTMLInputElement;
-            if (comp.validation) {
-              this.validateField(target, comp.validation, true);
-            }
-          });
-
-          field = input;
-        } else {
-          // Handle other field types if needed
-          field = document.createElement("div");
-          field.textContent = `Unsupported field type: ${comp.type}`;
-        }
-
-        fieldContainer.appendChild(field);
-
-        // Add error message container
-        const errorContainer = document.createElement("div");
-        errorContainer.className = "validation-error-container";
-        fieldContainer.appendChild(errorContainer);
-
-        // Show existing error if any
-        if (hasError) {
-          const errorMessage = document.createElement("p");
-          errorMessage.className = "mt-1 text-sm text-red-600";
-          errorMessage.textContent = this.validationErrors[itemId];
-          errorContainer.appendChild(errorMessage);
-        }
-
-        itemContent.appendChild(fieldContainer);
-      });
+    property: string,
+    fallback?: string
+  ): string {
+    return this.formCore.translationService.translateComponent(
+      component.id,
+      this.formCore.getState().currentPageIndex,
+      property,
+      fallback
+    );
+  }
 
-      itemContainer.appendChild(itemContent);
+  private getOptions(component: Component): Array<{
+    value: string;
+    label: string;
+  }> {
+    const options =
+      (component.props?.options as Option[] | undefined) ??
+      component.options ??
+      [];
+    return options.map((option, index) => {
+      const value =
+        typeof option === "string" ? option : String(option.value ?? "");
+      const label = typeof option === "string" ? option : option.label ?? value;
+      return {
+        value,
+        label: this.translate(component, `props.options.${index}.label`, label),
+      };
     });
-
-    const removeButton = document.createElement("button");
-    removeButton.type = "button";
-    removeButton.className =
-      "mt-2 inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500";
-    removeButton.textContent = "Remove";
-    removeButton.onclick = () => {
-      const items = this.formData[component.id] as Record<string, unknown>[];
-      items.splice(index, 1);
-      this.updateArrayField(component);
-      // Revalidate after removal
-      this.validateForm();
-    };
-    itemContainer.appendChild(removeButton);
-
-    return itemContainer;
   }
 
-  private updateArrayField(component: Component): void {
-    const container = document.getElementById(component.id);
-    if (!container) return;
-
-    container.innerHTML = "";
-    const items = this.formData[component.id] as Record<string, unknown>[];
-
-    items.forEach((item, index) => {
-      const itemContainer = this.renderArrayItem(component, item, index);
-      container.appendChild(itemContainer);
-    });
+  private createLabel(component: Component, fieldId: string): HTMLElement {
+    const label = document.createElement("label");
+    label.htmlFor = fieldId;
+    label.className = "block text-sm font-medium text-gray-700";
+    label.textContent = this.translate(component, "label", component.label);
+    if (component.validation?.required) {
+      const requiredMarker = document.createElement("span");
+      requiredMarker.textContent = " *";
+      requiredMarker.className = "text-red-500";
+      label.appendChild(requiredMarker);
+    }
+    return label;
+  }
 
-    // Add "Add Item" button
-    const addButton = document.createElement("button");
-    addButton.textContent = "Add Item";
-    addButton.className =
-      "mt-2 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500";
-    addButton.addEventListener("click", () => {
-      const newItem: Record<string, unknown> = {};
-      component.arrayItems?.forEach((arrayItem) => {
-        arrayItem.components.forEach((comp) => {
-          newItem[comp.id] = "";
-        });
-      });
-      items.push(newItem);
-      this.formData[component.id] = items;
-      this.updateArrayField(component);
+  private createErrorContainer(
+    fieldId: string,
+    element: HTMLElement
+  ): HTMLElement {
+    const errorContainer = document.createElement("div");
+    errorContainer.className = "validation-error-container";
+    this.updaters.push(() => {
+      const { errors } = this.formCore.getState();
+      const messages = this.formCore.shouldShowError(fieldId)
+        ? errors[fieldId] ?? []
+        : [];
+      errorContainer.replaceChildren(
+        ...messages.map((message) => {
+          const errorMessage = document.createElement("p");
+          errorMessage.className = "validation-error text-red-500 text-sm mt-1";
+          errorMessage.textContent = message;
+          return errorMessage;
+        })
+      );
+      element.classList.toggle("invalid", messages.length > 0);
     });
-
-    container.appendChild(addButton);
+    return errorContainer;
   }
 
-  private setupValidation(component: Component, element: HTMLElement): void {
-    if (!component.validation) return;
-
-    if (
-      element instanceof HTMLInputElement ||
-      element instanceof HTMLTextAreaElement ||
-      element instanceof HTMLSelectElement
-    ) {
-      // Initialize form data with any existing values
-      if (element.value) {
-        this.formData[element.name] = element.value;
-      }
-
-      // Add blur event to track touched state and validate
-      element.addEventListener("blur", () => {
-        this.touchedFields.add(element.name);
-        this.validateField(element, component.validation);
-      });
-
-      // Add change event to update form data
-      element.addEventListener("change", () => {
-        this.formData[element.name] = element.value;
-        // Only validate if the field has been touched
-        if (this.touchedFields.has(element.name)) {
-          this.validateField(element, component.validation);
-        }
-      });
-
-      // Add input event to update form data in real-time
-      element.addEventListener("input", () => {
-        this.formData[element.name] = element.value;
-        // Only validate if the field has been touched
-        if (this.touchedFields.has(element.name)) {
-          this.validateField(element, component.validation);
-        }
+  private createText(component: Component): HTMLElement {
+    const text = document.createElement("p");
+    text.id = component.id;
+    text.className = "text-gray-600";
+    const expression = component.expression ?? component.props?.expression;
+    if (expression?.expression) {
+      // Calculated texts follow the form values
+      this.updaters.push(() => {
+        const value = this.formCore.evaluate(expression.expression);
+        text.textContent =
+          value === undefined || value === null || Number.isNaN(value)
+            ? String(expression.defaultValue ?? "")
+            : String(value);
       });
-
-      // Only set required attribute as it's common to all elements
-      if (component.validation.required) {
-        element.required = true;
-      }
-
-      // Set pattern only for input elements
-      if (component.validation.pattern && element instanceof HTMLInputElement) {
-        element.pattern = component.validation.pattern;
-      }
-
-      // Clear any initial validation state
-      this.clearValidationError(element);
+    } else {
+      text.textContent = this.translate(
+        component,
+        "props.text",
+        String(component.props?.text ?? component.label ?? "")
+      );
     }
+    return text;
   }
 
-  private validateField(
-    element:
-      | HTMLInputElement
-      | HTMLTextAreaElement
-      | HTMLSelectElement
-      | HTMLElement,
-    validation?: Component["validation"],
-    force: boolean = false
-  ): boolean {
-    // Don't validate if the field hasn't been touched and we're not forcing validation
-    if (!force && !this.touchedFields.has(element.getAttribute("name") || "")) {
-      return true;
+  private createSection(component: Component, fieldId: string): HTMLElement {
+    const section = document.createElement("fieldset");
+    section.className = "space-y-4 p-4 border border-gray-200 rounded-lg";
+    if (component.label) {
+      const legend = document.createElement("legend");
+      legend.className = "text-sm font-medium text-gray-900";
+      legend.textContent = this.translate(component, "label", component.label);
+      section.appendChild(legend);
     }
-
-    let isValid = true;
-
-    // Handle input elements
-    if (element instanceof HTMLInputElement) {
-      if (element.type === "button") return true;
-
-      if (validation?.required && !element.value) {
-        isValid = false;
-        this.showValidationError(element, "This field is required");
-      } else {
-        this.clearValidationError(element);
-      }
-
-      if (validation?.pattern) {
-        try {
-          const regex = new RegExp(validation.pattern);
-          if (!regex.test(element.value)) {
-            isValid = false;
-            this.showValidationError(element, "Invalid format");
+    (component.children ?? [])
+      .filter((child) => this.formCore.isComponentVisible(child))
+      .forEach((child) => {
+        section.appendChild(this.renderComponent(child, fieldId));
+      });
+    return section;
+  }
+
+  // Overview of the answers of the visited pages, shown on confirmation pages
+  private createSummary(): HTMLElement {
+    const { values, stepHistory } = this.formCore.getState();
+    const list = document.createElement("dl");
+    list.className = "divide-y divide-gray-200";
+
+    const addComponents = (components: Component[], parentId?: string) => {
+      components
+        .filter((component) => this.formCore.isComponentVisible(component))
+        .forEach((component) => {
+          const fieldId = this.getFieldId(component, parentId);
+          if (component.children) {
+            addComponents(component.children, fieldId);
+            return;
           }
-        } catch {
-          console.error("Invalid pattern:", validation.pattern);
-          // Skip pattern validation if pattern is invalid
-        }
-      }
-
-      if (
-        validation?.minLength &&
-        element.value.length < validation.minLength
-      ) {
-        isValid = false;
-        this.showValidationError(
-          element,
-          `Minimum length is ${validation.minLength}`
-        );
-      }
-      if (
-        validation?.maxLength &&
-        element.value.length > validation.maxLength
-      ) {
-        isValid = false;
-        this.showValidationError(
-          element,
-          `Maximum length is ${validation.maxLength}`
-        );
-      }
-    }
-    // Handle textarea elements
-    else if (element instanceof HTMLTextAreaElement) {
-      if (validation?.required && !element.value) {
-        isValid = false;
-        this.showValidationError(element, "This field is required");
-      } else {
-        this.clearValidationError(element);
-      }
-
-      if (
-        validation?.minLength &&
-        element.value.length < validation.minLength
-      ) {
-        isValid = false;
-        this.showValidationError(
-          element,
-          `Minimum length is ${validation.minLength}`
-        );
-      }
-      if (
-        validation?.maxLength &&
-        element.value.length > validation.maxLength
-      ) {
-        isValid = false;
-        this.showValidationError(
-          element,
-          `Maximum length is ${validation.maxLength}`
-        );
-      }
-    }
-    // Handle select elements
-    else if (element instanceof HTMLSelectElement) {
-      if (validation?.required && !element.value) {
-        isValid = false;
-        this.showValidationError(element, "This field is required");
-      } else {
-        this.clearValidationError(element);
-      }
-    }
-
-    return isValid;
-  }
-
-  public validateForm(): boolean {
-    if (!this.currentPage) return true;
-
-    let isValid = true;
-    this.validationErrors = {}; // Clear previous errors
-
-    // Validate all components on the current page
-    this.currentPage.components.forEach((component) => {
-      if (component.type === "array") {
-        // Validate array field
-        const items =
-          (this.formData[component.id] as Record<string, unknown>[]) || [];
-
-        // Validate minItems and maxItems
-        if (
-          component.validation?.minItems &&
-          items.length < component.validation.minItems
-        ) {
-          isValid = false;
-          this.validationErrors[
-            component.id
-          ] = `Minimum ${component.validation.minItems} items required`;
-        }
-        if (
-          component.validation?.maxItems &&
-          items.length > component.validation.maxItems
-        ) {
-          isValid = false;
-          this.validationErrors[
-            component.id
-          ] = `Maximum ${component.validation.maxItems} items allowed`;
-        }
-
-        // Validate each array item's components
-        items.forEach((item, index) => {
-          component.arrayItems?.forEach((arrayItem) => {
-            arrayItem.components.forEach((comp) => {
-              const itemId = `${component.id}[${index}].${comp.id}`;
-              const value = item[comp.id];
-
-              // Required validation
-              if (comp.validation?.required && !value) {
-                isValid = false;
-                this.validationErrors[itemId] = "This field is required";
-              }
-
-              // Pattern validation for email and other patterns
-              if (comp.validation?.pattern && value) {
-                try {
-                  const regex = new RegExp(comp.validation.pattern);
-                  if (!regex.test(String(value))) {
-                    isValid = false;
-                    this.validationErrors[itemId] =
-                      comp.props?.type === "email"
-                        ? "Please enter a valid email address"
-                        : "Invalid format";
-                  }
-                } catch {
-                  console.error("Invalid pattern:", comp.validation.pattern);
-                }
-              }
-
-              // MinLength validation
-              if (
-                comp.validation?.minLength &&
-                value &&
-                String(value).length < comp.validation.minLength
-              ) {
-                isValid = false;
-                this.validationErrors[
-                  itemId
-                ] = `Minimum length is ${comp.validation.minLength}`;
-              }
-
-              // MaxLength validation
-              if (
-                comp.validation?.maxLength &&
-                value &&
-                String(value).length > comp.validation.maxLength
-              ) {
-                isValid = false;
-                this.validationErrors[
-                  itemId
-                ] = `Maximum length is ${comp.validation.maxLength}`;
-              }
-            });
-          });
-        });
-      } else {
-        // Validate regular fields
-        const value = this.formData[component.id];
-        if (component.validation?.required && !value) {
-          isValid = false;
-          this.validationErrors[component.id] = "This field is required";
-        }
-
-        // Pattern validation for regular fields
-        if (component.validation?.pattern && value) {
-          try {
-            const regex = new RegExp(component.validation.pattern);
-            if (!regex.test(String(value))) {
-              isValid = false;
-              this.validationErrors[component.id] = "Invalid format";
-            }
-          } catch {
-            console.error("Invalid pattern:", component.validation.pattern);
+          if (["text", "button", "confirmation"].includes(component.type)) {
+            return;
           }
-        }
-
-        // MinLength validation for regular fields
-        if (
-          component.validation?.minLength &&
-          value &&
-          String(value).length < component.validation.minLength
-        ) {
-          isValid = false;
-          this.validationErrors[
-            component.id
-          ] = `Minimum length is ${component.validation.minLength}`;
-        }
-
-        // MaxLength validation for regular fields
-        if (
-          component.validation?.maxLength &&
-          value &&
-          String(value).length > component.validation.maxLength
-        ) {
-          isValid = false;
-          this.validationErrors[
-            component.id
-          ] = `Maximum length is ${component.validation.maxLength}`;
-        }
-      }
-    });
-
-    // Update UI to show validation errors
-    this.updateValidationErrors();
-    return isValid;
-  }
+          const row = document.createElement("div");
+          row.className = "py-2 flex justify-between gap-4";
+          const term = document.createElement("dt");
+          term.className = "text-sm text-gray-500";
+          term.textContent = this.formCore.getFieldLabel(component);
+          const description = document.createElement("dd");
+          description.className = "text-sm text-gray-900";
+          description.textContent = this.formatValue(
+            component,
+            values[fieldId]
+          );
+          row.appendChild(term);
+          row.appendChild(description);
+          list.appendChild(row);
+        });
+    };
 
-  private updateValidationErrors(): void {
-    // Clear all existing error messages
-    const errorMessages = this.container.querySelectorAll(".validation-error");
-    errorMessages.forEach((msg) => msg.remove());
-
-    // Add new error messages
-    Object.entries(this.validationErrors).forEach(([fieldId, message]) => {
-      // Handle array field IDs by escaping special characters
-      const escapedFieldId = fieldId.replace(/[[\].]/g, "\\$&");
-      const field = this.container.querySelector(`#${escapedFieldId}`);
-      if (field) {
-        // Add invalid class to the field
-        field.classList.add("invalid");
-
-        // Find or create error container
-        let errorContainer = field.parentElement?.querySelector(
-          ".validation-error-container"
-        );
-        if (!errorContainer) {
-          errorContainer = document.createElement("div");
-          errorContainer.className = "validation-error-container";
-          field.parentElement?.appendChild(errorContainer);
-        }
-
-        // Add error message
-        const errorMessage = document.createElement("p");
-        errorMessage.className = "validation-error text-red-500 text-sm mt-1";
-        errorMessage.textContent = message;
-        errorContainer.appendChild(errorMessage);
+    stepHistory.forEach((pageIndex) => {
+      const page = this._schema.app.pages[pageIndex];
+      if (page && !page.isConfirmationPage) {
+        addComponents(page.components);
       }
     });
+    return list;
   }
 
-  private showValidationError(element: HTMLElement, message: string): void {
-    const errorElement = document.createElement("div");
-    errorElement.className = "validation-error";
-    errorElement.textContent = message;
-    element.parentElement?.appendChild(errorElement);
-    element.classList.add("invalid");
-  }
-
-  private clearValidationError(element: HTMLElement): void {
-    const existingError =
-      element.parentElement?.querySelector(".validation-error");
-    if (existingError) {
-      existingError.remove();
+  private formatValue(component: Component, value: unknown): string {
+    if (value === undefined || value === null || value === "") {
+      return "-";
     }
-    element.classList.remove("invalid");
-  }
-
-  private setupEventHandlers(component: Component, element: HTMLElement): void {
-    if (!component.eventHandlers) return;
-
-    if (component.eventHandlers.onChange) {
-      element.addEventListener("change", () =>
-        this.handleEvent(component.eventHandlers!.onChange!)
-      );
+    if (typeof value === "boolean") {
+      return value ? "Yes" : "No";
     }
-
-    if (component.eventHandlers.onClick) {
-      element.addEventListener("click", () =>
-        this.handleEvent(component.eventHandlers!.onClick!)
-      );
+    if (Array.isArray(value)) {
+      return value
+        .map((item) =>
+          typeof item === "object" && item !== null
+            ? Object.values(item as ArrayItemValue).join(" ")
+            : String(item)
+        )
+        .join(", ");
+    }
+    if (typeof value === "object") {
+      const range = value as { min?: unknown; max?: unknown };
+      return `${range.min} - ${range.max}`;
+    }
+    if (component.type === "input") {
+      return formatInputValue(String(value), component.props);
     }
+    const option = this.getOptions(component).find(
+      (item) => item.value === String(value)
+    );
+    return option?.label ?? String(value);
+  }
+
+  private createButton(component: Component, fieldId: string): HTMLElement {
+    const button = document.createElement("button");
+    button.type = "button";
+    button.id = fieldId;
+    button.className =
+      "px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700";
+    button.textContent = this.translate(
+      component,
+      "label",
+      component.label ?? String(component.props?.label ?? "")
+    );
+    button.addEventListener("click", () => {
+      void this.runEventActions(component.eventHandlers?.onClick, fieldId);
+    });
+    return button;
   }
 
-  private async handleEvent(action: Action): Promise<void> {
-    switch (action.type) {
-      case "navigate":
-        if (action.targetPage) {
-          // Clear previous errors
-          this.clearValidationErrors();
-
-          // Validate before navigation
-          const isValid = this.validateForm();
-          if (!isValid) {
-            // Show validation errors
-            this.updateValidationErrors();
-            // Scroll to first error
-            const firstError =
-              this.container.querySelector(".validation-error");
-            if (firstError) {
-              firstError.scrollIntoView({
-                behavior: "smooth",
-                block: "center",
-              });
-            }
-            return;
-          }
-          this.navigateToPage(action.targetPage);
-        }
+  private createField(
+    component: Component,
+    fieldId: string,
+    value: unknown,
+    setValue: (value: unknown) => void
+  ): HTMLElement {
+    const onChange = (newValue: unknown) => {
+      setValue(newValue);
+      void this.runEventActions(component.eventHandlers?.onChange, fieldId);
+    };
+    let element: HTMLElement;
+    switch (component.type) {
+      case "input":
+      case "date":
+        element = this.createTextInput(component, fieldId, value, onChange);
         break;
-      case "submit":
-        // Clear previous errors
-        this.clearValidationErrors();
-
-        if (this.validateForm()) {
-          this.handleSubmit(action);
-        } else {
-          // Show validation errors
-          this.updateValidationErrors();
-          // Scroll to first error
-          const firstError = this.container.querySelector(".validation-error");
-          if (firstError) {
-            firstError.scrollIntoView({ behavior: "smooth", block: "center" });
-          }
-        }
+      case "textarea":
+        element = this.createTextarea(component, fieldId, value, onChange);
         break;
-      case "apiRequest":
-        await this.handleApiRequest(action);
+      case "select":
+        element = this.createSelect(component, fieldId, value, onChange);
+        break;
+      case "radio":
+        element = this.createRadioGroup(component, fieldId, value, onChange);
         break;
-      case "showMessage":
-        if (action.message) {
-          alert(action.message);
-        }
+      case "checkbox":
+        element = this.createCheckbox(component, fieldId, value, onChange);
+        break;
+      case "slider-range":
+        element = this.createSlider(component, fieldId, value, onChange);
         break;
+      default:
+        element = document.createElement("div");
+        element.textContent = `Unsupported component type: ${component.type}`;
     }
+    // Errors are shown once a field has been left
+    element.addEventListener("focusout", () => this.formCore.blur(fieldId));
+    return element;
   }
 
-  private handleSubmit(action: Action): void {
-    const form = this.container.querySelector("form") as HTMLFormElement;
-    if (!form) return;
-
-    const formDataObj: Record<string, unknown> = {};
-
-    // Handle radio buttons and checkboxes
-    form.querySelectorAll('input[type="radio"]:checked').forEach((input) => {
-      const radio = input as HTMLInputElement;
-      formDataObj[radio.name] = radio.value;
-    });
-
-    form.querySelectorAll('input[type="checkbox"]').forEach((input) => {
-      const checkbox = input as HTMLInputElement;
-      formDataObj[checkbox.name] = checkbox.checked;
+  private createTextInput(
+    component: Component,
+    fieldId: string,
+    value: unknown,
+    onChange: (value: unknown) => void
+  ): HTMLInputElement {
+    const input = document.createElement("input");
+    input.type =
+      component.type === "date"
+        ? "date"
+        : String(component.props?.inputType ?? component.props?.type ?? "text");
+    input.id = fieldId;
+    input.name = fieldId;
+    input.className = inputClassName;
+    input.value = value === undefined || value === null ? "" : String(value);
+    if (component.props?.placeholder !== undefined) {
+      input.placeholder = this.translate(
+        component,
+        "props.placeholder",
+        component.props.placeholder
+      );
+    }
+    (["min", "max", "step"] as const).forEach((key) => {
+      if (component.props?.[key] !== undefined) {
+        input.setAttribute(key, String(component.props[key]));
+      }
     });
-
-    // Handle other form elements
-    form
-      .querySelectorAll(
-        'input:not([type="radio"]):not([type="checkbox"]), select, textarea'
-      )
-      .forEach((element) => {
-        const input = element as
-          | HTMLInputElement
-          | HTMLSelectElement
-          | HTMLTextAreaElement;
-        formDataObj[input.name] = input.value;
-      });
-
-    this.formData = formDataObj;
-
-    if (action.params?.url) {
-      fetch(action.params.url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(this.formData),
-      });
+    if (component.type === "input" && hasInputFormat(component.props)) {
+      this.formatTextInput(input, component, onChange);
+    } else {
+      input.addEventListener("input", () => onChange(input.value));
     }
+    return input;
   }
 
-  private async handleApiRequest(action: Action): Promise<void> {
-    if (!action.dataSource) return;
-
-    const dataSource = this._schema.app.dataSources?.find(
-      (ds) => ds.id === action.dataSource
-    );
-    if (!dataSource) return;
-
-    try {
-      const response = await fetch(dataSource.url, {
-        method: dataSource.method || "GET",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body:
-          dataSource.method !== "GET"
-            ? JSON.stringify(action.params)
-            : undefined,
-      });
-
-      const data = await response.json();
-      if (dataSource.responseMapping) {
-        // Implement response mapping logic
-        console.log("API Response:", data);
+  // Shows the formatted value while the raw value is kept in the form values
+  private formatTextInput(
+    input: HTMLInputElement,
+    component: Component,
+    onChange: (value: unknown) => void
+  ) {
+    const props = component.props;
+    let raw = input.value;
+    input.type = "text";
+    input.inputMode = getInputMode(props) ?? "";
+    input.value = formatInputValue(raw, props);
+    input.addEventListener("focus", () => {
+      if (!props?.mask) {
+        input.value = getEditableInputValue(raw, props);
       }
-    } catch (error) {
-      console.error("API request failed:", error);
+    });
+    input.addEventListener("input", () => {
+      raw = parseInputValue(input.value, props);
+      if (props?.mask) {
+        input.value = formatInputValue(raw, props);
+      }
+      onChange(raw);
+    });
+    input.addEventListener("blur", () => {
+      input.value = formatInputValue(raw, props);
+    });
+  }
+
+  private createTextarea(
+    component: Component,
+    fieldId: string,
+    value: unknown,
+    onChange: (value: unknown) => void
+  ): HTMLTextAreaElement {
+    const textarea = document.createElement("textarea");
+    textarea.id = fieldId;
+    textarea.name = fieldId;
+    textarea.className = inputClassName;
+    textarea.rows = component.props?.rows ?? 3;
+    textarea.value = value === undefined || value === null ? "" : String(value);
+    if (component.props?.placeholder !== undefined) {
+      textarea.placeholder = this.translate(
+        component,
+        "props.placeholder",
+        component.props.placeholder
+      );
     }
+    textarea.addEventListener("input", () => onChange(textarea.value));
+    return textarea;
   }
 
-  private clearValidationErrors(): void {
-    // Clear validation errors object
-    this.validationErrors = {};
+  private createSelect(
+    component: Component,
+    fieldId: string,
+    value: unknown,
+    onChange: (value: unknown) => void
+  ): HTMLSelectElement {
+    const select = document.createElement("select");
+    select.id = fieldId;
+    select.name = fieldId;
+    select.className = inputClassName;
+
+    const placeholder = document.createElement("option");
+    placeholder.value = "";
+    placeholder.textContent = component.props?.placeholder
+      ? this.translate(
+          component,
+          "props.placeholder",
+          component.props.placeholder
+        )
+      : "";
+    select.appendChild(placeholder);
+
+    this.getOptions(component).forEach((option) => {
+      const optionElement = document.createElement("option");
+      optionElement.value = option.value;
+      optionElement.textContent = option.label;
+      select.appendChild(optionElement);
+    });
+    select.value = value === undefined || value === null ? "" : String(value);
+    select.addEventListener("change", () => onChange(select.value));
+    return select;
+  }
 
-    // Clear all error messages from the DOM
-    const errorMessages = this.container.querySelectorAll(".validation-error");
-    errorMessages.forEach((msg) => msg.remove());
+  private createRadioGroup(
+    component: Component,
+    fieldId: string,
+    value: unknown,
+    onChange: (value: unknown) => void
+  ): HTMLDivElement {
+    const container = document.createElement("div");
+    container.className = "space-y-2";
+    container.id = fieldId;
+    container.setAttribute("role", "radiogroup");
+
+    this.getOptions(component).forEach((option) => {
+      const wrapper = document.createElement("div");
+      wrapper.className = "flex items-center";
+
+      const input = document.createElement("input");
+      input.type = "radio";
+      input.id = `${fieldId}-${option.value}`;
+      input.name = fieldId;
+      input.value = option.value;
+      input.checked = String(value) === option.value;
+      input.className =
+        "h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300";
+      input.addEventListener("change", () => onChange(option.value));
 
-    // Clear invalid class from all fields
-    const invalidFields = this.container.querySelectorAll(".invalid");
-    invalidFields.forEach((field) => field.classList.remove("invalid"));
-  }
+      const label = document.createElement("label");
+      label.htmlFor = input.id;
+      label.className = "ml-3 block text-sm font-medium text-gray-700";
+      label.textContent = option.label;
 
-  private getNextPage(): string | null {
-    if (!this.currentPage) return null;
-
-    // Check for conditional branches first
-    if (this.currentPage.branches) {
-      for (const branch of this.currentPage.branches) {
-        const fieldValue = this.formData[branch.condition.field];
-        const conditionValue = branch.condition.value;
-        let conditionMet = false;
-
-        switch (branch.condition.operator) {
-          case "==":
-            conditionMet = String(fieldValue) === String(conditionValue);
-            break;
-          case "!=":
-            conditionMet = String(fieldValue) !== String(conditionValue);
-            break;
-          case ">":
-            conditionMet = Number(fieldValue) > Number(conditionValue);
-            break;
-          case "<":
-            conditionMet = Number(fieldValue) < Number(conditionValue);
-            break;
-          case ">=":
-            conditionMet = Number(fieldValue) >= Number(conditionValue);
-            break;
-          case "<=":
-            conditionMet = Number(fieldValue) <= Number(conditionValue);
-            break;
-        }
-
-        if (conditionMet) {
-          return branch.nextPage;
-        }
-      }
-    }
+      wrapper.appendChild(input);
+      wrapper.appendChild(label);
+      container.appendChild(wrapper);
+    });
 
-    // If no branch conditions are met, use the nextPage field
-    return this.currentPage.nextPage || null;
+    return container;
   }
 
-  public handleNext(): void {
-    if (!this.currentPage) return;
+  private createCheckbox(
+    component: Component,
+    fieldId: string,
+    value: unknown,
+    onChange: (value: unknown) => void
+  ): HTMLDivElement {
+    const wrapper = document.createElement("div");
+    wrapper.className = "flex items-center";
 
-    // Validate current page before navigation
-    if (!this.validateForm()) {
-      return;
-    }
+    const input = document.createElement("input");
+    input.type = "checkbox";
+    input.id = fieldId;
+    input.name = fieldId;
+    input.checked = value === true;
+    input.className =
+      "h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded";
+    input.addEventListener("change", () => onChange(input.checked));
 
-    const nextPageId = this.getNextPage();
-    if (nextPageId) {
-      this.navigateToPage(nextPageId);
-    } else if (this.currentPage.isEndPage) {
-      this.handleFormSubmit();
-    }
+    const label = this.createLabel(component, fieldId);
+    label.className = "ml-3 block text-sm font-medium text-gray-700";
+
+    wrapper.appendChild(input);
+    wrapper.appendChild(label);
+    return wrapper;
   }
 
-  public handlePrevious(): void {
-    if (this.pageHistory.length > 1) {
-      this.pageHistory.pop(); // Remove current page
-      const previousPageId = this.pageHistory.pop(); // Get previous page
-      if (previousPageId) {
-        this.navigateToPage(previousPageId);
-      }
+  private createSlider(
+    component: Component,
+    fieldId: string,
+    value: unknown,
+    onChange: (value: unknown) => void
+  ): HTMLDivElement {
+    const container = document.createElement("div");
+    container.className = "flex items-center gap-4";
+    container.id = fieldId;
+
+    const createRange = (
+      rangeValue: number,
+      onInput: (value: number) => void
+    ) => {
+      const input = document.createElement("input");
+      input.type = "range";
+      input.min = String(component.props?.min ?? 0);
+      input.max = String(component.props?.max ?? 100);
+      input.step = String(component.props?.step ?? 1);
+      input.value = String(rangeValue);
+      input.addEventListener("input", () => onInput(Number(input.value)));
+      container.appendChild(input);
+    };
+
+    if (component.props?.mode === "range") {
+      const range = value as { min: number; max: number };
+      createRange(range.min, (min) => onChange({ ...range, min }));
+      createRange(range.max, (max) => onChange({ ...range, max }));
+    } else {
+      createRange(Number(value ?? 0), onChange);
     }
+    return container;
   }
 
-  public handleFormSubmit(): void {
-    // Get the form element
-    const form = this.container.querySelector("form");
-    if (!form) return;
+  private createArrayField(
+    component: Component,
+    fieldId: string
+  ): HTMLDivElement {
+    const { translationService } = this.formCore;
+    const container = document.createElement("div");
+    container.className = "space-y-4";
+    container.id = fieldId;
+
+    const getItems = () =>
+      (this.formCore.getState().values[fieldId] as ArrayItemValue[]) || [];
 
-    // Create a FormData object
-    const formData = new FormData(form as HTMLFormElement);
-    const formDataObj: Record<string, unknown> = {};
+    getItems().forEach((item, index) => {
+      const itemContainer = document.createElement("div");
+      itemContainer.className =
+        "p-4 border border-gray-200 rounded-lg space-y-4";
 
-    // Convert FormData to a plain object
-    for (const [key, value] of formData.entries()) {
-      formDataObj[key] = value;
-    }
+      const itemValues: FormValues = {
+        ...this.formCore.getState().values,
+        ...item,
+      };
+      component.arrayItems?.forEach((arrayItem) => {
+        arrayItem.components
+          .filter((child) =>
+            this.formCore.isComponentVisible(child, itemValues)
+          )
+          .forEach((child) => {
+            const childFieldId = `${fieldId}[${index}].${child.id}`;
+            const fieldContainer = document.createElement("div");
+            fieldContainer.className = "space-y-2";
+            if (child.type !== "checkbox") {
+              fieldContainer.appendChild(this.createLabel(child, childFieldId));
+            }
+            const field = this.createField(
+              child,
+              childFieldId,
+              item[child.id],
+              (value) =>
+                this.formCore.setArrayItemValue(fieldId, index, child.id, value)
+            );
+            fieldContainer.appendChild(field);
+            fieldContainer.appendChild(
+              this.createErrorContainer(childFieldId, field)
+            );
+            itemContainer.appendChild(fieldContainer);
+          });
+      });
 
-    // Emit a custom event with the form data
-    const submitEvent = new CustomEvent("formSubmit", {
-      detail: formDataObj,
-      bubbles: true,
+      const removeButton = document.createElement("button");
+      removeButton.type = "button";
+      removeButton.className =
+        "mt-2 inline-flex items-center px-3 py-1 border border-transparent text-sm font-medium rounded-md text-red-700 bg-red-100 hover:bg-red-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500";
+      removeButton.textContent =
+        translationService.translateUI("removeItemButton");
+      removeButton.addEventListener("click", () => {
+        this.formCore.setValue(
+          fieldId,
+          getItems().filter((_, itemIndex) => itemIndex !== index)
+        );
+      });
+      itemContainer.appendChild(removeButton);
+      container.appendChild(itemContainer);
     });
-    this.container.dispatchEvent(submitEvent);
-
-    // If this is the last page, clear the form
-    if (this.currentPage?.isEndPage) {
-      form.reset();
-      this.formData = {};
-      this.validationErrors = {};
-      this.touchedFields.clear();
-    }
-  }
 
-  public get schema(): ExtendedFormSchema {
-    return this._schema;
+    const addButton = document.createElement("button");
+    addButton.type = "button";
+    addButton.textContent = translationService.translateUI("addItemButton");
+    addButton.className =
+      "mt-2 inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500";
+    addButton.addEventListener("click", () => {
+      this.formCore.setValue(fieldId, [...getItems(), {}]);
+    });
+    container.appendChild(addButton);
+    return container;
   }
 }
@@ -1,91 +1,142 @@
+import { FormCoreOptions } from "@devhelpr/react-forms/core";
 import { VanillaFormCore } from "./VanillaFormCore";
-import { ExtendedFormSchema } from "./VanillaFormCore";
+import { FormSchema } from "./types";
 
 export class VanillaFormRenderer {
   private formCore: VanillaFormCore;
   private container: HTMLElement;
-  private currentStep: number = 0;
-  private totalSteps: number;
-
-  constructor(schema: ExtendedFormSchema, containerId: string) {
-    this.formCore = new VanillaFormCore(schema, containerId);
+  private stepIndicator: HTMLElement;
+  private controls: HTMLElement;
+  private backButton: HTMLButtonElement;
+  private nextButton: HTMLButtonElement;
+
+  constructor(
+    schema: FormSchema,
+    containerId: string,
+    options: FormCoreOptions = {}
+  ) {
+    this.formCore = new VanillaFormCore(schema, containerId, options);
     const container = document.getElementById(containerId);
     if (!container) {
       throw new Error(`Container with id "${containerId}" not found`);
     }
     this.container = container;
-    this.totalSteps = schema.app.pages.length;
+
+    this.stepIndicator = document.createElement("div");
+    this.stepIndicator.className =
+      "flex justify-center items-center space-x-2 mb-6";
+
+    this.controls = document.createElement("div");
+    this.controls.className = "flex justify-between items-center mt-6";
+    this.backButton = document.createElement("button");
+    this.backButton.type = "button";
+    this.backButton.addEventListener("click", () =>
+      this.formCore.handlePrevious()
+    );
+    this.nextButton = document.createElement("button");
+    this.nextButton.type = "button";
+    this.nextButton.addEventListener("click", () => this.formCore.handleNext());
+    this.controls.appendChild(this.backButton);
+    this.controls.appendChild(this.nextButton);
   }
 
   public init(): void {
     this.formCore.init();
-    this.renderStepIndicator();
-    this.renderNavigationControls();
+    // Subscribed after the form so the controls are placed on the new page
+    this.formCore.core.subscribe(() => this.update());
+    this.update();
     this.setupEventListeners();
   }
 
+  private update(): void {
+    const { isCompleted } = this.formCore.core.getState();
+    if (isCompleted) {
+      this.stepIndicator.remove();
+      this.controls.remove();
+      return;
+    }
+
+    // The form rebuilds the container when the page changes
+    if (!this.container.contains(this.stepIndicator)) {
+      this.container.insertBefore(
+        this.stepIndicator,
+        this.container.firstChild
+      );
+    }
+    if (!this.container.contains(this.controls)) {
+      this.container.appendChild(this.controls);
+    }
+    this.renderStepIndicator();
+    this.updateNavigationControls();
+  }
+
   private renderStepIndicator(): void {
-    const indicator = document.createElement("div");
-    indicator.className = "flex justify-center items-center space-x-2 mb-6";
+    const { currentStep, totalSteps } = this.formCore.core.getProgress();
+    this.stepIndicator.innerHTML = "";
 
-    for (let i = 0; i < this.totalSteps; i++) {
+    for (let i = 1; i <= totalSteps; i++) {
       const step = document.createElement("div");
-      step.className = `flex items-center ${
-        i === this.currentStep ? "text-blue-600" : "text-gray-400"
+      step.className = `step flex items-center ${
+        i === currentStep ? "text-blue-600" : "text-gray-400"
       }`;
 
       // Step number
       const number = document.createElement("div");
       number.className = `w-6 h-6 rounded-full flex items-center justify-center text-sm ${
-        i === this.currentStep
+        i <= currentStep
           ? "bg-blue-600 text-white"
           : "bg-gray-200 text-gray-600"
       }`;
-      number.textContent = (i + 1).toString();
+      number.textContent = i.toString();
       step.appendChild(number);
 
       // Step connector (except for last step)
-      if (i < this.totalSteps - 1) {
+      if (i < totalSteps) {
         const connector = document.createElement("div");
         connector.className = `w-8 h-0.5 ${
-          i === this.currentStep ? "bg-blue-600" : "bg-gray-200"
+          i < currentStep ? "bg-blue-600" : "bg-gray-200"
         }`;
         step.appendChild(connector);
       }
 
-      indicator.appendChild(step);
+      this.stepIndicator.appendChild(step);
     }
-
-    this.container.insertBefore(indicator, this.container.firstChild);
   }
 
-  private renderNavigationControls(): void {
-    const controls = document.createElement("div");
-    controls.className = "flex justify-between items-center mt-6";
-
-    const backButton = document.createElement("button");
-    backButton.className = `px-4 py-2 text-sm font-medium rounded-md ${
-      this.currentStep === 0
-        ? "bg-gray-100 text-gray-400 cursor-not-allowed"
-        : "bg-white text-gray-700 border border-gray-300 hover:bg-gray-50"
+  private updateNavigationControls(): void {
+    const core = this.formCore.core;
+    const { translationService } = core;
+    const { currentStep, totalSteps } = core.getProgress();
+    const { isSubmitting } = core.getState();
+    const currentPage = core.currentPage;
+    const canGoBack = core.canGoBack();
+
+    this.backButton.disabled = !canGoBack;
+    this.backButton.className = `back-button px-4 py-2 text-sm font-medium rounded-md ${
+      canGoBack
+        ? "bg-white text-gray-700 border border-gray-300 hover:bg-gray-50"
+        : "bg-gray-100 text-gray-400 cursor-not-allowed"
     }`;
-    backButton.textContent = "Back";
-    backButton.disabled = this.currentStep === 0;
-    backButton.addEventListener("click", () => this.handlePrevious());
-
-    const nextButton = document.createElement("button");
-    nextButton.className = `px-4 py-2 text-sm font-medium rounded-md ${
-      this.currentStep === this.totalSteps - 1
+    this.backButton.textContent =
+      translationService.translateUI("previousButton");
+
+    const isLastStep =
+      currentPage?.isEndPage === true || currentStep === totalSteps;
+    let nextButtonText = translationService.translateUI("nextButton");
+    if (isSubmitting) {
+      nextButtonText = translationService.translateUI("submittingText");
+    } else if (currentPage?.isConfirmationPage) {
+      nextButtonText = translationService.translateUI("confirmSubmitButton");
+    } else if (isLastStep) {
+      nextButtonText = translationService.translateUI("submitButton");
+    }
+    this.nextButton.disabled = isSubmitting;
+    this.nextButton.textContent = nextButtonText;
+    this.nextButton.className = `next-button px-4 py-2 text-sm font-medium rounded-md ${
+      isLastStep || currentPage?.isConfirmationPage
         ? "bg-green-600 text-white hover:bg-green-700"
         : "bg-blue-600 text-white hover:bg-blue-700"
     }`;
-    nextButton.textContent =
-      this.currentStep === this.totalSteps - 1 ? "Submit" : "Next";
-    nextButton.addEventListener("click", () => this.handleNext());
-
-    controls.appendChild(backButton);
-    controls.appendChild(nextButton);
-    this.container.appendChild(controls);
   }
 
   private setupEventListeners(): void {
@@ -95,71 +146,4 @@ export class VanillaFormRenderer {
       console.log("Form submitted with data:", customEvent.detail);
     });
   }
-
-  private handlePrevious(): void {
-    if (this.currentStep > 0) {
-      this.currentStep--;
-      this.formCore.handlePrevious();
-      this.updateNavigationControls();
-    }
-  }
-
-  private handleNext(): void {
-    if (this.currentStep < this.totalSteps - 1) {
-      this.currentStep++;
-      this.formCore.handleNext();
-      this.updateNavigationControls();
-    }
-  }
-
-  private updateNavigationControls(): void {
-    const backButton = this.container.querySelector(
-      ".back-button"
-    ) as HTMLButtonElement;
-    const nextButton = this.container.querySelector(
-      ".next-button"
-    ) as HTMLButtonElement;
-
-    if (backButton) {
-      backButton.disabled = this.currentStep === 0;
-      backButton.className = `px-4 py-2 text-sm font-medium rounded-md ${
-        this.currentStep === 0
-          ? "bg-gray-100 text-gray-400 cursor-not-allowed"
-          : "bg-white text-gray-700 border border-gray-300 hover:bg-gray-50"
-      }`;
-    }
-
-    if (nextButton) {
-      nextButton.textContent =
-        this.currentStep === this.totalSteps - 1 ? "Submit" : "Next";
-      nextButton.className = `px-4 py-2 text-sm font-medium rounded-md ${
-        this.currentStep === this.totalSteps - 1
-          ? "bg-green-600 text-white hover:bg-green-700"
-          : "bg-blue-600 text-white hover:bg-blue-700"
-      }`;
-    }
-
-    // Update step indicator
-    const steps = this.container.querySelectorAll(".step");
-    steps.forEach((step, index) => {
-      step.classList.toggle("text-blue-600", index === this.currentStep);
-      step.classList.toggle("text-gray-400", index !== this.currentStep);
-      const number = step.querySelector("div");
-      if (number) {
-        number.classList.toggle(
-          "bg-blue-600 text-white",
-          index === this.currentStep
-        );
-        number.classList.toggle(
-          "bg-gray-200 text-gray-600",
-          index !== this.currentStep
-        );
-      }
-      const connector = step.querySelector("div:last-child");
-      if (connector) {
-        connector.classList.toggle("bg-blue-600", index === this.currentStep);
-        connector.classList.toggle("bg-gray-200", index !== this.currentStep);
-      }
-    });
-  }
 }
@@ -0,0 +1,233 @@
+import { vi } from "vitest";
+import { VanillaFormRenderer } from "../VanillaFormRenderer";
+import { FormSchema } from "../types";
+
+const schema: FormSchema = {
+  app: {
+    title: "Membership",
+    pages: [
+      {
+        id: "personal",
+        route: "/personal",
+        title: "Personal",
+        components: [
+          {
+            type: "input",
+            id: "name",
+            label: "Name",
+            validation: { required: true },
+          },
+          {
+            type: "radio",
+            id: "membership",
+            label: "Membership",
+            props: {
+              options: [
+                { label: "Regular", value: "regular" },
+                { label: "Student", value: "student" },
+              ],
+            },
+          },
+        ],
+        branches: [
+          {
+            condition: {
+              field: "membership",
+              operator: "==",
+              value: "student",
+            },
+            nextPage: "student",
+          },
+        ],
+        nextPage: "confirm",
+      },
+      {
+        id: "student",
+        route: "/student",
+        title: "Student",
+        nextPage: "confirm",
+        components: [{ type: "input", id: "school", label: "School" }],
+      },
+      {
+        id: "confirm",
+        route: "/confirm",
+        title: "Confirm",
+        isConfirmationPage: true,
+        components: [{ type: "confirmation", id: "summary" }],
+      },
+    ],
+  },
+};
+
+const getButton = (text: string) =>
+  Array.from(document.querySelectorAll("button")).find(
+    (button) => button.textContent === text
+  ) as HTMLButtonElement;
+
+const typeInto = (id: string, value: string) => {
+  const input = document.getElementById(id) as HTMLInputElement;
+  input.value = value;
+  input.dispatchEvent(new Event("input", { bubbles: true }));
+};
+
+describe("VanillaFormRenderer", () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="form"></div>';
+  });
+
+  it("should show translated validation errors before leaving a page", () => {
+    new VanillaFormRenderer(schema, "form").init();
+
+    getButton("Next").click();
+
+    expect(document.body.textContent).toContain("Name is required");
+    expect(document.querySelector("h2")?.textContent).toBe("Personal");
+  });
+
+  it("should follow branches and submit from the confirmation page", async () => {
+    const onSubmit = vi.fn();
+    new VanillaFormRenderer(schema, "form", { onSubmit }).init();
+
+    typeInto("name", "Jane");
+    (document.getElementById("membership-student") as HTMLInputElement).click();
+    getButton("Next").click();
+
+    expect(document.querySelector("h2")?.textContent).toBe("Student");
+    typeInto("school", "Utrecht University");
+    getButton("Next").click();
+
+    expect(document.querySelector("h2")?.textContent).toBe("Confirm");
+    expect(document.body.textContent).toContain("Student");
+    expect(document.body.textContent).toContain("Utrecht University");
+
+    getButton("Confirm & Submit").click();
+    await vi.waitFor(() =>
+      expect(onSubmit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: "Jane",
+          membership: "student",
+          school: "Utrecht University",
+        })
+      )
+    );
+  });
+
+  it("should keep the focused input while typing", () => {
+    new VanillaFormRenderer(schema, "form").init();
+    const input = document.getElementById("name") as HTMLInputElement;
+    input.focus();
+
+    typeInto("name", "J");
+
+    expect(document.getElementById("name")).toBe(input);
+    expect(document.activeElement).toBe(input);
+  });
+
+  it("should show masked values and keep the raw value", () => {
+    const onSubmit = vi.fn();
+    new VanillaFormRenderer(
+      {
+        app: {
+          title: "Address",
+          pages: [
+            {
+              id: "address",
+              route: "/address",
+              title: "Address",
+              isEndPage: true,
+              components: [
+                {
+                  type: "input",
+                  id: "postalCode",
+                  label: "Postal code",
+                  props: { mask: "9999 AA" },
+                },
+              ],
+            },
+          ],
+        },
+      },
+      "form",
+      { onSubmit }
+    ).init();
+
+    typeInto("postalCode", "1234ab");
+
+    expect(
+      (document.getElementById("postalCode") as HTMLInputElement).value
+    ).toBe("1234 AB");
+    getButton("Submit").click();
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ postalCode: "1234AB" })
+    );
+  });
+  it("should run the event handler actions of buttons and fields", async () => {
+    new VanillaFormRenderer(
+      {
+        app: {
+          title: "Order",
+          pages: [
+            {
+              id: "order",
+              route: "/order",
+              title: "Order",
+              nextPage: "done",
+              components: [
+                {
+                  type: "input",
+                  id: "quantity",
+                  label: "Quantity",
+                  eventHandlers: {
+                    onChange: {
+                      type: "setValue",
+                      field: "note",
+                      value: "Ordering {{quantity}}",
+                    },
+                  },
+                },
+                { type: "input", id: "note", label: "Note" },
+                {
+                  type: "button",
+                  id: "express",
+                  label: "Express",
+                  eventHandlers: {
+                    onClick: [
+                      {
+                        type: "showMessage",
+                        message: "Express for {{quantity}}",
+                      },
+                      { type: "navigate", targetPage: "done" },
+                    ],
+                  },
+                },
+              ],
+            },
+            {
+              id: "done",
+              route: "/done",
+              title: "Done",
+              isEndPage: true,
+              components: [{ type: "input", id: "remarks", label: "Remarks" }],
+            },
+          ],
+        },
+      },
+      "form"
+    ).init();
+
+    (document.getElementById("quantity") as HTMLInputElement).focus();
+    typeInto("quantity", "3");
+    expect((document.getElementById("note") as HTMLInputElement).value).toBe(
+      "Ordering 3"
+    );
+    expect(document.activeElement?.id).toBe("quantity");
+
+    getButton("Express").click();
+    await vi.waitFor(() =>
+      expect(document.querySelector("h2")?.textContent).toBe("Done")
+    );
+    expect(document.querySelector('[role="status"]')?.textContent).toBe(
+      "Express for 3"
+    );
+  });
+});
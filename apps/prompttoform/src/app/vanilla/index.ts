@@ -1,10 +1,12 @@
-import { ExtendedFormSchema } from "./VanillaFormCore";
+import { FormCoreOptions } from "@devhelpr/react-forms/core";
 import { VanillaFormRenderer } from "./VanillaFormRenderer";
+import { FormSchema } from "./types";
 
 export function initFormGenerator(
-  schema: ExtendedFormSchema,
-  containerId: string
+  schema: FormSchema,
+  containerId: string,
+  options: FormCoreOptions = {}
 ): void {
-  const formRenderer = new VanillaFormRenderer(schema, containerId);
+  const formRenderer = new VanillaFormRenderer(schema, containerId, options);
   formRenderer.init();
 }
@@ -0,0 +1,28 @@
+// React-free entry point: the form engine, services and utilities without the
+// FormRenderer components and hooks, for renderers that don't use React
+export * from './lib/interfaces/form-interfaces';
+export * from './lib/interfaces/field-registry-interfaces';
+export * from './lib/interfaces/draft-interfaces';
+export * from './lib/interfaces/data-source-interfaces';
+export * from './lib/interfaces/file-upload-interfaces';
+export * from './lib/interfaces/async-validation-interfaces';
+export * from './lib/interfaces/action-interfaces';
+export * from './lib/interfaces/routing-interfaces';
+export * from './lib/interfaces/form-core-interfaces';
+export * from './lib/interfaces/form-event-interfaces';
+export * from './lib/services/translation-service';
+export * from './lib/services/data-source.service';
+export * from './lib/services/async-validation.service';
+export * from './lib/services/action-runtime.service';
+export * from './lib/services/form-core.service';
+export * from './lib/utils/page-ordering';
+export * from './lib/utils/branch-utils';
+export * from './lib/utils/visibility-utils';
+export * from './lib/utils/hidden-field-utils';
+export * from './lib/utils/cross-field-validation';
+export * from './lib/utils/routing-utils';
+export * from './lib/utils/form-navigation';
+export * from './lib/utils/form-validation';
+export * from './lib/utils/calculated-values';
+export * from './lib/utils/input-format';
+export * from './lib/utils/locale-format';
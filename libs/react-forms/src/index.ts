@@ -1,4 +1,14 @@
 export * from './lib/interfaces/form-interfaces';
+export * from './lib/interfaces/field-registry-interfaces';
+export * from './lib/interfaces/draft-interfaces';
+export * from './lib/interfaces/data-source-interfaces';
+export * from './lib/interfaces/file-upload-interfaces';
+export * from './lib/interfaces/async-validation-interfaces';
+export * from './lib/interfaces/action-interfaces';
+export * from './lib/interfaces/routing-interfaces';
+export * from './lib/interfaces/form-engine-interfaces';
+export * from './lib/interfaces/form-core-interfaces';
+export * from './lib/interfaces/form-event-interfaces';
 export type {
   TranslationDictionary,
   MultiLanguageFormDefinition,
@@ -6,7 +16,31 @@ export type {
 } from './lib/interfaces/multi-language-interfaces';
 export * from './lib/atoms';
 export * from './lib/molecules/FormRenderer';
+export { useFormEngine } from './lib/hooks/use-form-engine';
 export * from './lib/types/field-types';
 export * from './lib/services/translation-service';
+export * from './lib/services/field-registry.service';
+export * from './lib/services/draft-storage.service';
+export * from './lib/services/data-source.service';
+export * from './lib/services/async-validation.service';
+export * from './lib/services/action-runtime.service';
+export * from './lib/services/form-core.service';
 export * from './lib/utils/page-ordering';
+export * from './lib/utils/file-utils';
+export * from './lib/utils/branch-utils';
+export * from './lib/utils/visibility-utils';
+export * from './lib/utils/hidden-field-utils';
+export * from './lib/utils/cross-field-validation';
+export * from './lib/utils/routing-utils';
+export * from './lib/utils/form-navigation';
+export * from './lib/utils/form-validation';
+export * from './lib/utils/calculated-values';
+export * from './lib/utils/input-format';
+export * from './lib/utils/locale-format';
+export * from './lib/utils/date-limits';
+export * from './lib/utils/signature-utils';
+export * from './lib/utils/matrix-utils';
+export * from './lib/utils/rating-utils';
+export * from './lib/utils/ranking-utils';
+export * from './lib/utils/select-utils';
 export * from './examples';
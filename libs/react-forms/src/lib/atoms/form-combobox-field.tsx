@@ -0,0 +1,489 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getClassNamesWithColorAndStyle } from '../utils/class-utils';
+import {
+  defaultColorClasses,
+  defaultStyleClasses,
+} from '../config/default-classes';
+import { Option, SelectProps } from '../interfaces/form-interfaces';
+import {
+  filterSelectOptions,
+  getOtherSelectText,
+  getSelectedValues,
+  getSelectOptions,
+  groupSelectOptions,
+  otherSelectOptionValue,
+  SelectOption,
+} from '../utils/select-utils';
+
+interface FormComboboxFieldProps {
+  fieldId: string;
+  label?: string;
+  /** Chosen option value, a list of values for multi-selects */
+  value: string | string[];
+  onChange: (value: string | string[]) => void;
+  onBlur: () => void;
+  validation?: {
+    required?: boolean;
+    maxItems?: number;
+  };
+  props?: SelectProps & {
+    options?: Option[];
+    multiple?: boolean;
+    placeholder?: string;
+    helperText?: string;
+  };
+  showError: boolean;
+  validationErrors: string[];
+  disabled?: boolean;
+  placeholderText?: string;
+  noOptionsText?: string;
+  /** Label of the other choice when `props.otherLabel` isn't set */
+  otherOptionText?: string;
+  otherInputLabel?: string;
+  removeButtonText?: string;
+  classes?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldSelect?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  colorClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldSelect?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  styleClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldSelect?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+}
+
+export const FormComboboxField: React.FC<FormComboboxFieldProps> = ({
+  fieldId,
+  label,
+  value,
+  onChange,
+  onBlur,
+  validation,
+  props,
+  showError,
+  validationErrors,
+  disabled = false,
+  placeholderText = 'Type to search...',
+  noOptionsText = 'No options found',
+  otherOptionText = 'Other (please specify)',
+  otherInputLabel = 'Please specify',
+  removeButtonText = 'Remove',
+  classes,
+  colorClasses,
+  styleClasses,
+}) => {
+  // Helper function to get merged classes
+  const getMergedFieldClasses = (
+    fieldKey:
+      | 'field'
+      | 'fieldLabel'
+      | 'fieldSelect'
+      | 'fieldError'
+      | 'fieldHelperText'
+      | 'requiredIndicator'
+  ) => {
+    if (colorClasses || styleClasses) {
+      // If only colorClasses is provided, use default style classes
+      // If only styleClasses is provided, use default color classes
+      // If both are provided, use both
+      const colorClass =
+        colorClasses?.[fieldKey] || defaultColorClasses[fieldKey] || '';
+      const styleClass =
+        styleClasses?.[fieldKey] || defaultStyleClasses[fieldKey] || '';
+      return getClassNamesWithColorAndStyle(colorClass, styleClass);
+    }
+    return classes?.[fieldKey] || '';
+  };
+
+  const isMultiple = !!props?.multiple;
+  const options = getSelectOptions({ props: { options: props?.options } });
+  const selectedValues = getSelectedValues(value);
+  const selectedOptions = selectedValues
+    .map((item) => options.find((option) => option.value === item))
+    .filter((option) => option !== undefined);
+  const otherText = props?.allowOther ? getOtherSelectText(options, value) : '';
+  const isFull =
+    isMultiple &&
+    validation?.maxItems !== undefined &&
+    selectedValues.length >= validation.maxItems;
+
+  // Search text while typing, null shows the chosen option in the input
+  const [query, setQuery] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  // The other choice stays chosen while its text is still empty
+  const [isOtherChosen, setIsOtherChosen] = useState(false);
+  const showOther = !!props?.allowOther && (isOtherChosen || otherText !== '');
+  const otherInputRef = useRef<HTMLInputElement>(null);
+  const focusOtherRef = useRef(false);
+
+  useEffect(() => {
+    if (showOther && focusOtherRef.current) {
+      otherInputRef.current?.focus();
+      focusOtherRef.current = false;
+    }
+  }, [showOther]);
+
+  const otherOption: SelectOption = {
+    label: props?.otherLabel || otherOptionText,
+    value: otherSelectOptionValue,
+  };
+  const groups = groupSelectOptions(filterSelectOptions(options, query ?? ''));
+  // Options in the order they are shown, used for keyboard navigation
+  const listedOptions = [
+    ...groups.flatMap((group) => group.options),
+    ...(props?.allowOther ? [otherOption] : []),
+  ];
+
+  const labelId = `${fieldId}-label`;
+  const listboxId = `${fieldId}-listbox`;
+  const otherId = `${fieldId}-other`;
+  const errorId = `${fieldId}-error`;
+  const helperId = `${fieldId}-helper`;
+  const describedBy = showError
+    ? errorId
+    : typeof props?.helperText === 'string' && props.helperText.trim() !== ''
+    ? helperId
+    : undefined;
+  const getOptionId = (index: number) => `${fieldId}-option-${index}`;
+
+  const isSelected = (option: SelectOption) =>
+    option.value === otherSelectOptionValue
+      ? showOther
+      : selectedValues.includes(option.value);
+
+  const isOptionDisabled = (option: SelectOption) =>
+    isFull && !isSelected(option);
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+    setQuery(null);
+  };
+
+  const selectOther = () => {
+    if (isMultiple && showOther) {
+      // Choosing the other choice again removes the typed text
+      setIsOtherChosen(false);
+      onChange(selectedValues.filter((item) => item !== otherText));
+      return;
+    }
+    setIsOtherChosen(true);
+    focusOtherRef.current = true;
+    if (!isMultiple) {
+      onChange(otherText);
+      close();
+    }
+  };
+
+  const selectOption = (option: SelectOption) => {
+    if (isOptionDisabled(option)) {
+      return;
+    }
+    if (option.value === otherSelectOptionValue) {
+      selectOther();
+      return;
+    }
+    if (isMultiple) {
+      onChange(
+        selectedValues.includes(option.value)
+          ? selectedValues.filter((item) => item !== option.value)
+          : [...selectedValues, option.value]
+      );
+      setQuery('');
+      return;
+    }
+    setIsOtherChosen(false);
+    onChange(option.value);
+    close();
+  };
+
+  const removeValue = (optionValue: string) => {
+    onChange(selectedValues.filter((item) => item !== optionValue));
+  };
+
+  const changeOtherText = (text: string) => {
+    setIsOtherChosen(true);
+    if (!isMultiple) {
+      onChange(text);
+      return;
+    }
+    const chosenOptions = selectedValues.filter((item) => item !== otherText);
+    onChange(text ? [...chosenOptions, text] : chosenOptions);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setIsOpen(true);
+      setActiveIndex((index) => Math.min(index + 1, listedOptions.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setIsOpen(true);
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (event.key === 'Enter') {
+      if (isOpen && listedOptions[activeIndex]) {
+        event.preventDefault();
+        selectOption(listedOptions[activeIndex]);
+      }
+    } else if (event.key === 'Escape') {
+      if (isOpen) {
+        event.preventDefault();
+        close();
+      }
+    } else if (
+      event.key === 'Backspace' &&
+      isMultiple &&
+      !query &&
+      selectedOptions.length > 0
+    ) {
+      removeValue(selectedOptions[selectedOptions.length - 1].value);
+    }
+  };
+
+  const inputValue =
+    query ??
+    (isMultiple
+      ? ''
+      : showOther
+      ? otherOption.label
+      : selectedOptions[0]?.label ?? '');
+
+  const renderOption = (option: SelectOption) => {
+    const index = listedOptions.indexOf(option);
+    const selected = isSelected(option);
+    const optionDisabled = isOptionDisabled(option);
+    return (
+      <li
+        key={option.value}
+        id={getOptionId(index)}
+        role="option"
+        aria-selected={selected}
+        aria-disabled={optionDisabled || undefined}
+        aria-labelledby={`${getOptionId(index)}-label`}
+        aria-describedby={
+          option.description ? `${getOptionId(index)}-description` : undefined
+        }
+        // Keep the focus in the input while choosing with the pointer
+        onMouseDown={(event) => event.preventDefault()}
+        onClick={() => selectOption(option)}
+        onMouseEnter={() => setActiveIndex(index)}
+        className={`flex cursor-pointer items-start gap-2 px-3 py-2 text-sm ${
+          index === activeIndex ? 'bg-indigo-50' : ''
+        } ${optionDisabled ? 'cursor-not-allowed opacity-50' : ''}`}
+      >
+        <span aria-hidden="true" className="w-4 text-indigo-600">
+          {selected ? '✓' : ''}
+        </span>
+        <span>
+          <span id={`${getOptionId(index)}-label`} className="text-gray-900">
+            {option.label}
+          </span>
+          {option.description && (
+            <span
+              id={`${getOptionId(index)}-description`}
+              className="block text-xs text-gray-500"
+            >
+              {option.description}
+            </span>
+          )}
+        </span>
+      </li>
+    );
+  };
+
+  return (
+    <div className={getMergedFieldClasses('field') || 'mb-4'}>
+      <label
+        id={labelId}
+        htmlFor={fieldId}
+        className={
+          getMergedFieldClasses('fieldLabel') ||
+          'block text-sm font-medium text-gray-700 mb-1'
+        }
+      >
+        {typeof label === 'string' ? label : ''}
+        {!!validation?.required && (
+          <span
+            className={
+              getMergedFieldClasses('requiredIndicator') || 'text-red-500 ml-1'
+            }
+            aria-hidden="true"
+          >
+            *
+          </span>
+        )}
+      </label>
+      <div className="relative">
+        <div
+          className={
+            getMergedFieldClasses('fieldSelect') ||
+            `flex w-full flex-wrap items-center gap-1 p-2 border ${
+              showError ? 'border-red-500' : 'border-gray-300'
+            } rounded-md bg-white ${
+              disabled ? 'bg-gray-100 cursor-not-allowed' : ''
+            }`
+          }
+        >
+          {isMultiple &&
+            selectedOptions.map((option) => (
+              <span
+                key={option.value}
+                className="inline-flex items-center gap-1 rounded-full bg-indigo-100 px-2 py-0.5 text-sm text-indigo-800"
+              >
+                {option.label}
+                {!disabled && (
+                  <button
+                    type="button"
+                    onClick={() => removeValue(option.value)}
+                    aria-label={`${removeButtonText} ${option.label}`}
+                    className="text-indigo-600 hover:text-indigo-900"
+                  >
+                    ✕
+                  </button>
+                )}
+              </span>
+            ))}
+          <input
+            id={fieldId}
+            type="text"
+            role="combobox"
+            autoComplete="off"
+            className="min-w-24 flex-1 bg-transparent outline-none"
+            value={inputValue}
+            placeholder={
+              isMultiple && selectedOptions.length > 0
+                ? undefined
+                : props?.placeholder || placeholderText
+            }
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setIsOpen(true);
+              setActiveIndex(0);
+            }}
+            onFocus={() => setIsOpen(true)}
+            onClick={() => setIsOpen(true)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => {
+              close();
+              onBlur();
+            }}
+            aria-expanded={isOpen}
+            aria-controls={listboxId}
+            aria-autocomplete="list"
+            aria-activedescendant={
+              isOpen && activeIndex >= 0 ? getOptionId(activeIndex) : undefined
+            }
+            aria-required={!!validation?.required}
+            aria-invalid={showError}
+            aria-describedby={describedBy}
+            disabled={disabled}
+          />
+        </div>
+        {isOpen && !disabled && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            aria-labelledby={labelId}
+            aria-multiselectable={isMultiple || undefined}
+            className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md border border-gray-300 bg-white py-1 shadow-lg"
+          >
+            {groups.map(({ group, options: groupOptions }, groupIndex) =>
+              group === undefined ? (
+                groupOptions.map(renderOption)
+              ) : (
+                <li key={group} role="presentation">
+                  <div
+                    id={`${fieldId}-group-${groupIndex}`}
+                    className="px-3 pt-2 pb-1 text-xs font-semibold uppercase text-gray-500"
+                  >
+                    {group}
+                  </div>
+                  <ul
+                    role="group"
+                    aria-labelledby={`${fieldId}-group-${groupIndex}`}
+                  >
+                    {groupOptions.map(renderOption)}
+                  </ul>
+                </li>
+              )
+            )}
+            {groups.length === 0 && (
+              <li
+                role="presentation"
+                className="px-3 py-2 text-sm text-gray-500"
+              >
+                {noOptionsText}
+              </li>
+            )}
+            {props?.allowOther && renderOption(otherOption)}
+          </ul>
+        )}
+      </div>
+      {showOther && (
+        <div className="mt-2">
+          <label htmlFor={otherId} className="sr-only">
+            {otherInputLabel}
+          </label>
+          <input
+            ref={otherInputRef}
+            id={otherId}
+            type="text"
+            className={`w-full p-2 border ${
+              showError ? 'border-red-500' : 'border-gray-300'
+            } rounded-md ${disabled ? 'bg-gray-100 cursor-not-allowed' : ''}`}
+            value={otherText}
+            placeholder={otherInputLabel}
+            onChange={(e) => changeOtherText(e.target.value)}
+            onBlur={onBlur}
+            aria-required={!!validation?.required}
+            aria-invalid={showError}
+            disabled={disabled || (isFull && otherText === '')}
+          />
+        </div>
+      )}
+      {showError && (
+        <div
+          id={errorId}
+          className={
+            getMergedFieldClasses('fieldError') || 'mt-1 text-sm text-red-500'
+          }
+          role="alert"
+          aria-live="polite"
+        >
+          {validationErrors.map((error, index) => (
+            <p key={index}>{error}</p>
+          ))}
+        </div>
+      )}
+      {typeof props?.helperText === 'string' &&
+        props.helperText.trim() !== '' &&
+        !showError && (
+          <p
+            id={helperId}
+            className={
+              getMergedFieldClasses('fieldHelperText') ||
+              'mt-1 text-sm text-gray-500'
+            }
+          >
+            {props.helperText}
+          </p>
+        )}
+    </div>
+  );
+};
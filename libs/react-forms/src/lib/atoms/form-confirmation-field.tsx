@@ -11,12 +11,29 @@ import {
   defaultColorClasses,
   defaultStyleClasses,
 } from '../config/default-classes';
+import { formatFileSize, isFileReferenceList } from '../utils/file-utils';
+import { getComponentTypes } from '../utils/field-lookup';
+import { isSignatureValue } from '../utils/signature-utils';
+import { getMatrixAnswers } from '../utils/matrix-utils';
+import { getRatingMax } from '../utils/rating-utils';
+import { getRankingLabels } from '../utils/ranking-utils';
+import { getSelectLabels } from '../utils/select-utils';
+import {
+  formatDateFieldValue,
+  getDateFieldKind,
+  isDateRangeValue,
+} from '../utils/date-limits';
+import { formatInputValue, hasInputFormat } from '../utils/input-format';
+import { formatDate, formatDisplayValue } from '../utils/locale-format';
+import { expressionEngine } from '../services/expression-engine.service';
 
 interface FormConfirmationFieldProps {
   fieldId: string;
   label?: string;
   formValues: FormValues;
   formComponents: FormComponentFieldProps[];
+  /** Locale numbers, amounts and dates are formatted for */
+  locale?: string;
   props?: {
     confirmationSettings?: {
       showSummary?: boolean;
@@ -96,6 +113,7 @@ export const FormConfirmationField: React.FC<FormConfirmationFieldProps> = ({
   label,
   formValues,
   formComponents,
+  locale,
   props,
   classes,
   colorClasses,
@@ -179,8 +197,11 @@ export const FormConfirmationField: React.FC<FormConfirmationFieldProps> = ({
         }
         return String(value);
 
-      case 'radio':
       case 'select':
+        // Labels of the chosen options, texts typed for "Other" as is
+        return getSelectLabels(component, value).join(', ') || '-';
+
+      case 'radio':
         // Find the label for the selected option
         if (component.options) {
           const selectedOption = component.options.find(
@@ -198,16 +219,59 @@ export const FormConfirmationField: React.FC<FormConfirmationFieldProps> = ({
 
       case 'date':
         // Format date for better readability
-        try {
-          const date = new Date(String(value));
-          if (!isNaN(date.getTime())) {
-            return date.toLocaleDateString();
-          }
-        } catch {
-          // Fall through to default string representation
+        return formatDate(value, locale);
+
+      case 'time':
+        return formatDateFieldValue(value, 'time', locale);
+
+      case 'datetime':
+        return formatDateFieldValue(value, 'datetime', locale);
+
+      case 'date-range':
+        if (isDateRangeValue(value) && (value.start || value.end)) {
+          return [value.start, value.end]
+            .map((date) => formatDate(date, locale) || '-')
+            .join(' – ');
+        }
+        return '-';
+
+      case 'matrix':
+        return (
+          getMatrixAnswers(component, value)
+            .map(({ statement, answer }) => `${statement.label}: ${answer}`)
+            .join('; ') || '-'
+        );
+
+      case 'rating':
+        return `${value} / ${getRatingMax(component)}`;
+
+      case 'ranking':
+        return (
+          getRankingLabels(component, value)
+            .map((optionLabel, index) => `${index + 1}. ${optionLabel}`)
+            .join(', ') || '-'
+        );
+
+      case 'file':
+        if (isFileReferenceList(value)) {
+          return value
+            .map((file) => `${file.name} (${formatFileSize(file.size)})`)
+            .join(', ');
         }
         return String(value);
 
+      case 'input':
+        // Masked and formatted inputs show the value like the input does
+        if (hasInputFormat(component.props)) {
+          return formatInputValue(String(value), {
+            ...component.props,
+            locale: component.props?.locale ?? locale,
+          });
+        }
+        return component.props?.inputType === 'number' && !isNaN(Number(value))
+          ? formatDisplayValue(Number(value), locale)
+          : formatDisplayValue(value, locale);
+
       case 'array':
         if (Array.isArray(value) && value.length > 0) {
           return `${value.length} item${value.length === 1 ? '' : 's'}`;
@@ -215,7 +279,7 @@ export const FormConfirmationField: React.FC<FormConfirmationFieldProps> = ({
         return 'No items';
 
       default:
-        return String(value);
+        return formatDisplayValue(value, locale);
     }
   };
 
@@ -235,6 +299,15 @@ export const FormConfirmationField: React.FC<FormConfirmationFieldProps> = ({
     return false;
   };
 
+  // Template values are only shown as dates for date fields
+  const componentTypes = getComponentTypes(formComponents);
+  const formatTemplateValue = (value: unknown, fieldId: string) =>
+    formatDisplayValue(
+      value,
+      locale,
+      getDateFieldKind(componentTypes[fieldId] ?? '')
+    );
+
   // Helper function to replace template variables in text
   const replaceTemplateVariables = (
     text: string,
@@ -243,6 +316,16 @@ export const FormConfirmationField: React.FC<FormConfirmationFieldProps> = ({
     return text.replace(/\{\{([^}]+)\}\}/g, (match, variable) => {
       const varName = variable.trim();
 
+      // Functions like format(total, 'currency', 'EUR') use the template processor
+      if (/^\w+\(.*\)$/.test(varName)) {
+        return expressionEngine.processTemplate(
+          match,
+          values,
+          locale,
+          componentTypes
+        );
+      }
+
       // Handle nested variable paths like "applicant.fullName"
       if (varName.includes('.')) {
         const keys = varName.split('.');
@@ -258,14 +341,14 @@ export const FormConfirmationField: React.FC<FormConfirmationFieldProps> = ({
         }
 
         if (!isEmptyValue(value)) {
-          return String(value);
+          return formatTemplateValue(value, keys[keys.length - 1]);
         }
       }
 
       // Try direct field name match
       let directValue = values[varName];
       if (!isEmptyValue(directValue)) {
-        return String(directValue);
+        return formatTemplateValue(directValue, varName);
       }
 
       // Try common field name variations
@@ -279,7 +362,7 @@ export const FormConfirmationField: React.FC<FormConfirmationFieldProps> = ({
       for (const variation of variations) {
         const value = values[variation];
         if (!isEmptyValue(value)) {
-          return String(value);
+          return formatTemplateValue(value, variation);
         }
       }
 
@@ -291,7 +374,7 @@ export const FormConfirmationField: React.FC<FormConfirmationFieldProps> = ({
       );
 
       if (matchingKey && !isEmptyValue(values[matchingKey])) {
-        return String(values[matchingKey]);
+        return formatTemplateValue(values[matchingKey], matchingKey);
       }
 
       // Return a dash for missing/empty fields
@@ -529,7 +612,36 @@ export const FormConfirmationField: React.FC<FormConfirmationFieldProps> = ({
                         'confirmationFieldValue'
                       )}
                     >
-                      {getDisplayValue(component, value)}
+                      {component.type === 'matrix' &&
+                      getMatrixAnswers(component, value).length > 0 ? (
+                        <ul>
+                          {getMatrixAnswers(component, value).map(
+                            ({ statement, answer }) => (
+                              <li key={statement.id}>
+                                {statement.label}: {answer}
+                              </li>
+                            )
+                          )}
+                        </ul>
+                      ) : component.type === 'ranking' &&
+                        getRankingLabels(component, value).length > 0 ? (
+                        <ol className="list-decimal list-inside">
+                          {getRankingLabels(component, value).map(
+                            (optionLabel, index) => (
+                              <li key={index}>{optionLabel}</li>
+                            )
+                          )}
+                        </ol>
+                      ) : component.type === 'signature' &&
+                        isSignatureValue(value) ? (
+                        <img
+                          src={value}
+                          alt={getComponentLabel(component)}
+                          className="max-h-24 max-w-full bg-white"
+                        />
+                      ) : (
+                        getDisplayValue(component, value)
+                      )}
                     </dd>
                   </div>
                 ))}
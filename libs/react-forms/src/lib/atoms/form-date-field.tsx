@@ -7,6 +7,13 @@ import {
   defaultColorClasses,
   defaultStyleClasses,
 } from '../config/default-classes';
+import { DateFieldKind, formatDateFieldValue } from '../utils/date-limits';
+
+const inputTypes: Record<DateFieldKind, string> = {
+  date: 'date',
+  time: 'time',
+  datetime: 'datetime-local',
+};
 
 interface FormDateFieldProps {
   fieldId: string;
@@ -22,6 +29,13 @@ interface FormDateFieldProps {
     maxDate?: string;
     helperText?: string;
   };
+  /** Kind of value, the value is "2024-05-01", "09:30" or "2024-05-01T09:30" */
+  variant?: DateFieldKind;
+  /** Resolved limits as ISO values, `props.minDate` and `props.maxDate` by default */
+  min?: string;
+  max?: string;
+  /** Locale the chosen value is shown in below the input */
+  locale?: string;
   showError: boolean;
   validationErrors: string[];
   disabled?: boolean;
@@ -59,6 +73,10 @@ export const FormDateField: React.FC<FormDateFieldProps> = ({
   onBlur,
   validation,
   props,
+  variant = 'date',
+  min,
+  max,
+  locale,
   showError,
   validationErrors,
   disabled = false,
@@ -95,6 +113,10 @@ export const FormDateField: React.FC<FormDateFieldProps> = ({
     : typeof props?.helperText === 'string' && props.helperText.trim() !== ''
     ? helperId
     : undefined;
+  // Native pickers use the language of the browser, the value is also shown
+  // in the language of the form
+  const formattedValue =
+    locale && value ? formatDateFieldValue(value, variant, locale) : '';
 
   return (
     <div className={getMergedFieldClasses('field') || 'mb-4'}>
@@ -119,7 +141,8 @@ export const FormDateField: React.FC<FormDateFieldProps> = ({
       </label>
       <input
         id={fieldId}
-        type="date"
+        type={inputTypes[variant]}
+        lang={locale}
         className={
           getMergedFieldClasses('fieldDate') ||
           `w-full p-2 border ${
@@ -127,8 +150,8 @@ export const FormDateField: React.FC<FormDateFieldProps> = ({
           } rounded-md ${disabled ? 'bg-gray-100 cursor-not-allowed' : ''}`
         }
         value={value}
-        min={props?.minDate}
-        max={props?.maxDate}
+        min={min ?? (variant === 'date' ? props?.minDate : undefined)}
+        max={max ?? (variant === 'date' ? props?.maxDate : undefined)}
         onChange={(e) => onChange(e.target.value)}
         onBlur={onBlur}
         required={!!validation?.required}
@@ -137,6 +160,9 @@ export const FormDateField: React.FC<FormDateFieldProps> = ({
         aria-describedby={describedBy}
         disabled={disabled}
       />
+      {formattedValue && formattedValue !== value && (
+        <p className="mt-1 text-sm text-gray-600">{formattedValue}</p>
+      )}
       {showError && (
         <div
           id={errorId}
@@ -0,0 +1,223 @@
+import React from 'react';
+import { getClassNamesWithColorAndStyle } from '../utils/class-utils';
+import {
+  defaultColorClasses,
+  defaultStyleClasses,
+} from '../config/default-classes';
+import { DateRangeValue, formatDateFieldValue } from '../utils/date-limits';
+
+interface FormDateRangeFieldProps {
+  fieldId: string;
+  label?: string;
+  /** ISO dates of the first and last day, empty strings when not chosen */
+  value: DateRangeValue;
+  onChange: (value: DateRangeValue) => void;
+  onBlur: () => void;
+  validation?: {
+    required?: boolean;
+  };
+  props?: {
+    helperText?: string;
+  };
+  /** Resolved limits of both dates as ISO dates */
+  min?: string;
+  max?: string;
+  /** Locale the chosen range is shown in below the inputs */
+  locale?: string;
+  showError: boolean;
+  validationErrors: string[];
+  disabled?: boolean;
+  startLabel?: string;
+  endLabel?: string;
+  classes?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldDate?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  colorClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldDate?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  styleClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldDate?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+}
+
+export const FormDateRangeField: React.FC<FormDateRangeFieldProps> = ({
+  fieldId,
+  label,
+  value,
+  onChange,
+  onBlur,
+  validation,
+  props,
+  min,
+  max,
+  locale,
+  showError,
+  validationErrors,
+  disabled = false,
+  startLabel = 'Start date',
+  endLabel = 'End date',
+  classes,
+  colorClasses,
+  styleClasses,
+}) => {
+  // Helper function to get merged classes
+  const getMergedFieldClasses = (
+    fieldKey:
+      | 'field'
+      | 'fieldLabel'
+      | 'fieldDate'
+      | 'fieldError'
+      | 'fieldHelperText'
+      | 'requiredIndicator'
+  ) => {
+    if (colorClasses || styleClasses) {
+      // If only colorClasses is provided, use default style classes
+      // If only styleClasses is provided, use default color classes
+      // If both are provided, use both
+      const colorClass =
+        colorClasses?.[fieldKey] || defaultColorClasses[fieldKey] || '';
+      const styleClass =
+        styleClasses?.[fieldKey] || defaultStyleClasses[fieldKey] || '';
+      return getClassNamesWithColorAndStyle(colorClass, styleClass);
+    }
+    return classes?.[fieldKey] || '';
+  };
+
+  const labelId = `${fieldId}-label`;
+  const endId = `${fieldId}-end`;
+  const errorId = `${fieldId}-error`;
+  const helperId = `${fieldId}-helper`;
+  const describedBy = showError
+    ? errorId
+    : typeof props?.helperText === 'string' && props.helperText.trim() !== ''
+    ? helperId
+    : undefined;
+
+  // The range can't end before it starts
+  const endMin = value.start && (!min || value.start > min) ? value.start : min;
+  const formattedRange =
+    locale && (value.start || value.end)
+      ? [value.start, value.end]
+          .map((date) => formatDateFieldValue(date, 'date', locale))
+          .join(' – ')
+      : '';
+
+  const inputClassName =
+    getMergedFieldClasses('fieldDate') ||
+    `w-full p-2 border ${
+      showError ? 'border-red-500' : 'border-gray-300'
+    } rounded-md ${disabled ? 'bg-gray-100 cursor-not-allowed' : ''}`;
+
+  return (
+    <fieldset className={getMergedFieldClasses('field') || 'mb-4'}>
+      <legend
+        id={labelId}
+        className={
+          getMergedFieldClasses('fieldLabel') ||
+          'block text-sm font-medium text-gray-700 mb-1'
+        }
+      >
+        {typeof label === 'string' ? label : ''}
+        {!!validation?.required && (
+          <span
+            className={
+              getMergedFieldClasses('requiredIndicator') || 'text-red-500 ml-1'
+            }
+            aria-hidden="true"
+          >
+            *
+          </span>
+        )}
+      </legend>
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+        <div>
+          <label htmlFor={fieldId} className="block text-sm text-gray-600">
+            {startLabel}
+          </label>
+          <input
+            id={fieldId}
+            type="date"
+            lang={locale}
+            className={inputClassName}
+            value={value.start}
+            min={min}
+            max={value.end || max}
+            onChange={(e) => onChange({ ...value, start: e.target.value })}
+            onBlur={onBlur}
+            required={!!validation?.required}
+            aria-required={!!validation?.required}
+            aria-invalid={showError}
+            aria-describedby={describedBy}
+            disabled={disabled}
+          />
+        </div>
+        <div>
+          <label htmlFor={endId} className="block text-sm text-gray-600">
+            {endLabel}
+          </label>
+          <input
+            id={endId}
+            type="date"
+            lang={locale}
+            className={inputClassName}
+            value={value.end}
+            min={endMin}
+            max={max}
+            onChange={(e) => onChange({ ...value, end: e.target.value })}
+            onBlur={onBlur}
+            required={!!validation?.required}
+            aria-required={!!validation?.required}
+            aria-invalid={showError}
+            aria-describedby={describedBy}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      {formattedRange && (
+        <p className="mt-1 text-sm text-gray-600">{formattedRange}</p>
+      )}
+      {showError && (
+        <div
+          id={errorId}
+          className={
+            getMergedFieldClasses('fieldError') || 'mt-1 text-sm text-red-500'
+          }
+          role="alert"
+          aria-live="polite"
+        >
+          {validationErrors.map((error, index) => (
+            <p key={index}>{error}</p>
+          ))}
+        </div>
+      )}
+      {typeof props?.helperText === 'string' &&
+        props.helperText.trim() !== '' &&
+        !showError && (
+          <p
+            id={helperId}
+            className={
+              getMergedFieldClasses('fieldHelperText') ||
+              'mt-1 text-sm text-gray-500'
+            }
+          >
+            {props.helperText}
+          </p>
+        )}
+    </fieldset>
+  );
+};
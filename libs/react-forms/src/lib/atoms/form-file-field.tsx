@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getClassNamesWithColorAndStyle } from '../utils/class-utils';
+import {
+  defaultColorClasses,
+  defaultStyleClasses,
+} from '../config/default-classes';
+import { FileReference } from '../interfaces/file-upload-interfaces';
+import { formatFileSize, isImageFile } from '../utils/file-utils';
+
+interface FormFileFieldProps {
+  fieldId: string;
+  label?: string;
+  value: FileReference[];
+  /** Called with the newly selected files */
+  onChange: (files: File[]) => void;
+  onRemove: (index: number) => void;
+  onBlur: () => void;
+  validation?: {
+    required?: boolean;
+  };
+  props?: {
+    accept?: string;
+    multiple?: boolean;
+    showPreview?: boolean;
+    helperText?: string;
+  };
+  showError: boolean;
+  validationErrors: string[];
+  disabled?: boolean;
+  isUploading?: boolean;
+  uploadingText?: string;
+  removeButtonText?: string;
+  classes?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldFile?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  colorClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldFile?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  styleClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldFile?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+}
+
+const getPreviewKey = (file: Pick<FileReference, 'name' | 'size'>) =>
+  `${file.name}:${file.size}`;
+
+export const FormFileField: React.FC<FormFileFieldProps> = ({
+  fieldId,
+  label,
+  value,
+  onChange,
+  onRemove,
+  onBlur,
+  validation,
+  props,
+  showError,
+  validationErrors,
+  disabled = false,
+  isUploading = false,
+  uploadingText = 'Uploading...',
+  removeButtonText = 'Remove',
+  classes,
+  colorClasses,
+  styleClasses,
+}) => {
+  // Helper function to get merged classes
+  const getMergedFieldClasses = (
+    fieldKey:
+      | 'field'
+      | 'fieldLabel'
+      | 'fieldFile'
+      | 'fieldError'
+      | 'fieldHelperText'
+      | 'requiredIndicator'
+  ) => {
+    if (colorClasses || styleClasses) {
+      // If only colorClasses is provided, use default style classes
+      // If only styleClasses is provided, use default color classes
+      // If both are provided, use both
+      const colorClass =
+        colorClasses?.[fieldKey] || defaultColorClasses[fieldKey] || '';
+      const styleClass =
+        styleClasses?.[fieldKey] || defaultStyleClasses[fieldKey] || '';
+      return getClassNamesWithColorAndStyle(colorClass, styleClass);
+    }
+    return classes?.[fieldKey] || '';
+  };
+
+  // Local previews of selected images, uploaded files with a url use that instead
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const previewsRef = useRef(previews);
+  previewsRef.current = previews;
+
+  useEffect(() => {
+    return () => {
+      Object.values(previewsRef.current).forEach((url) =>
+        URL.revokeObjectURL(url)
+      );
+    };
+  }, []);
+
+  const files = Array.isArray(value) ? value : [];
+  const showPreview = props?.showPreview !== false;
+  const errorId = `${fieldId}-error`;
+  const helperId = `${fieldId}-helper`;
+  const describedBy = showError
+    ? errorId
+    : typeof props?.helperText === 'string' && props.helperText.trim() !== ''
+    ? helperId
+    : undefined;
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFiles = Array.from(event.target.files ?? []);
+    // Reset the input so selecting the same file again triggers a change
+    event.target.value = '';
+    if (selectedFiles.length === 0) {
+      return;
+    }
+
+    if (showPreview && typeof URL.createObjectURL === 'function') {
+      const newPreviews: Record<string, string> = {};
+      selectedFiles.filter(isImageFile).forEach((file) => {
+        newPreviews[getPreviewKey(file)] = URL.createObjectURL(file);
+      });
+      setPreviews((prev) => ({ ...prev, ...newPreviews }));
+    }
+
+    onChange(selectedFiles);
+    onBlur();
+  };
+
+  return (
+    <div className={getMergedFieldClasses('field') || 'mb-4'}>
+      <label
+        htmlFor={fieldId}
+        className={
+          getMergedFieldClasses('fieldLabel') ||
+          'block text-sm font-medium text-gray-700 mb-1'
+        }
+      >
+        {typeof label === 'string' ? label : ''}
+        {!!validation?.required && (
+          <span
+            className={
+              getMergedFieldClasses('requiredIndicator') || 'text-red-500 ml-1'
+            }
+            aria-hidden="true"
+          >
+            *
+          </span>
+        )}
+      </label>
+      <input
+        id={fieldId}
+        type="file"
+        className={
+          getMergedFieldClasses('fieldFile') ||
+          `w-full p-2 border ${
+            showError ? 'border-red-500' : 'border-gray-300'
+          } rounded-md ${disabled ? 'bg-gray-100 cursor-not-allowed' : ''}`
+        }
+        accept={props?.accept}
+        multiple={!!props?.multiple}
+        onChange={handleChange}
+        onBlur={onBlur}
+        aria-required={!!validation?.required}
+        aria-invalid={showError}
+        aria-describedby={describedBy}
+        aria-busy={isUploading}
+        disabled={disabled || isUploading}
+      />
+      {isUploading && (
+        <p role="status" className="mt-1 text-sm text-gray-500">
+          {uploadingText}
+        </p>
+      )}
+      {files.length > 0 && (
+        <ul className="mt-2 space-y-2">
+          {files.map((file, index) => {
+            const previewUrl = file.url || previews[getPreviewKey(file)];
+            return (
+              <li
+                key={`${file.name}-${index}`}
+                className="flex items-center gap-3 text-sm"
+              >
+                {showPreview && isImageFile(file) && previewUrl && (
+                  <img
+                    src={previewUrl}
+                    alt={file.name}
+                    className="h-12 w-12 object-cover rounded"
+                  />
+                )}
+                <span className="flex-1 truncate">{file.name}</span>
+                <span className="text-gray-500">
+                  {formatFileSize(file.size)}
+                </span>
+                {!disabled && (
+                  <button
+                    type="button"
+                    onClick={() => onRemove(index)}
+                    aria-label={`${removeButtonText} ${file.name}`}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    {removeButtonText}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {showError && (
+        <div
+          id={errorId}
+          className={
+            getMergedFieldClasses('fieldError') || 'mt-1 text-sm text-red-500'
+          }
+          role="alert"
+          aria-live="polite"
+        >
+          {validationErrors.map((error, index) => (
+            <p key={index}>{error}</p>
+          ))}
+        </div>
+      )}
+      {typeof props?.helperText === 'string' &&
+        props.helperText.trim() !== '' &&
+        !showError && (
+          <p
+            id={helperId}
+            className={
+              getMergedFieldClasses('fieldHelperText') ||
+              'mt-1 text-sm text-gray-500'
+            }
+          >
+            {props.helperText}
+          </p>
+        )}
+    </div>
+  );
+};
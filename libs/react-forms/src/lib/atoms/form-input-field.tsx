@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { HTMLInputTypeAttribute } from 'react';
 import {
   getClassNames,
@@ -10,6 +10,15 @@ import {
 } from '../config/default-classes';
 import { withExpression } from '../hoc/with-expression-v2';
 import { ExpressionConfig } from '../interfaces/expression-interfaces';
+import { InputFormatProps } from '../interfaces/form-interfaces';
+import {
+  formatInputValue,
+  getEditableInputValue,
+  getInputMode,
+  hasInputFormat,
+  parseInputValue,
+} from '../utils/input-format';
+import { formatDisplayValue } from '../utils/locale-format';
 
 interface FormInputFieldProps {
   fieldId: string;
@@ -29,10 +38,12 @@ interface FormInputFieldProps {
     placeholder?: string;
     helperText?: string;
     expression?: ExpressionConfig;
-  };
+  } & InputFormatProps;
   showError: boolean;
   validationErrors: string[];
   disabled?: boolean;
+  /** Locale of number and currency formats without props.locale */
+  locale?: string;
   // Array item field props
   isArrayItem?: boolean;
   arrayItemChangeHandler?: (
@@ -78,6 +89,7 @@ const FormInputFieldBase: React.FC<FormInputFieldProps> = ({
   showError,
   validationErrors,
   disabled = false,
+  locale,
   classes,
   colorClasses,
   styleClasses,
@@ -104,6 +116,26 @@ const FormInputFieldBase: React.FC<FormInputFieldProps> = ({
     }
     return classes?.[fieldKey] || '';
   };
+  // Formatted numbers show the typed text while editing and are formatted
+  // again on blur, masks are applied while typing
+  const [editText, setEditText] = useState<string | null>(null);
+  const formatProps = { ...props, locale: props?.locale ?? locale };
+  const isFormatted = hasInputFormat(props);
+  const isEditedAsText = isFormatted && !props?.mask;
+  // Calculated values can be numbers
+  const textValue =
+    typeof value === 'number' ? formatDisplayValue(value, locale) : value;
+  const displayValue = isFormatted
+    ? editText ?? formatInputValue(String(value), formatProps)
+    : textValue;
+
+  const handleChange = (text: string) => {
+    if (isEditedAsText) {
+      setEditText(text);
+    }
+    onChange(isFormatted ? parseInputValue(text, formatProps) : text);
+  };
+
   const errorId = `${fieldId}-error`;
   const helperId = `${fieldId}-helper`;
   const describedBy = showError
@@ -136,10 +168,13 @@ const FormInputFieldBase: React.FC<FormInputFieldProps> = ({
       <input
         id={fieldId}
         type={
-          (props?.inputType as HTMLInputTypeAttribute) ||
-          (props?.type as HTMLInputTypeAttribute) ||
-          'text'
+          isFormatted
+            ? 'text'
+            : (props?.inputType as HTMLInputTypeAttribute) ||
+              (props?.type as HTMLInputTypeAttribute) ||
+              'text'
         }
+        inputMode={getInputMode(formatProps)}
         className={
           getMergedFieldClasses('fieldInput') ||
           `w-full p-2 border ${
@@ -148,9 +183,17 @@ const FormInputFieldBase: React.FC<FormInputFieldProps> = ({
             props?.readOnly ? 'bg-gray-50 cursor-not-allowed text-gray-900' : ''
           }`
         }
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        onBlur={onBlur}
+        value={displayValue}
+        onChange={(e) => handleChange(e.target.value)}
+        onFocus={() => {
+          if (isEditedAsText) {
+            setEditText(getEditableInputValue(String(value), formatProps));
+          }
+        }}
+        onBlur={() => {
+          setEditText(null);
+          onBlur();
+        }}
         readOnly={props?.readOnly}
         disabled={disabled}
         placeholder={props?.placeholder}
@@ -0,0 +1,283 @@
+import React from 'react';
+import { getClassNamesWithColorAndStyle } from '../utils/class-utils';
+import {
+  defaultColorClasses,
+  defaultStyleClasses,
+} from '../config/default-classes';
+import { MatrixStatement, Option } from '../interfaces/form-interfaces';
+import {
+  getMatrixOptions,
+  getMatrixStatements,
+  getUnansweredStatements,
+  MatrixValue,
+} from '../utils/matrix-utils';
+
+interface FormMatrixFieldProps {
+  fieldId: string;
+  label?: string;
+  value: MatrixValue;
+  onChange: (value: MatrixValue) => void;
+  onBlur: () => void;
+  validation?: {
+    required?: boolean;
+  };
+  props?: {
+    statements?: MatrixStatement[];
+    options?: Option[];
+    multiple?: boolean;
+    helperText?: string;
+  };
+  showError: boolean;
+  validationErrors: string[];
+  disabled?: boolean;
+  classes?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldRadio?: string;
+    fieldCheckbox?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  colorClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldRadio?: string;
+    fieldCheckbox?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  styleClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldRadio?: string;
+    fieldCheckbox?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+}
+
+export const FormMatrixField: React.FC<FormMatrixFieldProps> = ({
+  fieldId,
+  label,
+  value,
+  onChange,
+  onBlur,
+  validation,
+  props,
+  showError,
+  validationErrors,
+  disabled = false,
+  classes,
+  colorClasses,
+  styleClasses,
+}) => {
+  // Helper function to get merged classes
+  const getMergedFieldClasses = (
+    fieldKey:
+      | 'field'
+      | 'fieldLabel'
+      | 'fieldRadio'
+      | 'fieldCheckbox'
+      | 'fieldError'
+      | 'fieldHelperText'
+      | 'requiredIndicator'
+  ) => {
+    if (colorClasses || styleClasses) {
+      // If only colorClasses is provided, use default style classes
+      // If only styleClasses is provided, use default color classes
+      // If both are provided, use both
+      const colorClass =
+        colorClasses?.[fieldKey] || defaultColorClasses[fieldKey] || '';
+      const styleClass =
+        styleClasses?.[fieldKey] || defaultStyleClasses[fieldKey] || '';
+      return getClassNamesWithColorAndStyle(colorClass, styleClass);
+    }
+    return classes?.[fieldKey] || '';
+  };
+
+  const statements = getMatrixStatements({ props });
+  const options = getMatrixOptions({ props });
+  const multiple = !!props?.multiple;
+  const unansweredIds = showError
+    ? getUnansweredStatements({ props, validation }, value).map(
+        (statement) => statement.id
+      )
+    : [];
+
+  const errorId = `${fieldId}-error`;
+  const helperId = `${fieldId}-helper`;
+  const describedBy = showError
+    ? errorId
+    : typeof props?.helperText === 'string' && props.helperText.trim() !== ''
+    ? helperId
+    : undefined;
+
+  // On small screens every statement is shown with its own list of options,
+  // from md on the statements form a grid below the option headers
+  const gridStyle = {
+    gridTemplateColumns: `minmax(0, 2fr) repeat(${options.length}, minmax(0, 1fr))`,
+  };
+
+  const getAnswers = (statementId: string): string[] => {
+    const answer = value?.[statementId];
+    return Array.isArray(answer) ? answer : answer ? [answer] : [];
+  };
+
+  const handleChange = (statementId: string, optionValue: string) => {
+    if (!multiple) {
+      onChange({ ...value, [statementId]: optionValue });
+      return;
+    }
+    const answers = getAnswers(statementId);
+    onChange({
+      ...value,
+      [statementId]: answers.includes(optionValue)
+        ? answers.filter((answer) => answer !== optionValue)
+        : [...answers, optionValue],
+    });
+  };
+
+  const inputClassName = multiple
+    ? getMergedFieldClasses('fieldCheckbox') ||
+      `h-4 w-4 text-indigo-600 focus:ring-indigo-500 rounded ${
+        disabled ? 'cursor-not-allowed opacity-50' : ''
+      }`
+    : getMergedFieldClasses('fieldRadio') ||
+      `h-4 w-4 text-indigo-600 focus:ring-indigo-500 ${
+        disabled ? 'cursor-not-allowed opacity-50' : ''
+      }`;
+
+  return (
+    <fieldset
+      className={getMergedFieldClasses('field') || 'mb-4'}
+      aria-describedby={describedBy}
+      onBlur={onBlur}
+    >
+      <legend
+        className={
+          getMergedFieldClasses('fieldLabel') ||
+          'block text-sm font-medium text-gray-700 mb-1'
+        }
+      >
+        {typeof label === 'string' ? label : ''}
+        {!!validation?.required && (
+          <span
+            className={
+              getMergedFieldClasses('requiredIndicator') || 'text-red-500 ml-1'
+            }
+            aria-hidden="true"
+          >
+            *
+          </span>
+        )}
+      </legend>
+      <div
+        className="hidden md:grid gap-2 pb-2 border-b border-gray-200 text-sm text-gray-600"
+        style={gridStyle}
+        aria-hidden="true"
+      >
+        <span />
+        {options.map((option) => (
+          <span key={option.value} className="text-center">
+            {option.label}
+          </span>
+        ))}
+      </div>
+      {statements.map((statement) => {
+        const statementLabelId = `${fieldId}-${statement.id}-label`;
+        const answers = getAnswers(statement.id);
+        const isRequired = !!validation?.required || !!statement.required;
+        const isUnanswered = unansweredIds.includes(statement.id);
+        return (
+          <div
+            key={statement.id}
+            className={`py-2 border-b border-gray-200 md:grid md:items-center md:gap-2 ${
+              isUnanswered ? 'bg-red-50' : ''
+            }`}
+            style={gridStyle}
+          >
+            <div
+              id={statementLabelId}
+              className="mb-1 md:mb-0 text-sm text-gray-700"
+            >
+              {statement.label}
+              {isRequired && !validation?.required && (
+                <span
+                  className={
+                    getMergedFieldClasses('requiredIndicator') ||
+                    'text-red-500 ml-1'
+                  }
+                  aria-hidden="true"
+                >
+                  *
+                </span>
+              )}
+            </div>
+            <div
+              role={multiple ? 'group' : 'radiogroup'}
+              aria-labelledby={statementLabelId}
+              aria-required={multiple ? undefined : isRequired}
+              aria-invalid={isUnanswered}
+              className="flex flex-wrap gap-x-4 gap-y-2 md:contents"
+            >
+              {options.map((option, optionIndex) => {
+                const inputId = `${fieldId}-${statement.id}-${optionIndex}`;
+                return (
+                  <label
+                    key={option.value}
+                    htmlFor={inputId}
+                    className="flex items-center gap-2 md:justify-center"
+                  >
+                    <input
+                      id={inputId}
+                      type={multiple ? 'checkbox' : 'radio'}
+                      name={`${fieldId}-${statement.id}`}
+                      value={option.value}
+                      checked={answers.includes(option.value)}
+                      onChange={() => handleChange(statement.id, option.value)}
+                      className={inputClassName}
+                      disabled={disabled}
+                    />
+                    <span className="text-sm text-gray-700 md:sr-only">
+                      {option.label}
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+      {showError && (
+        <div
+          id={errorId}
+          className={
+            getMergedFieldClasses('fieldError') || 'mt-1 text-sm text-red-500'
+          }
+          role="alert"
+          aria-live="polite"
+        >
+          {validationErrors.map((error, index) => (
+            <p key={index}>{error}</p>
+          ))}
+        </div>
+      )}
+      {typeof props?.helperText === 'string' &&
+        props.helperText.trim() !== '' &&
+        !showError && (
+          <p
+            id={helperId}
+            className={
+              getMergedFieldClasses('fieldHelperText') ||
+              'mt-1 text-sm text-gray-500'
+            }
+          >
+            {props.helperText}
+          </p>
+        )}
+    </fieldset>
+  );
+};
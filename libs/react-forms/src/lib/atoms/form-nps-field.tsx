@@ -0,0 +1,207 @@
+import React from 'react';
+import { getClassNamesWithColorAndStyle } from '../utils/class-utils';
+import {
+  defaultColorClasses,
+  defaultStyleClasses,
+} from '../config/default-classes';
+import { ScoreProps } from '../interfaces/form-interfaces';
+import { npsScores } from '../utils/rating-utils';
+
+interface FormNpsFieldProps {
+  fieldId: string;
+  label?: string;
+  /** Chosen score from 0 to 10, null when not answered */
+  value: number | null;
+  onChange: (value: number) => void;
+  onBlur: () => void;
+  validation?: {
+    required?: boolean;
+  };
+  props?: ScoreProps & {
+    helperText?: string;
+  };
+  showError: boolean;
+  validationErrors: string[];
+  disabled?: boolean;
+  classes?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  colorClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  styleClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+}
+
+export const FormNpsField: React.FC<FormNpsFieldProps> = ({
+  fieldId,
+  label,
+  value,
+  onChange,
+  onBlur,
+  validation,
+  props,
+  showError,
+  validationErrors,
+  disabled = false,
+  classes,
+  colorClasses,
+  styleClasses,
+}) => {
+  // Helper function to get merged classes
+  const getMergedFieldClasses = (
+    fieldKey:
+      | 'field'
+      | 'fieldLabel'
+      | 'fieldError'
+      | 'fieldHelperText'
+      | 'requiredIndicator'
+  ) => {
+    if (colorClasses || styleClasses) {
+      // If only colorClasses is provided, use default style classes
+      // If only styleClasses is provided, use default color classes
+      // If both are provided, use both
+      const colorClass =
+        colorClasses?.[fieldKey] || defaultColorClasses[fieldKey] || '';
+      const styleClass =
+        styleClasses?.[fieldKey] || defaultStyleClasses[fieldKey] || '';
+      return getClassNamesWithColorAndStyle(colorClass, styleClass);
+    }
+    return classes?.[fieldKey] || '';
+  };
+
+  const labelId = `${fieldId}-label`;
+  const lowLabelId = `${fieldId}-low`;
+  const highLabelId = `${fieldId}-high`;
+  const errorId = `${fieldId}-error`;
+  const helperId = `${fieldId}-helper`;
+  const describedBy = showError
+    ? errorId
+    : typeof props?.helperText === 'string' && props.helperText.trim() !== ''
+    ? helperId
+    : undefined;
+
+  // The labels of the ends of the scale are read with the lowest and highest score
+  const getScoreDescription = (score: number) => {
+    if (score === 0 && props?.lowLabel) {
+      return lowLabelId;
+    }
+    if (score === 10 && props?.highLabel) {
+      return highLabelId;
+    }
+    return undefined;
+  };
+
+  return (
+    <fieldset className={getMergedFieldClasses('field') || 'mb-4'}>
+      <legend
+        id={labelId}
+        className={
+          getMergedFieldClasses('fieldLabel') ||
+          'block text-sm font-medium text-gray-700 mb-1'
+        }
+      >
+        {typeof label === 'string' ? label : ''}
+        {!!validation?.required && (
+          <span
+            className={
+              getMergedFieldClasses('requiredIndicator') || 'text-red-500 ml-1'
+            }
+            aria-hidden="true"
+          >
+            *
+          </span>
+        )}
+      </legend>
+      <div
+        role="radiogroup"
+        aria-labelledby={labelId}
+        aria-describedby={describedBy}
+        aria-invalid={showError}
+        aria-required={!!validation?.required}
+        className="grid grid-cols-6 gap-1 sm:grid-cols-11"
+        onBlur={onBlur}
+      >
+        {npsScores.map((score) => {
+          const inputId = `${fieldId}-${score}`;
+          return (
+            <label
+              key={score}
+              htmlFor={inputId}
+              className={disabled ? 'cursor-not-allowed' : 'cursor-pointer'}
+            >
+              <input
+                id={inputId}
+                type="radio"
+                name={fieldId}
+                value={score}
+                checked={value === score}
+                onChange={() => onChange(score)}
+                aria-describedby={getScoreDescription(score)}
+                disabled={disabled}
+                className="peer sr-only"
+              />
+              <span
+                className={`block rounded-md border py-2 text-center text-sm peer-focus-visible:ring-2 peer-focus-visible:ring-indigo-500 ${
+                  value === score
+                    ? 'border-indigo-600 bg-indigo-600 text-white'
+                    : `${
+                        showError ? 'border-red-500' : 'border-gray-300'
+                      } text-gray-700 hover:bg-gray-50`
+                } ${disabled ? 'opacity-50' : ''}`}
+              >
+                {score}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+      {(props?.lowLabel || props?.highLabel) && (
+        <div className="mt-1 flex justify-between text-xs text-gray-500">
+          <span id={lowLabelId}>{props?.lowLabel}</span>
+          <span id={highLabelId}>{props?.highLabel}</span>
+        </div>
+      )}
+      {showError && (
+        <div
+          id={errorId}
+          className={
+            getMergedFieldClasses('fieldError') || 'mt-1 text-sm text-red-500'
+          }
+          role="alert"
+          aria-live="polite"
+        >
+          {validationErrors.map((error, index) => (
+            <p key={index}>{error}</p>
+          ))}
+        </div>
+      )}
+      {typeof props?.helperText === 'string' &&
+        props.helperText.trim() !== '' &&
+        !showError && (
+          <p
+            id={helperId}
+            className={
+              getMergedFieldClasses('fieldHelperText') ||
+              'mt-1 text-sm text-gray-500'
+            }
+          >
+            {props.helperText}
+          </p>
+        )}
+    </fieldset>
+  );
+};
@@ -0,0 +1,374 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getClassNamesWithColorAndStyle } from '../utils/class-utils';
+import {
+  defaultColorClasses,
+  defaultStyleClasses,
+} from '../config/default-classes';
+import { Option } from '../interfaces/form-interfaces';
+import { getRankingOptions, moveRankedOption } from '../utils/ranking-utils';
+
+interface FormRankingFieldProps {
+  fieldId: string;
+  label?: string;
+  /** Values of the ranked options, from first to last */
+  value: string[];
+  onChange: (value: string[]) => void;
+  onBlur: () => void;
+  validation?: {
+    required?: boolean;
+    minItems?: number;
+    maxItems?: number;
+  };
+  props?: {
+    options?: Option[];
+    helperText?: string;
+  };
+  showError: boolean;
+  validationErrors: string[];
+  disabled?: boolean;
+  addButtonText?: string;
+  removeButtonText?: string;
+  moveUpButtonText?: string;
+  moveDownButtonText?: string;
+  unrankedOptionsLabel?: string;
+  /** Announced after a move, e.g. "{option} is now at position {position} of {count}" */
+  positionMessage?: string;
+  classes?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  colorClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  styleClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+}
+
+export const FormRankingField: React.FC<FormRankingFieldProps> = ({
+  fieldId,
+  label,
+  value,
+  onChange,
+  onBlur,
+  validation,
+  props,
+  showError,
+  validationErrors,
+  disabled = false,
+  addButtonText = 'Add',
+  removeButtonText = 'Remove',
+  moveUpButtonText = 'Move up',
+  moveDownButtonText = 'Move down',
+  unrankedOptionsLabel = 'Not ranked',
+  positionMessage = '{option} is now at position {position} of {count}',
+  classes,
+  colorClasses,
+  styleClasses,
+}) => {
+  // Helper function to get merged classes
+  const getMergedFieldClasses = (
+    fieldKey:
+      | 'field'
+      | 'fieldLabel'
+      | 'fieldError'
+      | 'fieldHelperText'
+      | 'requiredIndicator'
+  ) => {
+    if (colorClasses || styleClasses) {
+      // If only colorClasses is provided, use default style classes
+      // If only styleClasses is provided, use default color classes
+      // If both are provided, use both
+      const colorClass =
+        colorClasses?.[fieldKey] || defaultColorClasses[fieldKey] || '';
+      const styleClass =
+        styleClasses?.[fieldKey] || defaultStyleClasses[fieldKey] || '';
+      return getClassNamesWithColorAndStyle(colorClass, styleClass);
+    }
+    return classes?.[fieldKey] || '';
+  };
+
+  const options = getRankingOptions({ props });
+  const rankedOptions = value
+    .map((item) => options.find((option) => option.value === item))
+    .filter((option) => option !== undefined);
+  const unrankedOptions = options.filter(
+    (option) => !value.includes(option.value)
+  );
+  const isFull =
+    validation?.maxItems !== undefined && value.length >= validation.maxItems;
+
+  const [draggedValue, setDraggedValue] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const itemRefs = useRef<Record<string, HTMLLIElement | null>>({});
+  const focusValueRef = useRef<string | null>(null);
+
+  // Keep the focus on an option that was moved with the keyboard
+  useEffect(() => {
+    if (focusValueRef.current) {
+      itemRefs.current[focusValueRef.current]?.focus();
+      focusValueRef.current = null;
+    }
+  }, [value]);
+
+  const labelId = `${fieldId}-label`;
+  const unrankedLabelId = `${fieldId}-unranked`;
+  const errorId = `${fieldId}-error`;
+  const helperId = `${fieldId}-helper`;
+  const describedBy = showError
+    ? errorId
+    : typeof props?.helperText === 'string' && props.helperText.trim() !== ''
+    ? helperId
+    : undefined;
+
+  const moveTo = (optionValue: string, position: number, focus = false) => {
+    const nextRanking = moveRankedOption(value, optionValue, position);
+    onChange(nextRanking);
+    setAnnouncement(
+      positionMessage
+        .replace(
+          '{option}',
+          options.find((option) => option.value === optionValue)?.label ??
+            optionValue
+        )
+        .replace('{position}', String(nextRanking.indexOf(optionValue) + 1))
+        .replace('{count}', String(nextRanking.length))
+    );
+    if (focus) {
+      focusValueRef.current = optionValue;
+    }
+  };
+
+  const remove = (optionValue: string) => {
+    onChange(value.filter((item) => item !== optionValue));
+    setAnnouncement('');
+  };
+
+  const handleDragStart = (
+    event: React.DragEvent<HTMLLIElement>,
+    optionValue: string
+  ) => {
+    event.dataTransfer?.setData('text/plain', optionValue);
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+    }
+    setDraggedValue(optionValue);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (draggedValue !== null) {
+      event.preventDefault();
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, position: number | null) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (draggedValue === null) {
+      return;
+    }
+    if (position === null) {
+      remove(draggedValue);
+    } else if (value.includes(draggedValue) || !isFull) {
+      moveTo(draggedValue, position);
+    }
+    setDraggedValue(null);
+    onBlur();
+  };
+
+  const handleKeyDown = (
+    event: React.KeyboardEvent<HTMLLIElement>,
+    optionValue: string,
+    index: number
+  ) => {
+    // Keys pressed on the buttons of the option are handled by the buttons
+    if (disabled || event.target !== event.currentTarget) {
+      return;
+    }
+    if (event.key === 'ArrowUp' && index > 0) {
+      event.preventDefault();
+      moveTo(optionValue, index - 1, true);
+    } else if (event.key === 'ArrowDown' && index < value.length - 1) {
+      event.preventDefault();
+      moveTo(optionValue, index + 1, true);
+    } else if (event.key === 'Delete' || event.key === 'Backspace') {
+      event.preventDefault();
+      remove(optionValue);
+    }
+  };
+
+  const buttonClassName =
+    'px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <fieldset
+      className={getMergedFieldClasses('field') || 'mb-4'}
+      aria-describedby={describedBy}
+      onBlur={onBlur}
+    >
+      <legend
+        id={labelId}
+        className={
+          getMergedFieldClasses('fieldLabel') ||
+          'block text-sm font-medium text-gray-700 mb-1'
+        }
+      >
+        {typeof label === 'string' ? label : ''}
+        {!!validation?.required && (
+          <span
+            className={
+              getMergedFieldClasses('requiredIndicator') || 'text-red-500 ml-1'
+            }
+            aria-hidden="true"
+          >
+            *
+          </span>
+        )}
+      </legend>
+      <ol
+        aria-labelledby={labelId}
+        className={`min-h-12 space-y-2 rounded-md border border-dashed p-2 ${
+          showError ? 'border-red-500' : 'border-gray-300'
+        }`}
+        onDragOver={handleDragOver}
+        onDrop={(event) => handleDrop(event, value.length)}
+      >
+        {rankedOptions.map((option, index) => (
+          <li
+            key={option.value}
+            ref={(element) => {
+              itemRefs.current[option.value] = element;
+            }}
+            draggable={!disabled}
+            tabIndex={disabled ? undefined : 0}
+            aria-keyshortcuts="ArrowUp ArrowDown Delete"
+            onDragStart={(event) => handleDragStart(event, option.value)}
+            onDragEnd={() => setDraggedValue(null)}
+            onDragOver={handleDragOver}
+            onDrop={(event) => handleDrop(event, index)}
+            onKeyDown={(event) => handleKeyDown(event, option.value, index)}
+            className={`flex items-center gap-2 rounded-md border border-gray-300 bg-white p-2 text-sm text-gray-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 ${
+              disabled ? 'opacity-50' : 'cursor-move'
+            } ${draggedValue === option.value ? 'opacity-50' : ''}`}
+          >
+            <span aria-hidden="true" className="text-gray-400">
+              ⠿
+            </span>
+            <span aria-hidden="true" className="w-6 font-medium">
+              {index + 1}.
+            </span>
+            <span className="flex-1">{option.label}</span>
+            {!disabled && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => moveTo(option.value, index - 1, true)}
+                  disabled={index === 0}
+                  aria-label={`${moveUpButtonText} ${option.label}`}
+                  className={buttonClassName}
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveTo(option.value, index + 1, true)}
+                  disabled={index === rankedOptions.length - 1}
+                  aria-label={`${moveDownButtonText} ${option.label}`}
+                  className={buttonClassName}
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => remove(option.value)}
+                  aria-label={`${removeButtonText} ${option.label}`}
+                  className={buttonClassName}
+                >
+                  ✕
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ol>
+      {unrankedOptions.length > 0 && (
+        <div
+          className="mt-3"
+          onDragOver={handleDragOver}
+          onDrop={(event) => handleDrop(event, null)}
+        >
+          <p id={unrankedLabelId} className="mb-1 text-sm text-gray-500">
+            {unrankedOptionsLabel}
+          </p>
+          <ul aria-labelledby={unrankedLabelId} className="space-y-2">
+            {unrankedOptions.map((option) => (
+              <li
+                key={option.value}
+                draggable={!disabled && !isFull}
+                onDragStart={(event) => handleDragStart(event, option.value)}
+                onDragEnd={() => setDraggedValue(null)}
+                className={`flex items-center gap-2 rounded-md border border-gray-200 bg-gray-50 p-2 text-sm text-gray-700 ${
+                  disabled || isFull ? '' : 'cursor-move'
+                }`}
+              >
+                <span className="flex-1">{option.label}</span>
+                {!disabled && (
+                  <button
+                    type="button"
+                    onClick={() => moveTo(option.value, value.length, true)}
+                    disabled={isFull}
+                    aria-label={`${addButtonText} ${option.label}`}
+                    className={buttonClassName}
+                  >
+                    {addButtonText}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="sr-only" aria-live="polite">
+        {announcement}
+      </div>
+      {showError && (
+        <div
+          id={errorId}
+          className={
+            getMergedFieldClasses('fieldError') || 'mt-1 text-sm text-red-500'
+          }
+          role="alert"
+          aria-live="polite"
+        >
+          {validationErrors.map((error, index) => (
+            <p key={index}>{error}</p>
+          ))}
+        </div>
+      )}
+      {typeof props?.helperText === 'string' &&
+        props.helperText.trim() !== '' &&
+        !showError && (
+          <p
+            id={helperId}
+            className={
+              getMergedFieldClasses('fieldHelperText') ||
+              'mt-1 text-sm text-gray-500'
+            }
+          >
+            {props.helperText}
+          </p>
+        )}
+    </fieldset>
+  );
+};
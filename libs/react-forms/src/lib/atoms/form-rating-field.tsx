@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { getClassNamesWithColorAndStyle } from '../utils/class-utils';
+import {
+  defaultColorClasses,
+  defaultStyleClasses,
+} from '../config/default-classes';
+import { ScoreProps } from '../interfaces/form-interfaces';
+import { getRatingEmoji } from '../utils/rating-utils';
+
+interface FormRatingFieldProps {
+  fieldId: string;
+  label?: string;
+  /** Chosen score, null when not rated */
+  value: number | null;
+  onChange: (value: number) => void;
+  onBlur: () => void;
+  validation?: {
+    required?: boolean;
+  };
+  /** Highest score */
+  max: number;
+  props?: ScoreProps & {
+    helperText?: string;
+  };
+  showError: boolean;
+  validationErrors: string[];
+  disabled?: boolean;
+  /** Screen reader label of a score, e.g. "{value} of {max}" */
+  valueLabel?: string;
+  classes?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  colorClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  styleClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+}
+
+export const FormRatingField: React.FC<FormRatingFieldProps> = ({
+  fieldId,
+  label,
+  value,
+  onChange,
+  onBlur,
+  validation,
+  max,
+  props,
+  showError,
+  validationErrors,
+  disabled = false,
+  valueLabel = '{value} of {max}',
+  classes,
+  colorClasses,
+  styleClasses,
+}) => {
+  // Helper function to get merged classes
+  const getMergedFieldClasses = (
+    fieldKey:
+      | 'field'
+      | 'fieldLabel'
+      | 'fieldError'
+      | 'fieldHelperText'
+      | 'requiredIndicator'
+  ) => {
+    if (colorClasses || styleClasses) {
+      // If only colorClasses is provided, use default style classes
+      // If only styleClasses is provided, use default color classes
+      // If both are provided, use both
+      const colorClass =
+        colorClasses?.[fieldKey] || defaultColorClasses[fieldKey] || '';
+      const styleClass =
+        styleClasses?.[fieldKey] || defaultStyleClasses[fieldKey] || '';
+      return getClassNamesWithColorAndStyle(colorClass, styleClass);
+    }
+    return classes?.[fieldKey] || '';
+  };
+
+  // Score under the pointer, previews the rating before it's chosen
+  const [hoverScore, setHoverScore] = useState<number | null>(null);
+  const isEmoji = props?.icon === 'emoji';
+  const scores = Array.from({ length: max }, (_, index) => index + 1);
+  const shownScore = hoverScore ?? value;
+
+  const labelId = `${fieldId}-label`;
+  const errorId = `${fieldId}-error`;
+  const helperId = `${fieldId}-helper`;
+  const describedBy = showError
+    ? errorId
+    : typeof props?.helperText === 'string' && props.helperText.trim() !== ''
+    ? helperId
+    : undefined;
+
+  const isHighlighted = (score: number) =>
+    shownScore !== null &&
+    (isEmoji ? score === shownScore : score <= shownScore);
+
+  return (
+    <fieldset className={getMergedFieldClasses('field') || 'mb-4'}>
+      <legend
+        id={labelId}
+        className={
+          getMergedFieldClasses('fieldLabel') ||
+          'block text-sm font-medium text-gray-700 mb-1'
+        }
+      >
+        {typeof label === 'string' ? label : ''}
+        {!!validation?.required && (
+          <span
+            className={
+              getMergedFieldClasses('requiredIndicator') || 'text-red-500 ml-1'
+            }
+            aria-hidden="true"
+          >
+            *
+          </span>
+        )}
+      </legend>
+      <div className="inline-block">
+        <div
+          role="radiogroup"
+          aria-labelledby={labelId}
+          aria-describedby={describedBy}
+          aria-invalid={showError}
+          aria-required={!!validation?.required}
+          className="flex flex-wrap items-center gap-1"
+          onMouseLeave={() => setHoverScore(null)}
+          onBlur={onBlur}
+        >
+          {scores.map((score) => {
+            const inputId = `${fieldId}-${score}`;
+            return (
+              <label
+                key={score}
+                htmlFor={inputId}
+                className={disabled ? 'cursor-not-allowed' : 'cursor-pointer'}
+                onMouseEnter={() => !disabled && setHoverScore(score)}
+              >
+                <input
+                  id={inputId}
+                  type="radio"
+                  name={fieldId}
+                  value={score}
+                  checked={value === score}
+                  onChange={() => onChange(score)}
+                  aria-label={valueLabel
+                    .replace('{value}', String(score))
+                    .replace('{max}', String(max))}
+                  disabled={disabled}
+                  className="peer sr-only"
+                />
+                <span
+                  aria-hidden="true"
+                  className={`block rounded-md px-1 text-3xl leading-none peer-focus-visible:ring-2 peer-focus-visible:ring-indigo-500 ${
+                    isEmoji
+                      ? isHighlighted(score)
+                        ? ''
+                        : 'opacity-40 grayscale'
+                      : isHighlighted(score)
+                      ? 'text-yellow-400'
+                      : 'text-gray-300'
+                  } ${disabled ? 'opacity-50' : ''}`}
+                >
+                  {isEmoji ? getRatingEmoji(score, max) : '★'}
+                </span>
+              </label>
+            );
+          })}
+        </div>
+        {(props?.lowLabel || props?.highLabel) && (
+          <div className="mt-1 flex justify-between text-xs text-gray-500">
+            <span>{props?.lowLabel}</span>
+            <span>{props?.highLabel}</span>
+          </div>
+        )}
+      </div>
+      {showError && (
+        <div
+          id={errorId}
+          className={
+            getMergedFieldClasses('fieldError') || 'mt-1 text-sm text-red-500'
+          }
+          role="alert"
+          aria-live="polite"
+        >
+          {validationErrors.map((error, index) => (
+            <p key={index}>{error}</p>
+          ))}
+        </div>
+      )}
+      {typeof props?.helperText === 'string' &&
+        props.helperText.trim() !== '' &&
+        !showError && (
+          <p
+            id={helperId}
+            className={
+              getMergedFieldClasses('fieldHelperText') ||
+              'mt-1 text-sm text-gray-500'
+            }
+          >
+            {props.helperText}
+          </p>
+        )}
+    </fieldset>
+  );
+};
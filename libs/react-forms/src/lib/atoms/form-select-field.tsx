@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   getClassNames,
   getClassNamesWithColorAndStyle,
@@ -7,7 +7,13 @@ import {
   defaultColorClasses,
   defaultStyleClasses,
 } from '../config/default-classes';
-import { Option } from '../interfaces/form-interfaces';
+import { Option, SelectProps } from '../interfaces/form-interfaces';
+import {
+  getOtherSelectText,
+  getSelectOptions,
+  groupSelectOptions,
+  otherSelectOptionValue,
+} from '../utils/select-utils';
 
 interface FormSelectFieldProps {
   fieldId: string;
@@ -18,13 +24,17 @@ interface FormSelectFieldProps {
   validation?: {
     required?: boolean;
   };
-  props?: {
+  props?: Omit<SelectProps, 'searchable'> & {
     options?: Option[];
     helperText?: string;
   };
   showError: boolean;
   validationErrors: string[];
   disabled?: boolean;
+  placeholderText?: string;
+  /** Label of the other choice when `props.otherLabel` isn't set */
+  otherOptionText?: string;
+  otherInputLabel?: string;
   classes?: {
     field?: string;
     fieldLabel?: string;
@@ -62,6 +72,9 @@ export const FormSelectField: React.FC<FormSelectFieldProps> = ({
   showError,
   validationErrors,
   disabled = false,
+  placeholderText = 'Select an option',
+  otherOptionText = 'Other (please specify)',
+  otherInputLabel = 'Please specify',
   classes,
   colorClasses,
   styleClasses,
@@ -88,13 +101,39 @@ export const FormSelectField: React.FC<FormSelectFieldProps> = ({
     }
     return classes?.[fieldKey] || '';
   };
+  const options = getSelectOptions({ props });
+  const otherText = props?.allowOther ? getOtherSelectText(options, value) : '';
+  // The other choice stays chosen while its text is still empty
+  const [isOtherChosen, setIsOtherChosen] = useState(false);
+  const showOther = !!props?.allowOther && (isOtherChosen || otherText !== '');
+  const selectedOption = options.find((option) => option.value === value);
+
   const errorId = `${fieldId}-error`;
   const helperId = `${fieldId}-helper`;
-  const describedBy = showError
-    ? errorId
-    : typeof props?.helperText === 'string' && props.helperText.trim() !== ''
-    ? helperId
-    : undefined;
+  const descriptionId = `${fieldId}-description`;
+  const otherId = `${fieldId}-other`;
+  const describedBy =
+    [
+      showError
+        ? errorId
+        : typeof props?.helperText === 'string' &&
+          props.helperText.trim() !== ''
+        ? helperId
+        : undefined,
+      selectedOption?.description ? descriptionId : undefined,
+    ]
+      .filter(Boolean)
+      .join(' ') || undefined;
+
+  const handleChange = (selectedValue: string) => {
+    if (selectedValue === otherSelectOptionValue) {
+      setIsOtherChosen(true);
+      onChange(otherText);
+      return;
+    }
+    setIsOtherChosen(false);
+    onChange(selectedValue);
+  };
 
   return (
     <div className={getMergedFieldClasses('field') || 'mb-4'}>
@@ -127,8 +166,8 @@ export const FormSelectField: React.FC<FormSelectFieldProps> = ({
             disabled ? 'bg-gray-100 cursor-not-allowed' : ''
           }`
         }
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
+        value={showOther ? otherSelectOptionValue : value}
+        onChange={(e) => handleChange(e.target.value)}
         onBlur={onBlur}
         required={!!validation?.required}
         aria-required={!!validation?.required}
@@ -136,21 +175,56 @@ export const FormSelectField: React.FC<FormSelectFieldProps> = ({
         aria-describedby={describedBy}
         disabled={disabled}
       >
-        <option value="">Select an option</option>
-        {Array.isArray(props?.options) &&
-          props.options.map((option: Option, index: number) => {
-            const optionLabel =
-              typeof option === 'string' ? option : option.label || '';
-            const optionValue =
-              typeof option === 'string' ? option : option.value || '';
-
-            return (
-              <option key={index} value={optionValue}>
-                {optionLabel}
-              </option>
-            );
-          })}
+        <option value="">{placeholderText}</option>
+        {groupSelectOptions(options).map(({ group, options: groupOptions }) => {
+          const optionElements = groupOptions.map((option, index) => (
+            <option key={`${option.value}-${index}`} value={option.value}>
+              {option.label}
+            </option>
+          ));
+          return group === undefined ? (
+            optionElements
+          ) : (
+            <optgroup key={group} label={group}>
+              {optionElements}
+            </optgroup>
+          );
+        })}
+        {props?.allowOther && (
+          <option value={otherSelectOptionValue}>
+            {props.otherLabel || otherOptionText}
+          </option>
+        )}
       </select>
+      {selectedOption?.description && (
+        <p id={descriptionId} className="mt-1 text-sm text-gray-500">
+          {selectedOption.description}
+        </p>
+      )}
+      {showOther && (
+        <div className="mt-2">
+          <label htmlFor={otherId} className="sr-only">
+            {otherInputLabel}
+          </label>
+          <input
+            id={otherId}
+            type="text"
+            className={`w-full p-2 border ${
+              showError ? 'border-red-500' : 'border-gray-300'
+            } rounded-md ${disabled ? 'bg-gray-100 cursor-not-allowed' : ''}`}
+            value={otherText}
+            placeholder={otherInputLabel}
+            onChange={(e) => {
+              setIsOtherChosen(true);
+              onChange(e.target.value);
+            }}
+            onBlur={onBlur}
+            aria-required={!!validation?.required}
+            aria-invalid={showError}
+            disabled={disabled}
+          />
+        </div>
+      )}
       {showError && (
         <div
           id={errorId}
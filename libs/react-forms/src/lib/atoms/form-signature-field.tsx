@@ -0,0 +1,389 @@
+import React, { useRef, useState } from 'react';
+import { getClassNamesWithColorAndStyle } from '../utils/class-utils';
+import {
+  defaultColorClasses,
+  defaultStyleClasses,
+} from '../config/default-classes';
+import {
+  createSvgSignature,
+  createTypedSignature,
+  defaultSignatureHeight,
+  defaultSignatureWidth,
+  drawSignatureStrokes,
+  isSignatureValue,
+  SignaturePoint,
+  SignatureStroke,
+  signatureLineWidth,
+} from '../utils/signature-utils';
+import { SignatureProps } from '../interfaces/form-interfaces';
+
+interface FormSignatureFieldProps {
+  fieldId: string;
+  label?: string;
+  /** PNG or SVG data URL, empty when not signed */
+  value: string;
+  onChange: (value: string) => void;
+  onBlur: () => void;
+  validation?: {
+    required?: boolean;
+  };
+  props?: SignatureProps & {
+    helperText?: string;
+  };
+  showError: boolean;
+  validationErrors: string[];
+  disabled?: boolean;
+  clearButtonText?: string;
+  undoButtonText?: string;
+  typeSignatureButtonText?: string;
+  drawSignatureButtonText?: string;
+  signaturePadLabel?: string;
+  classes?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldSignature?: string;
+    fieldInput?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  colorClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldSignature?: string;
+    fieldInput?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+  styleClasses?: {
+    field?: string;
+    fieldLabel?: string;
+    fieldSignature?: string;
+    fieldInput?: string;
+    fieldError?: string;
+    fieldHelperText?: string;
+    requiredIndicator?: string;
+  };
+}
+
+export const FormSignatureField: React.FC<FormSignatureFieldProps> = ({
+  fieldId,
+  label,
+  value,
+  onChange,
+  onBlur,
+  validation,
+  props,
+  showError,
+  validationErrors,
+  disabled = false,
+  clearButtonText = 'Clear',
+  undoButtonText = 'Undo',
+  typeSignatureButtonText = 'Type your name instead',
+  drawSignatureButtonText = 'Draw your signature instead',
+  signaturePadLabel = 'Signature pad',
+  classes,
+  colorClasses,
+  styleClasses,
+}) => {
+  // Helper function to get merged classes
+  const getMergedFieldClasses = (
+    fieldKey:
+      | 'field'
+      | 'fieldLabel'
+      | 'fieldSignature'
+      | 'fieldInput'
+      | 'fieldError'
+      | 'fieldHelperText'
+      | 'requiredIndicator'
+  ) => {
+    if (colorClasses || styleClasses) {
+      // If only colorClasses is provided, use default style classes
+      // If only styleClasses is provided, use default color classes
+      // If both are provided, use both
+      const colorClass =
+        colorClasses?.[fieldKey] || defaultColorClasses[fieldKey] || '';
+      const styleClass =
+        styleClasses?.[fieldKey] || defaultStyleClasses[fieldKey] || '';
+      return getClassNamesWithColorAndStyle(colorClass, styleClass);
+    }
+    return classes?.[fieldKey] || '';
+  };
+
+  const imageOptions = {
+    width: props?.width ?? defaultSignatureWidth,
+    height: props?.height ?? defaultSignatureHeight,
+    penColor: props?.penColor,
+  };
+  const allowTyped = props?.allowTyped !== false;
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const currentStrokeRef = useRef<SignatureStroke | null>(null);
+  const [strokes, setStrokes] = useState<SignatureStroke[]>([]);
+  const [mode, setMode] = useState<'draw' | 'type'>('draw');
+  const [typedName, setTypedName] = useState('');
+
+  // A signature made before the field was shown again, e.g. after going back
+  const showStoredSignature =
+    isSignatureValue(value) && strokes.length === 0 && typedName === '';
+
+  const labelId = `${fieldId}-label`;
+  const typedInputId = `${fieldId}-typed`;
+  const errorId = `${fieldId}-error`;
+  const helperId = `${fieldId}-helper`;
+  const describedBy = showError
+    ? errorId
+    : typeof props?.helperText === 'string' && props.helperText.trim() !== ''
+    ? helperId
+    : undefined;
+
+  const getContext = () => canvasRef.current?.getContext('2d') ?? null;
+
+  // Drawn signatures are PNG images of the canvas, or SVG path data when
+  // requested or when the canvas can't be exported
+  const emitStrokes = (nextStrokes: SignatureStroke[]) => {
+    const context = getContext();
+    if (context) {
+      drawSignatureStrokes(context, nextStrokes, imageOptions);
+    }
+    if (nextStrokes.length === 0) {
+      onChange('');
+    } else if (props?.signatureFormat === 'svg' || !context) {
+      onChange(createSvgSignature(nextStrokes, imageOptions));
+    } else {
+      onChange(canvasRef.current?.toDataURL('image/png') ?? '');
+    }
+  };
+
+  const getPoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    // The canvas can be scaled down by CSS on small screens
+    const scaleX = rect.width ? imageOptions.width / rect.width : 1;
+    const scaleY = rect.height ? imageOptions.height / rect.height : 1;
+    return {
+      x: (event.clientX - rect.left) * scaleX,
+      y: (event.clientY - rect.top) * scaleY,
+    };
+  };
+
+  const drawSegment = (from: SignaturePoint, to: SignaturePoint) => {
+    const context = getContext();
+    if (!context) {
+      return;
+    }
+    context.strokeStyle = imageOptions.penColor || '#000000';
+    context.lineWidth = signatureLineWidth;
+    context.lineCap = 'round';
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(to.x, to.y);
+    context.stroke();
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) {
+      return;
+    }
+    event.preventDefault();
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    const point = getPoint(event);
+    currentStrokeRef.current = [point];
+    drawSegment(point, point);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = currentStrokeRef.current;
+    if (!stroke) {
+      return;
+    }
+    const point = getPoint(event);
+    drawSegment(stroke[stroke.length - 1], point);
+    stroke.push(point);
+  };
+
+  const handlePointerUp = () => {
+    const stroke = currentStrokeRef.current;
+    if (!stroke) {
+      return;
+    }
+    currentStrokeRef.current = null;
+    const nextStrokes = [...strokes, stroke];
+    setStrokes(nextStrokes);
+    emitStrokes(nextStrokes);
+    onBlur();
+  };
+
+  const handleUndo = () => {
+    const nextStrokes = strokes.slice(0, -1);
+    setStrokes(nextStrokes);
+    emitStrokes(nextStrokes);
+  };
+
+  const handleClear = () => {
+    setStrokes([]);
+    setTypedName('');
+    const context = getContext();
+    if (context) {
+      drawSignatureStrokes(context, [], imageOptions);
+    }
+    onChange('');
+    onBlur();
+  };
+
+  const handleModeChange = () => {
+    setMode(mode === 'draw' ? 'type' : 'draw');
+    setStrokes([]);
+    setTypedName('');
+    onChange('');
+  };
+
+  const handleTypedNameChange = (name: string) => {
+    setTypedName(name);
+    onChange(createTypedSignature(name, imageOptions));
+  };
+
+  const buttonClassName =
+    'px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className={getMergedFieldClasses('field') || 'mb-4'}>
+      <label
+        id={labelId}
+        htmlFor={
+          mode === 'type' && !showStoredSignature ? typedInputId : undefined
+        }
+        className={
+          getMergedFieldClasses('fieldLabel') ||
+          'block text-sm font-medium text-gray-700 mb-1'
+        }
+      >
+        {typeof label === 'string' ? label : ''}
+        {!!validation?.required && (
+          <span
+            className={
+              getMergedFieldClasses('requiredIndicator') || 'text-red-500 ml-1'
+            }
+            aria-hidden="true"
+          >
+            *
+          </span>
+        )}
+      </label>
+      {showStoredSignature ? (
+        <img
+          src={value}
+          alt={typeof label === 'string' ? label : signaturePadLabel}
+          width={imageOptions.width}
+          height={imageOptions.height}
+          className="max-w-full h-auto border border-gray-300 rounded-md bg-white"
+        />
+      ) : mode === 'draw' ? (
+        <canvas
+          ref={canvasRef}
+          width={imageOptions.width}
+          height={imageOptions.height}
+          role="img"
+          aria-labelledby={labelId}
+          aria-roledescription={signaturePadLabel}
+          aria-invalid={showError}
+          aria-describedby={describedBy}
+          className={
+            getMergedFieldClasses('fieldSignature') ||
+            `max-w-full h-auto border ${
+              showError ? 'border-red-500' : 'border-gray-300'
+            } rounded-md touch-none ${
+              disabled ? 'bg-gray-100 cursor-not-allowed' : 'bg-white'
+            }`
+          }
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          data-testid={`${fieldId}-pad`}
+        />
+      ) : (
+        <input
+          id={typedInputId}
+          type="text"
+          value={typedName}
+          autoComplete="name"
+          onChange={(e) => handleTypedNameChange(e.target.value)}
+          onBlur={onBlur}
+          aria-required={!!validation?.required}
+          aria-invalid={showError}
+          aria-describedby={describedBy}
+          disabled={disabled}
+          className={
+            getMergedFieldClasses('fieldInput') ||
+            `w-full p-2 border ${
+              showError ? 'border-red-500' : 'border-gray-300'
+            } rounded-md font-serif italic text-2xl ${
+              disabled ? 'bg-gray-100 cursor-not-allowed' : ''
+            }`
+          }
+        />
+      )}
+      {!disabled && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {mode === 'draw' && !showStoredSignature && (
+            <button
+              type="button"
+              onClick={handleUndo}
+              disabled={strokes.length === 0}
+              className={buttonClassName}
+            >
+              {undoButtonText}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleClear}
+            disabled={!value}
+            className={buttonClassName}
+          >
+            {clearButtonText}
+          </button>
+          {allowTyped && !showStoredSignature && (
+            <button
+              type="button"
+              onClick={handleModeChange}
+              className={buttonClassName}
+            >
+              {mode === 'draw'
+                ? typeSignatureButtonText
+                : drawSignatureButtonText}
+            </button>
+          )}
+        </div>
+      )}
+      {showError && (
+        <div
+          id={errorId}
+          className={
+            getMergedFieldClasses('fieldError') || 'mt-1 text-sm text-red-500'
+          }
+          role="alert"
+          aria-live="polite"
+        >
+          {validationErrors.map((error, index) => (
+            <p key={index}>{error}</p>
+          ))}
+        </div>
+      )}
+      {typeof props?.helperText === 'string' &&
+        props.helperText.trim() !== '' &&
+        !showError && (
+          <p
+            id={helperId}
+            className={
+              getMergedFieldClasses('fieldHelperText') ||
+              'mt-1 text-sm text-gray-500'
+            }
+          >
+            {props.helperText}
+          </p>
+        )}
+    </div>
+  );
+};
@@ -10,6 +10,7 @@ import {
 import { withExpression } from '../hoc/with-expression-v2';
 import { useExpressionContext } from '../contexts/expression-context';
 import { expressionEngine } from '../services/expression-engine.service';
+import { formatDisplayValue } from '../utils/locale-format';
 
 interface TextFormFieldProps {
   fieldId?: string;
@@ -20,6 +21,10 @@ interface TextFormFieldProps {
     helperText?: string;
   };
   formValues?: Record<string, any>;
+  /** Locale numbers and dates in templates and calculated content are formatted for */
+  locale?: string;
+  /** Field types by field id, only values of date fields are shown as dates */
+  fieldTypes?: Record<string, string>;
   classes?: {
     field?: string;
     fieldLabel?: string;
@@ -44,6 +49,8 @@ const TextFormFieldBase: React.FC<TextFormFieldProps> = ({
   colorClasses,
   styleClasses,
   formValues = {},
+  locale,
+  fieldTypes,
 }) => {
   // Helper function to get merged classes
   const getMergedFieldClasses = (
@@ -67,6 +74,12 @@ const TextFormFieldBase: React.FC<TextFormFieldProps> = ({
 
     const processed = { ...props };
 
+    // Calculated content can be a number
+    const content: unknown = props.content;
+    if (typeof content === 'number') {
+      processed.content = formatDisplayValue(content, locale);
+    }
+
     // Process helperText templates using the expression engine's template processor
     if (
       typeof props.helperText === 'string' &&
@@ -74,12 +87,14 @@ const TextFormFieldBase: React.FC<TextFormFieldProps> = ({
     ) {
       processed.helperText = expressionEngine.processTemplate(
         props.helperText,
-        formValues
+        formValues,
+        locale,
+        fieldTypes
       );
     }
 
     return processed;
-  }, [props, formValues]);
+  }, [props, formValues, locale, fieldTypes]);
 
   return (
     <div className={getMergedFieldClasses('field') || 'mb-4'}>
@@ -1,9 +1,17 @@
 export * from './form-checkbox-field';
+export * from './form-combobox-field';
 export * from './form-confirmation-field';
 export * from './form-date-field';
+export * from './form-date-range-field';
+export * from './form-file-field';
 export * from './form-input-field';
+export * from './form-matrix-field';
+export * from './form-nps-field';
 export * from './form-radio-field';
+export * from './form-ranking-field';
+export * from './form-rating-field';
 export * from './form-select-field';
+export * from './form-signature-field';
 export * from './form-section-field';
 export * from './form-slider-range-field';
 export * from './form-expression-field';
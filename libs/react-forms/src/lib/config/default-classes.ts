@@ -32,6 +32,8 @@ export const defaultColorClasses: FormRendererColorClasses = {
   fieldCheckbox: 'text-indigo-600 focus:ring-indigo-500',
   fieldRadio: 'text-indigo-600 focus:ring-indigo-500',
   fieldDate: 'border-gray-300',
+  fieldFile: 'border-gray-300',
+  fieldSignature: 'border-gray-300 bg-white',
   fieldSlider: 'bg-gray-200',
   fieldText: 'text-gray-700',
   fieldError: 'text-red-500',
@@ -80,6 +82,18 @@ export const defaultColorClasses: FormRendererColorClasses = {
   unsupportedComponent: 'text-gray-500',
   unsupportedArrayComponent: 'text-gray-500',
   thankYouNotConfigured: 'text-red-500',
+  dataSourceLoading: 'text-gray-500',
+  dataSourceError: 'text-red-500',
+  dataSourceRetryButton: 'text-indigo-600 hover:text-indigo-800 underline',
+  asyncValidationPending: 'text-gray-500',
+  actionMessage: 'text-indigo-700 bg-indigo-50',
+
+  // Draft Resume Colors
+  draftPrompt: 'bg-indigo-50 border border-indigo-200',
+  draftPromptText: 'text-indigo-900',
+  draftResumeButton: 'bg-indigo-600 hover:bg-indigo-700 text-white',
+  draftDiscardButton:
+    'border border-indigo-300 text-indigo-700 hover:bg-indigo-100',
 
   // Form Layout Colors
   formLayout: '',
@@ -119,6 +133,8 @@ export const defaultStyleClasses: FormRendererStyleClasses = {
   fieldCheckbox: 'h-4 w-4',
   fieldRadio: 'h-4 w-4',
   fieldDate: 'w-full p-2 border rounded-md',
+  fieldFile: 'w-full p-2 border rounded-md',
+  fieldSignature: 'w-full border rounded-md touch-none',
   fieldSlider: 'relative h-6 rounded-lg cursor-pointer',
   fieldText: '',
   fieldError: 'mt-1 text-sm',
@@ -167,6 +183,17 @@ export const defaultStyleClasses: FormRendererStyleClasses = {
   unsupportedComponent: 'text-sm',
   unsupportedArrayComponent: 'text-sm',
   thankYouNotConfigured: 'p-4',
+  dataSourceLoading: 'mt-1 text-sm',
+  dataSourceError: 'mt-1 text-sm flex items-center gap-2',
+  dataSourceRetryButton: 'text-sm',
+  asyncValidationPending: 'mt-1 text-sm',
+  actionMessage: 'mt-4 p-3 rounded-md text-sm',
+
+  // Draft Resume Styles
+  draftPrompt: 'mb-4 p-4 rounded-md flex flex-wrap items-center gap-4',
+  draftPromptText: 'flex-1 text-sm',
+  draftResumeButton: 'px-4 py-2 rounded-md',
+  draftDiscardButton: 'px-4 py-2 rounded-md',
 
   // Form Layout Styles
   formLayout: 'mb-6',
@@ -186,6 +213,8 @@ export const errorColorClasses: Partial<FormRendererColorClasses> = {
   fieldTextarea: 'border-red-500',
   fieldSelect: 'border-red-500',
   fieldDate: 'border-red-500',
+  fieldFile: 'border-red-500',
+  fieldSignature: 'border-red-500',
 };
 
 /**
@@ -197,6 +226,8 @@ export const disabledColorClasses: Partial<FormRendererColorClasses> = {
   fieldTextarea: 'bg-gray-100 cursor-not-allowed',
   fieldSelect: 'bg-gray-100 cursor-not-allowed',
   fieldDate: 'bg-gray-100 cursor-not-allowed',
+  fieldFile: 'bg-gray-100 cursor-not-allowed',
+  fieldSignature: 'bg-gray-100 cursor-not-allowed',
   fieldCheckbox: 'cursor-not-allowed opacity-50',
   fieldRadio: 'cursor-not-allowed opacity-50',
 };
@@ -377,14 +377,13 @@ export function withExpression<P extends object>(
     const enhancedProps = useMemo(() => {
       const enhanced: any = { ...restProps, fieldId, onChange: stableOnChange };
 
-      // Preserve original validation props unless overridden by expressions
-      if (!actualExpression || actualExpression.mode !== 'validation') {
-        if (restProps.showError !== undefined) {
-          enhanced.showError = restProps.showError;
-        }
-        if (restProps.validationErrors !== undefined) {
-          enhanced.validationErrors = restProps.validationErrors;
-        }
+      // Preserve original validation props, the form renderer validates
+      // validation expressions itself
+      if (restProps.showError !== undefined) {
+        enhanced.showError = restProps.showError;
+      }
+      if (restProps.validationErrors !== undefined) {
+        enhanced.validationErrors = restProps.validationErrors;
       }
 
       // For calculated fields, override the value directly
@@ -433,15 +432,17 @@ export function withExpression<P extends object>(
         enhanced.helperText = expressionResults.helperText;
       }
 
-      // Apply validation expression
+      // Apply validation expression when the field is used without validation errors
       if (
         actualExpression &&
         actualExpression.mode === 'validation' &&
-        expressionResults.validation === false
+        expressionResults.validation === false &&
+        restProps.validationErrors === undefined
       ) {
         enhanced.showError = true;
-        enhanced.validationErrors = enhanced.validationErrors || [];
-        enhanced.validationErrors.push('Expression validation failed');
+        enhanced.validationErrors = [
+          actualExpression.errorMessage || 'Expression validation failed',
+        ];
       }
 
       return enhanced;
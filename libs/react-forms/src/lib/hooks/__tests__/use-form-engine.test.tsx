@@ -0,0 +1,207 @@
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { vi } from 'vitest';
+import { useFormEngine } from '../use-form-engine';
+import { FormDefinition } from '../../interfaces/form-interfaces';
+
+const createForm = (): FormDefinition => ({
+  app: {
+    title: 'Membership',
+    pages: [
+      {
+        id: 'personal',
+        route: '/personal',
+        title: 'Personal',
+        components: [
+          {
+            type: 'input',
+            id: 'name',
+            label: 'Name',
+            validation: { required: true },
+          },
+          { type: 'input', id: 'membership', label: 'Membership' },
+          {
+            type: 'input',
+            id: 'studentNumber',
+            label: 'Student number',
+            visibilityConditions: [
+              { field: 'membership', operator: '==', value: 'student' },
+            ],
+          },
+        ],
+        branches: [
+          {
+            condition: {
+              field: 'membership',
+              operator: '==',
+              value: 'student',
+            },
+            nextPage: 'student',
+          },
+        ],
+        nextPage: 'payment',
+      },
+      {
+        id: 'student',
+        route: '/student',
+        title: 'Student',
+        nextPage: 'payment',
+        components: [{ type: 'input', id: 'school', label: 'School' }],
+      },
+      {
+        id: 'payment',
+        route: '/payment',
+        title: 'Payment',
+        isEndPage: true,
+        components: [{ type: 'input', id: 'iban', label: 'IBAN' }],
+      },
+    ],
+  },
+});
+
+describe('useFormEngine', () => {
+  it('should expose the current page, visible components and progress', () => {
+    const formJson = createForm();
+    const { result } = renderHook(() => useFormEngine(formJson));
+
+    expect(result.current.currentPage?.id).toBe('personal');
+    expect(result.current.visibleComponents.map((c) => c.id)).toEqual([
+      'name',
+      'membership',
+    ]);
+    expect(result.current.progress).toEqual({ currentStep: 1, totalSteps: 3 });
+    expect(result.current.canGoBack).toBe(false);
+
+    act(() => result.current.setValue('membership', 'student'));
+
+    expect(result.current.visibleComponents.map((c) => c.id)).toContain(
+      'studentNumber'
+    );
+  });
+
+  it('should validate the page before going to the next page', () => {
+    const formJson = createForm();
+    const { result } = renderHook(() => useFormEngine(formJson));
+
+    act(() => result.current.next());
+
+    expect(result.current.currentPage?.id).toBe('personal');
+    expect(result.current.errors.name).toEqual(['Name is required']);
+
+    act(() => result.current.setValue('name', 'Jane'));
+    act(() => result.current.setValue('membership', 'student'));
+    act(() => result.current.next());
+
+    expect(result.current.currentPage?.id).toBe('student');
+    expect(result.current.canGoBack).toBe(true);
+
+    act(() => result.current.previous());
+
+    expect(result.current.currentPage?.id).toBe('personal');
+    expect(result.current.values.name).toBe('Jane');
+  });
+
+  it('should go to pages by id and submit the values', async () => {
+    const onSubmit = vi.fn();
+    const formJson = createForm();
+    const { result } = renderHook(() => useFormEngine(formJson, { onSubmit }));
+
+    act(() => result.current.setValue('name', 'Jane'));
+    act(() => {
+      expect(result.current.goTo('payment')).toBe(true);
+    });
+    expect(result.current.currentPage?.id).toBe('payment');
+    expect(result.current.goTo('unknown')).toBe(false);
+
+    act(() => result.current.setValue('iban', 'NL00BANK0123456789'));
+    await act(() => result.current.submit());
+
+    await waitFor(() =>
+      expect(onSubmit).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Jane', iban: 'NL00BANK0123456789' })
+      )
+    );
+  });
+
+  it('should return to the logical first page after submitting', async () => {
+    const onSubmit = vi.fn();
+    const form = createForm();
+    // The first page in the flow is the last one in app.pages
+    const formJson: FormDefinition = {
+      app: { ...form.app, pages: [...form.app.pages].reverse() },
+    };
+    const { result } = renderHook(() => useFormEngine(formJson, { onSubmit }));
+
+    expect(result.current.currentPage?.id).toBe('personal');
+
+    act(() => result.current.setValue('name', 'Jane'));
+    act(() => result.current.next());
+    expect(result.current.currentPage?.id).toBe('payment');
+
+    await act(() => result.current.submit());
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Jane' })
+    );
+    expect(result.current.currentPage?.id).toBe('personal');
+    expect(result.current.values.name).toBe('');
+    expect(result.current.submissions).toEqual({
+      'multistep-form': expect.objectContaining({ name: 'Jane' }),
+    });
+  });
+
+  it('should go to the next page when next was used during validation', async () => {
+    const formJson = createForm();
+    formJson.app.pages[0].components[0].validation = {
+      required: true,
+      asyncValidator: { validator: 'available', debounceMs: 0 },
+    };
+    let resolveCheck: (result: boolean) => void = () => undefined;
+    const available = vi.fn(
+      () => new Promise<boolean>((resolve) => (resolveCheck = resolve))
+    );
+    const { result } = renderHook(() =>
+      useFormEngine(formJson, { asyncValidators: { available } })
+    );
+
+    act(() => result.current.setValue('name', 'Jane'));
+    expect(result.current.hasPendingValidations).toBe(true);
+    act(() => result.current.next());
+    expect(result.current.currentPage?.id).toBe('personal');
+
+    await waitFor(() => expect(available).toHaveBeenCalled());
+    await act(async () => resolveCheck(true));
+
+    await waitFor(() => expect(result.current.currentPage?.id).toBe('payment'));
+  });
+
+  it('should use changed options without starting over', async () => {
+    const formJson = createForm();
+    const firstOnSubmit = vi.fn();
+    const onSubmit = vi.fn();
+    const { result, rerender } = renderHook(
+      ({ options }) => useFormEngine(formJson, options),
+      {
+        initialProps: {
+          options: {
+            onSubmit: firstOnSubmit,
+            initialValues: { name: 'Jane' },
+          },
+        },
+      }
+    );
+
+    act(() => result.current.goTo('payment'));
+    rerender({ options: { onSubmit, initialValues: { name: 'John' } } });
+
+    expect(result.current.currentPage?.id).toBe('payment');
+    expect(result.current.values.name).toBe('Jane');
+
+    await act(() => result.current.submit());
+    expect(firstOnSubmit).not.toHaveBeenCalled();
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Jane' })
+    );
+    // The new initial values are used when the form starts over
+    expect(result.current.values.name).toBe('John');
+  });
+});
@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  AsyncValidatorConfig,
+  FieldAsyncValidationState,
+  UseAsyncValidationConfig,
+  UseAsyncValidationResult,
+} from '../interfaces/async-validation-interfaces';
+import { DataSourceFetchAdapter } from '../interfaces/data-source-interfaces';
+import { FormValues } from '../interfaces/form-interfaces';
+import {
+  runAsyncValidator,
+  toAsyncValidationState,
+} from '../services/async-validation.service';
+import { DataSourceService } from '../services/data-source.service';
+import { isEmptyValue } from '../services/expression-engine.service';
+
+const DEFAULT_DEBOUNCE_MS = 500;
+
+/**
+ * Hook for the async validators of fields. A field is checked after its value
+ * stopped changing for the debounce time; a newer value aborts the running
+ * check and results of outdated checks are ignored. Empty values are not
+ * checked, `required` handles those.
+ */
+export function useAsyncValidation(
+  config: UseAsyncValidationConfig
+): UseAsyncValidationResult {
+  const { fields, formValues, validators, dataSources, fetchAdapter } = config;
+
+  const [fieldStates, setFieldStates] = useState<
+    Record<string, FieldAsyncValidationState>
+  >({});
+
+  const validatorsRef = useRef(validators);
+  validatorsRef.current = validators;
+  const fetchAdapterRef = useRef(fetchAdapter);
+  fetchAdapterRef.current = fetchAdapter;
+
+  // Value (as JSON) per field of the latest check, used to skip unchanged
+  // values and to drop results of outdated checks
+  const valueKeysRef = useRef(new Map<string, string>());
+  const timersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const dataSourceService = useMemo(() => {
+    const adapter: DataSourceFetchAdapter = (url, init) =>
+      fetchAdapterRef.current
+        ? fetchAdapterRef.current(url, init)
+        : fetch(url, init);
+    return new DataSourceService(dataSources, adapter);
+  }, [dataSources]);
+
+  const setFieldState = useCallback(
+    (fieldId: string, state: FieldAsyncValidationState | undefined) => {
+      setFieldStates((prev) => {
+        if (!state) {
+          if (!(fieldId in prev)) {
+            return prev;
+          }
+          const next = { ...prev };
+          delete next[fieldId];
+          return next;
+        }
+        return { ...prev, [fieldId]: state };
+      });
+    },
+    []
+  );
+
+  const cancel = useCallback((fieldId: string) => {
+    clearTimeout(timersRef.current.get(fieldId));
+    timersRef.current.delete(fieldId);
+    controllersRef.current.get(fieldId)?.abort();
+    controllersRef.current.delete(fieldId);
+  }, []);
+
+  const validate = useCallback(
+    async (
+      fieldId: string,
+      validatorConfig: AsyncValidatorConfig,
+      value: unknown,
+      valueKey: string,
+      values: FormValues
+    ) => {
+      const controller = new AbortController();
+      controllersRef.current.set(fieldId, controller);
+      const isOutdated = () =>
+        controller.signal.aborted ||
+        valueKeysRef.current.get(fieldId) !== valueKey;
+
+      try {
+        const result = await runAsyncValidator(
+          validatorConfig,
+          value,
+          { fieldId, formValues: values, signal: controller.signal },
+          { validators: validatorsRef.current, dataSourceService }
+        );
+        if (!isOutdated()) {
+          setFieldState(fieldId, toAsyncValidationState(result));
+        }
+      } catch (error) {
+        if (!isOutdated()) {
+          // A failing check doesn't block the user, the value is checked again on submit by the backend
+          console.error('Async validation failed:', error);
+          setFieldState(fieldId, {
+            status: 'error',
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      } finally {
+        if (controllersRef.current.get(fieldId) === controller) {
+          controllersRef.current.delete(fieldId);
+        }
+      }
+    },
+    [dataSourceService, setFieldState]
+  );
+
+  useEffect(() => {
+    fields.forEach(({ fieldId, component }) => {
+      const validatorConfig = component.validation?.asyncValidator;
+      if (!validatorConfig) {
+        return;
+      }
+
+      const value = formValues[fieldId];
+      const valueKey = JSON.stringify(value ?? null);
+      if (valueKeysRef.current.get(fieldId) === valueKey) {
+        return;
+      }
+      valueKeysRef.current.set(fieldId, valueKey);
+      cancel(fieldId);
+
+      if (isEmptyValue(value)) {
+        setFieldState(fieldId, undefined);
+        return;
+      }
+
+      setFieldState(fieldId, { status: 'pending' });
+      timersRef.current.set(
+        fieldId,
+        setTimeout(() => {
+          timersRef.current.delete(fieldId);
+          validate(fieldId, validatorConfig, value, valueKey, formValues);
+        }, validatorConfig.debounceMs ?? DEFAULT_DEBOUNCE_MS)
+      );
+    });
+  }, [fields, formValues, cancel, validate, setFieldState]);
+
+  // Stop pending checks on unmount. The value keys are forgotten as well, so
+  // values are checked again when StrictMode mounts the form again.
+  useEffect(() => {
+    const valueKeys = valueKeysRef.current;
+    const timers = timersRef.current;
+    const controllers = controllersRef.current;
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      controllers.forEach((controller) => controller.abort());
+      timers.clear();
+      controllers.clear();
+      valueKeys.clear();
+    };
+  }, []);
+
+  const getFieldState = useCallback(
+    (fieldId: string) => fieldStates[fieldId],
+    [fieldStates]
+  );
+
+  const isValidating = useCallback(
+    (fieldId: string) => fieldStates[fieldId]?.status === 'pending',
+    [fieldStates]
+  );
+
+  return {
+    getFieldState,
+    isValidating,
+    hasPendingValidations: Object.values(fieldStates).some(
+      (state) => state.status === 'pending'
+    ),
+  };
+}
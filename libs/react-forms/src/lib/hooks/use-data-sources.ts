@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  DataSourceFetchAdapter,
+  FieldDataSourceConfig,
+  FieldDataSourceState,
+  UseDataSourcesConfig,
+  UseDataSourcesResult,
+} from '../interfaces/data-source-interfaces';
+import {
+  DataSourceService,
+  getParamDependencies,
+  resolveParams,
+  toFieldDataSourceConfig,
+} from '../services/data-source.service';
+
+interface FieldRequest {
+  fieldId: string;
+  config: FieldDataSourceConfig;
+  /** False while a referenced field has no value yet */
+  isReady: boolean;
+  /** Loads a prefill value instead of options */
+  isValueRequest: boolean;
+  key: string;
+}
+
+const hasValue = (value: unknown) =>
+  value !== undefined &&
+  value !== null &&
+  value !== '' &&
+  !(Array.isArray(value) && value.length === 0);
+
+/**
+ * Hook for loading field options and prefill values from the data sources
+ * declared in `app.dataSources`. Requests are repeated when a field referenced
+ * in the parameters changes; responses of outdated requests are ignored.
+ */
+export function useDataSources(
+  config: UseDataSourcesConfig
+): UseDataSourcesResult {
+  const {
+    dataSources,
+    fetchAdapter,
+    components,
+    formValues,
+    onOptionsLoaded,
+    onValueLoaded,
+  } = config;
+
+  const [fieldStates, setFieldStates] = useState<
+    Record<string, FieldDataSourceState>
+  >({});
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const fetchAdapterRef = useRef(fetchAdapter);
+  fetchAdapterRef.current = fetchAdapter;
+  const callbacksRef = useRef({ onOptionsLoaded, onValueLoaded });
+  callbacksRef.current = { onOptionsLoaded, onValueLoaded };
+
+  // Request key per field of the latest request, used to drop stale responses
+  const requestKeysRef = useRef(new Map<string, string>());
+  const serviceRef = useRef<DataSourceService | null>(null);
+
+  const service = useMemo(() => {
+    const adapter: DataSourceFetchAdapter = (url, init) =>
+      fetchAdapterRef.current
+        ? fetchAdapterRef.current(url, init)
+        : fetch(url, init);
+    return new DataSourceService(dataSources, adapter);
+  }, [dataSources]);
+
+  const requests = useMemo(
+    () =>
+      components.flatMap((component): FieldRequest[] => {
+        const dataSourceConfig = toFieldDataSourceConfig(
+          component.props?.dataSource
+        );
+        if (!dataSourceConfig) {
+          return [];
+        }
+        const isReady = getParamDependencies(dataSourceConfig.params).every(
+          (fieldId) => hasValue(formValues[fieldId])
+        );
+        const params = resolveParams(dataSourceConfig.params, formValues);
+        return [
+          {
+            fieldId: component.id,
+            config: dataSourceConfig,
+            isReady,
+            isValueRequest: dataSourceConfig.valuePath !== undefined,
+            key: JSON.stringify([dataSourceConfig.id, params, isReady]),
+          },
+        ];
+      }),
+    [components, formValues]
+  );
+  const requestsKey = requests
+    .map((request) => `${request.fieldId}:${request.key}`)
+    .join('|');
+
+  useEffect(() => {
+    // A new data source definition invalidates all loaded data
+    if (serviceRef.current !== service) {
+      serviceRef.current = service;
+      requestKeysRef.current.clear();
+    }
+
+    requests.forEach((request) => {
+      const { fieldId, key } = request;
+      if (requestKeysRef.current.get(fieldId) === key) {
+        return;
+      }
+      requestKeysRef.current.set(fieldId, key);
+
+      if (!request.isReady) {
+        setFieldStates((prev) => ({
+          ...prev,
+          [fieldId]: { status: 'idle', options: [] },
+        }));
+        if (!request.isValueRequest) {
+          callbacksRef.current.onOptionsLoaded?.(fieldId, []);
+        }
+        return;
+      }
+
+      setFieldStates((prev) => ({
+        ...prev,
+        [fieldId]: { status: 'loading', options: [] },
+      }));
+
+      const isCurrent = () => requestKeysRef.current.get(fieldId) === key;
+      const load = request.isValueRequest
+        ? service
+            .loadValue(request.config, formValues)
+            .then((value): FieldDataSourceState => {
+              if (isCurrent()) {
+                callbacksRef.current.onValueLoaded?.(fieldId, value);
+              }
+              return { status: 'success', options: [], value };
+            })
+        : service
+            .loadOptions(request.config, formValues)
+            .then((options): FieldDataSourceState => {
+              if (isCurrent()) {
+                callbacksRef.current.onOptionsLoaded?.(fieldId, options);
+              }
+              return { status: 'success', options };
+            });
+
+      load
+        .catch(
+          (error): FieldDataSourceState => ({
+            status: 'error',
+            options: [],
+            error: error instanceof Error ? error.message : String(error),
+          })
+        )
+        .then((state) => {
+          if (isCurrent()) {
+            setFieldStates((prev) => ({ ...prev, [fieldId]: state }));
+          }
+        });
+    });
+    // requestsKey captures every change of the requests
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [requestsKey, service, reloadCount]);
+
+  const getFieldState = useCallback(
+    (fieldId: string) => fieldStates[fieldId],
+    [fieldStates]
+  );
+
+  const reload = useCallback(
+    (fieldId: string) => {
+      requestKeysRef.current.delete(fieldId);
+      service.clearCache();
+      setReloadCount((count) => count + 1);
+    },
+    [service]
+  );
+
+  return { getFieldState, reload };
+}
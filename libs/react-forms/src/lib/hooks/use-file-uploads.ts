@@ -0,0 +1,97 @@
+import { useState, useCallback, useRef } from 'react';
+import {
+  FileReference,
+  UseFileUploadsConfig,
+  UseFileUploadsResult,
+} from '../interfaces/file-upload-interfaces';
+import { toFileReference } from '../utils/file-utils';
+
+/**
+ * Hook for uploading the files selected in file fields through a pluggable
+ * upload handler, tracking pending uploads and upload errors per field
+ */
+export function useFileUploads(
+  config: UseFileUploadsConfig
+): UseFileUploadsResult {
+  const { uploadHandler } = config;
+
+  const [pendingUploads, setPendingUploads] = useState<Record<string, number>>(
+    {}
+  );
+  const [uploadErrors, setUploadErrors] = useState<Record<string, string>>({});
+
+  const uploadHandlerRef = useRef(uploadHandler);
+  uploadHandlerRef.current = uploadHandler;
+
+  const updatePendingUploads = useCallback((fieldId: string, delta: number) => {
+    setPendingUploads((prev) => {
+      const count = (prev[fieldId] ?? 0) + delta;
+      const next = { ...prev };
+      if (count > 0) {
+        next[fieldId] = count;
+      } else {
+        delete next[fieldId];
+      }
+      return next;
+    });
+  }, []);
+
+  const clearUploadError = useCallback((fieldId: string) => {
+    setUploadErrors((prev) => {
+      if (!(fieldId in prev)) {
+        return prev;
+      }
+      const next = { ...prev };
+      delete next[fieldId];
+      return next;
+    });
+  }, []);
+
+  const uploadFiles = useCallback(
+    async (fieldId: string, files: File[]): Promise<FileReference[]> => {
+      const handler = uploadHandlerRef.current;
+      if (!handler) {
+        return files.map(toFileReference);
+      }
+
+      clearUploadError(fieldId);
+      updatePendingUploads(fieldId, 1);
+      try {
+        return await Promise.all(
+          files.map(async (file) => ({
+            ...toFileReference(file),
+            ...(await handler(file, { fieldId })),
+          }))
+        );
+      } catch (error) {
+        console.error('Failed to upload files:', error);
+        setUploadErrors((prev) => ({
+          ...prev,
+          [fieldId]: error instanceof Error ? error.message : String(error),
+        }));
+        throw error;
+      } finally {
+        updatePendingUploads(fieldId, -1);
+      }
+    },
+    [clearUploadError, updatePendingUploads]
+  );
+
+  const isUploading = useCallback(
+    (fieldId: string) => (pendingUploads[fieldId] ?? 0) > 0,
+    [pendingUploads]
+  );
+
+  const getUploadError = useCallback(
+    (fieldId: string) => uploadErrors[fieldId],
+    [uploadErrors]
+  );
+
+  return {
+    uploadFiles,
+    isUploading,
+    hasPendingUploads: Object.keys(pendingUploads).length > 0,
+    getUploadError,
+    clearUploadError,
+  };
+}
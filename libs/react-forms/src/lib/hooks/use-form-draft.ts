@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  FormDraft,
+  UseFormDraftConfig,
+  UseFormDraftResult,
+} from '../interfaces/draft-interfaces';
+import { FormValues } from '../interfaces/form-interfaces';
+import { createDraftStorageAdapter } from '../services/draft-storage.service';
+
+/**
+ * Checks whether a draft contains anything worth restoring
+ */
+const hasDraftContent = (values: FormValues, stepHistory: string[]) =>
+  stepHistory.length > 1 ||
+  Object.values(values).some(
+    (value) =>
+      value !== undefined &&
+      value !== null &&
+      value !== '' &&
+      value !== false &&
+      !(Array.isArray(value) && value.length === 0)
+  );
+
+// Storage errors thrown synchronously, like a QuotaExceededError or a
+// SecurityError of localStorage, reject the promise like async errors do
+const callStorage = <T>(call: () => T | Promise<T>): Promise<T> =>
+  new Promise<T>((resolve) => resolve(call()));
+
+/**
+ * Hook for autosaving form values and navigation history as a draft
+ * and restoring it when the form is loaded again
+ */
+export function useFormDraft(config: UseFormDraftConfig): UseFormDraftResult {
+  const {
+    settings,
+    defaultKey,
+    version,
+    formId,
+    values,
+    stepHistory,
+    onRestore,
+  } = config;
+
+  const enabled = !!settings && settings.enabled !== false;
+  const key = settings?.key ?? defaultKey;
+  const debounceMs = settings?.debounceMs ?? 500;
+  const resumeMode = settings?.resume ?? 'prompt';
+
+  const [pendingDraft, setPendingDraft] = useState<FormDraft | null>(null);
+
+  const adapter = useMemo(
+    () => (enabled ? createDraftStorageAdapter(settings?.storage) : null),
+    [enabled, settings?.storage]
+  );
+  const adapterRef = useRef(adapter);
+  adapterRef.current = adapter;
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  // Autosave starts once a stored draft has been restored or dismissed.
+  // The ref guards effects of the current render, the state re-runs autosave.
+  const isReadyRef = useRef(false);
+  const [isReady, setIsReady] = useState(false);
+  const markReady = useCallback((ready: boolean) => {
+    isReadyRef.current = ready;
+    setIsReady(ready);
+  }, []);
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(
+    undefined
+  );
+
+  const removeStoredDraft = useCallback(() => {
+    clearTimeout(saveTimeoutRef.current);
+    const adapter = adapterRef.current;
+    if (!adapter) {
+      return;
+    }
+    callStorage(() => adapter.remove(key)).catch((error) => {
+      console.error('Failed to remove form draft:', error);
+    });
+  }, [key]);
+
+  // Load the stored draft whenever a form definition is loaded
+  useEffect(() => {
+    markReady(false);
+    setPendingDraft(null);
+    const adapter = adapterRef.current;
+    if (!enabled || !adapter) {
+      return;
+    }
+
+    let cancelled = false;
+    callStorage(() => adapter.load(key))
+      .then((draft) => {
+        if (cancelled) {
+          return;
+        }
+        if (!draft || !hasDraftContent(draft.values, draft.stepHistory)) {
+          markReady(true);
+          return;
+        }
+        // Drafts saved for another version of the form may refer to stale field ids
+        if (draft.version !== version) {
+          removeStoredDraft();
+          markReady(true);
+          return;
+        }
+        if (resumeMode === 'auto') {
+          markReady(true);
+          onRestoreRef.current(draft);
+        } else {
+          setPendingDraft(draft);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load form draft:', error);
+        markReady(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formId, enabled, key, version, resumeMode, removeStoredDraft, markReady]);
+
+  // Autosave values and history
+  useEffect(() => {
+    if (!enabled || !isReady || !isReadyRef.current || pendingDraft) {
+      return;
+    }
+    if (!hasDraftContent(values, stepHistory)) {
+      return;
+    }
+
+    saveTimeoutRef.current = setTimeout(() => {
+      const adapter = adapterRef.current;
+      if (!adapter) {
+        return;
+      }
+      const draft: FormDraft = {
+        version,
+        values,
+        stepHistory,
+        savedAt: new Date().toISOString(),
+      };
+      callStorage(() => adapter.save(key, draft)).catch((error) => {
+        console.error('Failed to save form draft:', error);
+      });
+    }, debounceMs);
+
+    return () => clearTimeout(saveTimeoutRef.current);
+  }, [
+    enabled,
+    isReady,
+    key,
+    version,
+    values,
+    stepHistory,
+    debounceMs,
+    pendingDraft,
+  ]);
+
+  const resumeDraft = useCallback(() => {
+    if (!pendingDraft) {
+      return;
+    }
+    markReady(true);
+    setPendingDraft(null);
+    onRestoreRef.current(pendingDraft);
+  }, [pendingDraft, markReady]);
+
+  const discardDraft = useCallback(() => {
+    markReady(true);
+    setPendingDraft(null);
+    removeStoredDraft();
+  }, [removeStoredDraft, markReady]);
+
+  return {
+    pendingDraft,
+    resumeDraft,
+    discardDraft,
+    clearDraft: removeStoredDraft,
+  };
+}
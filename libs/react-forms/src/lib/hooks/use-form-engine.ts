@@ -0,0 +1,574 @@
+import {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useCallback,
+  useSyncExternalStore,
+} from 'react';
+import { useFormDraft } from './use-form-draft';
+import { useDataSources } from './use-data-sources';
+import { useFileUploads } from './use-file-uploads';
+import { useAsyncValidation } from './use-async-validation';
+import { useFormRouting } from './use-form-routing';
+import { useFormEvents } from './use-form-events';
+import { AsyncValidationField } from '../interfaces/async-validation-interfaces';
+import { ActionContext, ActionMessage } from '../interfaces/action-interfaces';
+import {
+  FormDefinition,
+  FormValues,
+  FormComponentFieldProps,
+  Option,
+  ActionType,
+} from '../interfaces/form-interfaces';
+import {
+  UseFormEngineOptions,
+  UseFormEngineResult,
+} from '../interfaces/form-engine-interfaces';
+import { FormRendererSettings as MultiLanguageFormRendererSettings } from '../interfaces/multi-language-interfaces';
+import { FileReference } from '../interfaces/file-upload-interfaces';
+import { FormCore } from '../services/form-core.service';
+import { DataSourceService } from '../services/data-source.service';
+import { runActions, toActionList } from '../services/action-runtime.service';
+import {
+  fieldRegistry as globalFieldRegistry,
+  getCustomFieldDefaultValue,
+} from '../services/field-registry.service';
+import {
+  calculateLogicalPageOrder,
+  getLogicalPageCount,
+} from '../utils/page-ordering';
+import { getInitialValues } from '../utils/form-navigation';
+import { findComponentById } from '../utils/field-lookup';
+import { isComponentVisible } from '../utils/visibility-utils';
+import { isFileReferenceList, isFileTypeAccepted } from '../utils/file-utils';
+
+// Empty values don't block prefilled values, unlike the expression engine's
+// isEmpty an empty list is a value here
+const isEmptyValue = (value: unknown): boolean => {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string' && value.trim() === '') return true;
+  return false;
+};
+
+/**
+ * Headless form engine with the state and behaviour of FormRenderer: values,
+ * validation, branching, step history, submission, drafts, data sources,
+ * uploads and routing. It renders nothing, so a form definition can be
+ * rendered with other components while behaving like FormRenderer.
+ * Values, validation, navigation and submission are handled by FormCore, the
+ * hook adds the features that need React or the browser.
+ */
+export function useFormEngine(
+  formJson: FormDefinition,
+  options: UseFormEngineOptions = {}
+): UseFormEngineResult {
+  const {
+    onSubmit,
+    onPageChange,
+    prefixId,
+    settings = {},
+    fieldRegistry,
+    fetchAdapter,
+    uploadHandler,
+    asyncValidators,
+    actions,
+    routing,
+    initialValues,
+    values: controlledValues,
+    onValuesChange,
+    onEvent,
+  } = options;
+  const isControlled = controlledValues !== undefined;
+  const currentLanguage = (settings as MultiLanguageFormRendererSettings)
+    .currentLanguage;
+  // Message shown by the showMessage action
+  const [actionMessage, setActionMessage] = useState<ActionMessage | null>(
+    null
+  );
+
+  // A new form definition starts over, controlled values are kept. The other
+  // options only set up the first state: later changes reach the core through
+  // setOptions (initial values are used again on reset) and setLanguage.
+  const core = useMemo(
+    () =>
+      new FormCore(formJson, {
+        language: currentLanguage,
+        initialValues,
+        fieldRegistry,
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [formJson]
+  );
+  const subscribe = useCallback(
+    (listener: () => void) => core.subscribe(listener),
+    [core]
+  );
+  const state = useSyncExternalStore(subscribe, () => core.getState());
+  const { currentPageIndex, stepHistory, isCompleted } = state;
+
+  // Resolve a custom field type from the renderer's registry or the global one
+  const resolveCustomField = (type: string) =>
+    globalFieldRegistry.resolve(type, fieldRegistry);
+
+  // Controlled values are completed with the default values of missing fields
+  const fieldDefaults = useMemo(
+    () =>
+      getInitialValues(formJson, (type) =>
+        globalFieldRegistry.resolve(type, fieldRegistry)
+      ),
+    [formJson, fieldRegistry]
+  );
+  const controlledFormValues = useMemo(
+    () =>
+      isControlled ? { ...fieldDefaults, ...controlledValues } : undefined,
+    [isControlled, fieldDefaults, controlledValues]
+  );
+  const formValues = controlledFormValues ?? state.values;
+
+  // The core shows the parent's values again when the parent doesn't apply a change
+  useEffect(() => {
+    if (controlledFormValues) {
+      core.syncValues(controlledFormValues);
+    }
+  });
+
+  // Before paint, so no frame is shown in the previous language
+  useLayoutEffect(() => {
+    if (currentLanguage) {
+      core.setLanguage(currentLanguage);
+    }
+  }, [core, currentLanguage]);
+
+  const translationService = core.translationService;
+
+  const { emitEvent, restart: restartEvents } = useFormEvents({
+    onEvent,
+    formVersion: formJson?.app?.version,
+    language: translationService.getLanguage(),
+    pageId: isCompleted
+      ? undefined
+      : formJson?.app?.pages?.[currentPageIndex]?.id,
+  });
+
+  // Draft persistence works with page ids so drafts survive page reordering
+  const stepHistoryPageIds = useMemo(
+    () =>
+      stepHistory
+        .map((pageIndex) => formJson?.app?.pages?.[pageIndex]?.id)
+        .filter((pageId): pageId is string => !!pageId),
+    [stepHistory, formJson]
+  );
+
+  const { pendingDraft, resumeDraft, discardDraft, clearDraft } = useFormDraft({
+    settings: settings.draftPersistence,
+    defaultKey: `form-draft:${prefixId || formJson?.app?.title || 'form'}`,
+    version: formJson?.app?.version,
+    formId: formJson,
+    values: formValues,
+    stepHistory: stepHistoryPageIds,
+    onRestore: (draft) => core.restore(draft.values, draft.stepHistory),
+  });
+
+  // Components that load their options or value from app.dataSources.
+  // Fields inside array items are not supported.
+  const dataSourceComponents = useMemo(() => {
+    const result: FormComponentFieldProps[] = [];
+    const collect = (components: FormComponentFieldProps[]) => {
+      components.forEach((component) => {
+        if (component.props?.dataSource) {
+          result.push(component);
+        }
+        if (component.children && component.type !== 'array') {
+          collect(component.children);
+        }
+      });
+    };
+    formJson?.app?.pages?.forEach((page) => collect(page.components ?? []));
+    return result;
+  }, [formJson]);
+
+  const getOptionValue = (option: Option) =>
+    typeof option === 'string' ? option : option.value;
+
+  // Clear selections that are no longer available, e.g. when a parent field
+  // of a cascading dropdown changes
+  const handleDataSourceOptionsLoaded = (
+    fieldId: string,
+    options: Option[]
+  ) => {
+    const optionValues = options.map(getOptionValue);
+    core.updateValues((prev) => {
+      const value = prev[fieldId];
+      if (Array.isArray(value)) {
+        const availableValues = value.filter((item) =>
+          optionValues.includes(item)
+        );
+        return availableValues.length === value.length
+          ? prev
+          : { ...prev, [fieldId]: availableValues };
+      }
+      if (
+        typeof value === 'string' &&
+        value !== '' &&
+        !optionValues.includes(value)
+      ) {
+        return { ...prev, [fieldId]: '' };
+      }
+      return prev;
+    });
+  };
+
+  // Prefill fields with a loaded value unless the user already entered one
+  const handleDataSourceValueLoaded = (fieldId: string, value: unknown) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+    core.updateValues((prev) =>
+      isEmptyValue(prev[fieldId]) ? { ...prev, [fieldId]: value } : prev
+    );
+  };
+
+  const { getFieldState: getDataSourceState, reload: reloadDataSource } =
+    useDataSources({
+      dataSources: formJson?.app?.dataSources,
+      fetchAdapter,
+      components: dataSourceComponents,
+      formValues,
+      onOptionsLoaded: handleDataSourceOptionsLoaded,
+      onValueLoaded: handleDataSourceValueLoaded,
+    });
+
+  const {
+    uploadFiles,
+    isUploading,
+    hasPendingUploads,
+    getUploadError,
+    clearUploadError,
+  } = useFileUploads({ uploadHandler });
+
+  // Fields with an async validator, array item fields are not supported
+  const asyncValidationFields = useMemo(() => {
+    const result: AsyncValidationField[] = [];
+    const collect = (
+      components: FormComponentFieldProps[],
+      parentId?: string
+    ) => {
+      components.forEach((component) => {
+        const fieldId = parentId ? `${parentId}.${component.id}` : component.id;
+        if (component.validation?.asyncValidator) {
+          result.push({ fieldId, component });
+        }
+        if (component.children && component.type !== 'array') {
+          collect(component.children, fieldId);
+        }
+      });
+    };
+    formJson?.app?.pages?.forEach((page) => collect(page.components ?? []));
+    return result;
+  }, [formJson]);
+
+  const {
+    getFieldState: getAsyncValidationState,
+    isValidating,
+    hasPendingValidations,
+  } = useAsyncValidation({
+    fields: asyncValidationFields,
+    formValues,
+    validators: asyncValidators,
+    dataSources: formJson?.app?.dataSources,
+    fetchAdapter,
+  });
+
+  // Before the other effects, so they use the callbacks of this render
+  useLayoutEffect(() => {
+    core.setOptions({
+      onSubmit,
+      onPageChange,
+      initialValues,
+      onValuesChange,
+      fieldRegistry,
+      onEvent: (event) => {
+        if (event.type === 'submitSuccess') {
+          clearDraft();
+        }
+        emitEvent(event);
+      },
+      getAsyncValidationState,
+      hasPendingWork: () => hasPendingUploads || hasPendingValidations,
+    });
+  });
+
+  // Report the first page once the form is shown
+  useEffect(() => {
+    core.start();
+    setActionMessage(null);
+  }, [core]);
+
+  // Show the result of async validators
+  useEffect(() => {
+    core.revalidate();
+  }, [core, getAsyncValidationState]);
+
+  // Next or submit used during uploads or async validation continues afterwards
+  useEffect(() => {
+    if (!hasPendingUploads && !hasPendingValidations) {
+      core.resumePendingAction();
+    }
+  }, [core, hasPendingUploads, hasPendingValidations]);
+
+  // Runs the onChange actions of a field after its value was set
+  const runOnChangeActions = (id: string) => {
+    const onChangeActions = findComponentById(
+      formJson?.app?.pages,
+      id.split('.').pop() ?? id
+    )?.eventHandlers?.onChange;
+    if (onChangeActions) {
+      void runEventActions(onChangeActions, id);
+    }
+  };
+
+  const handleInputChange = (id: string, value: unknown) => {
+    core.setValue(id, value);
+    runOnChangeActions(id);
+  };
+
+  // Sets several values at once, e.g. values prefilled by the host application
+  const setValues = (values: FormValues) => {
+    core.setValues(values);
+    Object.keys(values).forEach(runOnChangeActions);
+  };
+
+  const handleFocus = (id: string) => {
+    emitEvent({ type: 'fieldFocus', fieldId: id });
+  };
+
+  const getArrayItems = (fieldId: string) =>
+    (core.getState().values[fieldId] as Array<Record<string, unknown>>) || [];
+
+  // New items start with the default values of custom field types
+  const handleAddArrayItem = (
+    component: FormComponentFieldProps,
+    fieldId: string
+  ) => {
+    const items = getArrayItems(fieldId);
+    const newItem: Record<string, unknown> = {};
+    component.arrayItems?.forEach((arrayItem) => {
+      arrayItem.components.forEach((comp) => {
+        const customField = resolveCustomField(comp.type);
+        newItem[comp.id] = customField
+          ? getCustomFieldDefaultValue(customField, comp)
+          : undefined;
+      });
+    });
+    handleInputChange(fieldId, [...items, newItem]);
+    emitEvent({ type: 'arrayItemAdd', fieldId, itemIndex: items.length });
+  };
+
+  const handleRemoveArrayItem = (fieldId: string, itemIndex: number) => {
+    handleInputChange(
+      fieldId,
+      getArrayItems(fieldId).filter((_, index) => index !== itemIndex)
+    );
+    emitEvent({ type: 'arrayItemRemove', fieldId, itemIndex });
+  };
+
+  const getFiles = (fieldId: string): FileReference[] => {
+    const value = core.getState().values[fieldId];
+    return isFileReferenceList(value) ? (value as FileReference[]) : [];
+  };
+
+  // Only files that pass the type and size checks are uploaded, rejected files
+  // are kept as metadata so the validation errors point them out
+  const handleFilesSelected = async (
+    component: FormComponentFieldProps,
+    fieldId: string,
+    files: File[]
+  ) => {
+    const isValidFile = (file: File) =>
+      isFileTypeAccepted(file, component.props?.accept) &&
+      !(
+        component.validation?.maxFileSize &&
+        file.size > component.validation.maxFileSize
+      );
+    const validFiles = files.filter(isValidFile);
+    const rejectedFiles = files
+      .filter((file) => !isValidFile(file))
+      .map(
+        (file): FileReference => ({
+          name: file.name,
+          size: file.size,
+          type: file.type,
+        })
+      );
+
+    let uploadedFiles: FileReference[] = [];
+    if (validFiles.length > 0) {
+      try {
+        uploadedFiles = await uploadFiles(fieldId, validFiles);
+      } catch {
+        // The upload error is shown with the field
+      }
+    }
+
+    const addedFiles = [...uploadedFiles, ...rejectedFiles];
+    if (addedFiles.length === 0) {
+      return;
+    }
+    core.setValues({
+      [fieldId]: component.props?.multiple
+        ? [...getFiles(fieldId), ...addedFiles]
+        : addedFiles.slice(0, 1),
+    });
+  };
+
+  const handleFileRemove = (fieldId: string, index: number) => {
+    clearUploadError(fieldId);
+    core.updateValues((prev) => ({
+      ...prev,
+      [fieldId]: getFiles(fieldId).filter(
+        (_file, fileIndex) => fileIndex !== index
+      ),
+    }));
+    core.blur(fieldId);
+  };
+
+  const allowBackNavigation =
+    formJson?.app?.settings?.allowBackNavigation !== false;
+
+  useFormRouting({
+    routing,
+    route: formJson?.app?.pages?.[currentPageIndex]?.route,
+    onRouteChange: (path) => core.goToRoute(path),
+  });
+
+  const handleSubmit = async () => {
+    await core.submit();
+  };
+
+  const handleReset = () => {
+    clearDraft();
+    restartEvents();
+    setActionMessage(null);
+    core.reset();
+  };
+
+  // Custom actions of the thank you page are not handled yet
+  const handleThankYouAction = (action: 'restart' | 'custom') => {
+    if (action === 'restart') {
+      handleReset();
+    }
+  };
+
+  const actionDataSourceService = useMemo(
+    () => new DataSourceService(formJson?.app?.dataSources, fetchAdapter),
+    [formJson?.app?.dataSources, fetchAdapter]
+  );
+
+  // Run the actions of an event handler, later actions see the values set by earlier ones
+  const runEventActions = async (
+    handlerActions: ActionType | ActionType[] | undefined,
+    fieldId: string
+  ) => {
+    const actionList = toActionList(handlerActions);
+    if (actionList.length === 0) {
+      return;
+    }
+
+    const context: ActionContext = {
+      fieldId,
+      getValues: () => core.getState().values,
+      setValue: (id, value) => core.setValues({ [id]: value }),
+      navigate: (pageId) => core.goTo(pageId),
+      showMessage: (text, type = 'info') => setActionMessage({ text, type }),
+      validatePage: () => core.validate(),
+      submit: handleSubmit,
+      reset: handleReset,
+      loadDataSource: (dataSourceId, params) =>
+        actionDataSourceService.load(dataSourceId, params),
+    };
+
+    setActionMessage(null);
+    await runActions(actionList, context, {
+      actions,
+      onError: () =>
+        setActionMessage({
+          text: translationService.translateUI('actionError'),
+          type: 'error',
+        }),
+    });
+  };
+
+  // Buttons with a props.onClick action name, only reset is supported
+  const handleButtonClick = (action: string) => {
+    if (action === 'reset') {
+      handleReset();
+    }
+  };
+
+  const pageCount = useMemo(
+    () => getLogicalPageCount(calculateLogicalPageOrder(formJson)),
+    [formJson]
+  );
+  const submissions = useMemo(
+    (): Record<string, FormValues> =>
+      state.submittedValues ? { 'multistep-form': state.submittedValues } : {},
+    [state.submittedValues]
+  );
+
+  const currentPage = formJson?.app?.pages?.[currentPageIndex];
+
+  return {
+    currentPage,
+    currentPageIndex,
+    visibleComponents: (currentPage?.components ?? []).filter((component) =>
+      isComponentVisible(component, formValues)
+    ),
+    values: formValues,
+    errors: state.errors,
+    getValues: () => core.getState().values,
+    getErrors: () => core.getState().errors,
+    progress: core.getProgress(),
+    pageCount,
+    allowBackNavigation,
+    canGoBack: core.canGoBack(),
+    isSubmitted: state.isSubmitted,
+    isSubmitting: state.isSubmitting,
+    submitError: state.submitError,
+    isCompleted,
+    submissions,
+    actionMessage,
+    translationService,
+    setValue: handleInputChange,
+    setValues,
+    setArrayItemValue: (arrayFieldId, itemIndex, fieldId, value) =>
+      core.setArrayItemValue(arrayFieldId, itemIndex, fieldId, value),
+    addArrayItem: handleAddArrayItem,
+    removeArrayItem: handleRemoveArrayItem,
+    focus: handleFocus,
+    blur: (fieldId) => core.blur(fieldId),
+    shouldShowError: (fieldId) => core.shouldShowError(fieldId),
+    isComponentVisible,
+    next: () => core.next(),
+    previous: () => core.previous(),
+    goTo: (pageId) => core.goTo(pageId),
+    validate: (pageId) => core.validate(pageId),
+    submit: handleSubmit,
+    reset: handleReset,
+    runActions: runEventActions,
+    runButtonAction: handleButtonClick,
+    runThankYouAction: handleThankYouAction,
+    pendingDraft,
+    resumeDraft,
+    discardDraft,
+    getDataSourceState,
+    reloadDataSource,
+    selectFiles: handleFilesSelected,
+    removeFile: handleFileRemove,
+    isUploading,
+    hasPendingUploads,
+    getUploadError,
+    isValidating,
+    hasPendingValidations,
+  };
+}
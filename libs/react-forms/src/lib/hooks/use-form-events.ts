@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  FormEvent,
+  FormEventData,
+  UseFormEventsConfig,
+  UseFormEventsResult,
+} from '../interfaces/form-event-interfaces';
+
+/**
+ * Hook that sends lifecycle events of a form to onEvent. Page enter and leave
+ * events follow the page that is shown, the form is abandoned when it is
+ * unmounted or the page is hidden before it was submitted.
+ */
+export function useFormEvents(
+  config: UseFormEventsConfig
+): UseFormEventsResult {
+  const { pageId } = config;
+  const configRef = useRef(config);
+  configRef.current = config;
+  const startedAtRef = useRef(Date.now());
+  const isSubmittedRef = useRef(false);
+  const isAbandonedRef = useRef(false);
+  const isMountedRef = useRef(false);
+  const pageVisitRef = useRef<{ pageId: string; enteredAt: number } | null>(
+    null
+  );
+
+  const emitEvent = useCallback((event: FormEventData) => {
+    const { onEvent, formVersion, language } = configRef.current;
+    if (event.type === 'submitSuccess') {
+      isSubmittedRef.current = true;
+    }
+    onEvent?.({
+      pageId: configRef.current.pageId,
+      ...event,
+      timestamp: Date.now(),
+      formVersion,
+      language,
+    } as FormEvent);
+  }, []);
+
+  const restart = useCallback(() => {
+    startedAtRef.current = Date.now();
+    isSubmittedRef.current = false;
+    isAbandonedRef.current = false;
+  }, []);
+
+  useEffect(() => {
+    const previousVisit = pageVisitRef.current;
+    if (previousVisit?.pageId === pageId) {
+      return;
+    }
+    const now = Date.now();
+    pageVisitRef.current = pageId ? { pageId, enteredAt: now } : null;
+    if (previousVisit) {
+      emitEvent({
+        type: 'pageLeave',
+        pageId: previousVisit.pageId,
+        timeSpent: now - previousVisit.enteredAt,
+        nextPageId: pageId,
+      });
+    }
+    if (pageId) {
+      emitEvent({
+        type: 'pageEnter',
+        pageId,
+        previousPageId: previousVisit?.pageId,
+      });
+    }
+  }, [pageId, emitEvent]);
+
+  const emitAbandon = useCallback(() => {
+    if (isSubmittedRef.current || isAbandonedRef.current) {
+      return;
+    }
+    isAbandonedRef.current = true;
+    const now = Date.now();
+    const visit = pageVisitRef.current;
+    emitEvent({
+      type: 'formAbandon',
+      pageId: visit?.pageId,
+      timeSpent: visit ? now - visit.enteredAt : 0,
+      totalTime: now - startedAtRef.current,
+    });
+  }, [emitEvent]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    window.addEventListener('pagehide', emitAbandon);
+    return () => {
+      isMountedRef.current = false;
+      window.removeEventListener('pagehide', emitAbandon);
+      // StrictMode runs the cleanup and the effect again right after mount,
+      // only a cleanup that isn't followed by the effect is an unmount
+      queueMicrotask(() => {
+        if (!isMountedRef.current) {
+          emitAbandon();
+        }
+      });
+    };
+  }, [emitAbandon]);
+
+  return { emitEvent, restart };
+}
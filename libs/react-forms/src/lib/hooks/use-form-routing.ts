@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  FormRouterAdapter,
+  UseFormRoutingConfig,
+} from '../interfaces/routing-interfaces';
+import { getHashRoute, normalizeRoute } from '../utils/routing-utils';
+
+/**
+ * Router adapter for the location hash, only listens to the location when enabled
+ */
+function useHashRouter(enabled: boolean): FormRouterAdapter | undefined {
+  const [path, setPath] = useState(() =>
+    enabled ? getHashRoute(window.location.hash) : ''
+  );
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const handleLocationChange = () =>
+      setPath(getHashRoute(window.location.hash));
+    handleLocationChange();
+    window.addEventListener('hashchange', handleLocationChange);
+    window.addEventListener('popstate', handleLocationChange);
+    return () => {
+      window.removeEventListener('hashchange', handleLocationChange);
+      window.removeEventListener('popstate', handleLocationChange);
+    };
+  }, [enabled]);
+
+  const navigate = useCallback(
+    (nextPath: string, options?: { replace?: boolean }) => {
+      const url = `#${nextPath}`;
+      if (options?.replace) {
+        window.history.replaceState(window.history.state, '', url);
+      } else {
+        window.history.pushState(null, '', url);
+      }
+      setPath(normalizeRoute(nextPath));
+    },
+    []
+  );
+
+  return useMemo(
+    () => (enabled ? { path, navigate } : undefined),
+    [enabled, path, navigate]
+  );
+}
+
+/**
+ * Hook that keeps a router location in sync with the current page. Location
+ * changes that don't come from the form are passed to onRouteChange, a refused
+ * path is replaced by the route of the current page.
+ */
+export function useFormRouting(config: UseFormRoutingConfig): void {
+  const { routing, route, onRouteChange } = config;
+
+  const hashRouter = useHashRouter(routing === 'hash');
+  const router = routing === 'hash' ? hashRouter : routing;
+  const routerRef = useRef(router);
+  routerRef.current = router;
+  const onRouteChangeRef = useRef(onRouteChange);
+  onRouteChangeRef.current = onRouteChange;
+
+  // Path the location and the current page agree on
+  const syncedPathRef = useRef<string | null>(null);
+  // Route of the current page that was last synced to the location
+  const lastRouteRef = useRef<string | null>(null);
+
+  const isEnabled = router !== undefined;
+  const locationPath = router ? normalizeRoute(router.path) : '';
+
+  // Location changed outside the form, e.g. by the browser back button or a deep link
+  useEffect(() => {
+    if (!locationPath || locationPath === syncedPathRef.current) {
+      return;
+    }
+    if (onRouteChangeRef.current(locationPath)) {
+      syncedPathRef.current = locationPath;
+    } else if (syncedPathRef.current) {
+      routerRef.current?.navigate(syncedPathRef.current, { replace: true });
+    }
+  }, [locationPath]);
+
+  // Current page changed, update the location
+  useEffect(() => {
+    const currentRouter = routerRef.current;
+    const path = normalizeRoute(route);
+    if (!currentRouter || !path || path === lastRouteRef.current) {
+      return;
+    }
+    const isInitial = lastRouteRef.current === null;
+    lastRouteRef.current = path;
+    // An accepted deep link on the first render, the page follows the location
+    if (isInitial && syncedPathRef.current) {
+      return;
+    }
+    syncedPathRef.current = path;
+    if (normalizeRoute(currentRouter.path) !== path) {
+      currentRouter.navigate(path, { replace: isInitial });
+    }
+  }, [route, isEnabled]);
+}
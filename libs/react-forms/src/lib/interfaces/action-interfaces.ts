@@ -0,0 +1,56 @@
+import type { ActionType, FormValues } from './form-interfaces';
+
+/** Actions that are handled by the renderer itself */
+export type BuiltInActionName =
+  | 'setValue'
+  | 'clearValue'
+  | 'navigate'
+  | 'showMessage'
+  | 'validatePage'
+  | 'submit'
+  | 'callDataSource'
+  | 'reset';
+
+export type ActionMessageType = 'info' | 'success' | 'error';
+
+export interface ActionMessage {
+  text: string;
+  type: ActionMessageType;
+}
+
+/**
+ * What an action can do with the form. Changes made by an action are visible
+ * to the next actions of the same event handler through `getValues`.
+ */
+export interface ActionContext {
+  /** Id of the field or button that triggered the actions */
+  fieldId?: string;
+  getValues: () => FormValues;
+  /** Sets a field value, `undefined` removes the value */
+  setValue: (fieldId: string, value: unknown) => void;
+  /** Goes to a page by id, returns false when the page doesn't exist */
+  navigate: (pageId: string) => boolean;
+  showMessage: (text: string, type?: ActionMessageType) => void;
+  /** Validates the current page and shows its errors */
+  validatePage: () => boolean;
+  submit: () => Promise<void>;
+  reset: () => void;
+  loadDataSource: (
+    dataSourceId: string,
+    params?: Record<string, unknown>
+  ) => Promise<unknown>;
+}
+
+/**
+ * Result of an action, returning false stops the remaining actions of the
+ * event handler
+ */
+export type ActionResult = boolean | void;
+
+export type ActionHandler = (
+  action: ActionType,
+  context: ActionContext
+) => ActionResult | Promise<ActionResult>;
+
+/** Action handlers by action type */
+export type ActionRegistry = Record<string, ActionHandler>;
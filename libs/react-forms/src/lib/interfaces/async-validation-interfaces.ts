@@ -0,0 +1,79 @@
+import type {
+  DataSourceDefinition,
+  DataSourceFetchAdapter,
+} from './data-source-interfaces';
+import type { FormComponentFieldProps, FormValues } from './form-interfaces';
+
+/**
+ * Configuration of an async validator on a field (`validation.asyncValidator`).
+ * The value is checked by a registered validator or by a data source.
+ */
+export interface AsyncValidatorConfig {
+  /** Name of a validator registered with registerAsyncValidator or the asyncValidators prop */
+  validator?: string;
+  /** Id of a data source in `app.dataSources` that checks the value */
+  dataSource?: string;
+  /**
+   * Parameters for the data source, `{{value}}` is the field value and
+   * `{{fieldId}}` references other fields (default: `{ value: '{{value}}' }`)
+   */
+  params?: Record<string, unknown>;
+  /** Path in the data source response to the valid flag (default: "valid") */
+  validPath?: string;
+  /** Path in the data source response to an error message (default: "message") */
+  messagePath?: string;
+  /** Delay after the last change before the value is checked (default: 500) */
+  debounceMs?: number;
+}
+
+export interface AsyncValidatorContext {
+  fieldId: string;
+  formValues: FormValues;
+  /** Aborted when the value changes before the validation finished */
+  signal: AbortSignal;
+}
+
+/**
+ * Result of an async validator: true (or nothing) when the value is valid,
+ * false for the default error message or an error message
+ */
+export type AsyncValidationResult = boolean | string | null | undefined;
+
+export type AsyncValidator = (
+  value: unknown,
+  context: AsyncValidatorContext
+) => Promise<AsyncValidationResult> | AsyncValidationResult;
+
+/** Async validators by name */
+export type AsyncValidatorRegistry = Record<string, AsyncValidator>;
+
+export type AsyncValidationStatus = 'pending' | 'valid' | 'invalid' | 'error';
+
+export interface FieldAsyncValidationState {
+  status: AsyncValidationStatus;
+  /** Error message returned by the validator */
+  message?: string;
+}
+
+export interface AsyncValidationField {
+  /** Field id, including the section path for fields in sections */
+  fieldId: string;
+  component: FormComponentFieldProps;
+}
+
+export interface UseAsyncValidationConfig {
+  /** Fields with a `validation.asyncValidator` */
+  fields: AsyncValidationField[];
+  formValues: FormValues;
+  /** Validators for this form, take precedence over registered validators */
+  validators?: AsyncValidatorRegistry;
+  dataSources?: DataSourceDefinition[];
+  fetchAdapter?: DataSourceFetchAdapter;
+}
+
+export interface UseAsyncValidationResult {
+  getFieldState: (fieldId: string) => FieldAsyncValidationState | undefined;
+  isValidating: (fieldId: string) => boolean;
+  /** True while any field is waiting for (debounced) validation */
+  hasPendingValidations: boolean;
+}
@@ -0,0 +1,107 @@
+import type {
+  FormComponentFieldProps,
+  FormValues,
+  Option,
+} from './form-interfaces';
+
+/**
+ * Maps a data source response to options or values.
+ * Paths use dot notation, e.g. "data.items" or "address.city".
+ */
+export interface DataSourceResponseMapping {
+  /** Path to the list of items in the response (default: the response itself) */
+  items?: string;
+  /** Path to the option label within an item (default: "label") */
+  label?: string;
+  /** Path to the option value within an item (default: "value") */
+  value?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Named data source declared in `app.dataSources`
+ */
+export interface DataSourceDefinition {
+  id: string;
+  type: 'rest' | 'graphql' | 'static';
+  /** Endpoint for rest and graphql data sources */
+  url?: string;
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  /** GraphQL query, the params are sent as variables */
+  query?: string;
+  /**
+   * Default parameters. For GET requests they are added to the query string,
+   * otherwise they are sent as JSON body.
+   */
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  responseMapping?: DataSourceResponseMapping;
+  /** Items of a static data source */
+  data?: unknown[];
+}
+
+/**
+ * Reference from a field's `props.dataSource` to a named data source
+ */
+export interface FieldDataSourceConfig {
+  /** Id of the data source in `app.dataSources` */
+  id: string;
+  /**
+   * Parameters for this field. String values may reference other fields with
+   * `{{fieldId}}`; the request waits until all referenced fields have a value
+   * and is repeated whenever one of them changes (cascading dropdowns).
+   */
+  params?: Record<string, unknown>;
+  /** Overrides the data source's response mapping for this field */
+  responseMapping?: DataSourceResponseMapping;
+  /**
+   * For non-option fields: path in the response used to prefill the field
+   * while it is still empty
+   */
+  valuePath?: string;
+}
+
+/**
+ * Minimal fetch signature used for remote data sources,
+ * can be replaced to add authentication or to mock requests in tests
+ */
+export type DataSourceFetchAdapter = (
+  url: string,
+  init: {
+    method: string;
+    headers: Record<string, string>;
+    body?: string;
+    signal?: AbortSignal;
+  }
+) => Promise<{ ok: boolean; status: number; json: () => Promise<unknown> }>;
+
+export type DataSourceStatus = 'idle' | 'loading' | 'success' | 'error';
+
+/**
+ * Loading state of a field that gets its options or value from a data source
+ */
+export interface FieldDataSourceState {
+  status: DataSourceStatus;
+  options: Option[];
+  /** Prefill value for non-option fields */
+  value?: unknown;
+  error?: string;
+}
+
+export interface UseDataSourcesConfig {
+  dataSources?: DataSourceDefinition[];
+  fetchAdapter?: DataSourceFetchAdapter;
+  /** Components that declare a `props.dataSource` */
+  components: FormComponentFieldProps[];
+  formValues: FormValues;
+  /** Called when options for a field were (re)loaded or reset */
+  onOptionsLoaded?: (fieldId: string, options: Option[]) => void;
+  /** Called when a prefill value for a field was loaded */
+  onValueLoaded?: (fieldId: string, value: unknown) => void;
+}
+
+export interface UseDataSourcesResult {
+  getFieldState: (fieldId: string) => FieldDataSourceState | undefined;
+  /** Load the data for a field again, e.g. after an error */
+  reload: (fieldId: string) => void;
+}
@@ -0,0 +1,67 @@
+import type { FormValues } from './form-interfaces';
+
+/**
+ * Snapshot of a partially filled form
+ */
+export interface FormDraft {
+  /** `app.version` of the form definition the draft was saved for */
+  version?: string;
+  values: FormValues;
+  /** Ids of the visited pages, the last one being the current page */
+  stepHistory: string[];
+  /** ISO timestamp of the last save */
+  savedAt: string;
+}
+
+/**
+ * Storage backend for drafts. Methods may be synchronous or return a promise.
+ */
+export interface DraftStorageAdapter {
+  load(key: string): FormDraft | null | Promise<FormDraft | null>;
+  save(key: string, draft: FormDraft): void | Promise<void>;
+  remove(key: string): void | Promise<void>;
+}
+
+export type DraftStorage = 'localStorage' | 'indexedDB' | DraftStorageAdapter;
+
+/**
+ * Opt-in draft persistence settings
+ */
+export interface DraftPersistenceSettings {
+  /** Enable autosaving (default: true when the settings object is provided) */
+  enabled?: boolean;
+  /** Storage key for the draft (default: "form-draft:" + prefixId or app title) */
+  key?: string;
+  /** Where drafts are stored (default: 'localStorage') */
+  storage?: DraftStorage;
+  /** Delay before changes are saved in milliseconds (default: 500) */
+  debounceMs?: number;
+  /**
+   * 'prompt' asks the user whether to resume a saved draft,
+   * 'auto' restores it without asking (default: 'prompt')
+   */
+  resume?: 'prompt' | 'auto';
+}
+
+export interface UseFormDraftConfig {
+  settings?: DraftPersistenceSettings;
+  /** Storage key used when settings.key is not provided */
+  defaultKey: string;
+  /** `app.version` of the current form definition */
+  version?: string;
+  /** Changes whenever a new form definition is loaded */
+  formId: unknown;
+  values: FormValues;
+  stepHistory: string[];
+  /** Called with a validated draft that should be applied to the form */
+  onRestore: (draft: FormDraft) => void;
+}
+
+export interface UseFormDraftResult {
+  /** Saved draft waiting for the user to resume or discard it */
+  pendingDraft: FormDraft | null;
+  resumeDraft: () => void;
+  discardDraft: () => void;
+  /** Remove the stored draft, e.g. after a successful submit */
+  clearDraft: () => void;
+}
@@ -0,0 +1,83 @@
+import type { ComponentType } from 'react';
+import type {
+  FieldClasses,
+  FormComponentFieldProps,
+  FormRendererColorClasses,
+  FormRendererStyleClasses,
+  FormValues,
+} from './form-interfaces';
+
+/**
+ * Props passed by FormRenderer to a custom field component.
+ * Mirrors the props of the built-in atoms so custom fields can reuse
+ * the same value, validation, error and class plumbing.
+ */
+export interface CustomFieldProps<TValue = unknown> {
+  /** Prefixed DOM id for the field (use for id/htmlFor/aria attributes) */
+  fieldId: string;
+  label?: string;
+  value: TValue;
+  onChange: (value: TValue) => void;
+  onBlur: () => void;
+  validation?: FormComponentFieldProps['validation'];
+  props?: FormComponentFieldProps['props'];
+  showError: boolean;
+  validationErrors: string[];
+  disabled?: boolean;
+  classes?: FieldClasses;
+  colorClasses?: FormRendererColorClasses;
+  styleClasses?: FormRendererStyleClasses;
+  /** The raw component definition from the form JSON */
+  component: FormComponentFieldProps;
+  /** Current values of the whole form (or of the array item for array children) */
+  formValues: FormValues;
+  /** True when the field is rendered inside an array item */
+  isArrayItem?: boolean;
+}
+
+/**
+ * Context passed to a custom field validator
+ */
+export interface CustomFieldValidationContext {
+  component: FormComponentFieldProps;
+  formValues: FormValues;
+  /**
+   * Resolves an error message using the same translation and
+   * errorMessages fallbacks as the built-in validators
+   */
+  getErrorMessage: (
+    errorType: string,
+    params?: Record<string, string | number>
+  ) => string;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type CustomFieldComponent = ComponentType<CustomFieldProps<any>>;
+
+/**
+ * Full definition of a custom field type
+ */
+export interface CustomFieldDefinition {
+  /** Component used to render the field */
+  component: CustomFieldComponent;
+  /** Initial value, or a factory that derives it from the component definition */
+  defaultValue?: unknown | ((component: FormComponentFieldProps) => unknown);
+  /**
+   * Extra validation on top of the generic `required` check.
+   * Returns the error messages for the value (empty when valid).
+   */
+  validate?: (
+    value: unknown,
+    context: CustomFieldValidationContext
+  ) => string[];
+  /** Whether the field is listed in confirmation summaries (default: true) */
+  includeInSummary?: boolean;
+}
+
+/**
+ * Map of custom field type names to a component or a full definition
+ */
+export type FieldRegistry = Record<
+  string,
+  CustomFieldComponent | CustomFieldDefinition
+>;
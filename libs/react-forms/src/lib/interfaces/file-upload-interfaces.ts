@@ -0,0 +1,44 @@
+/**
+ * Reference to an uploaded file as stored in the form values.
+ * Form values only contain file metadata (and the location returned by the
+ * upload handler), never the file contents.
+ */
+export interface FileReference {
+  name: string;
+  size: number;
+  /** MIME type of the file */
+  type: string;
+  /** Location of the uploaded file, also used for image previews */
+  url?: string;
+  /** Identifier assigned by the upload handler */
+  id?: string;
+  [key: string]: unknown;
+}
+
+export interface FileUploadContext {
+  /** Id of the file field, including the array item path for array fields */
+  fieldId: string;
+}
+
+/**
+ * Uploads a single file and returns a reference to it.
+ * When no handler is provided, file fields only store the file metadata.
+ */
+export type FileUploadHandler = (
+  file: File,
+  context: FileUploadContext
+) => Promise<FileReference> | FileReference;
+
+export interface UseFileUploadsConfig {
+  uploadHandler?: FileUploadHandler;
+}
+
+export interface UseFileUploadsResult {
+  /** Uploads the files and resolves with references to the uploaded files */
+  uploadFiles: (fieldId: string, files: File[]) => Promise<FileReference[]>;
+  isUploading: (fieldId: string) => boolean;
+  /** True while any file field has uploads in progress */
+  hasPendingUploads: boolean;
+  getUploadError: (fieldId: string) => string | undefined;
+  clearUploadError: (fieldId: string) => void;
+}
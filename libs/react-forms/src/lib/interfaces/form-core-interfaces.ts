@@ -0,0 +1,107 @@
+import {
+  FormComponentFieldProps,
+  FormDefinition,
+  FormRendererProps,
+  FormValues,
+  PageProps,
+  ValidationError,
+  ValidationErrors,
+} from './form-interfaces';
+import {
+  CustomFieldDefinition,
+  FieldRegistry,
+} from './field-registry-interfaces';
+import { FieldAsyncValidationState } from './async-validation-interfaces';
+import { FormEventData } from './form-event-interfaces';
+import type { TranslationService } from '../services/translation-service';
+
+export type CustomFieldResolver = (
+  type: string
+) => CustomFieldDefinition | undefined;
+
+export interface FormValidatorConfig {
+  formJson: FormDefinition;
+  translationService: TranslationService;
+  /** Custom field types, their `validate` function is used */
+  resolveCustomField?: CustomFieldResolver;
+  /** State of async validators, an invalid state adds its message */
+  getAsyncValidationState?: (
+    fieldId: string
+  ) => FieldAsyncValidationState | undefined;
+  /** Fields of array items are only validated once touched, all by default */
+  isFieldTouched?: (fieldId: string) => boolean;
+}
+
+export interface FormValidator {
+  getFieldLabel: (component: FormComponentFieldProps) => string;
+  getErrorMessage: (
+    component: FormComponentFieldProps,
+    errorType: string,
+    params?: Record<string, string | number>
+  ) => string;
+  validateComponent: (
+    component: FormComponentFieldProps,
+    values: FormValues,
+    parentId?: string
+  ) => ValidationError[];
+  /** Errors of the visible components of a page, with the rule that failed */
+  getPageErrors: (
+    page: PageProps | undefined,
+    values: FormValues
+  ) => ValidationError[];
+  /** Validates the visible components of a page, errors are keyed by field id */
+  validatePage: (
+    page: PageProps | undefined,
+    values: FormValues
+  ) => ValidationErrors;
+}
+
+export interface FormCoreOptions
+  extends Pick<
+    FormRendererProps,
+    'onSubmit' | 'onPageChange' | 'initialValues' | 'onValuesChange'
+  > {
+  /**
+   * Language of the error messages when the core is created, defaults to the
+   * form's default language, see `setLanguage`
+   */
+  language?: string;
+  /** Custom field types, used for their default values and validation */
+  fieldRegistry?: FieldRegistry;
+  /**
+   * Field, validation and submit events, the renderer adds the time, form
+   * version and language
+   */
+  onEvent?: (event: FormEventData) => void;
+  /** State of async validators, an invalid state adds its message */
+  getAsyncValidationState?: (
+    fieldId: string
+  ) => FieldAsyncValidationState | undefined;
+  /**
+   * True while files are uploaded or async validators run, next and submit
+   * wait for them until resumePendingAction is called
+   */
+  hasPendingWork?: () => boolean;
+}
+
+export interface FormCoreState {
+  values: FormValues;
+  /** Error messages per field id, including errors returned by onSubmit */
+  errors: ValidationErrors;
+  /** Fields the user has left, their errors are shown */
+  touched: Record<string, boolean>;
+  /** True once next or submit was used on the current page, all errors are shown */
+  isSubmitted: boolean;
+  /** Index of the current page in `app.pages` */
+  currentPageIndex: number;
+  /** Indexes of the visited pages, the current page is the last one */
+  stepHistory: number[];
+  isSubmitting: boolean;
+  submitError: string | null;
+  /** True when the form was submitted */
+  isCompleted: boolean;
+  /** Values of the last submission, hidden fields removed, kept on reset */
+  submittedValues: FormValues | null;
+}
+
+export type FormCoreListener = (state: FormCoreState) => void;
@@ -0,0 +1,143 @@
+import {
+  ActionType,
+  FormComponentFieldProps,
+  FormRendererProps,
+  FormValues,
+  PageProps,
+  ValidationErrors,
+} from './form-interfaces';
+import { ActionMessage } from './action-interfaces';
+import { FieldDataSourceState } from './data-source-interfaces';
+import { FormDraft } from './draft-interfaces';
+import { TranslationService } from '../services/translation-service';
+
+/**
+ * Options of useFormEngine, the behaviour related props of FormRenderer
+ */
+export type UseFormEngineOptions = Pick<
+  FormRendererProps,
+  | 'onSubmit'
+  | 'onPageChange'
+  | 'prefixId'
+  | 'settings'
+  | 'fieldRegistry'
+  | 'fetchAdapter'
+  | 'uploadHandler'
+  | 'asyncValidators'
+  | 'actions'
+  | 'routing'
+  | 'initialValues'
+  | 'values'
+  | 'onValuesChange'
+  | 'onEvent'
+>;
+
+export interface FormEngineProgress {
+  /** 1-based position of the current page, hidden pages are not counted */
+  currentStep: number;
+  totalSteps: number;
+}
+
+export interface UseFormEngineResult {
+  /** Page that is shown, undefined when the form has no pages */
+  currentPage: PageProps | undefined;
+  /** Index of the current page in `app.pages` */
+  currentPageIndex: number;
+  /** Top-level components of the current page that are visible */
+  visibleComponents: FormComponentFieldProps[];
+  values: FormValues;
+  /** Error messages per field id, including errors returned by onSubmit */
+  errors: ValidationErrors;
+  /** Latest values, including changes made since the last render */
+  getValues: () => FormValues;
+  /** Latest errors, including validation since the last render */
+  getErrors: () => ValidationErrors;
+  progress: FormEngineProgress;
+  /** Number of pages in the flow, including hidden pages */
+  pageCount: number;
+  /** False when `app.settings.allowBackNavigation` is false */
+  allowBackNavigation: boolean;
+  canGoBack: boolean;
+  /** True once next or submit was used on the current page, all errors are shown */
+  isSubmitted: boolean;
+  isSubmitting: boolean;
+  submitError: string | null;
+  /** True when the form was submitted and the thank you page is shown */
+  isCompleted: boolean;
+  /** Values submitted per form id, shown by `settings.showFormSubmissions` */
+  submissions: Record<string, FormValues>;
+  /** Message shown by the showMessage action or a failed action */
+  actionMessage: ActionMessage | null;
+  translationService: TranslationService;
+
+  setValue: (fieldId: string, value: unknown) => void;
+  /** Sets several values at once, e.g. values prefilled after a lookup */
+  setValues: (values: FormValues) => void;
+  setArrayItemValue: (
+    arrayFieldId: string,
+    itemIndex: number,
+    fieldId: string,
+    value: unknown
+  ) => void;
+  /** Adds an item to an array field, with the default values of custom field types */
+  addArrayItem: (component: FormComponentFieldProps, fieldId: string) => void;
+  removeArrayItem: (fieldId: string, itemIndex: number) => void;
+  /** Reports that a field got the focus, only used for onEvent */
+  focus: (fieldId: string) => void;
+  /** Marks a field as visited, its errors are shown from then on */
+  blur: (fieldId: string) => void;
+  shouldShowError: (fieldId: string) => boolean;
+  isComponentVisible: (
+    component: Pick<
+      FormComponentFieldProps,
+      'visibilityConditions' | 'props' | 'expression'
+    >,
+    values: FormValues
+  ) => boolean;
+
+  /** Validates the current page and goes to the next page, or submits on the last page */
+  next: () => void;
+  previous: () => void;
+  /** Goes to a page without validating, returns false for unknown pages */
+  goTo: (pageId: string) => boolean;
+  /**
+   * Validates a page and shows its errors, the current page by default.
+   * Returns false when a field has an error or the page is unknown.
+   */
+  validate: (pageId?: string) => boolean;
+  submit: () => Promise<void>;
+  reset: () => void;
+  /** Runs the actions of an event handler, e.g. `eventHandlers.onClick` */
+  runActions: (
+    actions: ActionType | ActionType[] | undefined,
+    fieldId: string
+  ) => Promise<void>;
+  /** Runs a legacy `props.action` of a button */
+  runButtonAction: (action: string) => void;
+  runThankYouAction: (
+    action: 'restart' | 'custom',
+    customAction?: string
+  ) => void;
+
+  /** Saved draft waiting for the user to resume or discard it */
+  pendingDraft: FormDraft | null;
+  resumeDraft: () => void;
+  discardDraft: () => void;
+
+  getDataSourceState: (fieldId: string) => FieldDataSourceState | undefined;
+  reloadDataSource: (fieldId: string) => void;
+
+  /** Uploads the selected files of a file field and adds them to its value */
+  selectFiles: (
+    component: FormComponentFieldProps,
+    fieldId: string,
+    files: File[]
+  ) => Promise<void>;
+  removeFile: (fieldId: string, index: number) => void;
+  isUploading: (fieldId: string) => boolean;
+  hasPendingUploads: boolean;
+  getUploadError: (fieldId: string) => string | undefined;
+
+  isValidating: (fieldId: string) => boolean;
+  hasPendingValidations: boolean;
+}
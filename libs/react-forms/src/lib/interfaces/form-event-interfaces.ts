@@ -0,0 +1,145 @@
+/**
+ * Properties every form event has
+ */
+export interface FormEventBase {
+  /** Time of the event in milliseconds since the epoch */
+  timestamp: number;
+  /** `app.version` of the form definition */
+  formVersion?: string;
+  /** Language the form is shown in */
+  language: string;
+  /** Page the event happened on */
+  pageId?: string;
+}
+
+export interface FieldFocusEvent extends FormEventBase {
+  type: 'fieldFocus';
+  /** Field id, array item fields use paths like `contacts[0].name` */
+  fieldId: string;
+}
+
+export interface FieldChangeEvent extends FormEventBase {
+  type: 'fieldChange';
+  fieldId: string;
+}
+
+export interface FieldBlurEvent extends FormEventBase {
+  type: 'fieldBlur';
+  fieldId: string;
+}
+
+export interface ValidationFailedEvent extends FormEventBase {
+  type: 'validationFailed';
+  fieldId: string;
+  /**
+   * The rule that failed, e.g. 'required', 'pattern', the id of a cross-field
+   * rule or the field type for validation of custom field types
+   */
+  rule: string;
+  message: string;
+  /** What validated the field: leaving it, going to the next page or submitting */
+  trigger: 'blur' | 'next' | 'submit';
+}
+
+export interface PageEnterEvent extends FormEventBase {
+  type: 'pageEnter';
+  pageId: string;
+  previousPageId?: string;
+}
+
+export interface PageLeaveEvent extends FormEventBase {
+  type: 'pageLeave';
+  pageId: string;
+  /** Time spent on the page in milliseconds */
+  timeSpent: number;
+  /** The page that is shown next, undefined for the thank you page */
+  nextPageId?: string;
+}
+
+export interface BranchTakenEvent extends FormEventBase {
+  type: 'branchTaken';
+  pageId: string;
+  /** Index of the matching branch in `page.branches` */
+  branchIndex: number;
+  nextPageId: string;
+}
+
+export interface ArrayItemAddEvent extends FormEventBase {
+  type: 'arrayItemAdd';
+  fieldId: string;
+  itemIndex: number;
+}
+
+export interface ArrayItemRemoveEvent extends FormEventBase {
+  type: 'arrayItemRemove';
+  fieldId: string;
+  itemIndex: number;
+}
+
+export interface SubmitAttemptEvent extends FormEventBase {
+  type: 'submitAttempt';
+}
+
+export interface SubmitSuccessEvent extends FormEventBase {
+  type: 'submitSuccess';
+}
+
+export interface SubmitFailureEvent extends FormEventBase {
+  type: 'submitFailure';
+  /**
+   * - validation: the current page has errors
+   * - fieldErrors: onSubmit returned field errors
+   * - error: onSubmit threw or rejected
+   */
+  reason: 'validation' | 'fieldErrors' | 'error';
+  /** Fields with errors for the validation and fieldErrors reasons */
+  fieldIds?: string[];
+}
+
+/** The form was unmounted before it was submitted */
+export interface FormAbandonEvent extends FormEventBase {
+  type: 'formAbandon';
+  /** Time spent on the last page in milliseconds */
+  timeSpent: number;
+  /** Time from the start of the form in milliseconds */
+  totalTime: number;
+}
+
+export type FormEvent =
+  | FieldFocusEvent
+  | FieldChangeEvent
+  | FieldBlurEvent
+  | ValidationFailedEvent
+  | PageEnterEvent
+  | PageLeaveEvent
+  | BranchTakenEvent
+  | ArrayItemAddEvent
+  | ArrayItemRemoveEvent
+  | SubmitAttemptEvent
+  | SubmitSuccessEvent
+  | SubmitFailureEvent
+  | FormAbandonEvent;
+
+export type FormEventType = FormEvent['type'];
+
+export type FormEventHandler = (event: FormEvent) => void;
+
+/** An event without the properties the form adds to every event */
+export type FormEventData<E extends FormEvent = FormEvent> = E extends FormEvent
+  ? Omit<E, keyof FormEventBase> & { pageId?: string }
+  : never;
+
+export interface UseFormEventsConfig {
+  onEvent?: FormEventHandler;
+  formVersion?: string;
+  language: string;
+  /** The page that is shown, undefined while the thank you page is shown */
+  pageId?: string;
+}
+
+export interface UseFormEventsResult {
+  /** Sends an event to onEvent, the current page is used when it has no pageId */
+  emitEvent: (event: FormEventData) => void;
+  /** Starts measuring a new attempt to fill in the form, e.g. after a reset */
+  restart: () => void;
+}
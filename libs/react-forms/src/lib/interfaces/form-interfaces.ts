@@ -1,13 +1,157 @@
-import { FieldType } from '../types/field-types';
+import { CustomFieldType, FieldType } from '../types/field-types';
 import { ExpressionConfig } from './expression-interfaces';
+import { FieldRegistry } from './field-registry-interfaces';
+import { DraftPersistenceSettings } from './draft-interfaces';
+import {
+  DataSourceDefinition,
+  DataSourceFetchAdapter,
+} from './data-source-interfaces';
+import { FileUploadHandler } from './file-upload-interfaces';
+import {
+  AsyncValidatorConfig,
+  AsyncValidatorRegistry,
+} from './async-validation-interfaces';
+import { ActionMessageType, ActionRegistry } from './action-interfaces';
+import { FormRouting } from './routing-interfaces';
+import { FormEventHandler } from './form-event-interfaces';
 
+/**
+ * Limits of date, datetime and date-range fields (`minDate`/`maxDate`) and of
+ * time fields (`minTime`/`maxTime`). A limit is an ISO value ("2024-05-01",
+ * "09:00"), relative to today or now ("today+30d", "-18y") or another field
+ * ("startDate", "after startDate"), see resolveDateLimit.
+ */
 export interface DateRange {
   minDate?: string;
   maxDate?: string;
+  minTime?: string;
+  maxTime?: string;
+}
+
+/**
+ * Handling of values of hidden fields:
+ * - keep: the value stays in the form values and is submitted
+ * - clearOnHide: the value is cleared as soon as the field is hidden
+ * - excludeOnSubmit: the value is kept while filling in the form, but not submitted
+ */
+export type HiddenFieldPolicy = 'keep' | 'clearOnHide' | 'excludeOnSubmit';
+
+/**
+ * Formatting of input fields, the input shows the formatted value while the
+ * form values keep the raw value:
+ * - mask: "9" is a digit, "a" a letter, "A" an uppercase letter and "*" a
+ *   letter or digit, other characters are shown as is, e.g. "9999 AA". The raw
+ *   value only contains the characters typed for the tokens.
+ * - format: numbers and currency amounts formatted with Intl.NumberFormat for
+ *   the locale, the raw value is a number string like "1234.5"
+ */
+export interface InputFormatProps {
+  mask?: string;
+  format?: 'number' | 'currency';
+  /** BCP 47 locale, e.g. "nl-NL", defaults to the language of the form */
+  locale?: string;
+  /** ISO 4217 currency code for the currency format, defaults to "EUR" */
+  currency?: string;
+  /** Number of decimals of a number or currency amount */
+  decimals?: number;
+}
+
+/**
+ * Signature pad of signature fields, the value is a PNG or SVG data URL of the
+ * drawn or typed signature
+ */
+export interface SignatureProps {
+  /** Image format of a drawn signature, defaults to "png" */
+  signatureFormat?: 'png' | 'svg';
+  /** Size of the signature pad in pixels, defaults to 400 x 150 */
+  width?: number;
+  height?: number;
+  /** Color of the pen, defaults to black */
+  penColor?: string;
+  /** Whether the name can be typed instead of drawn, defaults to true */
+  allowTyped?: boolean;
+}
+
+/**
+ * Statement (row) of a matrix field
+ */
+export interface MatrixStatement {
+  id: string;
+  label: string;
+  /** Whether the statement has to be answered, all are when the field is required */
+  required?: boolean;
+}
+
+/**
+ * Matrix (Likert) field: statements are answered on the scale of `options`,
+ * the value is an object keyed by statement id, with a list of option values
+ * per statement when `multiple` is set
+ */
+export interface MatrixProps {
+  statements?: MatrixStatement[];
+}
+
+/**
+ * Rating and NPS fields, the value is the chosen score as a number: 1 to
+ * `props.max` (default 5) for ratings and 0 to 10 for NPS
+ */
+export interface ScoreProps {
+  /** Symbols of a rating field, defaults to "star" */
+  icon?: 'star' | 'emoji';
+  /** Labels below the lowest and highest score, e.g. "Not at all likely" */
+  lowLabel?: string;
+  highLabel?: string;
+}
+
+/**
+ * Select fields, a native select unless `searchable` or `multiple` is set:
+ * - searchable: type-ahead search in the options
+ * - multiple: several options can be chosen, shown as chips, the value is a
+ *   list of option values
+ * - allowOther: adds an "Other (please specify)" choice with a text input,
+ *   the typed text is used as value
+ * Options can have a `group` and a `description`.
+ */
+export interface SelectProps {
+  searchable?: boolean;
+  allowOther?: boolean;
+  /** Label of the other choice, defaults to "Other (please specify)" */
+  otherLabel?: string;
+}
+
+/**
+ * Validation rules that reference other fields. The rule `id` is used as key for
+ * a custom message in `validation.errorMessages` or the `errorMessages` translations,
+ * `message` is used when there is no such entry.
+ */
+interface CrossFieldValidationRuleBase {
+  id?: string;
+  message?: string;
+}
+
+/** Compares the field value with the value of another field, e.g. endDate > startDate */
+export interface FieldComparisonRule extends CrossFieldValidationRuleBase {
+  field: string;
+  operator: '==' | '!=' | '>' | '<' | '>=' | '<=';
+}
+
+/** At least one of the field itself and the listed fields needs a value */
+export interface RequireOneOfRule extends CrossFieldValidationRuleBase {
+  requireOneOf: string[];
+}
+
+/** The field is valid when the expression evaluates to true, e.g. "phone != email" */
+export interface ValidationExpressionRule extends CrossFieldValidationRuleBase {
+  expression: string;
 }
 
+export type CrossFieldValidationRule =
+  | FieldComparisonRule
+  | RequireOneOfRule
+  | ValidationExpressionRule;
+
 export interface FormComponentFieldProps {
-  type: FieldType;
+  type: FieldType | CustomFieldType;
   id: string;
   label?: string;
   defaultValue?: unknown;
@@ -26,6 +170,10 @@ export interface FormComponentFieldProps {
     showLabels?: boolean;
     showValue?: boolean;
     mode?: 'single' | 'range';
+    /** Accepted file types for file fields, e.g. "image/*,.pdf" */
+    accept?: string;
+    multiple?: boolean;
+    showPreview?: boolean;
     confirmationSettings?: {
       showSummary?: boolean;
       groupBySection?: boolean;
@@ -34,13 +182,22 @@ export interface FormComponentFieldProps {
       customMessage?: string;
     };
     expression?: ExpressionConfig;
-  } & DateRange;
+  } & DateRange &
+    InputFormatProps &
+    SignatureProps &
+    MatrixProps &
+    ScoreProps &
+    SelectProps;
   children?: FormComponentFieldProps[];
-  visibilityConditions?: VisibilityCondition[];
+  /** All rules have to match for the component to be visible */
+  visibilityConditions?: VisibilityRule[];
+  /** What happens to the value while the field is hidden, overrides the form setting */
+  hiddenFieldPolicy?: HiddenFieldPolicy;
+  /** Actions that run on click (buttons) or when the value changes, in order */
   eventHandlers?: {
-    onClick?: ActionType;
-    onSubmit?: ActionType;
-    onChange?: ActionType;
+    onClick?: ActionType | ActionType[];
+    onSubmit?: ActionType | ActionType[];
+    onChange?: ActionType | ActionType[];
   };
   arrayItems?: ArrayItem[];
   validation?: {
@@ -58,6 +215,14 @@ export interface FormComponentFieldProps {
     minValueMax?: number;
     maxValueMin?: number;
     maxValueMax?: number;
+    /** Maximum number of files for file fields */
+    maxFiles?: number;
+    /** Maximum size per file in bytes for file fields */
+    maxFileSize?: number;
+    /** Rules that reference other fields, all rules have to pass */
+    rules?: CrossFieldValidationRule[];
+    /** Checks the value with a registered validator or a data source */
+    asyncValidator?: AsyncValidatorConfig;
     errorMessages?: {
       required?: string;
       minLength?: string;
@@ -73,12 +238,33 @@ export interface FormComponentFieldProps {
       invalidEmail?: string;
       invalidNumber?: string;
       invalidDate?: string;
+      invalidTime?: string;
+      minTime?: string;
+      maxTime?: string;
+      dateRangeIncomplete?: string;
+      dateRangeOrder?: string;
+      invalidMask?: string;
+      maxDecimals?: string;
+      statementRequired?: string;
       minRange?: string;
       maxRange?: string;
       minValueMin?: string;
       minValueMax?: string;
       maxValueMin?: string;
       maxValueMax?: string;
+      maxFiles?: string;
+      maxFileSize?: string;
+      invalidFileType?: string;
+      fieldEquals?: string;
+      fieldNotEquals?: string;
+      fieldGreaterThan?: string;
+      fieldGreaterThanOrEqual?: string;
+      fieldLessThan?: string;
+      fieldLessThanOrEqual?: string;
+      requireOneOf?: string;
+      asyncValidation?: string;
+      /** Messages of validation rules by rule id */
+      [ruleId: string]: string | undefined;
     };
   } & DateRange;
 }
@@ -91,17 +277,33 @@ export interface PageProps {
   components: FormComponentFieldProps[];
   isEndPage?: boolean;
   isConfirmationPage?: boolean;
-  branches?: Array<{
-    condition: {
-      field: string;
-      operator: string;
-      value: string;
-    };
-    nextPage: string;
-  }>;
+  /** Hidden pages are skipped during navigation */
+  visibilityConditions?: VisibilityRule[];
+  branches?: PageBranch[];
   nextPage?: string;
 }
 
+export interface BranchCondition {
+  field: string;
+  operator: string;
+  value: string;
+}
+
+/**
+ * Conditional navigation from a page. Branches are evaluated in order and the
+ * first branch that matches determines the next page.
+ */
+export interface PageBranch {
+  /** Single field comparison, e.g. { field: 'age', operator: '>=', value: '18' } */
+  condition?: BranchCondition;
+  /**
+   * Expression evaluated by the expression engine, takes precedence over
+   * `condition`, e.g. "age >= 18 and contains(interests, 'sports')"
+   */
+  expression?: string;
+  nextPage: string;
+}
+
 export interface FormDefinition {
   app: {
     title: string;
@@ -111,15 +313,18 @@ export interface FormDefinition {
     settings?: {
       showProgressBar?: boolean;
       showStepNumbers?: boolean;
+      /** When false, the previous button is hidden and routing doesn't go back to earlier pages */
       allowBackNavigation?: boolean;
       submitButtonText?: string;
       nextButtonText?: string;
       previousButtonText?: string;
       showRestartButton?: boolean;
       restartButtonText?: string;
+      /** What happens to values of hidden fields, defaults to 'keep' */
+      hiddenFieldPolicy?: HiddenFieldPolicy;
     };
     pages: PageProps[];
-    dataSources?: Record<string, unknown>[];
+    dataSources?: DataSourceDefinition[];
     thankYouPage?: ThankYouPage;
   };
 }
@@ -199,6 +404,8 @@ export interface FormRendererColorClasses {
   fieldCheckbox?: string;
   fieldRadio?: string;
   fieldDate?: string;
+  fieldFile?: string;
+  fieldSignature?: string;
   fieldSlider?: string;
   fieldText?: string;
   fieldError?: string;
@@ -247,6 +454,17 @@ export interface FormRendererColorClasses {
   unsupportedComponent?: string;
   unsupportedArrayComponent?: string;
   thankYouNotConfigured?: string;
+  dataSourceLoading?: string;
+  dataSourceError?: string;
+  dataSourceRetryButton?: string;
+  asyncValidationPending?: string;
+  actionMessage?: string;
+
+  // Draft Resume Colors
+  draftPrompt?: string;
+  draftPromptText?: string;
+  draftResumeButton?: string;
+  draftDiscardButton?: string;
 
   // Form Layout Colors
   formLayout?: string;
@@ -286,6 +504,8 @@ export interface FormRendererStyleClasses {
   fieldCheckbox?: string;
   fieldRadio?: string;
   fieldDate?: string;
+  fieldFile?: string;
+  fieldSignature?: string;
   fieldSlider?: string;
   fieldText?: string;
   fieldError?: string;
@@ -334,6 +554,17 @@ export interface FormRendererStyleClasses {
   unsupportedComponent?: string;
   unsupportedArrayComponent?: string;
   thankYouNotConfigured?: string;
+  dataSourceLoading?: string;
+  dataSourceError?: string;
+  dataSourceRetryButton?: string;
+  asyncValidationPending?: string;
+  actionMessage?: string;
+
+  // Draft Resume Styles
+  draftPrompt?: string;
+  draftPromptText?: string;
+  draftResumeButton?: string;
+  draftDiscardButton?: string;
 
   // Form Layout Styles
   formLayout?: string;
@@ -373,6 +604,8 @@ export interface FormRendererClasses {
   fieldCheckbox?: string;
   fieldRadio?: string;
   fieldDate?: string;
+  fieldFile?: string;
+  fieldSignature?: string;
   fieldSlider?: string;
   fieldText?: string;
   fieldError?: string;
@@ -424,6 +657,8 @@ export interface FieldClasses {
   fieldCheckbox?: string;
   fieldRadio?: string;
   fieldDate?: string;
+  fieldFile?: string;
+  fieldSignature?: string;
   fieldSlider?: string;
   fieldText?: string;
   fieldError?: string;
@@ -440,6 +675,8 @@ export interface FormRendererSettings {
   styleClasses?: FormRendererStyleClasses;
   theme?: FormRendererTheme;
   texts?: FormRendererTexts;
+  /** Opt-in autosave of values and navigation history with resume on load */
+  draftPersistence?: DraftPersistenceSettings;
 }
 
 export interface PageChangeEvent {
@@ -455,13 +692,80 @@ export interface PageChangeEvent {
   previousPageIndex?: number;
 }
 
+/**
+ * Result an onSubmit handler can return (or resolve with) to report
+ * server-side validation errors. The user is taken to the first page
+ * that contains one of the fields with an error.
+ */
+export interface FormSubmitResult {
+  /** Error messages keyed by field id (or field path for array items) */
+  fieldErrors?: Record<string, string[]>;
+}
+
 export interface FormRendererProps {
   formJson: FormDefinition;
-  onSubmit?: (formValues: FormValues) => void;
+  /**
+   * Called with the form values on submit. When a promise is returned the form
+   * shows a submitting state until it settles; a rejection keeps the user on the form.
+   */
+  onSubmit?: (
+    formValues: FormValues
+  ) => void | FormSubmitResult | Promise<void | FormSubmitResult>;
   onPageChange?: (event: PageChangeEvent) => void;
   disabled?: boolean;
   prefixId?: string;
   settings?: FormRendererSettings;
+  /** Custom field types available to this renderer (takes precedence over registerFieldType) */
+  fieldRegistry?: FieldRegistry;
+  /** Replaces fetch for requests to `app.dataSources`, e.g. to add authentication */
+  fetchAdapter?: DataSourceFetchAdapter;
+  /** Uploads files selected in file fields, the returned references become the field value */
+  uploadHandler?: FileUploadHandler;
+  /** Async validators for this renderer (takes precedence over registerAsyncValidator) */
+  asyncValidators?: AsyncValidatorRegistry;
+  /** Actions for eventHandlers of this renderer, next to the built-in actions and registerAction */
+  actions?: ActionRegistry;
+  /** Keeps the route of the current page in the location hash or in a router */
+  routing?: FormRouting;
+  /**
+   * Values the form starts with, e.g. of an existing record. Applied over the
+   * default values on mount, on reset and when formJson changes.
+   */
+  initialValues?: FormValues;
+  /**
+   * Controlled values, the form shows these values and reports changes through
+   * onValuesChange instead of keeping its own
+   */
+  values?: FormValues;
+  /** Called with the values, including calculated values, after every change */
+  onValuesChange?: (values: FormValues) => void;
+  /** Lifecycle events of the form, e.g. for analytics */
+  onEvent?: FormEventHandler;
+}
+
+/**
+ * Imperative API of FormRenderer, available through its `ref`. Reads return
+ * the state of the last render.
+ */
+export interface FormRendererHandle {
+  getValues: () => FormValues;
+  setValue: (fieldId: string, value: unknown) => void;
+  setValues: (values: FormValues) => void;
+  /**
+   * Validates a page and shows its errors, the current page by default.
+   * Returns false when a field has an error or the page is unknown.
+   */
+  validate: (pageId?: string) => boolean;
+  /** Goes to a page without validating, returns false for unknown pages */
+  goToPage: (pageId: string) => boolean;
+  /** Validates the current page and goes to the next page, or submits on the last page */
+  next: () => void;
+  previous: () => void;
+  /** Clears the values and goes back to the first page */
+  reset: () => void;
+  /** Validates the current page and submits the form */
+  submit: () => Promise<void>;
+  getErrors: () => ValidationErrors;
 }
 
 export interface FormValues {
@@ -472,6 +776,8 @@ export interface ValidationErrors {
   [key: string]: string[];
 }
 
+export type VisibilityConditionValue = string | number | boolean;
+
 export interface VisibilityCondition {
   field: string;
   operator:
@@ -484,16 +790,67 @@ export interface VisibilityCondition {
     | '>'
     | '<'
     | '>='
-    | '<=';
-  value: string | number | boolean;
+    | '<='
+    /** The field value (a list or text) contains `value` */
+    | 'contains'
+    | 'isEmpty'
+    | 'isNotEmpty'
+    /** The field value is one of the values in the `value` list */
+    | 'in'
+    /** The field value matches the regular expression in `value` */
+    | 'matches';
+  /** Not used by the isEmpty and isNotEmpty operators */
+  value?: VisibilityConditionValue | VisibilityConditionValue[];
+}
+
+/**
+ * Combines visibility rules, a group with several keys requires all of them
+ */
+export interface VisibilityConditionGroup {
+  allOf?: VisibilityRule[];
+  anyOf?: VisibilityRule[];
+  not?: VisibilityRule;
+}
+
+/**
+ * Visibility based on an expression evaluated by the expression engine,
+ * e.g. { expression: "age >= 18 and isNotEmpty(club)" }
+ */
+export interface VisibilityExpression {
+  expression: string;
 }
 
+export type VisibilityRule =
+  | VisibilityCondition
+  | VisibilityConditionGroup
+  | VisibilityExpression;
+
+/**
+ * A declarative action run by an event handler, e.g.
+ * { type: 'setValue', field: 'country', value: 'nl' }
+ */
 export interface ActionType {
+  /** A built-in action (see BuiltInActionName) or the name of an action registered by the host */
   type: string;
+  /** Parameters for callDataSource and registered actions, supports {{fieldId}} */
   params?: Record<string, unknown>;
+  /** Data source id for callDataSource */
   dataSource?: string;
+  /** Page id for navigate */
   targetPage?: string;
+  /** Text for showMessage, supports {{fieldId}} */
   message?: string;
+  messageType?: ActionMessageType;
+  /** Field for setValue and clearValue, or the field that receives the callDataSource result */
+  field?: string;
+  /** Value for setValue, a "{{fieldId}}" string copies the value of another field */
+  value?: unknown;
+  /** Expression that calculates the value for setValue, e.g. "price * quantity" */
+  expression?: string;
+  /** Path to the value in the callDataSource response */
+  valuePath?: string;
+  /** The action is skipped unless this expression evaluates to true */
+  condition?: string;
 }
 
 export interface ArrayItem {
@@ -503,6 +860,8 @@ export interface ArrayItem {
 
 export interface ValidationError {
   fieldId: string;
+  /** The validation that failed, e.g. 'required' or the id of a cross-field rule */
+  rule?: string;
   message: string;
 }
 
@@ -523,5 +882,9 @@ export type Option =
   | {
       label?: string;
       value?: string;
+      /** Options with the same group are shown together under this title */
+      group?: string;
+      /** Extra text shown with the option */
+      description?: string;
     }
   | string;
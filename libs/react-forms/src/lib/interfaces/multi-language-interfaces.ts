@@ -76,6 +76,38 @@ export interface TranslationDictionary {
       // Loading States
       loadingText?: string; // Default: "Loading..."
       submittingText?: string; // Default: "Submitting..."
+      submitError?: string; // Default: "Something went wrong while submitting. Please try again."
+
+      // Draft Resume
+      resumeDraftMessage?: string; // Default: "You have an unfinished version of this form. Do you want to continue where you left off?"
+      resumeDraftButton?: string; // Default: "Resume"
+      discardDraftButton?: string; // Default: "Start over"
+      dataSourceError?: string; // Default: "Could not load options"
+      retryButton?: string; // Default: "Retry"
+      uploadingText?: string; // Default: "Uploading..."
+      uploadError?: string; // Default: "The file could not be uploaded. Please try again."
+      clearSignatureButton?: string; // Default: "Clear"
+      undoSignatureButton?: string; // Default: "Undo"
+      typeSignatureButton?: string; // Default: "Type your name instead"
+      drawSignatureButton?: string; // Default: "Draw your signature instead"
+      signaturePadLabel?: string; // Default: "Signature pad"
+      ratingValueLabel?: string; // Default: "{value} of {max}"
+      addToRankingButton?: string; // Default: "Add"
+      removeFromRankingButton?: string; // Default: "Remove"
+      moveUpButton?: string; // Default: "Move up"
+      moveDownButton?: string; // Default: "Move down"
+      unrankedOptionsLabel?: string; // Default: "Not ranked"
+      rankingPositionMessage?: string; // Default: "{option} is now at position {position} of {count}"
+      selectPlaceholder?: string; // Default: "Select an option"
+      searchPlaceholder?: string; // Default: "Type to search..."
+      noOptionsFound?: string; // Default: "No options found"
+      otherOption?: string; // Default: "Other (please specify)"
+      otherInputLabel?: string; // Default: "Please specify"
+      removeSelectionButton?: string; // Default: "Remove"
+      startDateLabel?: string; // Default: "Start date"
+      endDateLabel?: string; // Default: "End date"
+      validatingText?: string; // Default: "Validating..."
+      actionError?: string; // Default: "Something went wrong, please try again."
 
       // Accessibility
       requiredFieldAriaLabel?: string; // Default: "Required field"
@@ -99,6 +131,25 @@ export interface TranslationDictionary {
       invalidEmail?: string; // Default: "Please enter a valid email address for {fieldLabel}"
       invalidNumber?: string; // Default: "Please enter a valid number for {fieldLabel}"
       invalidDate?: string; // Default: "Please enter a valid date for {fieldLabel}"
+      invalidMask?: string; // Default: "Please enter a complete value for {fieldLabel}"
+      maxDecimals?: string; // Default: "{fieldLabel} can have at most {decimals} decimals"
+      statementRequired?: string; // Default: 'Please answer "{statement}" for {fieldLabel}'
+      invalidTime?: string; // Default: "Please enter a valid time for {fieldLabel}"
+      minTime?: string; // Default: "{fieldLabel} must be {minTime} or later"
+      maxTime?: string; // Default: "{fieldLabel} must be {maxTime} or earlier"
+      dateRangeIncomplete?: string; // Default: "Please enter a start and an end date for {fieldLabel}"
+      dateRangeOrder?: string; // Default: "The end date of {fieldLabel} must be on or after the start date"
+      maxFiles?: string; // Default: "Please upload no more than {maxFiles} files for {fieldLabel}"
+      maxFileSize?: string; // Default: "{fileName} exceeds the maximum file size of {maxFileSize}"
+      invalidFileType?: string; // Default: "{fileName} is not an accepted file type for {fieldLabel}"
+      fieldEquals?: string; // Default: "{fieldLabel} must match {otherFieldLabel}"
+      fieldNotEquals?: string; // Default: "{fieldLabel} must be different from {otherFieldLabel}"
+      fieldGreaterThan?: string; // Default: "{fieldLabel} must be greater than {otherFieldLabel}"
+      fieldGreaterThanOrEqual?: string; // Default: "{fieldLabel} must be at least {otherFieldLabel}"
+      fieldLessThan?: string; // Default: "{fieldLabel} must be less than {otherFieldLabel}"
+      fieldLessThanOrEqual?: string; // Default: "{fieldLabel} cannot exceed {otherFieldLabel}"
+      requireOneOf?: string; // Default: "Please fill in at least one of {fieldLabels}"
+      asyncValidation?: string; // Default: "{fieldLabel} is not valid"
       generic?: string; // Default: "{fieldLabel} is invalid"
     };
   };
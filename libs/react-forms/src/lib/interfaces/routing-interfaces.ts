@@ -0,0 +1,28 @@
+/**
+ * Connects the form to a router. The host passes the current path of the form
+ * (e.g. the part of the location after the form's base path) and the renderer
+ * calls `navigate` to keep the location in sync with the current page.
+ */
+export interface FormRouterAdapter {
+  /** Current path, matched against `page.route` */
+  path: string;
+  /** Changes the location, `replace` is used for corrections of refused paths */
+  navigate: (path: string, options?: { replace?: boolean }) => void;
+}
+
+/**
+ * Routing of a FormRenderer: 'hash' keeps the route of the current page in the
+ * location hash (e.g. "#/contact"), an adapter connects to another router
+ */
+export type FormRouting = 'hash' | FormRouterAdapter;
+
+export interface UseFormRoutingConfig {
+  routing?: FormRouting;
+  /** Route of the current page */
+  route?: string;
+  /**
+   * Called when the location changes to another path (back/forward buttons,
+   * links), returns false to refuse the path
+   */
+  onRouteChange: (path: string) => boolean;
+}
@@ -0,0 +1,184 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { FormDefinition } from '../interfaces/form-interfaces';
+import { DataSourceFetchAdapter } from '../interfaces/data-source-interfaces';
+
+const createForm = (): FormDefinition => ({
+  app: {
+    title: 'Order',
+    dataSources: [
+      {
+        id: 'address',
+        type: 'rest',
+        url: 'https://api.example.com/address',
+      },
+    ],
+    pages: [
+      {
+        id: 'order',
+        title: 'Order',
+        route: '/order',
+        nextPage: 'delivery',
+        components: [
+          {
+            type: 'input',
+            id: 'name',
+            label: 'Name',
+            validation: { required: true },
+          },
+          {
+            type: 'input',
+            id: 'nickname',
+            label: 'Nickname',
+          },
+          {
+            type: 'input',
+            id: 'postcode',
+            label: 'Postcode',
+            eventHandlers: {
+              onChange: {
+                type: 'callDataSource',
+                dataSource: 'address',
+                params: { postcode: '{{postcode}}' },
+                field: 'city',
+                valuePath: 'city',
+                condition: 'postcode != null',
+              },
+            },
+          },
+          { type: 'input', id: 'city', label: 'City' },
+          {
+            type: 'button',
+            id: 'copyName',
+            label: 'Copy name',
+            props: { label: 'Copy name' },
+            eventHandlers: {
+              onClick: [
+                { type: 'setValue', field: 'nickname', value: '{{name}}' },
+                { type: 'showMessage', message: 'Copied {{name}}' },
+              ],
+            },
+          },
+          {
+            type: 'button',
+            id: 'skip',
+            label: 'Skip to delivery',
+            props: { label: 'Skip to delivery' },
+            eventHandlers: {
+              onClick: [
+                { type: 'validatePage' },
+                { type: 'navigate', targetPage: 'delivery' },
+              ],
+            },
+          },
+          {
+            type: 'button',
+            id: 'save',
+            label: 'Save',
+            props: { label: 'Save' },
+            eventHandlers: { onClick: { type: 'saveOrder' } },
+          },
+        ],
+      },
+      {
+        id: 'delivery',
+        title: 'Delivery',
+        route: '/delivery',
+        isEndPage: true,
+        components: [
+          {
+            type: 'input',
+            id: 'notes',
+            label: 'Delivery notes',
+          },
+        ],
+      },
+    ],
+  },
+});
+
+const changeValue = (label: string | RegExp, value: string) => {
+  fireEvent.change(screen.getByLabelText(label), { target: { value } });
+};
+
+describe('FormRenderer actions', () => {
+  it('should set values and show a message from a button', async () => {
+    render(<FormRenderer formJson={createForm()} />);
+
+    changeValue(/Name/, 'Jane');
+    fireEvent.click(screen.getByText('Copy name'));
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Copied Jane');
+    expect(screen.getByLabelText('Nickname')).toHaveValue('Jane');
+  });
+
+  it('should only navigate when the page is valid', async () => {
+    render(<FormRenderer formJson={createForm()} />);
+
+    fireEvent.click(screen.getByText('Skip to delivery'));
+
+    expect(await screen.findByText('Name is required')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Delivery notes')).not.toBeInTheDocument();
+
+    changeValue(/Name/, 'Jane');
+    fireEvent.click(screen.getByText('Skip to delivery'));
+
+    expect(await screen.findByLabelText('Delivery notes')).toBeInTheDocument();
+  });
+
+  it('should call a data source when a value changes', async () => {
+    const fetchAdapter = vi.fn<DataSourceFetchAdapter>(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ city: 'Utrecht' }),
+      })
+    );
+    render(
+      <FormRenderer formJson={createForm()} fetchAdapter={fetchAdapter} />
+    );
+
+    changeValue('Postcode', '3511AB');
+
+    await waitFor(() =>
+      expect(screen.getByLabelText('City')).toHaveValue('Utrecht')
+    );
+    expect(fetchAdapter).toHaveBeenCalledWith(
+      'https://api.example.com/address?postcode=3511AB',
+      expect.anything()
+    );
+  });
+
+  it('should run actions registered by the host', async () => {
+    const saveOrder = vi.fn((_action, context) => {
+      context.showMessage('Saved', 'success');
+    });
+    render(<FormRenderer formJson={createForm()} actions={{ saveOrder }} />);
+
+    changeValue(/Name/, 'Jane');
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() =>
+      expect(screen.getByRole('status')).toHaveTextContent('Saved')
+    );
+    expect(saveOrder.mock.calls[0][1].getValues()).toEqual(
+      expect.objectContaining({ name: 'Jane' })
+    );
+  });
+
+  it('should show an error when an action fails', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    render(<FormRenderer formJson={createForm()} />);
+
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() =>
+      expect(screen.getByRole('alert')).toHaveTextContent(
+        'Something went wrong, please try again.'
+      )
+    );
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,185 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import {
+  MultiLanguageFormDefinition,
+  FormRendererSettings,
+} from '../interfaces/multi-language-interfaces';
+import { FormSubmitResult } from '../interfaces/form-interfaces';
+
+const mockForm: MultiLanguageFormDefinition = {
+  app: {
+    title: 'Async Submit Form',
+    pages: [
+      {
+        id: 'account',
+        title: 'Account',
+        route: '/account',
+        nextPage: 'profile',
+        components: [
+          {
+            type: 'input',
+            id: 'username',
+            label: 'Username',
+            validation: { required: true },
+          },
+        ],
+      },
+      {
+        id: 'profile',
+        title: 'Profile',
+        route: '/profile',
+        isEndPage: true,
+        components: [
+          {
+            type: 'input',
+            id: 'nickname',
+            label: 'Nickname',
+          },
+        ],
+      },
+    ],
+  },
+  defaultLanguage: 'en',
+  translations: {},
+};
+
+const createDeferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (reason?: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const goToLastPage = () => {
+  fireEvent.change(screen.getByLabelText(/Username/), {
+    target: { value: 'jane' },
+  });
+  fireEvent.click(screen.getByText('Next'));
+};
+
+describe('FormRenderer async submission', () => {
+  it('should show a submitting state while the submit promise is pending', async () => {
+    const deferred = createDeferred<void>();
+    const onSubmit = vi.fn(() => deferred.promise);
+
+    render(<FormRenderer formJson={mockForm} onSubmit={onSubmit} />);
+    goToLastPage();
+    fireEvent.click(screen.getByText('Submit'));
+
+    const submittingButton = await screen.findByText('Submitting...');
+    expect(submittingButton).toBeDisabled();
+    expect(submittingButton).toHaveAttribute('aria-busy', 'true');
+    expect(screen.getByText('Previous')).toBeDisabled();
+
+    deferred.resolve();
+
+    await waitFor(() => {
+      expect(screen.queryByText('Submitting...')).not.toBeInTheDocument();
+    });
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the translated submitting text', async () => {
+    const deferred = createDeferred<void>();
+    const settings: FormRendererSettings = { currentLanguage: 'nl' };
+    const translatedForm: MultiLanguageFormDefinition = {
+      ...mockForm,
+      translations: {
+        nl: { ui: { submittingText: 'Bezig met verzenden...' } },
+      },
+    };
+    render(
+      <FormRenderer
+        formJson={translatedForm}
+        settings={settings}
+        onSubmit={() => deferred.promise}
+      />
+    );
+    goToLastPage();
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(
+      await screen.findByText('Bezig met verzenden...')
+    ).toBeInTheDocument();
+    deferred.resolve();
+  });
+
+  it('should keep the user on the form when the submit promise rejects', async () => {
+    const onSubmit = vi.fn(() => Promise.reject(new Error('Network error')));
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {
+      // ignore expected error output
+    });
+
+    render(<FormRenderer formJson={mockForm} onSubmit={onSubmit} />);
+    goToLastPage();
+    fireEvent.change(screen.getByLabelText(/Nickname/), {
+      target: { value: 'jj' },
+    });
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Something went wrong while submitting. Please try again.'
+    );
+    expect(screen.getByLabelText(/Nickname/)).toHaveValue('jj');
+    expect(screen.getByText('Submit')).not.toBeDisabled();
+
+    consoleSpy.mockRestore();
+  });
+
+  it('should map returned field errors to fields and go to their page', async () => {
+    const onSubmit = vi.fn(
+      async (): Promise<FormSubmitResult> => ({
+        fieldErrors: { username: ['Username is already taken'] },
+      })
+    );
+    const onPageChange = vi.fn();
+
+    render(
+      <FormRenderer
+        formJson={mockForm}
+        onSubmit={onSubmit}
+        onPageChange={onPageChange}
+      />
+    );
+    goToLastPage();
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(
+      await screen.findByText('Username is already taken')
+    ).toBeInTheDocument();
+    expect(screen.getByText('Account')).toBeInTheDocument();
+    expect(onPageChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ pageId: 'account', previousPageId: 'profile' })
+    );
+
+    // Changing the field clears the server error and allows moving on
+    fireEvent.change(screen.getByLabelText(/Username/), {
+      target: { value: 'jane2' },
+    });
+    await waitFor(() => {
+      expect(
+        screen.queryByText('Username is already taken')
+      ).not.toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText('Next'));
+    expect(await screen.findByText('Profile')).toBeInTheDocument();
+  });
+
+  it('should keep supporting synchronous submit handlers', () => {
+    const onSubmit = vi.fn();
+
+    render(<FormRenderer formJson={mockForm} onSubmit={onSubmit} />);
+    goToLastPage();
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ username: 'jane' })
+    );
+    expect(screen.queryByText('Submitting...')).not.toBeInTheDocument();
+  });
+});
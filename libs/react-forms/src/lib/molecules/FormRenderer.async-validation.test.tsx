@@ -0,0 +1,277 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { FormDefinition } from '../interfaces/form-interfaces';
+import { DataSourceFetchAdapter } from '../interfaces/data-source-interfaces';
+import {
+  AsyncValidator,
+  AsyncValidatorContext,
+} from '../interfaces/async-validation-interfaces';
+
+const createForm = (debounceMs = 0): FormDefinition => ({
+  app: {
+    title: 'Account',
+    dataSources: [
+      {
+        id: 'postcodeCheck',
+        type: 'rest',
+        url: 'https://api.example.com/postcodes',
+      },
+    ],
+    pages: [
+      {
+        id: 'account',
+        title: 'Account',
+        route: '/account',
+        isEndPage: true,
+        components: [
+          {
+            type: 'input',
+            id: 'username',
+            label: 'Username',
+            validation: {
+              asyncValidator: { validator: 'uniqueUsername', debounceMs },
+            },
+          },
+          {
+            type: 'input',
+            id: 'postcode',
+            label: 'Postcode',
+            validation: {
+              asyncValidator: {
+                dataSource: 'postcodeCheck',
+                params: { postcode: '{{value}}' },
+                debounceMs,
+              },
+            },
+          },
+        ],
+      },
+    ],
+  },
+});
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+const changeValue = (label: string, value: string) => {
+  fireEvent.change(screen.getByLabelText(label), { target: { value } });
+};
+
+describe('FormRenderer async validation', () => {
+  it('should show a pending state and submit once validated', async () => {
+    const onSubmit = vi.fn();
+    const check = deferred<boolean | string>();
+    const uniqueUsername: AsyncValidator = vi.fn(() => check.promise);
+
+    render(
+      <FormRenderer
+        formJson={createForm()}
+        onSubmit={onSubmit}
+        asyncValidators={{ uniqueUsername }}
+      />
+    );
+
+    changeValue('Username', 'jane');
+
+    expect(screen.getByText('Validating...')).toBeInTheDocument();
+    expect(screen.getByText('Submit')).toHaveAttribute('aria-busy', 'true');
+
+    fireEvent.click(screen.getByText('Submit'));
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    await waitFor(() => expect(uniqueUsername).toHaveBeenCalled());
+    check.resolve('This username is already taken');
+
+    expect(
+      await screen.findByText('This username is already taken')
+    ).toBeInTheDocument();
+    expect(screen.queryByText('Validating...')).not.toBeInTheDocument();
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('should submit when submit was clicked during validation', async () => {
+    const onSubmit = vi.fn();
+    const check = deferred<boolean>();
+    const uniqueUsername: AsyncValidator = vi.fn(() => check.promise);
+
+    render(
+      <FormRenderer
+        formJson={createForm()}
+        onSubmit={onSubmit}
+        asyncValidators={{ uniqueUsername }}
+      />
+    );
+
+    changeValue('Username', 'jane');
+    fireEvent.click(screen.getByText('Submit'));
+
+    await waitFor(() => expect(uniqueUsername).toHaveBeenCalled());
+    expect(onSubmit).not.toHaveBeenCalled();
+    check.resolve(true);
+
+    await waitFor(() =>
+      expect(onSubmit).toHaveBeenCalledWith(
+        expect.objectContaining({ username: 'jane' })
+      )
+    );
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it('should validate initial values in StrictMode', async () => {
+    const onSubmit = vi.fn();
+    const uniqueUsername: AsyncValidator = vi.fn(() => true);
+
+    render(
+      <React.StrictMode>
+        <FormRenderer
+          formJson={createForm()}
+          onSubmit={onSubmit}
+          initialValues={{ username: 'bob' }}
+          asyncValidators={{ uniqueUsername }}
+        />
+      </React.StrictMode>
+    );
+
+    await waitFor(() =>
+      expect(screen.queryByText('Validating...')).not.toBeInTheDocument()
+    );
+    expect(uniqueUsername).toHaveBeenCalledWith(
+      'bob',
+      expect.objectContaining({ fieldId: 'username' })
+    );
+
+    fireEvent.click(screen.getByText('Submit'));
+    await waitFor(() =>
+      expect(onSubmit).toHaveBeenCalledWith(
+        expect.objectContaining({ username: 'bob' })
+      )
+    );
+  });
+
+  it('should abort outdated checks and only use the latest result', async () => {
+    const onSubmit = vi.fn();
+    const contexts: AsyncValidatorContext[] = [];
+    const checks = [deferred<boolean>(), deferred<boolean>()];
+    const uniqueUsername: AsyncValidator = vi.fn((_value, context) => {
+      contexts.push(context);
+      return checks[contexts.length - 1].promise;
+    });
+
+    render(
+      <FormRenderer
+        formJson={createForm()}
+        onSubmit={onSubmit}
+        asyncValidators={{ uniqueUsername }}
+      />
+    );
+
+    changeValue('Username', 'jan');
+    await waitFor(() => expect(uniqueUsername).toHaveBeenCalledTimes(1));
+    changeValue('Username', 'janet');
+    await waitFor(() => expect(uniqueUsername).toHaveBeenCalledTimes(2));
+
+    expect(contexts[0].signal.aborted).toBe(true);
+    expect(contexts[1].signal.aborted).toBe(false);
+
+    checks[1].resolve(true);
+    checks[0].resolve(false);
+
+    await waitFor(() =>
+      expect(screen.getByText('Submit')).toHaveAttribute('aria-busy', 'false')
+    );
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ username: 'janet' })
+    );
+  });
+
+  it('should debounce changes before validating', async () => {
+    const uniqueUsername: AsyncValidator = vi.fn(() => true);
+
+    render(
+      <FormRenderer
+        formJson={createForm(50)}
+        asyncValidators={{ uniqueUsername }}
+      />
+    );
+
+    changeValue('Username', 'j');
+    changeValue('Username', 'ja');
+    changeValue('Username', 'jane');
+
+    await waitFor(() =>
+      expect(screen.queryByText('Validating...')).not.toBeInTheDocument()
+    );
+    expect(uniqueUsername).toHaveBeenCalledTimes(1);
+    expect(uniqueUsername).toHaveBeenCalledWith(
+      'jane',
+      expect.objectContaining({ fieldId: 'username' })
+    );
+  });
+
+  it('should validate against a data source', async () => {
+    const fetchAdapter = vi.fn<DataSourceFetchAdapter>((url) =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ valid: url.endsWith('postcode=1234AB') }),
+      })
+    );
+
+    render(
+      <FormRenderer formJson={createForm()} fetchAdapter={fetchAdapter} />
+    );
+
+    changeValue('Postcode', '0000XX');
+    await waitFor(() =>
+      expect(screen.getByText('Submit')).toHaveAttribute('aria-busy', 'false')
+    );
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(fetchAdapter).toHaveBeenCalledWith(
+      'https://api.example.com/postcodes?postcode=0000XX',
+      expect.anything()
+    );
+    expect(screen.getByText('Postcode is not valid')).toBeInTheDocument();
+
+    changeValue('Postcode', '1234AB');
+    await waitFor(() =>
+      expect(
+        screen.queryByText('Postcode is not valid')
+      ).not.toBeInTheDocument()
+    );
+  });
+  it('should pass the abort signal and not cache data source validations', async () => {
+    const fetchAdapter = vi.fn<DataSourceFetchAdapter>(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ valid: true }),
+      })
+    );
+
+    render(
+      <FormRenderer formJson={createForm()} fetchAdapter={fetchAdapter} />
+    );
+
+    changeValue('Postcode', '1234AB');
+    await waitFor(() => expect(fetchAdapter).toHaveBeenCalledTimes(1));
+    changeValue('Postcode', '5678CD');
+    await waitFor(() => expect(fetchAdapter).toHaveBeenCalledTimes(2));
+    changeValue('Postcode', '1234AB');
+    await waitFor(() => expect(fetchAdapter).toHaveBeenCalledTimes(3));
+
+    expect(fetchAdapter).toHaveBeenLastCalledWith(
+      'https://api.example.com/postcodes?postcode=1234AB',
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FormRenderer } from './FormRenderer';
+import { FormDefinition, PageBranch } from '../interfaces/form-interfaces';
+
+const createForm = (branches: PageBranch[]): FormDefinition => ({
+  app: {
+    title: 'Membership',
+    pages: [
+      {
+        id: 'about',
+        title: 'About you',
+        route: '/about',
+        components: [
+          { type: 'input', id: 'age', label: 'Age' },
+          { type: 'input', id: 'club', label: 'Club' },
+        ],
+        branches,
+        nextPage: 'general',
+      },
+      {
+        id: 'members',
+        title: 'Club members',
+        route: '/members',
+        isEndPage: true,
+        components: [],
+      },
+      {
+        id: 'minors',
+        title: 'Minors',
+        route: '/minors',
+        isEndPage: true,
+        components: [],
+      },
+      {
+        id: 'general',
+        title: 'General',
+        route: '/general',
+        isEndPage: true,
+        components: [],
+      },
+    ],
+  },
+});
+
+const branches: PageBranch[] = [
+  { expression: 'age >= 18 and isNotEmpty(club)', nextPage: 'members' },
+  {
+    condition: { field: 'age', operator: '<', value: '18' },
+    nextPage: 'minors',
+  },
+];
+
+const fillIn = (values: Record<string, string>) => {
+  Object.entries(values).forEach(([label, value]) => {
+    fireEvent.change(screen.getByLabelText(label), { target: { value } });
+  });
+  fireEvent.click(screen.getByText('Next'));
+};
+
+describe('FormRenderer branches', () => {
+  it('should navigate to the page of a matching branch expression', () => {
+    render(<FormRenderer formJson={createForm(branches)} />);
+
+    fillIn({ Age: '34', Club: 'Chess club' });
+
+    expect(screen.getByText('Club members')).toBeInTheDocument();
+  });
+
+  it('should keep supporting simple branch conditions', () => {
+    render(<FormRenderer formJson={createForm(branches)} />);
+
+    fillIn({ Age: '12' });
+
+    expect(screen.getByText('Minors')).toBeInTheDocument();
+  });
+
+  it('should fall back to nextPage when no branch matches', () => {
+    render(<FormRenderer formJson={createForm(branches)} />);
+
+    fillIn({ Age: '34' });
+
+    expect(screen.getByText('General')).toBeInTheDocument();
+  });
+});
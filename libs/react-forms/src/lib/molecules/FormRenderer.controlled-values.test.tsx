@@ -0,0 +1,167 @@
+import React, { createRef, useState } from 'react';
+import { render, screen, act, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import {
+  FormDefinition,
+  FormRendererHandle,
+  FormValues,
+} from '../interfaces/form-interfaces';
+
+const orderForm: FormDefinition = {
+  app: {
+    title: 'Order Form',
+    pages: [
+      {
+        id: 'order',
+        title: 'Order',
+        route: '/order',
+        components: [
+          { type: 'input', id: 'customer', label: 'Customer' },
+          {
+            type: 'input',
+            id: 'quantity',
+            label: 'Quantity',
+            props: { inputType: 'number' },
+          },
+          {
+            type: 'input',
+            id: 'price',
+            label: 'Price',
+            props: { inputType: 'number' },
+          },
+          {
+            type: 'input',
+            id: 'total',
+            label: 'Total',
+            expression: { expression: 'quantity * price', mode: 'value' },
+          },
+          {
+            type: 'array',
+            id: 'contacts',
+            label: 'Contacts',
+            arrayItems: [
+              {
+                id: 'contact',
+                components: [{ type: 'input', id: 'name', label: 'Name' }],
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+};
+
+const contacts = [{ name: 'Jane' }, { name: 'John' }];
+
+describe('FormRenderer initial and controlled values', () => {
+  it('should prefill the form with initialValues, including array fields', () => {
+    const ref = createRef<FormRendererHandle>();
+    render(
+      <FormRenderer
+        ref={ref}
+        formJson={orderForm}
+        initialValues={{ customer: 'Acme', contacts }}
+      />
+    );
+
+    expect(screen.getByDisplayValue('Acme')).toBeInTheDocument();
+    expect(screen.getByDisplayValue('John')).toBeInTheDocument();
+
+    act(() => ref.current?.setValue('customer', 'Globex'));
+    act(() => ref.current?.reset());
+    expect(ref.current?.getValues()).toMatchObject({
+      customer: 'Acme',
+      contacts,
+    });
+  });
+
+  it('should not change array values of initialValues', () => {
+    const initialContacts = [{ name: 'Jane' }];
+    render(
+      <FormRenderer
+        formJson={orderForm}
+        initialValues={{ contacts: initialContacts }}
+      />
+    );
+
+    fireEvent.change(screen.getByDisplayValue('Jane'), {
+      target: { value: 'Janet' },
+    });
+
+    expect(screen.getByDisplayValue('Janet')).toBeInTheDocument();
+    expect(initialContacts).toEqual([{ name: 'Jane' }]);
+  });
+
+  it('should render controlled values and report changes with calculated values', () => {
+    const onValuesChange = vi.fn();
+    const ControlledForm = () => {
+      const [values, setValues] = useState<FormValues>({
+        customer: 'Acme',
+        quantity: '2',
+        price: '5',
+      });
+      return (
+        <>
+          <FormRenderer
+            formJson={orderForm}
+            values={values}
+            onValuesChange={(newValues) => {
+              onValuesChange(newValues);
+              setValues(newValues);
+            }}
+          />
+          <button onClick={() => setValues({ customer: 'Initech' })}>
+            Load record
+          </button>
+        </>
+      );
+    };
+    render(<ControlledForm />);
+
+    expect(screen.getByDisplayValue('Acme')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByDisplayValue('2'), {
+      target: { value: '3' },
+    });
+    expect(onValuesChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ customer: 'Acme', quantity: '3', total: 15 })
+    );
+    expect(screen.getByDisplayValue('3')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Load record'));
+    expect(screen.getByDisplayValue('Initech')).toBeInTheDocument();
+  });
+
+  it('should keep showing the controlled values when the parent ignores changes', () => {
+    const onValuesChange = vi.fn();
+    render(
+      <FormRenderer
+        formJson={orderForm}
+        values={{ customer: 'Acme', contacts }}
+        onValuesChange={onValuesChange}
+      />
+    );
+
+    fireEvent.change(screen.getByDisplayValue('Acme'), {
+      target: { value: 'Globex' },
+    });
+    fireEvent.change(screen.getByDisplayValue('John'), {
+      target: { value: 'Johnny' },
+    });
+
+    expect(onValuesChange).toHaveBeenCalledWith(
+      expect.objectContaining({ customer: 'Globex' })
+    );
+    expect(onValuesChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        customer: 'Acme',
+        contacts: [{ name: 'Jane' }, { name: 'Johnny' }],
+      })
+    );
+    expect(screen.getByDisplayValue('Acme')).toBeInTheDocument();
+    expect(screen.getByDisplayValue('John')).toBeInTheDocument();
+    expect(contacts).toEqual([{ name: 'Jane' }, { name: 'John' }]);
+  });
+});
@@ -0,0 +1,120 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { FormDefinition } from '../interfaces/form-interfaces';
+import {
+  MultiLanguageFormDefinition,
+  FormRendererSettings,
+} from '../interfaces/multi-language-interfaces';
+
+const bookingForm: FormDefinition = {
+  app: {
+    title: 'Booking',
+    pages: [
+      {
+        id: 'booking',
+        title: 'Booking',
+        route: '/booking',
+        isEndPage: true,
+        components: [
+          { type: 'date', id: 'startDate', label: 'Start date' },
+          {
+            type: 'date',
+            id: 'endDate',
+            label: 'End date',
+            validation: {
+              rules: [
+                { id: 'endAfterStart', field: 'startDate', operator: '>' },
+              ],
+              errorMessages: {
+                endAfterStart: 'The end date must be after the start date',
+              },
+            },
+          },
+          { type: 'input', id: 'email', label: 'Email' },
+          {
+            type: 'input',
+            id: 'confirmEmail',
+            label: 'Confirm email',
+            validation: { rules: [{ field: 'email', operator: '==' }] },
+          },
+          {
+            type: 'input',
+            id: 'phone',
+            label: 'Phone',
+            validation: { rules: [{ requireOneOf: ['email'] }] },
+          },
+        ],
+      },
+    ],
+  },
+};
+
+const changeValue = (label: string, value: string) => {
+  fireEvent.change(screen.getByLabelText(label), { target: { value } });
+};
+
+describe('FormRenderer cross-field validation', () => {
+  it('should block submitting until the cross-field rules pass', () => {
+    const onSubmit = vi.fn();
+    render(<FormRenderer formJson={bookingForm} onSubmit={onSubmit} />);
+
+    changeValue('Start date', '2025-06-10');
+    changeValue('End date', '2025-06-01');
+    changeValue('Confirm email', 'jane@example.com');
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(
+      screen.getByText('The end date must be after the start date')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText('Please fill in at least one of Phone, Email')
+    ).toBeInTheDocument();
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    changeValue('Email', 'john@example.com');
+
+    expect(
+      screen.getByText('Confirm email must match Email')
+    ).toBeInTheDocument();
+    expect(
+      screen.queryByText('Please fill in at least one of Phone, Email')
+    ).not.toBeInTheDocument();
+
+    changeValue('End date', '2025-06-20');
+    changeValue('Confirm email', 'john@example.com');
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        endDate: '2025-06-20',
+        confirmEmail: 'john@example.com',
+      })
+    );
+  });
+
+  it('should use translated rule messages', () => {
+    const translatedForm: MultiLanguageFormDefinition = {
+      ...bookingForm,
+      defaultLanguage: 'en',
+      translations: {
+        nl: {
+          errorMessages: {
+            fieldEquals: '{fieldLabel} moet gelijk zijn aan {otherFieldLabel}',
+          },
+        },
+      },
+    };
+    const settings: FormRendererSettings = { currentLanguage: 'nl' };
+    render(<FormRenderer formJson={translatedForm} settings={settings} />);
+
+    changeValue('Email', 'john@example.com');
+    changeValue('Confirm email', 'jane@example.com');
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(
+      screen.getByText('Confirm email moet gelijk zijn aan Email')
+    ).toBeInTheDocument();
+  });
+});
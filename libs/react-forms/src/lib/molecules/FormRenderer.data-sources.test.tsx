@@ -0,0 +1,213 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { FormDefinition } from '../interfaces/form-interfaces';
+import { DataSourceFetchAdapter } from '../interfaces/data-source-interfaces';
+
+const jsonResponse = (data: unknown, status = 200) =>
+  Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(data),
+  });
+
+const citiesByCountry: Record<string, { code: string; name: string }[]> = {
+  nl: [
+    { code: 'ams', name: 'Amsterdam' },
+    { code: 'rtm', name: 'Rotterdam' },
+  ],
+  be: [{ code: 'bru', name: 'Brussels' }],
+};
+
+const createForm = (): FormDefinition => ({
+  app: {
+    title: 'Address',
+    dataSources: [
+      {
+        id: 'countries',
+        type: 'static',
+        data: [
+          { label: 'Netherlands', value: 'nl' },
+          { label: 'Belgium', value: 'be' },
+        ],
+      },
+      {
+        id: 'cities',
+        type: 'rest',
+        url: 'https://api.example.com/cities',
+        responseMapping: { items: 'results', label: 'name', value: 'code' },
+      },
+      {
+        id: 'profile',
+        type: 'rest',
+        url: 'https://api.example.com/profile',
+      },
+    ],
+    pages: [
+      {
+        id: 'address',
+        title: 'Address',
+        route: '/address',
+        isEndPage: true,
+        components: [
+          {
+            type: 'select',
+            id: 'country',
+            label: 'Country',
+            props: { dataSource: 'countries' },
+          },
+          {
+            type: 'select',
+            id: 'city',
+            label: 'City',
+            props: {
+              dataSource: {
+                id: 'cities',
+                params: { country: '{{country}}' },
+              },
+            },
+          },
+        ],
+      },
+    ],
+  },
+});
+
+const createCitiesAdapter = () =>
+  vi.fn<DataSourceFetchAdapter>((url) => {
+    const country = new URL(url).searchParams.get('country') ?? '';
+    return jsonResponse({ results: citiesByCountry[country] ?? [] });
+  });
+
+const selectCountry = async (country: string) => {
+  // Country options are loaded from a static data source
+  await screen.findByRole('option', { name: 'Netherlands' });
+  fireEvent.change(screen.getByLabelText('Country'), {
+    target: { value: country },
+  });
+};
+
+describe('FormRenderer data sources', () => {
+  it('should load options from a static data source', async () => {
+    render(<FormRenderer formJson={createForm()} fetchAdapter={vi.fn()} />);
+
+    expect(
+      await screen.findByRole('option', { name: 'Netherlands' })
+    ).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: 'Belgium' })).toBeInTheDocument();
+  });
+
+  it('should load cascading options once the referenced field has a value', async () => {
+    const fetchAdapter = createCitiesAdapter();
+    render(
+      <FormRenderer formJson={createForm()} fetchAdapter={fetchAdapter} />
+    );
+
+    await screen.findByRole('option', { name: 'Netherlands' });
+    expect(fetchAdapter).not.toHaveBeenCalled();
+
+    await selectCountry('nl');
+
+    expect(
+      await screen.findByRole('option', { name: 'Rotterdam' })
+    ).toBeInTheDocument();
+    expect(fetchAdapter).toHaveBeenCalledWith(
+      'https://api.example.com/cities?country=nl',
+      expect.objectContaining({ method: 'GET' })
+    );
+  });
+
+  it('should clear a selection that is no longer available', async () => {
+    const fetchAdapter = createCitiesAdapter();
+    render(
+      <FormRenderer formJson={createForm()} fetchAdapter={fetchAdapter} />
+    );
+
+    await selectCountry('nl');
+    await screen.findByRole('option', { name: 'Rotterdam' });
+    fireEvent.change(screen.getByLabelText('City'), {
+      target: { value: 'rtm' },
+    });
+
+    await selectCountry('be');
+    await screen.findByRole('option', { name: 'Brussels' });
+
+    expect(screen.getByLabelText('City')).toHaveValue('');
+    expect(
+      screen.queryByRole('option', { name: 'Rotterdam' })
+    ).not.toBeInTheDocument();
+  });
+
+  it('should show an error with a retry button when loading fails', async () => {
+    const fetchAdapter = vi
+      .fn<DataSourceFetchAdapter>()
+      .mockImplementationOnce(() => jsonResponse({}, 500))
+      .mockImplementation(() => jsonResponse({ results: citiesByCountry.nl }));
+    render(
+      <FormRenderer formJson={createForm()} fetchAdapter={fetchAdapter} />
+    );
+
+    await selectCountry('nl');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'Could not load options'
+    );
+
+    fireEvent.click(screen.getByText('Retry'));
+
+    expect(
+      await screen.findByRole('option', { name: 'Amsterdam' })
+    ).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('should show a loading state while options are requested', async () => {
+    let resolveRequest: () => void = () => undefined;
+    const fetchAdapter = vi.fn<DataSourceFetchAdapter>(
+      () =>
+        new Promise((resolve) => {
+          resolveRequest = () =>
+            resolve({
+              ok: true,
+              status: 200,
+              json: () => Promise.resolve({ results: citiesByCountry.be }),
+            });
+        })
+    );
+    render(
+      <FormRenderer formJson={createForm()} fetchAdapter={fetchAdapter} />
+    );
+
+    await selectCountry('be');
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Loading...');
+    expect(screen.getByLabelText('City')).toBeDisabled();
+
+    resolveRequest();
+
+    await waitFor(() =>
+      expect(screen.queryByRole('status')).not.toBeInTheDocument()
+    );
+    expect(screen.getByLabelText('City')).not.toBeDisabled();
+  });
+
+  it('should prefill empty fields from a data source', async () => {
+    const form = createForm();
+    form.app.pages[0].components.push({
+      type: 'input',
+      id: 'email',
+      label: 'Email',
+      props: { dataSource: { id: 'profile', valuePath: 'user.email' } },
+    });
+    const fetchAdapter = vi.fn<DataSourceFetchAdapter>(() =>
+      jsonResponse({ user: { email: 'jane@example.com' } })
+    );
+
+    render(<FormRenderer formJson={form} fetchAdapter={fetchAdapter} />);
+
+    await waitFor(() =>
+      expect(screen.getByLabelText('Email')).toHaveValue('jane@example.com')
+    );
+  });
+});
@@ -0,0 +1,182 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { MultiLanguageFormDefinition } from '../interfaces/multi-language-interfaces';
+
+const bookingForm: MultiLanguageFormDefinition = {
+  app: {
+    title: 'Booking',
+    pages: [
+      {
+        id: 'booking',
+        title: 'Booking',
+        route: '/booking',
+        nextPage: 'summary',
+        components: [
+          {
+            type: 'date',
+            id: 'birthDate',
+            label: 'Date of birth',
+            validation: { required: true, maxDate: '-18y' },
+          },
+          {
+            type: 'date-range',
+            id: 'stay',
+            label: 'Stay',
+            validation: { required: true, minDate: 'today' },
+          },
+          {
+            type: 'time',
+            id: 'arrival',
+            label: 'Arrival',
+            validation: { minTime: '09:00', maxTime: '17:00' },
+          },
+          {
+            type: 'datetime',
+            id: 'callback',
+            label: 'Call me back at',
+            validation: { minDate: 'after stay' },
+          },
+        ],
+      },
+      {
+        id: 'summary',
+        title: 'Summary',
+        route: '/summary',
+        isEndPage: true,
+        isConfirmationPage: true,
+        components: [
+          {
+            type: 'confirmation',
+            id: 'overview',
+            props: { confirmationSettings: { showSummary: true } },
+          },
+        ],
+      },
+    ],
+  },
+};
+
+const change = (label: string, value: string) =>
+  fireEvent.change(screen.getByLabelText(new RegExp(`^${label}`)), {
+    target: { value },
+  });
+
+describe('FormRenderer date fields', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 4, 15, 10, 30));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve relative limits and references for the inputs', () => {
+    render(<FormRenderer formJson={bookingForm} />);
+
+    expect(screen.getByLabelText(/^Date of birth/)).toHaveAttribute(
+      'max',
+      '2007-05-15'
+    );
+    expect(screen.getByLabelText('Start date')).toHaveAttribute(
+      'min',
+      '2025-05-15'
+    );
+    expect(screen.getByLabelText('Arrival')).toHaveAttribute('type', 'time');
+    expect(screen.getByLabelText('Call me back at')).toHaveAttribute(
+      'type',
+      'datetime-local'
+    );
+    expect(screen.getByLabelText('Call me back at')).not.toHaveAttribute('min');
+
+    change('Start date', '2025-06-01');
+    change('End date', '2025-06-07');
+    expect(screen.getByLabelText('End date')).toHaveAttribute(
+      'min',
+      '2025-06-01'
+    );
+    expect(screen.getByLabelText('Call me back at')).toHaveAttribute(
+      'min',
+      '2025-06-08T00:00'
+    );
+  });
+
+  it('should validate the limits, the range and the times', () => {
+    render(<FormRenderer formJson={bookingForm} />);
+
+    fireEvent.click(screen.getByText('Review & Confirm'));
+    expect(screen.getByText('Stay is required')).toBeInTheDocument();
+
+    change('Date of birth', '2010-01-01');
+    change('Start date', '2025-05-01');
+    change('Arrival', '08:00');
+    change('Call me back at', '2025-05-20T09:00');
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    expect(
+      screen.getByText('Date of birth must be before May 15, 2007')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText('Please enter a start and an end date for Stay')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText(/^Arrival must be 9:00\sAM or later$/)
+    ).toBeInTheDocument();
+
+    change('Start date', '2025-06-07');
+    change('End date', '2025-06-01');
+    fireEvent.click(screen.getByText('Review & Confirm'));
+    expect(
+      screen.getByText(
+        'The end date of Stay must be on or after the start date'
+      )
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText('Call me back at must be on or after Jun 2, 2025')
+    ).toBeInTheDocument();
+  });
+
+  it('should show a limit error of a date range once', () => {
+    render(<FormRenderer formJson={bookingForm} />);
+
+    change('Start date', '2025-05-01');
+    change('End date', '2025-05-02');
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    expect(
+      screen.getAllByText('Stay must be on or after May 15, 2025')
+    ).toHaveLength(1);
+  });
+
+  it('should store ISO values and show them in the language of the form', () => {
+    const onSubmit = vi.fn();
+    const dutchForm: MultiLanguageFormDefinition = {
+      ...bookingForm,
+      defaultLanguage: 'nl',
+    };
+    render(<FormRenderer formJson={dutchForm} onSubmit={onSubmit} />);
+
+    change('Date of birth', '1990-03-21');
+    change('Start date', '2025-06-01');
+    change('End date', '2025-06-07');
+    change('Arrival', '14:30');
+    expect(screen.getByText('21 mrt 1990')).toBeInTheDocument();
+    expect(screen.getByText('1 jun 2025 – 7 jun 2025')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    expect(screen.getByText('1 jun 2025 – 7 jun 2025')).toBeInTheDocument();
+    expect(screen.getByText('14:30')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Submit'));
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        birthDate: '1990-03-21',
+        stay: { start: '2025-06-01', end: '2025-06-07' },
+        arrival: '14:30',
+        callback: '',
+      })
+    );
+  });
+});
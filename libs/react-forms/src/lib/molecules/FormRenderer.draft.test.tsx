@@ -0,0 +1,215 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { MultiLanguageFormDefinition } from '../interfaces/multi-language-interfaces';
+import { DraftStorageAdapter, FormDraft } from '../interfaces/draft-interfaces';
+
+const mockForm: MultiLanguageFormDefinition = {
+  app: {
+    title: 'Questionnaire',
+    version: '2',
+    pages: [
+      {
+        id: 'about',
+        title: 'About You',
+        route: '/about',
+        nextPage: 'work',
+        components: [{ type: 'input', id: 'name', label: 'Name' }],
+      },
+      {
+        id: 'work',
+        title: 'Work',
+        route: '/work',
+        isEndPage: true,
+        components: [{ type: 'input', id: 'company', label: 'Company' }],
+      },
+    ],
+  },
+  defaultLanguage: 'en',
+  translations: {},
+};
+
+const createMemoryAdapter = (initialDraft?: FormDraft) => {
+  const drafts = new Map<string, FormDraft>();
+  if (initialDraft) {
+    drafts.set('draft', initialDraft);
+  }
+  const adapter: DraftStorageAdapter = {
+    load: vi.fn(async (key: string) => drafts.get(key) ?? null),
+    save: vi.fn(async (key: string, draft: FormDraft) => {
+      drafts.set(key, draft);
+    }),
+    remove: vi.fn(async (key: string) => {
+      drafts.delete(key);
+    }),
+  };
+  return { adapter, drafts };
+};
+
+const savedDraft: FormDraft = {
+  version: '2',
+  values: { name: 'Jane', company: 'Acme', removedField: 'stale' },
+  stepHistory: ['about', 'work'],
+  savedAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('FormRenderer draft persistence', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should autosave values and navigation history', async () => {
+    const { adapter, drafts } = createMemoryAdapter();
+
+    render(
+      <FormRenderer
+        formJson={mockForm}
+        settings={{
+          draftPersistence: { storage: adapter, key: 'draft', debounceMs: 0 },
+        }}
+      />
+    );
+
+    await waitFor(() => expect(adapter.load).toHaveBeenCalledWith('draft'));
+    fireEvent.change(screen.getByLabelText('Name'), {
+      target: { value: 'Jane' },
+    });
+    fireEvent.click(screen.getByText('Next'));
+
+    await waitFor(() => {
+      expect(drafts.get('draft')).toMatchObject({
+        version: '2',
+        values: { name: 'Jane' },
+        stepHistory: ['about', 'work'],
+      });
+    });
+  });
+
+  it('should offer to resume a saved draft and restore values and page', async () => {
+    const { adapter } = createMemoryAdapter(savedDraft);
+    const onSubmit = vi.fn();
+
+    render(
+      <FormRenderer
+        formJson={mockForm}
+        onSubmit={onSubmit}
+        settings={{ draftPersistence: { storage: adapter, key: 'draft' } }}
+      />
+    );
+
+    fireEvent.click(await screen.findByText('Resume'));
+
+    expect(await screen.findByText('Work')).toBeInTheDocument();
+    expect(screen.getByLabelText('Company')).toHaveValue('Acme');
+
+    fireEvent.click(screen.getByText('Submit'));
+    expect(onSubmit).toHaveBeenCalledWith({ name: 'Jane', company: 'Acme' });
+    await waitFor(() => expect(adapter.remove).toHaveBeenCalledWith('draft'));
+  });
+
+  it('should discard the draft when starting over', async () => {
+    const { adapter, drafts } = createMemoryAdapter(savedDraft);
+
+    render(
+      <FormRenderer
+        formJson={mockForm}
+        settings={{ draftPersistence: { storage: adapter, key: 'draft' } }}
+      />
+    );
+
+    fireEvent.click(await screen.findByText('Start over'));
+
+    await waitFor(() => expect(drafts.has('draft')).toBe(false));
+    expect(screen.queryByText('Resume')).not.toBeInTheDocument();
+    expect(screen.getByLabelText('Name')).toHaveValue('');
+  });
+
+  it('should ignore drafts saved for another form version', async () => {
+    const { adapter, drafts } = createMemoryAdapter({
+      ...savedDraft,
+      version: '1',
+    });
+
+    render(
+      <FormRenderer
+        formJson={mockForm}
+        settings={{ draftPersistence: { storage: adapter, key: 'draft' } }}
+      />
+    );
+
+    await waitFor(() => expect(drafts.has('draft')).toBe(false));
+    expect(screen.queryByText('Resume')).not.toBeInTheDocument();
+  });
+
+  it('should restore automatically when resume is set to auto', async () => {
+    const { adapter } = createMemoryAdapter(savedDraft);
+
+    render(
+      <FormRenderer
+        formJson={mockForm}
+        settings={{
+          draftPersistence: { storage: adapter, key: 'draft', resume: 'auto' },
+        }}
+      />
+    );
+
+    expect(await screen.findByLabelText('Company')).toHaveValue('Acme');
+    expect(screen.queryByText('Resume')).not.toBeInTheDocument();
+  });
+
+  it('should use localStorage by default', async () => {
+    render(
+      <FormRenderer
+        formJson={mockForm}
+        settings={{ draftPersistence: { debounceMs: 0 } }}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Name'), {
+      target: { value: 'Jane' },
+    });
+
+    await waitFor(() => {
+      const stored = localStorage.getItem('form-draft:Questionnaire');
+      expect(stored && JSON.parse(stored).values.name).toBe('Jane');
+    });
+  });
+
+  it('should handle storage errors that are thrown synchronously', async () => {
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    const quotaError = new DOMException('Quota exceeded', 'QuotaExceededError');
+    const adapter: DraftStorageAdapter = {
+      load: vi.fn(() => null),
+      save: vi.fn(() => {
+        throw quotaError;
+      }),
+      remove: vi.fn(() => {
+        throw quotaError;
+      }),
+    };
+
+    render(
+      <FormRenderer
+        formJson={mockForm}
+        settings={{
+          draftPersistence: { storage: adapter, key: 'draft', debounceMs: 0 },
+        }}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Name'), {
+      target: { value: 'Jane' },
+    });
+    await waitFor(() =>
+      expect(consoleError).toHaveBeenCalledWith(
+        'Failed to save form draft:',
+        quotaError
+      )
+    );
+    expect(screen.getByLabelText('Name')).toHaveValue('Jane');
+    consoleError.mockRestore();
+  });
+});
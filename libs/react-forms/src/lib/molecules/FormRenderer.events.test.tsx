@@ -0,0 +1,256 @@
+import React from 'react';
+import {
+  act,
+  render,
+  screen,
+  fireEvent,
+  waitFor,
+} from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { FormDefinition } from '../interfaces/form-interfaces';
+import { FormEvent } from '../interfaces/form-event-interfaces';
+
+const mockForm: FormDefinition = {
+  app: {
+    title: 'Membership',
+    version: '2.1',
+    pages: [
+      {
+        id: 'personal',
+        title: 'Personal',
+        route: '/personal',
+        components: [
+          {
+            type: 'input',
+            id: 'name',
+            label: 'Name',
+            validation: { required: true, minLength: 3 },
+          },
+          {
+            type: 'array',
+            id: 'children',
+            label: 'Children',
+            arrayItems: [
+              {
+                id: 'child',
+                components: [{ type: 'input', id: 'age', label: 'Age' }],
+              },
+            ],
+          },
+        ],
+        branches: [
+          {
+            condition: { field: 'name', operator: '==', value: 'Student' },
+            nextPage: 'school',
+          },
+        ],
+        nextPage: 'contact',
+      },
+      {
+        id: 'school',
+        title: 'School',
+        route: '/school',
+        isEndPage: true,
+        components: [{ type: 'input', id: 'school', label: 'School' }],
+      },
+      {
+        id: 'contact',
+        title: 'Contact',
+        route: '/contact',
+        isEndPage: true,
+        components: [{ type: 'input', id: 'email', label: 'Email' }],
+      },
+    ],
+  },
+};
+
+const getEvents = (onEvent: ReturnType<typeof vi.fn>, type: string) =>
+  onEvent.mock.calls
+    .map(([event]) => event as FormEvent)
+    .filter((event) => event.type === type);
+
+describe('FormRenderer lifecycle events', () => {
+  it('should report field events with the version and language', () => {
+    const onEvent = vi.fn();
+    render(<FormRenderer formJson={mockForm} onEvent={onEvent} />);
+    const input = screen.getByLabelText(/Name/);
+
+    fireEvent.focus(input);
+    fireEvent.change(input, { target: { value: 'Jo' } });
+    fireEvent.blur(input);
+
+    expect(getEvents(onEvent, 'pageEnter')).toEqual([
+      expect.objectContaining({
+        pageId: 'personal',
+        formVersion: '2.1',
+        language: 'en',
+      }),
+    ]);
+    expect(getEvents(onEvent, 'fieldFocus')).toEqual([
+      expect.objectContaining({ fieldId: 'name', pageId: 'personal' }),
+    ]);
+    expect(getEvents(onEvent, 'fieldChange')).toEqual([
+      expect.objectContaining({ fieldId: 'name' }),
+    ]);
+    expect(getEvents(onEvent, 'fieldBlur')).toHaveLength(1);
+    expect(getEvents(onEvent, 'validationFailed')).toEqual([
+      expect.objectContaining({
+        fieldId: 'name',
+        rule: 'minLength',
+        trigger: 'blur',
+      }),
+    ]);
+  });
+
+  it('should report array items, branches and page time', () => {
+    const onEvent = vi.fn();
+    render(<FormRenderer formJson={mockForm} onEvent={onEvent} />);
+
+    fireEvent.click(screen.getByText('Add Item'));
+    fireEvent.click(screen.getByText('Add Item'));
+    fireEvent.focus(screen.getAllByLabelText('Age')[1]);
+    fireEvent.click(screen.getAllByText('Remove')[0]);
+
+    expect(getEvents(onEvent, 'arrayItemAdd')).toEqual([
+      expect.objectContaining({ fieldId: 'children', itemIndex: 0 }),
+      expect.objectContaining({ fieldId: 'children', itemIndex: 1 }),
+    ]);
+    expect(getEvents(onEvent, 'fieldFocus')).toEqual([
+      expect.objectContaining({ fieldId: 'children[1].age' }),
+    ]);
+    expect(getEvents(onEvent, 'arrayItemRemove')).toEqual([
+      expect.objectContaining({ fieldId: 'children', itemIndex: 0 }),
+    ]);
+
+    fireEvent.click(screen.getByText('Next'));
+    expect(getEvents(onEvent, 'validationFailed')).toEqual([
+      expect.objectContaining({
+        fieldId: 'name',
+        rule: 'required',
+        trigger: 'next',
+      }),
+    ]);
+
+    fireEvent.change(screen.getByLabelText(/Name/), {
+      target: { value: 'Student' },
+    });
+    fireEvent.click(screen.getByText('Next'));
+
+    expect(getEvents(onEvent, 'branchTaken')).toEqual([
+      expect.objectContaining({
+        pageId: 'personal',
+        branchIndex: 0,
+        nextPageId: 'school',
+      }),
+    ]);
+    expect(getEvents(onEvent, 'pageLeave')).toEqual([
+      expect.objectContaining({
+        pageId: 'personal',
+        nextPageId: 'school',
+        timeSpent: expect.any(Number),
+      }),
+    ]);
+    expect(getEvents(onEvent, 'pageEnter')[1]).toMatchObject({
+      pageId: 'school',
+      previousPageId: 'personal',
+    });
+  });
+
+  it('should report submit attempts, failures and success', async () => {
+    const onEvent = vi.fn();
+    const onSubmit = vi
+      .fn()
+      .mockReturnValueOnce({ fieldErrors: { school: ['Unknown school'] } })
+      .mockReturnValueOnce(undefined);
+    const { unmount } = render(
+      <FormRenderer formJson={mockForm} onSubmit={onSubmit} onEvent={onEvent} />
+    );
+
+    fireEvent.change(screen.getByLabelText(/Name/), {
+      target: { value: 'Student' },
+    });
+    fireEvent.click(screen.getByText('Next'));
+    fireEvent.click(screen.getByText('Submit'));
+
+    await waitFor(() =>
+      expect(getEvents(onEvent, 'submitFailure')).toEqual([
+        expect.objectContaining({
+          reason: 'fieldErrors',
+          fieldIds: ['school'],
+        }),
+      ])
+    );
+
+    fireEvent.change(screen.getByLabelText('School'), {
+      target: { value: 'Utrecht University' },
+    });
+    fireEvent.click(screen.getByText('Submit'));
+
+    await waitFor(() =>
+      expect(getEvents(onEvent, 'submitSuccess')).toHaveLength(1)
+    );
+    expect(getEvents(onEvent, 'submitAttempt')).toHaveLength(2);
+
+    unmount();
+    expect(getEvents(onEvent, 'formAbandon')).toHaveLength(0);
+  });
+
+  it('should report abandoning the form on unmount', async () => {
+    const onEvent = vi.fn();
+    const { unmount } = render(
+      <FormRenderer formJson={mockForm} onEvent={onEvent} />
+    );
+
+    unmount();
+
+    await waitFor(() =>
+      expect(getEvents(onEvent, 'formAbandon')).toEqual([
+        expect.objectContaining({
+          pageId: 'personal',
+          timeSpent: expect.any(Number),
+          totalTime: expect.any(Number),
+        }),
+      ])
+    );
+  });
+
+  it('should not report abandoning the form when StrictMode remounts it', async () => {
+    const onEvent = vi.fn();
+    const { unmount } = render(
+      <React.StrictMode>
+        <FormRenderer formJson={mockForm} onEvent={onEvent} />
+      </React.StrictMode>
+    );
+    await act(async () => {
+      await Promise.resolve();
+    });
+
+    expect(getEvents(onEvent, 'formAbandon')).toHaveLength(0);
+    expect(getEvents(onEvent, 'pageEnter')).toHaveLength(1);
+
+    unmount();
+
+    await waitFor(() =>
+      expect(getEvents(onEvent, 'formAbandon')).toHaveLength(1)
+    );
+  });
+
+  it('should report abandoning the form once when the page is hidden', async () => {
+    const onEvent = vi.fn();
+    const { unmount } = render(
+      <FormRenderer formJson={mockForm} onEvent={onEvent} />
+    );
+
+    window.dispatchEvent(new Event('pagehide'));
+    expect(getEvents(onEvent, 'formAbandon')).toEqual([
+      expect.objectContaining({ pageId: 'personal' }),
+    ]);
+
+    unmount();
+    await act(async () => {
+      await Promise.resolve();
+    });
+    expect(getEvents(onEvent, 'formAbandon')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,207 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { MultiLanguageFormDefinition } from '../interfaces/multi-language-interfaces';
+import { CustomFieldProps } from '../interfaces/field-registry-interfaces';
+import {
+  fieldRegistry,
+  registerFieldType,
+} from '../services/field-registry.service';
+
+const ColorPicker: React.FC<CustomFieldProps<string>> = ({
+  fieldId,
+  label,
+  value,
+  onChange,
+  onBlur,
+  showError,
+  validationErrors,
+}) => (
+  <div>
+    <label htmlFor={fieldId}>{label}</label>
+    <input
+      id={fieldId}
+      data-testid={`color-${fieldId}`}
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value)}
+      onBlur={onBlur}
+    />
+    {showError && validationErrors.map((error) => <p key={error}>{error}</p>)}
+  </div>
+);
+
+const createForm = (
+  components: MultiLanguageFormDefinition['app']['pages'][0]['components']
+): MultiLanguageFormDefinition => ({
+  app: {
+    title: 'Custom Field Form',
+    pages: [
+      {
+        id: 'page1',
+        title: 'Page 1',
+        route: '/page1',
+        components,
+      },
+    ],
+  },
+  defaultLanguage: 'en',
+  translations: {},
+});
+
+describe('FormRenderer custom field registry', () => {
+  afterEach(() => {
+    fieldRegistry.clear();
+  });
+
+  it('should render a custom field from the fieldRegistry prop', () => {
+    render(
+      <FormRenderer
+        formJson={createForm([
+          { type: 'color', id: 'favoriteColor', label: 'Favorite color' },
+        ])}
+        fieldRegistry={{ color: ColorPicker }}
+      />
+    );
+
+    expect(screen.getByLabelText('Favorite color')).toBeInTheDocument();
+    expect(
+      screen.queryByText(/Unsupported component type/)
+    ).not.toBeInTheDocument();
+  });
+
+  it('should render a custom field registered with registerFieldType', () => {
+    registerFieldType('color', ColorPicker);
+
+    render(
+      <FormRenderer
+        formJson={createForm([
+          { type: 'color', id: 'favoriteColor', label: 'Favorite color' },
+        ])}
+      />
+    );
+
+    expect(screen.getByLabelText('Favorite color')).toBeInTheDocument();
+  });
+
+  it('should show the unsupported message for unknown types', () => {
+    render(
+      <FormRenderer
+        formJson={createForm([
+          { type: 'color', id: 'favoriteColor', label: 'Favorite color' },
+        ])}
+      />
+    );
+
+    expect(
+      screen.getByText('Unsupported component type: color')
+    ).toBeInTheDocument();
+  });
+
+  it('should submit the value and default value of a custom field', async () => {
+    const onSubmit = vi.fn();
+    render(
+      <FormRenderer
+        formJson={createForm([
+          { type: 'color', id: 'favoriteColor', label: 'Favorite color' },
+          { type: 'color', id: 'secondColor', label: 'Second color' },
+        ])}
+        fieldRegistry={{
+          color: { component: ColorPicker, defaultValue: '#000000' },
+        }}
+        onSubmit={onSubmit}
+      />
+    );
+
+    expect(screen.getByLabelText('Second color')).toHaveValue('#000000');
+
+    fireEvent.change(screen.getByLabelText('Favorite color'), {
+      target: { value: '#ff0000' },
+    });
+    fireEvent.click(screen.getByText('Submit'));
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          favoriteColor: '#ff0000',
+          secondColor: '#000000',
+        })
+      );
+    });
+  });
+
+  it('should apply required and custom validation to a custom field', async () => {
+    const onSubmit = vi.fn();
+    render(
+      <FormRenderer
+        formJson={createForm([
+          {
+            type: 'color',
+            id: 'favoriteColor',
+            label: 'Favorite color',
+            validation: { required: true },
+          },
+        ])}
+        fieldRegistry={{
+          color: {
+            component: ColorPicker,
+            validate: (value, { getErrorMessage }) =>
+              typeof value === 'string' && value && !value.startsWith('#')
+                ? [getErrorMessage('invalidFormat')]
+                : [],
+          },
+        }}
+        onSubmit={onSubmit}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Submit'));
+    await waitFor(() => {
+      expect(
+        screen.getByText('Favorite color is required')
+      ).toBeInTheDocument();
+    });
+
+    fireEvent.change(screen.getByLabelText('Favorite color'), {
+      target: { value: 'red' },
+    });
+    fireEvent.click(screen.getByText('Submit'));
+    await waitFor(() => {
+      expect(
+        screen.getByText('Favorite color format is invalid')
+      ).toBeInTheDocument();
+    });
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('should render custom fields inside array items', () => {
+    render(
+      <FormRenderer
+        formJson={createForm([
+          {
+            type: 'array',
+            id: 'palette',
+            label: 'Palette',
+            arrayItems: [
+              {
+                id: 'paletteItem',
+                components: [{ type: 'color', id: 'swatch', label: 'Swatch' }],
+              },
+            ],
+          },
+        ])}
+        fieldRegistry={{
+          color: { component: ColorPicker, defaultValue: '#ffffff' },
+        }}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Add Item'));
+
+    const swatch = screen.getByLabelText('Swatch');
+    expect(swatch).toHaveValue('#ffffff');
+
+    fireEvent.change(swatch, { target: { value: '#123456' } });
+    expect(screen.getByLabelText('Swatch')).toHaveValue('#123456');
+  });
+});
@@ -0,0 +1,225 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import {
+  FormComponentFieldProps,
+  FormDefinition,
+} from '../interfaces/form-interfaces';
+import { FileUploadHandler } from '../interfaces/file-upload-interfaces';
+
+const createForm = (
+  fileField: Partial<FormComponentFieldProps> = {}
+): FormDefinition => ({
+  app: {
+    title: 'Application',
+    pages: [
+      {
+        id: 'documents',
+        title: 'Documents',
+        route: '/documents',
+        isEndPage: true,
+        components: [
+          {
+            type: 'file',
+            id: 'attachments',
+            label: 'Attachments',
+            ...fileField,
+          },
+        ],
+      },
+    ],
+  },
+});
+
+const createFile = (name: string, type: string, size?: number) => {
+  const file = new File(['content'], name, { type });
+  if (size !== undefined) {
+    Object.defineProperty(file, 'size', { value: size });
+  }
+  return file;
+};
+
+const selectFiles = (files: File[]) => {
+  fireEvent.change(screen.getByLabelText('Attachments'), {
+    target: { files },
+  });
+};
+
+describe('FormRenderer file field', () => {
+  it('should submit references returned by the upload handler', async () => {
+    const uploadHandler = vi.fn<FileUploadHandler>(async (file) => ({
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      url: `https://files.example.com/${file.name}`,
+    }));
+    const onSubmit = vi.fn();
+
+    render(
+      <FormRenderer
+        formJson={createForm({ props: { multiple: true } })}
+        uploadHandler={uploadHandler}
+        onSubmit={onSubmit}
+      />
+    );
+
+    selectFiles([
+      createFile('photo.png', 'image/png'),
+      createFile('cv.pdf', 'application/pdf'),
+    ]);
+
+    expect(await screen.findByText('cv.pdf')).toBeInTheDocument();
+    expect(screen.getByAltText('photo.png')).toHaveAttribute(
+      'src',
+      'https://files.example.com/photo.png'
+    );
+    expect(uploadHandler).toHaveBeenCalledWith(expect.any(File), {
+      fieldId: 'attachments',
+    });
+
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      attachments: [
+        {
+          name: 'photo.png',
+          size: 7,
+          type: 'image/png',
+          url: 'https://files.example.com/photo.png',
+        },
+        {
+          name: 'cv.pdf',
+          size: 7,
+          type: 'application/pdf',
+          url: 'https://files.example.com/cv.pdf',
+        },
+      ],
+    });
+  });
+
+  it('should not upload files with a wrong type or size', async () => {
+    const uploadHandler = vi.fn<FileUploadHandler>(async (file) => ({
+      name: file.name,
+      size: file.size,
+      type: file.type,
+    }));
+
+    render(
+      <FormRenderer
+        formJson={createForm({
+          props: { accept: 'image/*', multiple: true },
+          validation: { maxFileSize: 1024 },
+        })}
+        uploadHandler={uploadHandler}
+      />
+    );
+
+    selectFiles([
+      createFile('notes.txt', 'text/plain'),
+      createFile('large.png', 'image/png', 2048),
+    ]);
+
+    expect(
+      await screen.findByText(
+        'notes.txt is not an accepted file type for Attachments'
+      )
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText('large.png exceeds the maximum file size of 1 KB')
+    ).toBeInTheDocument();
+    expect(uploadHandler).not.toHaveBeenCalled();
+  });
+
+  it('should validate the number of files and allow removing files', async () => {
+    const onSubmit = vi.fn();
+    render(
+      <FormRenderer
+        formJson={createForm({
+          props: { multiple: true },
+          validation: { maxFiles: 1 },
+        })}
+        onSubmit={onSubmit}
+      />
+    );
+
+    selectFiles([
+      createFile('one.pdf', 'application/pdf'),
+      createFile('two.pdf', 'application/pdf'),
+    ]);
+
+    expect(
+      await screen.findByText(
+        'Please upload no more than 1 files for Attachments'
+      )
+    ).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove two.pdf' }));
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      attachments: [{ name: 'one.pdf', size: 7, type: 'application/pdf' }],
+    });
+  });
+
+  it('should require at least one file for required fields', () => {
+    const onSubmit = vi.fn();
+    render(
+      <FormRenderer
+        formJson={createForm({ validation: { required: true } })}
+        onSubmit={onSubmit}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(screen.getByText('Attachments is required')).toBeInTheDocument();
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('should block submitting while an upload is in progress', async () => {
+    let finishUpload: () => void = () => undefined;
+    const uploadHandler = vi.fn<FileUploadHandler>(
+      (file) =>
+        new Promise((resolve) => {
+          finishUpload = () =>
+            resolve({ name: file.name, size: file.size, type: file.type });
+        })
+    );
+
+    render(
+      <FormRenderer formJson={createForm()} uploadHandler={uploadHandler} />
+    );
+
+    selectFiles([createFile('cv.pdf', 'application/pdf')]);
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Uploading...');
+    expect(screen.getByText('Submit')).toBeDisabled();
+
+    finishUpload();
+
+    await waitFor(() => expect(screen.getByText('Submit')).not.toBeDisabled());
+    expect(screen.getByText('cv.pdf')).toBeInTheDocument();
+  });
+
+  it('should show an error when the upload fails', async () => {
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    const uploadHandler = vi.fn<FileUploadHandler>(async () => {
+      throw new Error('Network error');
+    });
+
+    render(
+      <FormRenderer formJson={createForm()} uploadHandler={uploadHandler} />
+    );
+
+    selectFiles([createFile('cv.pdf', 'application/pdf')]);
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'The file could not be uploaded. Please try again.'
+    );
+    expect(screen.queryByText('cv.pdf')).not.toBeInTheDocument();
+    consoleError.mockRestore();
+  });
+});
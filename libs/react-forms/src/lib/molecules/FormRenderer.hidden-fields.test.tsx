@@ -0,0 +1,125 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import {
+  FormDefinition,
+  HiddenFieldPolicy,
+} from '../interfaces/form-interfaces';
+
+const createForm = (hiddenFieldPolicy?: HiddenFieldPolicy): FormDefinition => ({
+  app: {
+    title: 'Insurance',
+    settings: { hiddenFieldPolicy },
+    pages: [
+      {
+        id: 'vehicle',
+        title: 'Vehicle',
+        route: '/vehicle',
+        nextPage: 'summary',
+        components: [
+          { type: 'input', id: 'hasCar', label: 'Own a car' },
+          {
+            type: 'input',
+            id: 'licensePlate',
+            label: 'License plate',
+            validation: { required: true },
+            visibilityConditions: [
+              { field: 'hasCar', operator: '==', value: 'yes' },
+            ],
+          },
+        ],
+      },
+      {
+        id: 'summary',
+        title: 'Summary',
+        route: '/summary',
+        isEndPage: true,
+        isConfirmationPage: true,
+        components: [
+          {
+            type: 'confirmation',
+            id: 'overview',
+            props: { confirmationSettings: { showSummary: true } },
+          },
+        ],
+      },
+    ],
+  },
+});
+
+const changeValue = (label: string | RegExp, value: string) => {
+  fireEvent.change(screen.getByLabelText(label), { target: { value } });
+};
+
+const fillInAndHideLicensePlate = () => {
+  changeValue('Own a car', 'yes');
+  changeValue(/License plate/, 'AB-123-C');
+  changeValue('Own a car', 'no');
+};
+
+describe('FormRenderer hidden fields', () => {
+  it('should keep values of hidden fields by default', () => {
+    const onSubmit = vi.fn();
+    render(<FormRenderer formJson={createForm()} onSubmit={onSubmit} />);
+
+    fillInAndHideLicensePlate();
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    expect(screen.getByText('AB-123-C')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ hasCar: 'no', licensePlate: 'AB-123-C' })
+    );
+  });
+
+  it('should clear values when fields are hidden with clearOnHide', () => {
+    render(<FormRenderer formJson={createForm('clearOnHide')} />);
+
+    fillInAndHideLicensePlate();
+    changeValue('Own a car', 'yes');
+
+    expect(screen.getByLabelText(/License plate/)).toHaveValue('');
+  });
+
+  it('should exclude values of hidden fields on submit and from the summary', () => {
+    const onSubmit = vi.fn();
+    render(
+      <FormRenderer
+        formJson={createForm('excludeOnSubmit')}
+        onSubmit={onSubmit}
+      />
+    );
+
+    fillInAndHideLicensePlate();
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    expect(screen.queryByText('AB-123-C')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Previous'));
+    changeValue('Own a car', 'yes');
+
+    expect(screen.getByLabelText(/License plate/)).toHaveValue('AB-123-C');
+
+    changeValue('Own a car', 'no');
+    fireEvent.click(screen.getByText('Review & Confirm'));
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.not.objectContaining({ licensePlate: expect.anything() })
+    );
+    expect(onSubmit.mock.calls[0][0]).toHaveProperty('hasCar', 'no');
+  });
+
+  it('should skip required hidden fields during validation', () => {
+    render(<FormRenderer formJson={createForm('keep')} />);
+
+    changeValue('Own a car', 'no');
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    expect(screen.queryByText(/is required/)).not.toBeInTheDocument();
+    expect(screen.getByText('Submit')).toBeInTheDocument();
+  });
+});
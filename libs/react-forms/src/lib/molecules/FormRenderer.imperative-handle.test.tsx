@@ -0,0 +1,162 @@
+import React, { createRef } from 'react';
+import { render, screen, act, waitFor } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import {
+  FormDefinition,
+  FormRendererHandle,
+} from '../interfaces/form-interfaces';
+
+const mockForm: FormDefinition = {
+  app: {
+    title: 'Test Form',
+    pages: [
+      {
+        id: 'address',
+        title: 'Address',
+        route: '/address',
+        components: [
+          {
+            type: 'input',
+            id: 'postcode',
+            label: 'Postcode',
+            validation: { required: true },
+          },
+          {
+            type: 'input',
+            id: 'city',
+            label: 'City',
+            validation: { required: true },
+          },
+        ],
+      },
+      {
+        id: 'contact',
+        title: 'Contact',
+        route: '/contact',
+        isEndPage: true,
+        components: [
+          {
+            type: 'input',
+            id: 'email',
+            label: 'Email',
+            validation: { required: true },
+          },
+        ],
+      },
+    ],
+  },
+};
+
+const renderWithRef = (onSubmit = vi.fn()) => {
+  const ref = createRef<FormRendererHandle>();
+  render(<FormRenderer ref={ref} formJson={mockForm} onSubmit={onSubmit} />);
+  if (!ref.current) {
+    throw new Error('The FormRenderer handle is not available');
+  }
+  return ref as React.RefObject<FormRendererHandle>;
+};
+
+describe('FormRenderer imperative handle', () => {
+  it('should read and prefill values', () => {
+    const ref = renderWithRef();
+
+    act(() => ref.current.setValue('postcode', '3511 AA'));
+    act(() => ref.current.setValues({ city: 'Utrecht' }));
+
+    expect(ref.current.getValues()).toMatchObject({
+      postcode: '3511 AA',
+      city: 'Utrecht',
+    });
+    expect(screen.getByDisplayValue('Utrecht')).toBeInTheDocument();
+  });
+
+  it('should validate the current page and other pages', () => {
+    const ref = renderWithRef();
+
+    let isValid = true;
+    act(() => {
+      isValid = ref.current.validate();
+    });
+
+    expect(isValid).toBe(false);
+    expect(ref.current.getErrors().postcode).toEqual(['Postcode is required']);
+    expect(screen.getByText('Postcode is required')).toBeInTheDocument();
+
+    act(() => {
+      isValid = ref.current.validate('contact');
+    });
+    expect(isValid).toBe(false);
+    expect(ref.current.getErrors().email).toEqual(['Email is required']);
+    expect(ref.current.validate('unknown')).toBe(false);
+  });
+
+  it('should navigate, reset and submit', async () => {
+    const onSubmit = vi.fn();
+    const ref = renderWithRef(onSubmit);
+
+    act(() => {
+      ref.current.next();
+    });
+    expect(screen.getByText('Address')).toBeInTheDocument();
+
+    act(() => ref.current.setValues({ postcode: '3511 AA', city: 'Utrecht' }));
+    act(() => ref.current.next());
+    expect(screen.getByText('Contact')).toBeInTheDocument();
+
+    act(() => ref.current.previous());
+    expect(screen.getByText('Address')).toBeInTheDocument();
+
+    act(() => {
+      expect(ref.current.goToPage('contact')).toBe(true);
+    });
+    act(() => ref.current.setValue('email', 'jane@example.com'));
+    await act(() => ref.current.submit());
+
+    await waitFor(() =>
+      expect(onSubmit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          postcode: '3511 AA',
+          city: 'Utrecht',
+          email: 'jane@example.com',
+        })
+      )
+    );
+
+    act(() => ref.current.setValue('city', 'Amsterdam'));
+    act(() => ref.current.reset());
+    expect(ref.current.getValues().city).toBe('');
+    expect(screen.getByText('Address')).toBeInTheDocument();
+  });
+
+  it('should see the changes of earlier calls in the same event', async () => {
+    const onSubmit = vi.fn();
+    const ref = renderWithRef(onSubmit);
+
+    await act(async () => {
+      ref.current.setValue('postcode', '3511 AA');
+      ref.current.setValues({ city: 'Utrecht' });
+      expect(ref.current.getValues()).toMatchObject({
+        postcode: '3511 AA',
+        city: 'Utrecht',
+      });
+      expect(ref.current.validate()).toBe(true);
+      expect(ref.current.getErrors()).toEqual({});
+
+      ref.current.next();
+      expect(ref.current.validate('contact')).toBe(false);
+      expect(ref.current.getErrors().email).toEqual(['Email is required']);
+
+      ref.current.setValue('email', 'jane@example.com');
+      await ref.current.submit();
+    });
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        postcode: '3511 AA',
+        city: 'Utrecht',
+        email: 'jane@example.com',
+      })
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { FormDefinition } from '../interfaces/form-interfaces';
+
+const paymentForm: FormDefinition = {
+  app: {
+    title: 'Payment',
+    pages: [
+      {
+        id: 'payment',
+        title: 'Payment',
+        route: '/payment',
+        nextPage: 'summary',
+        components: [
+          {
+            type: 'input',
+            id: 'postalCode',
+            label: 'Postal code',
+            props: { mask: '9999 AA' },
+          },
+          {
+            type: 'input',
+            id: 'amount',
+            label: 'Amount',
+            props: {
+              format: 'currency',
+              locale: 'en-US',
+              currency: 'USD',
+              decimals: 2,
+            },
+            validation: { max: 5000 },
+          },
+        ],
+      },
+      {
+        id: 'summary',
+        title: 'Summary',
+        route: '/summary',
+        isEndPage: true,
+        isConfirmationPage: true,
+        components: [
+          {
+            type: 'confirmation',
+            id: 'overview',
+            props: { confirmationSettings: { showSummary: true } },
+          },
+        ],
+      },
+    ],
+  },
+};
+
+describe('FormRenderer input formats', () => {
+  it('should show masked and formatted values and submit the raw values', () => {
+    const onSubmit = vi.fn();
+    render(<FormRenderer formJson={paymentForm} onSubmit={onSubmit} />);
+    const postalCode = screen.getByLabelText('Postal code');
+    const amount = screen.getByLabelText('Amount');
+
+    fireEvent.change(postalCode, { target: { value: '1234ab' } });
+    expect(postalCode).toHaveValue('1234 AB');
+
+    fireEvent.focus(amount);
+    fireEvent.change(amount, { target: { value: '1234.5' } });
+    expect(amount).toHaveValue('1234.5');
+    fireEvent.blur(amount);
+    expect(amount).toHaveValue('$1,234.50');
+
+    fireEvent.focus(amount);
+    expect(amount).toHaveValue('1234.5');
+    fireEvent.blur(amount);
+
+    fireEvent.click(screen.getByText('Review & Confirm'));
+    expect(screen.getByText('1234 AB')).toBeInTheDocument();
+    expect(screen.getByText('$1,234.50')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Submit'));
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ postalCode: '1234AB', amount: '1234.5' })
+    );
+  });
+
+  it('should validate incomplete masks and formatted numbers', () => {
+    render(<FormRenderer formJson={paymentForm} />);
+
+    fireEvent.change(screen.getByLabelText('Postal code'), {
+      target: { value: '123' },
+    });
+    fireEvent.blur(screen.getByLabelText('Postal code'));
+    fireEvent.change(screen.getByLabelText('Amount'), {
+      target: { value: '6000' },
+    });
+    fireEvent.blur(screen.getByLabelText('Amount'));
+
+    expect(
+      screen.getByText('Please enter a complete value for Postal code')
+    ).toBeInTheDocument();
+    expect(screen.getByText('Amount cannot exceed 5000')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,115 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FormRenderer } from './FormRenderer';
+import {
+  MultiLanguageFormDefinition,
+  FormRendererSettings,
+} from '../interfaces/multi-language-interfaces';
+
+const orderForm: MultiLanguageFormDefinition = {
+  defaultLanguage: 'nl',
+  app: {
+    title: 'Bestelling',
+    pages: [
+      {
+        id: 'order',
+        title: 'Bestelling',
+        route: '/order',
+        nextPage: 'summary',
+        components: [
+          {
+            type: 'input',
+            id: 'total',
+            label: 'Totaal',
+            props: { inputType: 'number' },
+          },
+          {
+            type: 'input',
+            id: 'orderCode',
+            label: 'Bestelcode',
+          },
+          {
+            type: 'date',
+            id: 'deliveryDate',
+            label: 'Leverdatum',
+          },
+          {
+            type: 'text',
+            id: 'orderText',
+            props: {
+              helperText: 'Bestelling {{orderCode}} op {{deliveryDate}}',
+            },
+          },
+          {
+            type: 'text',
+            id: 'totalText',
+            props: {
+              helperText:
+                "Totaal: {{format(total, 'currency', 'EUR')}} op {{format(deliveryDate, 'date', 'long')}}",
+            },
+          },
+        ],
+      },
+      {
+        id: 'summary',
+        title: 'Overzicht',
+        route: '/summary',
+        isEndPage: true,
+        isConfirmationPage: true,
+        components: [
+          {
+            type: 'confirmation',
+            id: 'overview',
+            props: { confirmationSettings: { showSummary: true } },
+          },
+        ],
+      },
+    ],
+  },
+};
+
+describe('FormRenderer locale formatting', () => {
+  it('should format amounts and dates for the language of the form', () => {
+    render(<FormRenderer formJson={orderForm} />);
+
+    fireEvent.change(screen.getByLabelText('Totaal'), {
+      target: { value: '1234.5' },
+    });
+    fireEvent.change(screen.getByLabelText('Leverdatum'), {
+      target: { value: '2024-05-01' },
+    });
+
+    expect(
+      screen.getByText(/^Totaal: €\s1\.234,50 op 1 mei 2024$/)
+    ).toBeInTheDocument();
+
+    // Only values of date fields are shown as dates
+    fireEvent.change(screen.getByLabelText('Bestelcode'), {
+      target: { value: '2024-05-02' },
+    });
+    expect(
+      screen.getByText('Bestelling 2024-05-02 op 1 mei 2024')
+    ).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Review & Confirm'));
+    expect(screen.getByText('1234,5')).toBeInTheDocument();
+    expect(screen.getByText('1 mei 2024')).toBeInTheDocument();
+    expect(screen.getByText('2024-05-02')).toBeInTheDocument();
+  });
+
+  it('should format for the current language of the settings', () => {
+    const settings: FormRendererSettings = { currentLanguage: 'en' };
+    render(<FormRenderer formJson={orderForm} settings={settings} />);
+
+    fireEvent.change(screen.getByLabelText('Totaal'), {
+      target: { value: '1234.5' },
+    });
+    fireEvent.change(screen.getByLabelText('Leverdatum'), {
+      target: { value: '2024-05-01' },
+    });
+
+    expect(
+      screen.getByText('Totaal: €1,234.50 op May 1, 2024')
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,138 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { FormDefinition } from '../interfaces/form-interfaces';
+
+const createSurveyForm = (
+  matrixProps: Record<string, unknown> = {}
+): FormDefinition => ({
+  app: {
+    title: 'Survey',
+    pages: [
+      {
+        id: 'survey',
+        title: 'Survey',
+        route: '/survey',
+        nextPage: 'summary',
+        components: [
+          {
+            type: 'matrix',
+            id: 'satisfaction',
+            label: 'How satisfied are you with',
+            props: {
+              statements: [
+                { id: 'speed', label: 'Speed', required: true },
+                { id: 'quality', label: 'Quality', required: true },
+                { id: 'price', label: 'Price' },
+              ],
+              options: [
+                { label: 'Unsatisfied', value: 'unsatisfied' },
+                { label: 'Neutral', value: 'neutral' },
+                { label: 'Satisfied', value: 'satisfied' },
+              ],
+              helperText: 'Speed: {{satisfaction.speed}}',
+              ...matrixProps,
+            },
+          },
+        ],
+      },
+      {
+        id: 'summary',
+        title: 'Summary',
+        route: '/summary',
+        isEndPage: true,
+        isConfirmationPage: true,
+        components: [
+          {
+            type: 'confirmation',
+            id: 'overview',
+            props: { confirmationSettings: { showSummary: true } },
+          },
+        ],
+      },
+    ],
+  },
+});
+
+const answer = (statement: string, option: string, multiple = false) =>
+  fireEvent.click(
+    within(
+      screen.getByRole(multiple ? 'group' : 'radiogroup', { name: statement })
+    ).getByLabelText(option)
+  );
+
+describe('FormRenderer matrix field', () => {
+  it('should require every required statement to be answered', () => {
+    render(<FormRenderer formJson={createSurveyForm()} />);
+
+    answer('Speed', 'Satisfied');
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    expect(
+      screen.getByText('Please answer "Quality" for How satisfied are you with')
+    ).toBeInTheDocument();
+    expect(screen.queryByText(/Please answer "Speed"/)).not.toBeInTheDocument();
+    expect(screen.queryByText(/Please answer "Price"/)).not.toBeInTheDocument();
+    expect(screen.getByRole('radiogroup', { name: 'Quality' })).toHaveAttribute(
+      'aria-invalid',
+      'true'
+    );
+  });
+
+  it('should store the answers keyed by statement id', () => {
+    const onSubmit = vi.fn();
+    render(<FormRenderer formJson={createSurveyForm()} onSubmit={onSubmit} />);
+
+    answer('Speed', 'Neutral');
+    answer('Speed', 'Satisfied');
+    answer('Quality', 'Unsatisfied');
+    expect(screen.getByText('Speed: satisfied')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Review & Confirm'));
+    expect(screen.getByText('Speed: Satisfied')).toBeInTheDocument();
+    expect(screen.getByText('Quality: Unsatisfied')).toBeInTheDocument();
+    expect(screen.queryByText(/^Price:/)).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Submit'));
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        satisfaction: { speed: 'satisfied', quality: 'unsatisfied' },
+      })
+    );
+  });
+
+  it('should allow several options per statement', () => {
+    const onSubmit = vi.fn();
+    render(
+      <FormRenderer
+        formJson={createSurveyForm({ multiple: true })}
+        onSubmit={onSubmit}
+      />
+    );
+
+    answer('Speed', 'Neutral', true);
+    answer('Speed', 'Satisfied', true);
+    answer('Quality', 'Neutral', true);
+    answer('Quality', 'Neutral', true);
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    expect(
+      screen.getByText('Please answer "Quality" for How satisfied are you with')
+    ).toBeInTheDocument();
+
+    answer('Quality', 'Unsatisfied', true);
+    fireEvent.click(screen.getByText('Review & Confirm'));
+    expect(screen.getByText('Speed: Neutral, Satisfied')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Submit'));
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        satisfaction: {
+          speed: ['neutral', 'satisfied'],
+          quality: ['unsatisfied'],
+        },
+      })
+    );
+  });
+});
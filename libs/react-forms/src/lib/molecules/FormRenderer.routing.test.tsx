@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { FormRenderer } from './FormRenderer';
+import { FormDefinition } from '../interfaces/form-interfaces';
+import { FormRouterAdapter } from '../interfaces/routing-interfaces';
+
+const createForm = (allowBackNavigation?: boolean): FormDefinition => ({
+  app: {
+    title: 'Membership',
+    settings: { allowBackNavigation },
+    pages: [
+      {
+        id: 'personal',
+        title: 'Personal',
+        route: '/personal',
+        components: [
+          {
+            type: 'input',
+            id: 'name',
+            label: 'Name',
+            validation: { required: true },
+          },
+          { type: 'input', id: 'membership', label: 'Membership' },
+        ],
+        branches: [
+          {
+            condition: {
+              field: 'membership',
+              operator: '==',
+              value: 'student',
+            },
+            nextPage: 'student',
+          },
+        ],
+        nextPage: 'payment',
+      },
+      {
+        id: 'student',
+        title: 'Student',
+        route: '/student',
+        nextPage: 'payment',
+        components: [{ type: 'input', id: 'school', label: 'School' }],
+      },
+      {
+        id: 'payment',
+        title: 'Payment',
+        route: '/payment',
+        isEndPage: true,
+        components: [{ type: 'input', id: 'iban', label: 'IBAN' }],
+      },
+    ],
+  },
+});
+
+// Router that keeps its history in memory, like react-router's MemoryRouter
+const createMemoryRouter = (initialPath = '') => {
+  const entries = [initialPath];
+  let index = 0;
+  let setPath: (path: string) => void = () => undefined;
+
+  const RoutedForm = ({ formJson }: { formJson: FormDefinition }) => {
+    const [path, setPathState] = useState(entries[index]);
+    setPath = setPathState;
+    const router: FormRouterAdapter = {
+      path,
+      navigate: (nextPath, options) => {
+        if (options?.replace) {
+          entries[index] = nextPath;
+        } else {
+          entries.splice(index + 1, entries.length, nextPath);
+          index++;
+        }
+        setPathState(nextPath);
+      },
+    };
+    return <FormRenderer formJson={formJson} routing={router} />;
+  };
+
+  return {
+    RoutedForm,
+    getPath: () => entries[index],
+    back: () => {
+      index--;
+      act(() => setPath(entries[index]));
+    },
+    open: (path: string) => {
+      entries.splice(index + 1, entries.length, path);
+      index++;
+      act(() => setPath(path));
+    },
+  };
+};
+
+const goToStudentPage = () => {
+  fireEvent.change(screen.getByLabelText(/Name/), {
+    target: { value: 'Jane' },
+  });
+  fireEvent.change(screen.getByLabelText('Membership'), {
+    target: { value: 'student' },
+  });
+  fireEvent.click(screen.getByText('Next'));
+};
+
+describe('FormRenderer routing', () => {
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('should keep the route in sync and follow the back button through the branch history', () => {
+    const router = createMemoryRouter();
+    render(<router.RoutedForm formJson={createForm()} />);
+
+    expect(router.getPath()).toBe('/personal');
+
+    goToStudentPage();
+
+    expect(screen.getByLabelText('School')).toBeInTheDocument();
+    expect(router.getPath()).toBe('/student');
+
+    router.back();
+
+    expect(screen.getByLabelText(/Name/)).toHaveValue('Jane');
+    expect(router.getPath()).toBe('/personal');
+  });
+
+  it('should refuse deep links to pages that have not been reached', () => {
+    const router = createMemoryRouter('/payment');
+    render(<router.RoutedForm formJson={createForm()} />);
+
+    expect(screen.getByLabelText(/Name/)).toBeInTheDocument();
+    expect(router.getPath()).toBe('/personal');
+
+    router.open('/student');
+
+    expect(screen.queryByLabelText('School')).not.toBeInTheDocument();
+    expect(screen.getByText('Name is required')).toBeInTheDocument();
+    expect(router.getPath()).toBe('/personal');
+
+    fireEvent.change(screen.getByLabelText(/Name/), {
+      target: { value: 'Jane' },
+    });
+    fireEvent.change(screen.getByLabelText('Membership'), {
+      target: { value: 'student' },
+    });
+    router.open('/student');
+
+    expect(screen.getByLabelText('School')).toBeInTheDocument();
+  });
+
+  it('should not go back when back navigation is not allowed', () => {
+    const router = createMemoryRouter();
+    render(<router.RoutedForm formJson={createForm(false)} />);
+
+    goToStudentPage();
+    expect(screen.queryByText('Previous')).not.toBeInTheDocument();
+
+    router.back();
+
+    expect(screen.getByLabelText('School')).toBeInTheDocument();
+    expect(router.getPath()).toBe('/student');
+  });
+
+  it('should use the location hash', () => {
+    render(<FormRenderer formJson={createForm()} routing="hash" />);
+
+    expect(window.location.hash).toBe('#/personal');
+
+    goToStudentPage();
+    expect(window.location.hash).toBe('#/student');
+
+    act(() => {
+      window.history.replaceState(null, '', '#/personal');
+      window.dispatchEvent(new HashChangeEvent('hashchange'));
+    });
+
+    expect(screen.getByLabelText(/Name/)).toHaveValue('Jane');
+  });
+});
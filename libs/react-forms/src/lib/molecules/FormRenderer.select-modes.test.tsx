@@ -0,0 +1,228 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { FormDefinition } from '../interfaces/form-interfaces';
+
+const selectForm: FormDefinition = {
+  app: {
+    title: 'Profile',
+    pages: [
+      {
+        id: 'profile',
+        title: 'Profile',
+        route: '/profile',
+        nextPage: 'summary',
+        components: [
+          {
+            type: 'select',
+            id: 'country',
+            label: 'Country',
+            props: {
+              searchable: true,
+              allowOther: true,
+              options: [
+                { label: 'Netherlands', value: 'NL', group: 'Europe' },
+                {
+                  label: 'Belgium',
+                  value: 'BE',
+                  group: 'Europe',
+                  description: 'Including Flanders and Wallonia',
+                },
+                { label: 'Curaçao', value: 'CW', group: 'Caribbean' },
+              ],
+            },
+            validation: { required: true },
+          },
+          {
+            type: 'select',
+            id: 'languages',
+            label: 'Languages',
+            props: {
+              multiple: true,
+              options: [
+                { label: 'English', value: 'en' },
+                { label: 'Dutch', value: 'nl' },
+                { label: 'French', value: 'fr' },
+                { label: 'German', value: 'de' },
+              ],
+            },
+            validation: { minItems: 2, maxItems: 3 },
+          },
+          {
+            type: 'select',
+            id: 'size',
+            label: 'Size',
+            props: {
+              allowOther: true,
+              options: [
+                { label: 'Small', value: 's', group: 'Standard' },
+                {
+                  label: 'Large',
+                  value: 'l',
+                  group: 'Standard',
+                  description: 'Fits most adults',
+                },
+              ],
+            },
+          },
+        ],
+      },
+      {
+        id: 'summary',
+        title: 'Summary',
+        route: '/summary',
+        isEndPage: true,
+        isConfirmationPage: true,
+        components: [
+          {
+            type: 'confirmation',
+            id: 'overview',
+            props: { confirmationSettings: { showSummary: true } },
+          },
+        ],
+      },
+    ],
+  },
+};
+
+const openList = (name: string) => {
+  const combobox = screen.getByRole('combobox', { name });
+  fireEvent.focus(combobox);
+  return combobox;
+};
+
+const listbox = (name: string) => within(screen.getByRole('listbox', { name }));
+
+describe('FormRenderer select modes', () => {
+  it('should search the options and choose one with the keyboard', () => {
+    render(<FormRenderer formJson={selectForm} />);
+
+    const country = openList('Country');
+    expect(
+      listbox('Country').getByRole('group', { name: 'Europe' })
+    ).toBeInTheDocument();
+
+    fireEvent.change(country, { target: { value: 'bel' } });
+    expect(
+      listbox('Country')
+        .getAllByRole('option')
+        .map((option) => option.textContent)
+    ).toEqual([
+      'Belgium' + 'Including Flanders and Wallonia',
+      'Other (please specify)',
+    ]);
+    expect(
+      listbox('Country').getByRole('option', { name: 'Belgium' })
+    ).toHaveAccessibleDescription('Including Flanders and Wallonia');
+
+    fireEvent.keyDown(country, { key: 'Enter' });
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+    expect(country).toHaveValue('Belgium');
+
+    fireEvent.change(country, { target: { value: 'xyz' } });
+    expect(screen.getByText('No options found')).toBeInTheDocument();
+    fireEvent.keyDown(country, { key: 'Escape' });
+    expect(country).toHaveValue('Belgium');
+  });
+
+  it('should choose several options as chips within the limits', () => {
+    render(<FormRenderer formJson={selectForm} />);
+    openList('Country');
+    fireEvent.click(
+      listbox('Country').getByRole('option', { name: 'Curaçao' })
+    );
+
+    const languages = openList('Languages');
+    expect(screen.getByRole('listbox', { name: 'Languages' })).toHaveAttribute(
+      'aria-multiselectable',
+      'true'
+    );
+    fireEvent.click(
+      listbox('Languages').getByRole('option', { name: 'English' })
+    );
+    fireEvent.click(screen.getByText('Review & Confirm'));
+    expect(
+      screen.getByText('Please select at least 2 items for Languages')
+    ).toBeInTheDocument();
+
+    openList('Languages');
+    ['Dutch', 'French'].forEach((name) =>
+      fireEvent.click(listbox('Languages').getByRole('option', { name }))
+    );
+    expect(
+      listbox('Languages').getByRole('option', { name: 'German' })
+    ).toHaveAttribute('aria-disabled', 'true');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove French' }));
+    fireEvent.keyDown(languages, { key: 'Backspace' });
+    expect(
+      screen.queryByRole('button', { name: 'Remove Dutch' })
+    ).not.toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: 'Remove English' })
+    ).toBeInTheDocument();
+  });
+
+  it('should reveal a text input for another answer', () => {
+    render(<FormRenderer formJson={selectForm} />);
+
+    openList('Country');
+    fireEvent.click(
+      listbox('Country').getByRole('option', {
+        name: 'Other (please specify)',
+      })
+    );
+    const other = screen.getAllByRole('textbox', { name: 'Please specify' })[0];
+    expect(other).toHaveFocus();
+    fireEvent.change(other, { target: { value: 'Aruba' } });
+    expect(screen.getByRole('combobox', { name: 'Country' })).toHaveValue(
+      'Other (please specify)'
+    );
+
+    const size = screen.getByRole('combobox', { name: 'Size' });
+    expect(within(size).getByRole('group', { name: 'Standard' })).toBeTruthy();
+    fireEvent.change(size, { target: { value: 'l' } });
+    expect(size).toHaveAccessibleDescription('Fits most adults');
+    fireEvent.change(size, { target: { value: '__other__' } });
+    expect(
+      screen.getAllByRole('textbox', { name: 'Please specify' })
+    ).toHaveLength(2);
+  });
+
+  it('should show and submit the chosen options', () => {
+    const onSubmit = vi.fn();
+    render(<FormRenderer formJson={selectForm} onSubmit={onSubmit} />);
+
+    openList('Country');
+    fireEvent.click(
+      listbox('Country').getByRole('option', {
+        name: 'Other (please specify)',
+      })
+    );
+    fireEvent.change(screen.getByRole('textbox', { name: 'Please specify' }), {
+      target: { value: 'Aruba' },
+    });
+    openList('Languages');
+    ['Dutch', 'English'].forEach((name) =>
+      fireEvent.click(listbox('Languages').getByRole('option', { name }))
+    );
+    fireEvent.change(screen.getByRole('combobox', { name: 'Size' }), {
+      target: { value: 's' },
+    });
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    expect(screen.getByText('Aruba')).toBeInTheDocument();
+    expect(screen.getByText('Dutch, English')).toBeInTheDocument();
+    expect(screen.getByText('Small')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Submit'));
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        country: 'Aruba',
+        languages: ['nl', 'en'],
+        size: 's',
+      })
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { FormDefinition } from '../interfaces/form-interfaces';
+
+const consentForm: FormDefinition = {
+  app: {
+    title: 'Consent',
+    pages: [
+      {
+        id: 'consent',
+        title: 'Consent',
+        route: '/consent',
+        nextPage: 'summary',
+        components: [
+          {
+            type: 'signature',
+            id: 'signature',
+            label: 'Signature',
+            props: { signatureFormat: 'svg' },
+            validation: { required: true },
+          },
+        ],
+      },
+      {
+        id: 'summary',
+        title: 'Summary',
+        route: '/summary',
+        isEndPage: true,
+        isConfirmationPage: true,
+        components: [
+          {
+            type: 'confirmation',
+            id: 'overview',
+            props: { confirmationSettings: { showSummary: true } },
+          },
+        ],
+      },
+    ],
+  },
+};
+
+const drawStroke = (pad: HTMLElement, points: [number, number][]) => {
+  const [first, ...rest] = points;
+  fireEvent.pointerDown(pad, { clientX: first[0], clientY: first[1] });
+  rest.forEach(([clientX, clientY]) =>
+    fireEvent.pointerMove(pad, { clientX, clientY })
+  );
+  fireEvent.pointerUp(pad);
+};
+
+// jsdom has no PointerEvent, without it the coordinates of the events are lost
+class TestPointerEvent extends MouseEvent {
+  pointerId: number;
+
+  constructor(type: string, init: PointerEventInit = {}) {
+    super(type, init);
+    this.pointerId = init.pointerId ?? 1;
+  }
+}
+
+describe('FormRenderer signature field', () => {
+  beforeEach(() => {
+    vi.stubGlobal('PointerEvent', window.PointerEvent ?? TestPointerEvent);
+    // jsdom has no canvas, drawn signatures fall back to SVG path data
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should require a signature', () => {
+    render(<FormRenderer formJson={consentForm} />);
+
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    expect(screen.getByText('Signature is required')).toBeInTheDocument();
+  });
+
+  it('should draw, undo and clear strokes', () => {
+    const onSubmit = vi.fn();
+    render(<FormRenderer formJson={consentForm} onSubmit={onSubmit} />);
+    const pad = screen.getByRole('img', { name: 'Signature' });
+
+    drawStroke(pad, [
+      [10, 10],
+      [50, 40],
+    ]);
+    drawStroke(pad, [
+      [60, 10],
+      [90, 40],
+    ]);
+    fireEvent.click(screen.getByText('Undo'));
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    const image = screen.getByAltText('Signature') as HTMLImageElement;
+    const svg = decodeURIComponent(image.src.split(',')[1]);
+    expect(svg).toContain('<path d="M 10 10 L 50 40"/>');
+    expect(svg).not.toContain('M 60 10');
+
+    fireEvent.click(screen.getByText('Submit'));
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        signature: expect.stringMatching(/^data:image\/svg\+xml/),
+      })
+    );
+  });
+
+  it('should export drawn signatures as PNG images of the canvas', () => {
+    const context = {
+      clearRect: vi.fn(),
+      beginPath: vi.fn(),
+      moveTo: vi.fn(),
+      lineTo: vi.fn(),
+      stroke: vi.fn(),
+    };
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(
+      context as unknown as CanvasRenderingContext2D
+    );
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue(
+      'data:image/png;base64,iVBORw0'
+    );
+    const pngForm: FormDefinition = JSON.parse(JSON.stringify(consentForm));
+    delete pngForm.app.pages[0].components[0].props;
+    const onSubmit = vi.fn();
+    render(<FormRenderer formJson={pngForm} onSubmit={onSubmit} />);
+
+    drawStroke(screen.getByRole('img', { name: 'Signature' }), [
+      [10, 10],
+      [20, 20],
+    ]);
+    fireEvent.click(screen.getByText('Review & Confirm'));
+    fireEvent.click(screen.getByText('Submit'));
+
+    expect(context.lineTo).toHaveBeenCalledWith(20, 20);
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ signature: 'data:image/png;base64,iVBORw0' })
+    );
+  });
+
+  it('should accept a typed name instead of a drawn signature', () => {
+    render(<FormRenderer formJson={consentForm} />);
+
+    fireEvent.click(screen.getByText('Type your name instead'));
+    fireEvent.change(screen.getByLabelText(/^Signature/), {
+      target: { value: 'Jane Doe' },
+    });
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    const image = screen.getByAltText('Signature') as HTMLImageElement;
+    expect(decodeURIComponent(image.src)).toContain('>Jane Doe</text>');
+  });
+
+  it('should clear a signature when going back', () => {
+    render(<FormRenderer formJson={consentForm} />);
+
+    drawStroke(screen.getByRole('img', { name: 'Signature' }), [
+      [10, 10],
+      [20, 20],
+    ]);
+    fireEvent.click(screen.getByText('Review & Confirm'));
+    fireEvent.click(screen.getByText('Previous'));
+
+    expect(screen.getByAltText('Signature')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Clear'));
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    expect(screen.getByText('Signature is required')).toBeInTheDocument();
+  });
+});
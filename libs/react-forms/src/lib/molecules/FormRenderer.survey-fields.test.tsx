@@ -0,0 +1,261 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { FormDefinition } from '../interfaces/form-interfaces';
+
+const surveyForm: FormDefinition = {
+  app: {
+    title: 'Feedback',
+    pages: [
+      {
+        id: 'scores',
+        title: 'Scores',
+        route: '/scores',
+        components: [
+          {
+            type: 'rating',
+            id: 'speed',
+            label: 'Speed',
+            validation: { required: true },
+          },
+          {
+            type: 'rating',
+            id: 'quality',
+            label: 'Quality',
+            props: { icon: 'emoji' },
+          },
+          {
+            type: 'input',
+            id: 'average',
+            label: 'Average',
+            expression: { expression: 'avg([speed, quality])', mode: 'value' },
+          },
+          {
+            type: 'nps',
+            id: 'recommend',
+            label: 'How likely are you to recommend us?',
+            props: {
+              lowLabel: 'Not at all likely',
+              highLabel: 'Extremely likely',
+            },
+            validation: { required: true },
+          },
+        ],
+        branches: [
+          {
+            expression: "npsCategory(recommend) == 'detractor'",
+            nextPage: 'improve',
+          },
+        ],
+        nextPage: 'priorities',
+      },
+      {
+        id: 'priorities',
+        title: 'Priorities',
+        route: '/priorities',
+        nextPage: 'summary',
+        components: [
+          {
+            type: 'ranking',
+            id: 'priorities',
+            label: 'Rank what matters most',
+            props: {
+              options: [
+                { label: 'Price', value: 'price' },
+                { label: 'Speed', value: 'speed' },
+                { label: 'Support', value: 'support' },
+              ],
+            },
+            validation: { required: true, minItems: 2 },
+          },
+        ],
+      },
+      {
+        id: 'summary',
+        title: 'Summary',
+        route: '/summary',
+        isEndPage: true,
+        isConfirmationPage: true,
+        components: [
+          {
+            type: 'confirmation',
+            id: 'overview',
+            props: { confirmationSettings: { showSummary: true } },
+          },
+        ],
+      },
+      {
+        id: 'improve',
+        title: 'What can we improve?',
+        route: '/improve',
+        isEndPage: true,
+        components: [],
+      },
+    ],
+  },
+};
+
+const rate = (label: string, score: string) =>
+  fireEvent.click(
+    within(screen.getByRole('radiogroup', { name: label })).getByLabelText(
+      score
+    )
+  );
+
+const ranking = () =>
+  within(screen.getByRole('list', { name: 'Rank what matters most' }));
+
+describe('FormRenderer survey fields', () => {
+  it('should require a rating and an NPS score', () => {
+    render(<FormRenderer formJson={surveyForm} />);
+
+    fireEvent.click(screen.getByText('Next'));
+
+    expect(screen.getByText('Speed is required')).toBeInTheDocument();
+    expect(
+      screen.getByText('How likely are you to recommend us? is required')
+    ).toBeInTheDocument();
+    expect(screen.getByRole('radiogroup', { name: 'Speed' })).toHaveAttribute(
+      'aria-invalid',
+      'true'
+    );
+  });
+
+  it('should label every score for screen readers', () => {
+    render(<FormRenderer formJson={surveyForm} />);
+
+    rate('Speed', '4 of 5');
+
+    expect(
+      within(screen.getByRole('radiogroup', { name: 'Speed' })).getByLabelText(
+        '4 of 5'
+      )
+    ).toBeChecked();
+    expect(
+      within(screen.getByRole('radiogroup', { name: 'Quality' })).getAllByRole(
+        'radio'
+      )
+    ).toHaveLength(5);
+    expect(
+      screen.getByRole('radio', { name: '0' })
+    ).toHaveAccessibleDescription('Not at all likely');
+    expect(
+      screen.getByRole('radio', { name: '10' })
+    ).toHaveAccessibleDescription('Extremely likely');
+  });
+
+  it('should use the scores in expressions', () => {
+    const onValuesChange = vi.fn();
+    render(
+      <FormRenderer formJson={surveyForm} onValuesChange={onValuesChange} />
+    );
+
+    rate('Speed', '4 of 5');
+    rate('Quality', '2 of 5');
+
+    expect(onValuesChange).toHaveBeenLastCalledWith(
+      expect.objectContaining({ speed: 4, quality: 2, average: 3 })
+    );
+  });
+
+  it('should branch on the NPS category', () => {
+    render(<FormRenderer formJson={surveyForm} />);
+
+    rate('Speed', '2 of 5');
+    rate('How likely are you to recommend us?', '6');
+    fireEvent.click(screen.getByText('Next'));
+
+    expect(screen.getByText('What can we improve?')).toBeInTheDocument();
+  });
+
+  it('should rank options with the buttons and the keyboard', () => {
+    render(<FormRenderer formJson={surveyForm} />);
+    rate('Speed', '4 of 5');
+    rate('How likely are you to recommend us?', '9');
+    fireEvent.click(screen.getByText('Next'));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add Support' }));
+    fireEvent.click(screen.getByText('Review & Confirm'));
+    expect(
+      screen.getByText(
+        'Please select at least 2 items for Rank what matters most'
+      )
+    ).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add Price' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Move up Price' }));
+    expect(
+      screen.getByText('Price is now at position 1 of 2')
+    ).toBeInTheDocument();
+
+    const support = ranking().getByText('Support').closest('li') as HTMLElement;
+    fireEvent.keyDown(support, { key: 'ArrowUp' });
+    expect(support).toHaveFocus();
+    expect(
+      ranking()
+        .getAllByRole('listitem')
+        .map((item) => item.textContent)
+    ).toEqual([
+      expect.stringContaining('Support'),
+      expect.stringContaining('Price'),
+    ]);
+  });
+
+  it('should rank options by dragging them', () => {
+    render(<FormRenderer formJson={surveyForm} />);
+    rate('Speed', '4 of 5');
+    rate('How likely are you to recommend us?', '9');
+    fireEvent.click(screen.getByText('Next'));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add Price' }));
+    const speed = screen.getByText('Speed').closest('li') as HTMLElement;
+    const price = ranking().getByText('Price').closest('li') as HTMLElement;
+    fireEvent.dragStart(speed);
+    fireEvent.dragOver(price);
+    fireEvent.drop(price);
+
+    expect(
+      ranking()
+        .getAllByRole('listitem')
+        .map((item) => item.textContent)
+    ).toEqual([
+      expect.stringContaining('Speed'),
+      expect.stringContaining('Price'),
+    ]);
+  });
+
+  it('should show and submit the scores and the ranking', () => {
+    const onSubmit = vi.fn();
+    render(<FormRenderer formJson={surveyForm} onSubmit={onSubmit} />);
+
+    rate('Speed', '4 of 5');
+    rate('Quality', '2 of 5');
+    rate('How likely are you to recommend us?', '9');
+    fireEvent.click(screen.getByText('Next'));
+    fireEvent.click(screen.getByRole('button', { name: 'Add Speed' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Add Price' }));
+    fireEvent.click(screen.getByText('Review & Confirm'));
+
+    expect(screen.getByText('4 / 5')).toBeInTheDocument();
+    expect(screen.getByText('9')).toBeInTheDocument();
+    const rankedItems = screen.getAllByRole('list').flatMap((list) =>
+      list.tagName === 'OL'
+        ? within(list)
+            .getAllByRole('listitem')
+            .map((item) => item.textContent)
+        : []
+    );
+    expect(rankedItems).toEqual(['Speed', 'Price']);
+
+    fireEvent.click(screen.getByText('Submit'));
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        speed: 4,
+        quality: 2,
+        recommend: 9,
+        priorities: ['speed', 'price'],
+      })
+    );
+  });
+});
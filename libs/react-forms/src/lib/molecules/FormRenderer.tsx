@@ -1,8 +1,8 @@
 import React, {
-  useState,
-  useEffect,
-  useMemo,
+  forwardRef,
   useCallback,
+  useImperativeHandle,
+  useMemo,
   useRef,
 } from 'react';
 import {
@@ -17,28 +17,27 @@ import {
   FormConfirmationField,
   FormSliderRangeField,
   FormExpressionField,
+  FormFileField,
+  FormSignatureField,
+  FormMatrixField,
+  FormRatingField,
+  FormNpsField,
+  FormRankingField,
+  FormComboboxField,
+  FormDateRangeField,
 } from '../atoms';
 import { ExpressionContextProvider } from '../contexts/expression-context';
+import { useFormEngine } from '../hooks/use-form-engine';
 import {
+  FormRendererHandle,
   FormRendererProps,
   FormValues,
-  ValidationErrors,
   PageProps,
   FormComponentFieldProps,
-  ValidationError,
-  VisibilityCondition,
-  ThankYouPage,
-  PageChangeEvent,
 } from '../interfaces/form-interfaces';
+import { FileReference } from '../interfaces/file-upload-interfaces';
+import { fieldRegistry as globalFieldRegistry } from '../services/field-registry.service';
 import {
-  MultiLanguageFormDefinition,
-  FormRendererSettings as MultiLanguageFormRendererSettings,
-} from '../interfaces/multi-language-interfaces';
-import { TranslationService } from '../services/translation-service';
-import {
-  getClassNames,
-  mergeClassNames,
-  getText,
   getClassNamesWithColorAndStyle,
   convertToFieldClasses,
 } from '../utils/class-utils';
@@ -46,13 +45,22 @@ import {
   defaultColorClasses,
   defaultStyleClasses,
 } from '../config/default-classes';
+import { isFileReferenceList } from '../utils/file-utils';
+import { applyHiddenFieldPolicy } from '../utils/hidden-field-utils';
+import { formatDisplayValue } from '../utils/locale-format';
+import { getComponentTypes } from '../utils/field-lookup';
+import { isSignatureValue } from '../utils/signature-utils';
+import { isMatrixValue, MatrixValue } from '../utils/matrix-utils';
+import { getRatingMax, isScoreValue } from '../utils/rating-utils';
+import { isRankingValue } from '../utils/ranking-utils';
+import { getSelectedValues, isComboboxSelect } from '../utils/select-utils';
 import {
-  calculateLogicalPageOrder,
-  getLogicalPageIndex,
-  getLogicalPageCount,
-  isFirstLogicalPage,
-  isLastLogicalPage,
-} from '../utils/page-ordering';
+  DateRangeValue,
+  getDateFieldKind,
+  getDateInputLimits,
+  isDateRangeValue,
+} from '../utils/date-limits';
+import { expressionEngine } from '../services/expression-engine.service';
 
 /**
  * Helper function to merge color and style classes with legacy support
@@ -89,1032 +97,132 @@ const getFieldClasses = (settings: any) => {
   );
 };
 
-export const FormRenderer: React.FC<FormRendererProps> = ({
-  formJson,
-  onSubmit,
-  onPageChange,
-  disabled = false,
-  prefixId,
-  settings = {},
-}) => {
-  const [formValues, setFormValues] = useState<FormValues>({});
-  const [validationErrors, setValidationErrors] = useState<ValidationErrors>(
-    {}
-  );
-  const [validation, setValidation] = useState<Record<string, boolean>>({});
-  const [required, setRequired] = useState<Record<string, boolean>>({});
-  const [blurredFields, setBlurredFields] = useState<Record<string, boolean>>(
-    {}
-  );
-  const [isSubmitted, setIsSubmitted] = useState(false);
-  const [currentStepIndex, setCurrentStepIndex] = useState(0);
-  const [stepHistory, setStepHistory] = useState<number[]>([0]);
-  const [formSubmissions, setFormSubmissions] = useState<
-    Record<string, FormValues>
-  >({});
-  const [showThankYouPage, setShowThankYouPage] = useState(false);
-  const initialEventTriggeredRef = useRef(false);
-  const logicalPageInitializedRef = useRef(false);
-
-  // Calculate logical page order based on flow structure
-  const logicalPageOrder = useMemo(() => {
-    return calculateLogicalPageOrder(formJson);
-  }, [formJson]);
-
-  // Initialize current step index to the logical first page
-  useEffect(() => {
-    if (
-      logicalPageOrder.length > 0 &&
-      formJson?.app?.pages &&
-      !logicalPageInitializedRef.current
-    ) {
-      const logicalFirstPageId = logicalPageOrder[0].pageId;
-      const arrayIndex = formJson.app.pages.findIndex(
-        (page) => page.id === logicalFirstPageId
-      );
-      if (arrayIndex !== -1) {
-        setCurrentStepIndex(arrayIndex);
-        setStepHistory([arrayIndex]);
-      }
-      logicalPageInitializedRef.current = true;
-    }
-  }, [logicalPageOrder, formJson?.app?.pages]);
-
-  // Reset all form state when formJson changes
-  useEffect(() => {
-    if (!formJson) {
-      return;
-    }
-
-    // Reset all form state to initial values
-    setValidationErrors({});
-    setValidation({});
-    setRequired({});
-    setBlurredFields({});
-    setIsSubmitted(false);
-    setCurrentStepIndex(0);
-    setStepHistory([0]);
-    setFormSubmissions({});
-    setShowThankYouPage(false);
-    initialEventTriggeredRef.current = false;
-    logicalPageInitializedRef.current = false;
-
-    const initialValues: FormValues = {};
-
-    const initializeFieldValues = (components: FormComponentFieldProps[]) => {
-      components.forEach((component) => {
-        if (component.id) {
-          // Initialize based on component type
-          switch (component.type) {
-            case 'slider-range':
-              if (component.props?.mode === 'range') {
-                initialValues[component.id] = {
-                  min: component.props?.min ?? 0,
-                  max: component.props?.max ?? 100,
-                };
-              } else {
-                initialValues[component.id] = component.props?.min ?? 0;
-              }
-              break;
-            case 'input':
-            case 'textarea':
-              initialValues[component.id] = '';
-              break;
-            case 'select':
-            case 'radio':
-              initialValues[component.id] = '';
-              break;
-            case 'checkbox':
-              initialValues[component.id] = false;
-              break;
-            case 'date':
-              initialValues[component.id] = '';
-              break;
-            default:
-              initialValues[component.id] = null;
-          }
-        }
-
-        // Recursively initialize children
-        if (component.children) {
-          initializeFieldValues(component.children);
-        }
-      });
-    };
-
-    // Initialize values for all pages - with null checks
-    if (formJson?.app?.pages && Array.isArray(formJson.app.pages)) {
-      formJson.app.pages.forEach((page) => {
-        if (page.components) {
-          initializeFieldValues(page.components);
-        }
-      });
-    }
-
-    setFormValues(initialValues);
-  }, [formJson]);
-
-  // Initialize translation service
-  const translationService = useMemo(() => {
-    const multiLangForm = formJson as MultiLanguageFormDefinition;
-    const multiLangSettings = settings as MultiLanguageFormRendererSettings;
-
-    return new TranslationService(
-      multiLangForm.translations || {},
-      multiLangSettings.currentLanguage ||
-        multiLangForm.defaultLanguage ||
-        'en',
-      multiLangForm.defaultLanguage || 'en'
-    );
-  }, [formJson, settings]);
-
-  // Initialize array fields in formValues
-  useEffect(() => {
-    if (!formJson?.app?.pages) return;
-
-    const currentPage = formJson.app.pages[currentStepIndex];
-    if (!currentPage?.components) return;
-
-    setFormValues((prevFormValues) => {
-      const newFormValues = { ...prevFormValues };
-      let hasChanges = false;
-
-      currentPage.components.forEach((component) => {
-        if (component.type === 'array' && !(component.id in prevFormValues)) {
-          newFormValues[component.id] = [];
-          hasChanges = true;
-        }
-      });
-
-      return hasChanges ? newFormValues : prevFormValues;
-    });
-  }, [formJson, currentStepIndex]);
-
-  // Helper function to trigger page change event
-  const triggerPageChangeEvent = useCallback(
-    (newPageIndex: number, previousPageIndex?: number) => {
-      if (!onPageChange || !formJson?.app?.pages) return;
-
-      const newPage = formJson.app.pages[newPageIndex];
-      const previousPage =
-        previousPageIndex !== undefined
-          ? formJson.app.pages[previousPageIndex]
-          : undefined;
-
-      // Get logical page information
-      const logicalNewPageIndex = getLogicalPageIndex(
-        newPage.id,
-        logicalPageOrder
-      );
-      const logicalPreviousPageIndex =
-        previousPageIndex !== undefined && previousPage
-          ? getLogicalPageIndex(previousPage.id, logicalPageOrder)
-          : undefined;
-      const totalLogicalPages = getLogicalPageCount(logicalPageOrder);
-
-      const event: PageChangeEvent = {
-        pageId: newPage.id,
-        pageIndex: logicalNewPageIndex, // Use logical index instead of array index
-        pageTitle: newPage.title,
-        totalPages: totalLogicalPages, // Use logical total instead of array length
-        isFirstPage: isFirstLogicalPage(newPage.id, logicalPageOrder),
-        isLastPage: isLastLogicalPage(newPage.id, logicalPageOrder),
-        isEndPage: newPage.isEndPage === true,
-        isConfirmationPage: newPage.isConfirmationPage === true,
-        previousPageId: previousPage?.id,
-        previousPageIndex: logicalPreviousPageIndex, // Use logical index
-      };
-
-      onPageChange(event);
-    },
-    [onPageChange, formJson, logicalPageOrder]
-  );
-
-  // Helper function to get field label for error messages
-  const getFieldLabel = (component: FormComponentFieldProps): string => {
-    if (typeof component.label === 'string' && component.label) {
-      // Try to translate the label using the translation service
-      const translatedLabel = translationService.translateComponent(
-        component.id,
-        0, // Assuming single page form for now
-        'label',
-        component.label
-      );
-      return translatedLabel;
-    }
-    // Fallback to ID if no label
-    return component.id
-      .replace(/([A-Z])/g, ' $1')
-      .replace(/^./, (str) => str.toUpperCase());
-  };
-
-  // Helper function to get WCAG-compatible error message with fallbacks
-  const getErrorMessage = useCallback(
-    (
-      component: FormComponentFieldProps,
-      errorType: string,
-      params: Record<string, string | number> = {}
-    ): string => {
-      const fieldLabel = getFieldLabel(component);
-
-      // First try to get a translated error message
-      const translatedError = translationService.translateError(
-        errorType as keyof (typeof translationService)['defaultTexts']['errorMessages'],
-        fieldLabel,
-        params
-      );
+// Validity and required flags of fields are not tracked for expressions
+const emptyFieldFlags: Record<string, boolean> = {};
 
-      // Check if we have a custom translation for this error type
-      const hasCustomTranslation =
-        translationService.translate(
-          `errorMessages.${errorType}`,
-          undefined,
-          undefined,
-          { fieldLabel, ...params }
-        ) !== `errorMessages.${errorType}`;
-
-      // If we have a custom translation, use it
-      if (hasCustomTranslation) {
-        return translatedError;
-      }
-
-      // If no custom translation, try component-specific error message
-      const customMessage =
-        component.validation?.errorMessages?.[
-          errorType as keyof typeof component.validation.errorMessages
-        ];
-
-      if (customMessage) {
-        // TODO: Remove this deprecation warning in a future version
-        // Only show warning in development mode, not during tests
-        if (import.meta.env.MODE === 'development' && !import.meta.env.VITEST) {
-          console.warn(
-            `Field-level errorMessages are deprecated. Please use translations instead. ` +
-              `Field: ${component.id}, ErrorType: ${errorType}. ` +
-              `Add this to your translations: errorMessages.${errorType}`
-          );
-        }
-        return translationService.replacePlaceholders(customMessage, params);
-      }
-
-      // Fall back to default translated error message
-      return translatedError;
-    },
-    [translationService]
-  );
-
-  const validateComponent = useMemo(
+const FormRendererWithRef: React.ForwardRefRenderFunction<
+  FormRendererHandle,
+  FormRendererProps
+> = (
+  {
+    formJson,
+    onSubmit,
+    onPageChange,
+    disabled = false,
+    prefixId,
+    settings = {},
+    fieldRegistry,
+    fetchAdapter,
+    uploadHandler,
+    asyncValidators,
+    actions,
+    routing,
+    initialValues,
+    values,
+    onValuesChange,
+    onEvent,
+  },
+  ref
+) => {
+  const engine = useFormEngine(formJson, {
+    onSubmit,
+    onPageChange,
+    prefixId,
+    settings,
+    fieldRegistry,
+    fetchAdapter,
+    uploadHandler,
+    asyncValidators,
+    actions,
+    routing,
+    initialValues,
+    values,
+    onValuesChange,
+    onEvent,
+  });
+  const {
+    values: formValues,
+    errors: validationErrors,
+    currentPageIndex: currentStepIndex,
+    progress,
+    pageCount,
+    allowBackNavigation,
+    isSubmitted,
+    isSubmitting,
+    submitError,
+    isCompleted: showThankYouPage,
+    submissions: formSubmissions,
+    actionMessage,
+    translationService,
+    setValue: handleInputChange,
+    setArrayItemValue: handleArrayItemChange,
+    addArrayItem,
+    removeArrayItem,
+    focus: handleFocus,
+    blur: handleBlur,
+    shouldShowError,
+    isComponentVisible,
+    next: handleNext,
+    previous: handlePrevious,
+    runActions: runEventActions,
+    runButtonAction: handleButtonClick,
+    runThankYouAction: handleThankYouAction,
+    pendingDraft,
+    resumeDraft,
+    discardDraft,
+    getDataSourceState,
+    reloadDataSource,
+    selectFiles: handleFilesSelected,
+    removeFile: handleFileRemove,
+    isUploading,
+    hasPendingUploads,
+    getUploadError,
+    isValidating,
+    hasPendingValidations,
+  } = engine;
+  // Numbers, amounts and dates are formatted for the current language
+  const locale = translationService.getLanguage();
+  // Template values are only shown as dates for date fields
+  const componentTypes = useMemo(
     () =>
-      (
-        component: FormComponentFieldProps,
-        formData: Record<string, unknown>,
-        parentId?: string
-      ): ValidationError[] => {
-        const errors: ValidationError[] = [];
-        const fieldId = parentId ? `${parentId}.${component.id}` : component.id;
-        const value = formData[fieldId];
-
-        // Handle form component validation recursively
-        if (component.type === 'form' && component.children) {
-          // Validate all child components
-          component.children.forEach((child) => {
-            if (isComponentVisible(child.visibilityConditions, formData)) {
-              const childErrors = validateComponent(child, formData, fieldId);
-              errors.push(...childErrors);
-            }
-          });
-          return errors;
-        }
-
-        // Handle array component validation
-        if (component.type === 'array' && component.arrayItems) {
-          const arrayValue = value as Array<Record<string, unknown>>;
-
-          if (
-            component.validation?.required &&
-            (!arrayValue || arrayValue.length === 0)
-          ) {
-            errors.push({
-              fieldId,
-              message: getErrorMessage(component, 'required'),
-            });
-          }
-          if (arrayValue) {
-            if (
-              component.validation?.minItems &&
-              arrayValue.length < component.validation.minItems
-            ) {
-              errors.push({
-                fieldId,
-                message: getErrorMessage(component, 'minItems', {
-                  minItems: component.validation.minItems,
-                }),
-              });
-            }
-            if (
-              component.validation?.maxItems &&
-              arrayValue.length > component.validation.maxItems
-            ) {
-              errors.push({
-                fieldId,
-                message: getErrorMessage(component, 'maxItems', {
-                  maxItems: component.validation.maxItems,
-                }),
-              });
-            }
-            // Validate each array item
-            arrayValue.forEach((item, index) => {
-              component.arrayItems?.forEach((arrayItem) => {
-                arrayItem.components.forEach((child) => {
-                  const childFieldId = `${fieldId}[${index}].${child.id}`;
-                  const shouldValidateChild = shouldShowError(childFieldId);
-
-                  // Only validate child components that have been interacted with
-                  if (shouldValidateChild) {
-                    const childErrors = validateComponent(
-                      child,
-                      item,
-                      `${fieldId}[${index}]`
-                    );
-                    errors.push(...childErrors);
-                  }
-                });
-              });
-            });
-          }
-          return errors;
-        }
-
-        // Handle section component validation
-        if (component.type === 'section' && component.children) {
-          component.children.forEach((child) => {
-            if (isComponentVisible(child.visibilityConditions, formData)) {
-              const childErrors = validateComponent(child, formData, fieldId);
-              errors.push(...childErrors);
-            }
-          });
-          return errors;
-        }
-
-        // Handle basic validation for other component types
-        if (component.validation?.required && isEmptyValue(value)) {
-          errors.push({
-            fieldId,
-            message: getErrorMessage(component, 'required'),
-          });
-        }
-
-        if (!isEmptyValue(value)) {
-          if (component.type === 'date') {
-            const dateValue = new Date(value as string);
-            if (isNaN(dateValue.getTime())) {
-              errors.push({
-                fieldId,
-                message: getErrorMessage(component, 'invalidDate'),
-              });
-            } else {
-              if (
-                component.validation?.minDate &&
-                dateValue < new Date(component.validation.minDate)
-              ) {
-                errors.push({
-                  fieldId,
-                  message: getErrorMessage(component, 'minDate', {
-                    minDate: component.validation.minDate,
-                  }),
-                });
-              }
-              if (
-                component.validation?.maxDate &&
-                dateValue > new Date(component.validation.maxDate)
-              ) {
-                errors.push({
-                  fieldId,
-                  message: getErrorMessage(component, 'maxDate', {
-                    maxDate: component.validation.maxDate,
-                  }),
-                });
-              }
-            }
-          } else if (['input', 'textarea'].includes(component.type)) {
-            const stringValue = String(value);
-
-            // Email validation for email input type
-            if (component.props?.inputType === 'email' && stringValue) {
-              const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-              if (!emailPattern.test(stringValue)) {
-                errors.push({
-                  fieldId,
-                  message: getErrorMessage(component, 'invalidEmail'),
-                });
-              }
-            }
-
-            // Number validation for number input type
-            if (component.props?.inputType === 'number' && stringValue) {
-              const numValue = Number(stringValue);
-              if (isNaN(numValue)) {
-                errors.push({
-                  fieldId,
-                  message: getErrorMessage(component, 'invalidNumber'),
-                });
-              } else {
-                if (
-                  component.validation?.min !== undefined &&
-                  numValue < component.validation.min
-                ) {
-                  errors.push({
-                    fieldId,
-                    message: getErrorMessage(component, 'min', {
-                      min: component.validation.min,
-                    }),
-                  });
-                }
-                if (
-                  component.validation?.max !== undefined &&
-                  numValue > component.validation.max
-                ) {
-                  errors.push({
-                    fieldId,
-                    message: getErrorMessage(component, 'max', {
-                      max: component.validation.max,
-                    }),
-                  });
-                }
-              }
-            }
-
-            if (
-              component.validation?.minLength &&
-              stringValue.length < component.validation.minLength
-            ) {
-              errors.push({
-                fieldId,
-                message: getErrorMessage(component, 'minLength', {
-                  minLength: component.validation.minLength,
-                }),
-              });
-            }
-            if (
-              component.validation?.maxLength &&
-              stringValue.length > component.validation.maxLength
-            ) {
-              errors.push({
-                fieldId,
-                message: getErrorMessage(component, 'maxLength', {
-                  maxLength: component.validation.maxLength,
-                }),
-              });
-            }
-            if (
-              component.validation?.pattern &&
-              !new RegExp(component.validation.pattern).test(stringValue)
-            ) {
-              errors.push({
-                fieldId,
-                message: getErrorMessage(component, 'pattern'),
-              });
-            }
-          } else if (component.type === 'slider-range') {
-            const rangeValue = value as { min: number; max: number };
-
-            if (
-              rangeValue &&
-              typeof rangeValue === 'object' &&
-              'min' in rangeValue &&
-              'max' in rangeValue
-            ) {
-              // Validate range span
-              const rangeSpan = rangeValue.max - rangeValue.min;
-
-              if (
-                component.validation?.minRange &&
-                rangeSpan < component.validation.minRange
-              ) {
-                errors.push({
-                  fieldId,
-                  message: getErrorMessage(component, 'minRange', {
-                    minRange: component.validation.minRange,
-                  }),
-                });
-              }
-
-              if (
-                component.validation?.maxRange &&
-                rangeSpan > component.validation.maxRange
-              ) {
-                errors.push({
-                  fieldId,
-                  message: getErrorMessage(component, 'maxRange', {
-                    maxRange: component.validation.maxRange,
-                  }),
-                });
-              }
-
-              // Validate minimum value constraints
-              if (
-                component.validation?.minValueMin !== undefined &&
-                rangeValue.min < component.validation.minValueMin
-              ) {
-                errors.push({
-                  fieldId,
-                  message: getErrorMessage(component, 'minValueMin', {
-                    minValueMin: component.validation.minValueMin,
-                  }),
-                });
-              }
-
-              if (
-                component.validation?.minValueMax !== undefined &&
-                rangeValue.min > component.validation.minValueMax
-              ) {
-                errors.push({
-                  fieldId,
-                  message: getErrorMessage(component, 'minValueMax', {
-                    minValueMax: component.validation.minValueMax,
-                  }),
-                });
-              }
-
-              // Validate maximum value constraints
-              if (
-                component.validation?.maxValueMin !== undefined &&
-                rangeValue.max < component.validation.maxValueMin
-              ) {
-                errors.push({
-                  fieldId,
-                  message: getErrorMessage(component, 'maxValueMin', {
-                    maxValueMin: component.validation.maxValueMin,
-                  }),
-                });
-              }
-
-              if (
-                component.validation?.maxValueMax !== undefined &&
-                rangeValue.max > component.validation.maxValueMax
-              ) {
-                errors.push({
-                  fieldId,
-                  message: getErrorMessage(component, 'maxValueMax', {
-                    maxValueMax: component.validation.maxValueMax,
-                  }),
-                });
-              }
-            }
-          }
-        }
-
-        return errors;
-      },
-    [getErrorMessage]
+      getComponentTypes(
+        formJson?.app?.pages?.flatMap((page) => page.components ?? [])
+      ),
+    [formJson]
   );
 
-  const validateForm = useCallback(() => {
-    if (
-      !formJson ||
-      !formJson.app ||
-      !formJson.app.pages ||
-      !Array.isArray(formJson.app.pages)
-    )
-      return true;
-
-    const currentPage = formJson.app.pages[currentStepIndex];
-    if (!currentPage || !currentPage.components) return true;
+  // The handle is created once and calls the engine of the last render, which
+  // reads the latest values so several calls in one event see each other's changes
+  const engineRef = useRef(engine);
+  engineRef.current = engine;
+  useImperativeHandle(
+    ref,
+    () => ({
+      getValues: () => engineRef.current.getValues(),
+      setValue: (fieldId, value) => engineRef.current.setValue(fieldId, value),
+      setValues: (values) => engineRef.current.setValues(values),
+      validate: (pageId) => engineRef.current.validate(pageId),
+      goToPage: (pageId) => engineRef.current.goTo(pageId),
+      next: () => engineRef.current.next(),
+      previous: () => engineRef.current.previous(),
+      reset: () => engineRef.current.reset(),
+      submit: () => engineRef.current.submit(),
+      getErrors: () => engineRef.current.getErrors(),
+    }),
+    []
+  );
 
-    const newValidationErrors: ValidationErrors = {};
-    let isValid = true;
+  // Resolve a custom field type from the renderer's registry or the global one
+  const resolveCustomField = (type: string) =>
+    globalFieldRegistry.resolve(type, fieldRegistry);
 
-    const validateComponents = (
-      components: FormComponentFieldProps[],
-      parentId?: string
-    ) => {
-      components.forEach((component) => {
-        if (isComponentVisible(component.visibilityConditions, formValues)) {
-          const fieldId = parentId
-            ? `${parentId}.${component.id}`
-            : component.id;
-          const errors = validateComponent(component, formValues, parentId);
-          errors.forEach((error) => {
-            if (!newValidationErrors[error.fieldId]) {
-              newValidationErrors[error.fieldId] = [];
-            }
-            newValidationErrors[error.fieldId].push(error.message);
-          });
-          if (errors.length > 0) {
-            isValid = false;
-          }
-        }
-      });
+  // Focus events bubble, only the innermost field reports the focus
+  const getFocusHandler =
+    (fieldId: string) => (event: React.FocusEvent<HTMLElement>) => {
+      event.stopPropagation();
+      handleFocus(fieldId);
     };
 
-    validateComponents(currentPage.components);
-    setValidationErrors(newValidationErrors);
-    return isValid;
-  }, [formJson, currentStepIndex, formValues, validateComponent]);
-
-  useEffect(() => {
-    // Only validate if we have form values initialized AND the user has interacted with the form
-    if (
-      Object.keys(formValues).length > 0 &&
-      (isSubmitted || Object.keys(blurredFields).length > 0)
-    ) {
-      validateForm();
-    }
-  }, [validateForm, formValues, isSubmitted, blurredFields]);
-
-  // Update translation service language when settings change
-  useEffect(() => {
-    const multiLangSettings = settings as MultiLanguageFormRendererSettings;
-    if (multiLangSettings.currentLanguage) {
-      translationService.setLanguage(multiLangSettings.currentLanguage);
-
-      // Re-validate form with new language to update error messages
-      if (isSubmitted || Object.keys(validationErrors).length > 0) {
-        // Use setTimeout to avoid infinite loop and ensure validation runs after language change
-        // Skip setTimeout in test environments to avoid timing issues
-        if (import.meta.env.MODE === 'test' || import.meta.env.VITEST) {
-          // Force a complete re-validation - validateForm will use the updated translation service
-          const isValid = validateForm();
-          // The validateForm function will call setValidationErrors with the new translated messages
-        } else {
-          setTimeout(() => {
-            // Force a complete re-validation - validateForm will use the updated translation service
-            const isValid = validateForm();
-            // The validateForm function will call setValidationErrors with the new translated messages
-          }, 0);
-        }
-      }
-    }
-  }, [translationService, settings, isSubmitted, validateForm]);
-
-  // Reset initial event trigger when form changes
-  useEffect(() => {
-    initialEventTriggeredRef.current = false;
-  }, [formJson?.app?.pages]);
-
-  // Trigger initial page change event when component mounts
-  useEffect(() => {
-    if (
-      onPageChange &&
-      formJson?.app?.pages &&
-      formJson.app.pages.length > 0 &&
-      logicalPageOrder.length > 0 &&
-      !initialEventTriggeredRef.current
-    ) {
-      // Use the logical first page instead of the first page in the array
-      const logicalFirstPageId = logicalPageOrder[0].pageId;
-      const initialPage = formJson.app.pages.find(
-        (page) => page.id === logicalFirstPageId
-      );
-      if (!initialPage) return; // Safety check
-
-      const logicalInitialPageIndex = 0; // First page in logical order
-      const totalLogicalPages = getLogicalPageCount(logicalPageOrder);
-
-      const event: PageChangeEvent = {
-        pageId: initialPage.id,
-        pageIndex: logicalInitialPageIndex, // Use logical index
-        pageTitle: initialPage.title,
-        totalPages: totalLogicalPages, // Use logical total
-        isFirstPage: isFirstLogicalPage(initialPage.id, logicalPageOrder),
-        isLastPage: isLastLogicalPage(initialPage.id, logicalPageOrder),
-        isEndPage: initialPage.isEndPage === true,
-        isConfirmationPage: initialPage.isConfirmationPage === true,
-        previousPageId: undefined,
-        previousPageIndex: undefined,
-      };
-
-      onPageChange(event);
-      initialEventTriggeredRef.current = true;
-    }
-  }, [onPageChange, formJson?.app?.pages, logicalPageOrder]);
-
-  const handleInputChange = (id: string, value: unknown) => {
-    console.log(
-      `🔄 FormRenderer: handleInputChange called for ${id} with value:`,
-      value,
-      typeof value
-    );
-    setFormValues((prev) => {
-      const newValues = {
-        ...prev,
-        [id]: value,
-      };
-      console.log(`📝 FormRenderer: Updated formValues for ${id}:`, newValues);
-      return newValues;
-    });
-  };
-
-  const handleArrayItemChange = (
-    arrayFieldId: string,
-    itemIndex: number,
-    fieldId: string,
-    value: unknown
-  ) => {
-    setFormValues((prev) => {
-      const newFormValues = { ...prev };
-      const arrayValue =
-        (newFormValues[arrayFieldId] as Array<Record<string, unknown>>) || [];
-
-      // Ensure the array has enough items
-      while (arrayValue.length <= itemIndex) {
-        arrayValue.push({});
-      }
-
-      // Update the specific field in the array item
-      arrayValue[itemIndex] = {
-        ...arrayValue[itemIndex],
-        [fieldId]: value,
-      };
-
-      newFormValues[arrayFieldId] = arrayValue;
-
-      return newFormValues;
-    });
-  };
-
-  const handleBlur = (id: string) => {
-    setBlurredFields((prev) => ({
-      ...prev,
-      [id]: true,
-    }));
-  };
-
-  const handleFormSubmit = (formId: string) => {
-    setIsSubmitted(true);
-    if (!validateForm()) {
-      return;
-    }
-
-    setFormSubmissions((prev) => ({
-      ...prev,
-      [formId]: formValues,
-    }));
-    if (onSubmit) {
-      onSubmit(formValues);
-    }
-
-    // Check if thank you page is configured
-    if (formJson.app.thankYouPage) {
-      setShowThankYouPage(true);
-    } else {
-      // Reset form values and validation errors
-      setFormValues({});
-      setValidationErrors({});
-      setBlurredFields({});
-      setIsSubmitted(false);
-      setCurrentStepIndex(0);
-      triggerPageChangeEvent(0);
-      setStepHistory([0]);
-    }
-  };
-
-  const getNextPage = useCallback((): string | null => {
-    if (!formJson?.app?.pages || !Array.isArray(formJson.app.pages))
-      return null;
-    const currentPage = formJson.app.pages[currentStepIndex];
-    if (!currentPage) return null;
-
-    // Check for conditional branches first
-    if (currentPage.branches) {
-      for (const branch of currentPage.branches) {
-        const fieldValue = formValues[branch.condition.field];
-        const conditionValue = branch.condition.value;
-        let conditionMet = false;
-
-        switch (branch.condition.operator) {
-          case '==':
-            conditionMet = String(fieldValue) === String(conditionValue);
-            break;
-          case '!=':
-            conditionMet = String(fieldValue) !== String(conditionValue);
-            break;
-          case '>':
-            conditionMet = Number(fieldValue) > Number(conditionValue);
-            break;
-          case '<':
-            conditionMet = Number(fieldValue) < Number(conditionValue);
-            break;
-          case '>=':
-            conditionMet = Number(fieldValue) >= Number(conditionValue);
-            break;
-          case '<=':
-            conditionMet = Number(fieldValue) <= Number(conditionValue);
-            break;
-        }
-
-        if (conditionMet) {
-          return branch.nextPage;
-        }
-      }
-    }
-
-    // If no branch conditions are met, use the nextPage field
-    return currentPage.nextPage || null;
-  }, [formJson, currentStepIndex, formValues]);
-
-  const handleNext = useCallback(() => {
-    setIsSubmitted(true);
-    if (validateForm()) {
-      const currentPage = formJson.app.pages[currentStepIndex];
-
-      // Handle end pages or confirmation pages
-      if (
-        currentPage &&
-        (currentPage.isEndPage === true ||
-          currentPage.isConfirmationPage === true)
-      ) {
-        handleFormSubmit('multistep-form');
-        return;
-      }
-
-      const nextPageId = getNextPage();
-      if (nextPageId) {
-        const nextPageIndex = formJson.app.pages.findIndex(
-          (page) => page.id === nextPageId
-        );
-        if (nextPageIndex !== -1) {
-          setStepHistory((prev) => [...prev, nextPageIndex]);
-          setCurrentStepIndex(nextPageIndex);
-          triggerPageChangeEvent(nextPageIndex, currentStepIndex);
-          setIsSubmitted(false);
-          return;
-        }
-      }
-
-      // If no specific next page is defined, move to the next page in logical sequence
-      const currentLogicalIndex =
-        getLogicalIndexFromArrayIndex(currentStepIndex);
-      const totalLogicalSteps = getLogicalPageCount(logicalPageOrder);
-
-      if (
-        currentLogicalIndex >= 0 &&
-        currentLogicalIndex < totalLogicalSteps - 1
-      ) {
-        const nextLogicalIndex = currentLogicalIndex + 1;
-        const nextArrayIndex = getArrayIndexFromLogicalIndex(nextLogicalIndex);
-
-        if (nextArrayIndex !== -1) {
-          setStepHistory((prev) => [...prev, nextArrayIndex]);
-          setCurrentStepIndex(nextArrayIndex);
-          triggerPageChangeEvent(nextArrayIndex, currentStepIndex);
-          setIsSubmitted(false);
-        } else {
-          handleFormSubmit('multistep-form');
-        }
-      } else {
-        handleFormSubmit('multistep-form');
-      }
-    }
-  }, [
-    formJson,
-    currentStepIndex,
-    validateForm,
-    getNextPage,
-    handleFormSubmit,
-    formValues,
-  ]);
-
-  const handlePrevious = () => {
-    if (stepHistory.length > 1) {
-      const previousIndex = stepHistory[stepHistory.length - 2];
-      setStepHistory((prev) => {
-        const newHistory = [...prev];
-        newHistory.pop(); // Remove current step
-        return newHistory;
-      });
-      setCurrentStepIndex(previousIndex);
-      triggerPageChangeEvent(previousIndex, currentStepIndex);
-    } else {
-      // If no history, try to go to previous logical page
-      const currentLogicalIndex =
-        getLogicalIndexFromArrayIndex(currentStepIndex);
-      if (currentLogicalIndex > 0) {
-        const previousLogicalIndex = currentLogicalIndex - 1;
-        const previousArrayIndex =
-          getArrayIndexFromLogicalIndex(previousLogicalIndex);
-
-        if (previousArrayIndex !== -1) {
-          setStepHistory([previousArrayIndex]);
-          setCurrentStepIndex(previousArrayIndex);
-          triggerPageChangeEvent(previousArrayIndex, currentStepIndex);
-        }
-      }
-    }
-  };
-
-  const handleReset = () => {
-    setFormValues({});
-    setValidationErrors({});
-    setBlurredFields({});
-    setIsSubmitted(false);
-    setCurrentStepIndex(0);
-    triggerPageChangeEvent(0);
-    setStepHistory([0]);
-    setShowThankYouPage(false);
-  };
-
-  const handleThankYouAction = (
-    action: 'restart' | 'custom',
-    customAction?: string
-  ) => {
-    switch (action) {
-      case 'restart':
-        handleReset();
-        break;
-      case 'custom':
-        if (customAction) {
-          console.log('Custom action:', customAction);
-          // Handle custom actions here
-        }
-        break;
-    }
-  };
-
-  const handleButtonClick = (action: string) => {
-    console.log('Button action:', action);
-    // Handle button actions based on the action name
-    switch (action) {
-      case 'reset':
-        handleReset();
-        break;
-      // Add other custom actions as needed
-      default:
-        console.log('Unknown button action:', action);
-    }
-  };
-
-  const isComponentVisible = (
-    visibilityConditions: VisibilityCondition[] | undefined,
-    formData: Record<string, unknown>
-  ): boolean => {
-    if (!visibilityConditions || visibilityConditions.length === 0) return true;
-
-    return visibilityConditions.every((condition) => {
-      const fieldValue = formData[condition.field];
-      const conditionValue = condition.value;
-
-      switch (condition.operator) {
-        case 'equals':
-        case '==':
-          return String(fieldValue) === String(conditionValue);
-        case 'notEquals':
-        case '!=':
-          return String(fieldValue) !== String(conditionValue);
-        case 'greaterThan':
-        case '>':
-          return Number(fieldValue) > Number(conditionValue);
-        case 'lessThan':
-        case '<':
-          return Number(fieldValue) < Number(conditionValue);
-        case '>=':
-          return Number(fieldValue) >= Number(conditionValue);
-        case '<=':
-          return Number(fieldValue) <= Number(conditionValue);
-        default:
-          return true;
-      }
-    });
-  };
-
-  const getCurrentStep = (): { currentStep: number; totalSteps: number } => {
-    // Use logical page ordering instead of array-based indexing
-    const currentPage = formJson?.app?.pages?.[currentStepIndex];
-    if (!currentPage) {
-      return { currentStep: 1, totalSteps: 1 };
-    }
-
-    const logicalPageIndex = getLogicalPageIndex(
-      currentPage.id,
-      logicalPageOrder
-    );
-    const totalLogicalSteps = getLogicalPageCount(logicalPageOrder);
-
-    // Convert to 1-indexed for display
-    const currentStep = logicalPageIndex + 1;
-
-    return { currentStep, totalSteps: totalLogicalSteps };
-  };
-
-  // Helper function to get the array index from logical page order
-  const getArrayIndexFromLogicalIndex = (logicalIndex: number): number => {
-    if (logicalIndex < 0 || logicalIndex >= logicalPageOrder.length) {
-      return -1;
-    }
-    const pageId = logicalPageOrder[logicalIndex].pageId;
-    return formJson?.app?.pages?.findIndex((page) => page.id === pageId) ?? -1;
-  };
-
-  // Helper function to get the logical index from array index
-  const getLogicalIndexFromArrayIndex = (arrayIndex: number): number => {
-    if (arrayIndex < 0 || arrayIndex >= (formJson?.app?.pages?.length ?? 0)) {
-      return -1;
-    }
-    const pageId = formJson?.app?.pages?.[arrayIndex]?.id;
-    if (!pageId) return -1;
-    return getLogicalPageIndex(pageId, logicalPageOrder);
-  };
-
   const renderStepIndicator = (
     currentStep: number,
     totalSteps: number
@@ -1199,21 +307,25 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
           'mt-6 flex justify-between'
         }
       >
-        <button
-          type="button"
-          className={
-            getMergedClasses('previousButton', settings) ||
-            `px-4 py-2 border border-indigo-300 text-indigo-700 rounded-md ${
-              currentStep === 1
-                ? 'opacity-50 cursor-not-allowed'
-                : 'hover:bg-indigo-50'
-            }`
-          }
-          disabled={currentStep === 1}
-          onClick={handlePrevious}
-        >
-          {translationService.translateUI('previousButton')}
-        </button>
+        {allowBackNavigation ? (
+          <button
+            type="button"
+            className={
+              getMergedClasses('previousButton', settings) ||
+              `px-4 py-2 border border-indigo-300 text-indigo-700 rounded-md ${
+                currentStep === 1
+                  ? 'opacity-50 cursor-not-allowed'
+                  : 'hover:bg-indigo-50'
+              }`
+            }
+            disabled={currentStep === 1 || isSubmitting}
+            onClick={handlePrevious}
+          >
+            {translationService.translateUI('previousButton')}
+          </button>
+        ) : (
+          <div />
+        )}
         <button
           type="button"
           className={
@@ -1221,8 +333,12 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
             'px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700'
           }
           onClick={handleNext}
+          disabled={isSubmitting || hasPendingUploads}
+          aria-busy={isSubmitting || hasPendingValidations}
         >
-          {nextButtonText}
+          {isSubmitting
+            ? translationService.translateUI('submittingText')
+            : nextButtonText}
         </button>
       </div>
     );
@@ -1244,29 +360,131 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
         </div>
       );
     }
-
-    const { currentStep, totalSteps } = getCurrentStep();
-
-    // Use the actual array index, not the logical step number
-    const currentPage = formJson.app.pages[currentStepIndex];
-
-    if (!currentPage) {
+
+    const { currentStep, totalSteps } = progress;
+
+    // Use the actual array index, not the logical step number
+    const currentPage = formJson.app.pages[currentStepIndex];
+
+    if (!currentPage) {
+      return (
+        <div
+          className={
+            getMergedClasses('invalidPageIndex', settings) || 'p-4 text-red-500'
+          }
+        >
+          {translationService.translateUI('invalidPageIndex')}
+        </div>
+      );
+    }
+
+    return (
+      <div className="w-full">
+        {renderStepIndicator(currentStep, totalSteps)}
+        {renderPage(currentPage)}
+        {submitError && (
+          <div
+            role="alert"
+            className={
+              getMergedClasses('errorMessage', settings) || 'p-4 text-red-500'
+            }
+          >
+            {submitError}
+          </div>
+        )}
+        {actionMessage && (
+          <div
+            role={actionMessage.type === 'error' ? 'alert' : 'status'}
+            className={
+              actionMessage.type === 'error'
+                ? getMergedClasses('errorMessage', settings) ||
+                  'p-4 text-red-500'
+                : getMergedClasses('actionMessage', settings)
+            }
+          >
+            {actionMessage.text}
+          </div>
+        )}
+        {renderMultiStepControls(currentStep, totalSteps)}
+      </div>
+    );
+  };
+
+  const renderDataSourceStatus = (
+    fieldId: string
+  ): React.ReactElement | null => {
+    const state = getDataSourceState(fieldId);
+    if (state?.status === 'loading') {
+      return (
+        <div
+          role="status"
+          className={getMergedClasses('dataSourceLoading', settings)}
+        >
+          {translationService.translateUI('loadingText')}
+        </div>
+      );
+    }
+    if (state?.status === 'error') {
       return (
         <div
-          className={
-            getMergedClasses('invalidPageIndex', settings) || 'p-4 text-red-500'
-          }
+          role="alert"
+          className={getMergedClasses('dataSourceError', settings)}
         >
-          {translationService.translateUI('invalidPageIndex')}
+          {translationService.translateUI('dataSourceError')}
+          <button
+            type="button"
+            onClick={() => reloadDataSource(fieldId)}
+            disabled={disabled}
+            className={getMergedClasses('dataSourceRetryButton', settings)}
+          >
+            {translationService.translateUI('retryButton')}
+          </button>
         </div>
       );
     }
+    return null;
+  };
+
+  const renderAsyncValidationStatus = (
+    fieldId: string
+  ): React.ReactElement | null => {
+    if (!isValidating(fieldId)) {
+      return null;
+    }
+    return (
+      <div
+        role="status"
+        className={getMergedClasses('asyncValidationPending', settings)}
+      >
+        {translationService.translateUI('validatingText')}
+      </div>
+    );
+  };
+
+  const renderDraftPrompt = (): React.ReactElement | null => {
+    if (!pendingDraft || disabled) {
+      return null;
+    }
 
     return (
-      <div className="w-full">
-        {renderStepIndicator(currentStep, totalSteps)}
-        {renderPage(currentPage)}
-        {renderMultiStepControls(currentStep, totalSteps)}
+      <div className={getMergedClasses('draftPrompt', settings)}>
+        <p className={getMergedClasses('draftPromptText', settings)}>
+          {translationService.translateUI('resumeDraftMessage')}
+        </p>
+        <button
+          type="button"
+          onClick={resumeDraft}
+          className={getMergedClasses('draftResumeButton', settings)}
+        >
+          {translationService.translateUI('resumeDraftButton')}
+        </button>
+        <button
+          type="button"
+          onClick={discardDraft}
+          className={getMergedClasses('draftDiscardButton', settings)}
+        >
+          {translationService.translateUI('discardDraftButton')}
+        </button>
       </div>
     );
   };
@@ -1291,8 +509,28 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
           <div key={formId} className="mb-4 p-4 border rounded">
             <h3 className="font-bold mb-2">Form: {formId}</h3>
             <pre className="bg-gray-100 p-2 rounded text-sm">
-              {JSON.stringify(data, null, 2)}
+              {JSON.stringify(
+                data,
+                // Signatures are shown as images below the data
+                (_key, value) =>
+                  isSignatureValue(value) ? '[signature]' : value,
+                2
+              )}
             </pre>
+            {Object.entries(data)
+              .filter(([, value]) => isSignatureValue(value))
+              .map(([fieldId, value]) => (
+                <figure key={fieldId} className="mt-2">
+                  <img
+                    src={value as string}
+                    alt={fieldId}
+                    className="max-h-24 max-w-full bg-white border rounded"
+                  />
+                  <figcaption className="text-sm text-gray-500">
+                    {fieldId}
+                  </figcaption>
+                </figure>
+              ))}
           </div>
         ))}
       </div>
@@ -1302,10 +540,6 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
   // Display form submissions if any exist
   const hasSubmissions = Object.keys(formSubmissions).length > 0;
 
-  const shouldShowError = (fieldId: string): boolean => {
-    return isSubmitted || blurredFields[fieldId] === true;
-  };
-
   const getPrefixedId = (id: string): string => {
     return prefixId ? `${prefixId}-${id}` : id;
   };
@@ -1327,7 +561,15 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
       'slider-range',
       'date',
       'time',
+      'datetime',
+      'date-range',
       'number',
+      'file',
+      'signature',
+      'matrix',
+      'rating',
+      'nps',
+      'ranking',
     ];
 
     const extractComponents = (
@@ -1342,11 +584,28 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
         // Skip confirmation components to avoid self-reference
         if (component.type !== 'confirmation') {
           // Only add field components (not containers, buttons, etc.)
-          if (fieldTypes.includes(component.type)) {
+          const customField = resolveCustomField(component.type);
+          const isSummaryField = customField
+            ? customField.includeInSummary !== false
+            : fieldTypes.includes(component.type);
+          if (isSummaryField) {
             // Only add if we haven't processed this component ID before
             if (!processedIds.has(component.id)) {
               // Create a copy of the component with the full path
               const componentWithPath = { ...component, fullPath: currentPath };
+              // Show labels of options loaded from a data source
+              const dataSourceState = getDataSourceState(component.id);
+              if (dataSourceState?.options.length) {
+                componentWithPath.options = dataSourceState.options.map(
+                  (option) =>
+                    typeof option === 'string'
+                      ? { label: option, value: option }
+                      : {
+                          label: option.label ?? option.value ?? '',
+                          value: option.value ?? '',
+                        }
+                );
+              }
               allComponents.push(componentWithPath);
               processedIds.add(component.id);
             }
@@ -1387,13 +646,18 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
   };
 
   // Helper function to format values for display in template variables
-  const formatValueForDisplay = (value: unknown): string => {
+  const formatValueForDisplay = (value: unknown, fieldId: string): string => {
+    const dateKind = getDateFieldKind(componentTypes[fieldId] ?? '');
     if (Array.isArray(value)) {
       // Handle array values - format as a readable list
       if (value.length === 0) {
         return 'None';
       }
 
+      if (isFileReferenceList(value)) {
+        return value.map((file) => file.name).join(', ');
+      }
+
       // Check if it's an array of objects (like array field items)
       if (
         value.length > 0 &&
@@ -1417,7 +681,9 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
       }
 
       // For simple arrays, join with commas
-      return value.join(', ');
+      return value
+        .map((item) => formatDisplayValue(item, locale, dateKind))
+        .join(', ');
     }
 
     if (typeof value === 'object' && value !== null) {
@@ -1431,8 +697,8 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
       return 'Object';
     }
 
-    // For primitive values, convert to string
-    return String(value);
+    // For primitive values, format numbers and dates for the locale
+    return formatDisplayValue(value, locale, dateKind);
   };
 
   // Helper function to replace template variables in text
@@ -1443,6 +709,16 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
     return text.replace(/\{\{([^}]+)\}\}/g, (match, variable) => {
       const varName = variable.trim();
 
+      // Functions like format(total, 'currency', 'EUR') use the template processor
+      if (/^\w+\(.*\)$/.test(varName)) {
+        return expressionEngine.processTemplate(
+          match,
+          values,
+          locale,
+          componentTypes
+        );
+      }
+
       // Handle nested variable paths like "applicant.fullName"
       if (varName.includes('.')) {
         const keys = varName.split('.');
@@ -1458,14 +734,14 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
         }
 
         if (!isEmptyValue(value)) {
-          return formatValueForDisplay(value);
+          return formatValueForDisplay(value, keys[keys.length - 1]);
         }
       }
 
       // Try direct field name match
       let directValue = values[varName];
       if (!isEmptyValue(directValue)) {
-        return formatValueForDisplay(directValue);
+        return formatValueForDisplay(directValue, varName);
       }
 
       // Try common field name variations
@@ -1479,7 +755,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
       for (const variation of variations) {
         const value = values[variation];
         if (!isEmptyValue(value)) {
-          return formatValueForDisplay(value);
+          return formatValueForDisplay(value, variation);
         }
       }
 
@@ -1491,7 +767,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
       );
 
       if (matchingKey && !isEmptyValue(values[matchingKey])) {
-        return formatValueForDisplay(values[matchingKey]);
+        return formatValueForDisplay(values[matchingKey], matchingKey);
       }
 
       // Return a dash for missing/empty fields
@@ -1524,7 +800,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
       parentId?: string
     ): React.ReactElement => {
       // Check visibility first
-      if (!isComponentVisible(component.visibilityConditions, formValues)) {
+      if (!isComponentVisible(component, formValues)) {
         return <></>;
       }
 
@@ -1575,7 +851,10 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
 
       // Handle translated options for select/radio components
       if (
-        (type === 'select' || type === 'radio') &&
+        (type === 'select' ||
+          type === 'radio' ||
+          type === 'matrix' ||
+          type === 'ranking') &&
         props?.options &&
         Array.isArray(props.options)
       ) {
@@ -1588,10 +867,79 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
               `props.options.${index}.label`,
               option.label
             ),
+            ...(option.group !== undefined && {
+              group: translationService.translateComponent(
+                id,
+                currentStepIndex,
+                `props.options.${index}.group`,
+                option.group
+              ),
+            }),
+            ...(option.description !== undefined && {
+              description: translationService.translateComponent(
+                id,
+                currentStepIndex,
+                `props.options.${index}.description`,
+                option.description
+              ),
+            }),
+          })
+        );
+      }
+      if (props?.otherLabel !== undefined) {
+        translatedProps.otherLabel = translationService.translateComponent(
+          id,
+          currentStepIndex,
+          'props.otherLabel',
+          props.otherLabel
+        );
+      }
+
+      // Handle translated labels of the ends of rating and NPS scales
+      if (props?.lowLabel !== undefined) {
+        translatedProps.lowLabel = translationService.translateComponent(
+          id,
+          currentStepIndex,
+          'props.lowLabel',
+          props.lowLabel
+        );
+      }
+      if (props?.highLabel !== undefined) {
+        translatedProps.highLabel = translationService.translateComponent(
+          id,
+          currentStepIndex,
+          'props.highLabel',
+          props.highLabel
+        );
+      }
+
+      // Handle translated statements of matrix components
+      if (type === 'matrix' && Array.isArray(props?.statements)) {
+        translatedProps.statements = props.statements.map(
+          (statement, index) => ({
+            ...statement,
+            label: translationService.translateComponent(
+              id,
+              currentStepIndex,
+              `props.statements.${index}.label`,
+              statement.label
+            ),
           })
         );
       }
 
+      // Options loaded from a data source replace the static options
+      const dataSourceState = props?.dataSource
+        ? getDataSourceState(id)
+        : undefined;
+      if (
+        dataSourceState &&
+        (type === 'select' || type === 'radio' || type === 'checkbox')
+      ) {
+        translatedProps.options = dataSourceState.options;
+      }
+      const isDataSourceLoading = dataSourceState?.status === 'loading';
+
       // Handle translated validation messages
       const translatedValidation = componentValidation
         ? {
@@ -1628,8 +976,8 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
                 dependencies={translatedProps.expression.dependencies}
                 context={{
                   values: formValues,
-                  validation: validation,
-                  required: required,
+                  validation: emptyFieldFlags,
+                  required: emptyFieldFlags,
                   errors: Object.keys(validationErrors).reduce((acc, key) => {
                     acc[key] = validationErrors[key]?.[0] || undefined;
                     return acc;
@@ -1639,6 +987,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
               >
                 <TextFormField
                   fieldId={prefixedFieldId}
+                  locale={locale}
                   label={translatedLabel}
                   props={processPropsWithTemplates(translatedProps)}
                   classes={getFieldClasses(settings)}
@@ -1652,9 +1001,11 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
             return (
               <TextFormField
                 fieldId={prefixedFieldId}
+                locale={locale}
                 label={translatedLabel}
                 props={translatedProps}
                 formValues={formValues}
+                fieldTypes={componentTypes}
                 classes={getFieldClasses(settings)}
                 colorClasses={settings.colorClasses}
                 styleClasses={settings.styleClasses}
@@ -1664,7 +1015,192 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
 
         case 'input':
           return (
-            <FormInputField
+            <>
+              <FormInputField
+                fieldId={prefixedFieldId}
+                locale={locale}
+                label={translatedLabel}
+                value={
+                  typeof formValues[fieldId] === 'string'
+                    ? (formValues[fieldId] as string)
+                    : ''
+                }
+                onChange={(value) => handleInputChange(fieldId, value)}
+                onBlur={() => handleBlur(fieldId)}
+                validation={translatedValidation}
+                expression={translatedProps?.expression}
+                props={{
+                  ...processPropsWithTemplates(translatedProps),
+                }}
+                showError={showError}
+                validationErrors={validationErrors[fieldId] || []}
+                disabled={disabled}
+                classes={getFieldClasses(settings)}
+                colorClasses={settings.colorClasses}
+                styleClasses={settings.styleClasses}
+              />
+              {renderAsyncValidationStatus(fieldId)}
+            </>
+          );
+
+        case 'textarea':
+          return (
+            <>
+              <FormTextareaField
+                fieldId={prefixedFieldId}
+                label={translatedLabel}
+                value={
+                  typeof formValues[fieldId] === 'string'
+                    ? (formValues[fieldId] as string)
+                    : ''
+                }
+                onChange={(value) => handleInputChange(fieldId, value)}
+                onBlur={() => handleBlur(fieldId)}
+                validation={translatedValidation}
+                expression={translatedProps?.expression}
+                props={{
+                  ...processPropsWithTemplates(translatedProps),
+                }}
+                showError={showError}
+                validationErrors={validationErrors[fieldId] || []}
+                disabled={disabled}
+                classes={getFieldClasses(settings)}
+                colorClasses={settings.colorClasses}
+                styleClasses={settings.styleClasses}
+              />
+              {renderAsyncValidationStatus(fieldId)}
+            </>
+          );
+
+        case 'radio':
+          return (
+            <>
+              <FormRadioField
+                fieldId={prefixedFieldId}
+                label={translatedLabel}
+                value={
+                  typeof formValues[fieldId] === 'string'
+                    ? (formValues[fieldId] as string)
+                    : ''
+                }
+                onChange={(value) => handleInputChange(fieldId, value)}
+                validation={translatedValidation}
+                props={processPropsWithTemplates(translatedProps)}
+                showError={showError}
+                validationErrors={validationErrors[fieldId] || []}
+                disabled={disabled || isDataSourceLoading}
+                classes={getFieldClasses(settings)}
+                colorClasses={settings.colorClasses}
+                styleClasses={settings.styleClasses}
+              />
+              {renderDataSourceStatus(id)}
+            </>
+          );
+
+        case 'checkbox':
+          return (
+            <>
+              <FormCheckboxField
+                fieldId={prefixedFieldId}
+                label={translatedLabel}
+                value={formValues[fieldId] as boolean | string[]}
+                onChange={(value) => handleInputChange(fieldId, value)}
+                onBlur={() => handleBlur(fieldId)}
+                validation={translatedValidation}
+                props={processPropsWithTemplates(translatedProps)}
+                showError={showError}
+                validationErrors={validationErrors[fieldId] || []}
+                disabled={disabled || isDataSourceLoading}
+                classes={getFieldClasses(settings)}
+                colorClasses={settings.colorClasses}
+                styleClasses={settings.styleClasses}
+              />
+              {renderDataSourceStatus(id)}
+            </>
+          );
+
+        case 'select':
+          if (isComboboxSelect(props)) {
+            return (
+              <>
+                <FormComboboxField
+                  fieldId={prefixedFieldId}
+                  label={translatedLabel}
+                  value={
+                    props?.multiple
+                      ? getSelectedValues(formValues[fieldId])
+                      : typeof formValues[fieldId] === 'string'
+                      ? (formValues[fieldId] as string)
+                      : ''
+                  }
+                  onChange={(value) => handleInputChange(fieldId, value)}
+                  onBlur={() => handleBlur(fieldId)}
+                  validation={translatedValidation}
+                  props={processPropsWithTemplates(translatedProps)}
+                  showError={showError}
+                  validationErrors={validationErrors[fieldId] || []}
+                  disabled={disabled || isDataSourceLoading}
+                  placeholderText={translationService.translateUI(
+                    'searchPlaceholder'
+                  )}
+                  noOptionsText={translationService.translateUI(
+                    'noOptionsFound'
+                  )}
+                  otherOptionText={translationService.translateUI(
+                    'otherOption'
+                  )}
+                  otherInputLabel={translationService.translateUI(
+                    'otherInputLabel'
+                  )}
+                  removeButtonText={translationService.translateUI(
+                    'removeSelectionButton'
+                  )}
+                  classes={getFieldClasses(settings)}
+                  colorClasses={settings.colorClasses}
+                  styleClasses={settings.styleClasses}
+                />
+                {renderDataSourceStatus(id)}
+              </>
+            );
+          }
+          return (
+            <>
+              <FormSelectField
+                fieldId={prefixedFieldId}
+                label={translatedLabel}
+                value={
+                  typeof formValues[fieldId] === 'string'
+                    ? (formValues[fieldId] as string)
+                    : ''
+                }
+                onChange={(value) => handleInputChange(fieldId, value)}
+                onBlur={() => handleBlur(fieldId)}
+                validation={translatedValidation}
+                props={processPropsWithTemplates(translatedProps)}
+                showError={showError}
+                validationErrors={validationErrors[fieldId] || []}
+                disabled={disabled || isDataSourceLoading}
+                placeholderText={translationService.translateUI(
+                  'selectPlaceholder'
+                )}
+                otherOptionText={translationService.translateUI('otherOption')}
+                otherInputLabel={translationService.translateUI(
+                  'otherInputLabel'
+                )}
+                classes={getFieldClasses(settings)}
+                colorClasses={settings.colorClasses}
+                styleClasses={settings.styleClasses}
+              />
+              {renderDataSourceStatus(id)}
+            </>
+          );
+
+        case 'date':
+        case 'time':
+        case 'datetime': {
+          const { min, max } = getDateInputLimits(component, formValues);
+          return (
+            <FormDateField
               fieldId={prefixedFieldId}
               label={translatedLabel}
               value={
@@ -1675,10 +1211,11 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
               onChange={(value) => handleInputChange(fieldId, value)}
               onBlur={() => handleBlur(fieldId)}
               validation={translatedValidation}
-              expression={translatedProps?.expression}
-              props={{
-                ...processPropsWithTemplates(translatedProps),
-              }}
+              props={processPropsWithTemplates(translatedProps)}
+              variant={getDateFieldKind(type)}
+              min={min}
+              max={max}
+              locale={locale}
               showError={showError}
               validationErrors={validationErrors[fieldId] || []}
               disabled={disabled}
@@ -1687,36 +1224,82 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
               styleClasses={settings.styleClasses}
             />
           );
+        }
 
-        case 'textarea':
+        case 'date-range': {
+          const { min, max } = getDateInputLimits(component, formValues);
           return (
-            <FormTextareaField
+            <FormDateRangeField
               fieldId={prefixedFieldId}
               label={translatedLabel}
               value={
-                typeof formValues[fieldId] === 'string'
-                  ? (formValues[fieldId] as string)
-                  : ''
+                isDateRangeValue(formValues[fieldId])
+                  ? (formValues[fieldId] as DateRangeValue)
+                  : { start: '', end: '' }
               }
               onChange={(value) => handleInputChange(fieldId, value)}
               onBlur={() => handleBlur(fieldId)}
               validation={translatedValidation}
-              expression={translatedProps?.expression}
-              props={{
-                ...processPropsWithTemplates(translatedProps),
-              }}
+              props={processPropsWithTemplates(translatedProps)}
+              min={min}
+              max={max}
+              locale={locale}
               showError={showError}
               validationErrors={validationErrors[fieldId] || []}
               disabled={disabled}
+              startLabel={translationService.translateUI('startDateLabel')}
+              endLabel={translationService.translateUI('endDateLabel')}
               classes={getFieldClasses(settings)}
               colorClasses={settings.colorClasses}
               styleClasses={settings.styleClasses}
             />
           );
+        }
+
+        case 'file':
+          return (
+            <>
+              <FormFileField
+                fieldId={prefixedFieldId}
+                label={translatedLabel}
+                value={
+                  isFileReferenceList(formValues[fieldId])
+                    ? (formValues[fieldId] as FileReference[])
+                    : []
+                }
+                onChange={(files) =>
+                  handleFilesSelected(component, fieldId, files)
+                }
+                onRemove={(index) => handleFileRemove(fieldId, index)}
+                onBlur={() => handleBlur(fieldId)}
+                validation={translatedValidation}
+                props={processPropsWithTemplates(translatedProps)}
+                showError={showError}
+                validationErrors={validationErrors[fieldId] || []}
+                disabled={disabled}
+                isUploading={isUploading(fieldId)}
+                uploadingText={translationService.translateUI('uploadingText')}
+                removeButtonText={translationService.translateUI(
+                  'removeItemButton'
+                )}
+                classes={getFieldClasses(settings)}
+                colorClasses={settings.colorClasses}
+                styleClasses={settings.styleClasses}
+              />
+              {getUploadError(fieldId) && (
+                <div
+                  role="alert"
+                  className={getMergedClasses('errorMessage', settings)}
+                >
+                  {translationService.translateUI('uploadError')}
+                </div>
+              )}
+            </>
+          );
 
-        case 'radio':
+        case 'signature':
           return (
-            <FormRadioField
+            <FormSignatureField
               fieldId={prefixedFieldId}
               label={translatedLabel}
               value={
@@ -1725,23 +1308,43 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
                   : ''
               }
               onChange={(value) => handleInputChange(fieldId, value)}
+              onBlur={() => handleBlur(fieldId)}
               validation={translatedValidation}
               props={processPropsWithTemplates(translatedProps)}
               showError={showError}
               validationErrors={validationErrors[fieldId] || []}
               disabled={disabled}
+              clearButtonText={translationService.translateUI(
+                'clearSignatureButton'
+              )}
+              undoButtonText={translationService.translateUI(
+                'undoSignatureButton'
+              )}
+              typeSignatureButtonText={translationService.translateUI(
+                'typeSignatureButton'
+              )}
+              drawSignatureButtonText={translationService.translateUI(
+                'drawSignatureButton'
+              )}
+              signaturePadLabel={translationService.translateUI(
+                'signaturePadLabel'
+              )}
               classes={getFieldClasses(settings)}
               colorClasses={settings.colorClasses}
               styleClasses={settings.styleClasses}
             />
           );
 
-        case 'checkbox':
+        case 'matrix':
           return (
-            <FormCheckboxField
+            <FormMatrixField
               fieldId={prefixedFieldId}
               label={translatedLabel}
-              value={formValues[fieldId] as boolean | string[]}
+              value={
+                isMatrixValue(formValues[fieldId])
+                  ? (formValues[fieldId] as MatrixValue)
+                  : {}
+              }
               onChange={(value) => handleInputChange(fieldId, value)}
               onBlur={() => handleBlur(fieldId)}
               validation={translatedValidation}
@@ -1755,38 +1358,63 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
             />
           );
 
-        case 'select':
+        case 'rating':
           return (
-            <FormSelectField
+            <FormRatingField
               fieldId={prefixedFieldId}
               label={translatedLabel}
               value={
-                typeof formValues[fieldId] === 'string'
-                  ? (formValues[fieldId] as string)
-                  : ''
+                isScoreValue(formValues[fieldId])
+                  ? (formValues[fieldId] as number)
+                  : null
               }
               onChange={(value) => handleInputChange(fieldId, value)}
               onBlur={() => handleBlur(fieldId)}
               validation={translatedValidation}
+              max={getRatingMax(component)}
               props={processPropsWithTemplates(translatedProps)}
               showError={showError}
               validationErrors={validationErrors[fieldId] || []}
               disabled={disabled}
+              valueLabel={translationService.translateUI('ratingValueLabel')}
               classes={getFieldClasses(settings)}
               colorClasses={settings.colorClasses}
               styleClasses={settings.styleClasses}
             />
           );
 
-        case 'date':
+        case 'nps':
           return (
-            <FormDateField
+            <FormNpsField
               fieldId={prefixedFieldId}
               label={translatedLabel}
               value={
-                typeof formValues[fieldId] === 'string'
-                  ? (formValues[fieldId] as string)
-                  : ''
+                isScoreValue(formValues[fieldId])
+                  ? (formValues[fieldId] as number)
+                  : null
+              }
+              onChange={(value) => handleInputChange(fieldId, value)}
+              onBlur={() => handleBlur(fieldId)}
+              validation={translatedValidation}
+              props={processPropsWithTemplates(translatedProps)}
+              showError={showError}
+              validationErrors={validationErrors[fieldId] || []}
+              disabled={disabled}
+              classes={getFieldClasses(settings)}
+              colorClasses={settings.colorClasses}
+              styleClasses={settings.styleClasses}
+            />
+          );
+
+        case 'ranking':
+          return (
+            <FormRankingField
+              fieldId={prefixedFieldId}
+              label={translatedLabel}
+              value={
+                isRankingValue(formValues[fieldId])
+                  ? (formValues[fieldId] as string[])
+                  : []
               }
               onChange={(value) => handleInputChange(fieldId, value)}
               onBlur={() => handleBlur(fieldId)}
@@ -1795,6 +1423,22 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
               showError={showError}
               validationErrors={validationErrors[fieldId] || []}
               disabled={disabled}
+              addButtonText={translationService.translateUI(
+                'addToRankingButton'
+              )}
+              removeButtonText={translationService.translateUI(
+                'removeFromRankingButton'
+              )}
+              moveUpButtonText={translationService.translateUI('moveUpButton')}
+              moveDownButtonText={translationService.translateUI(
+                'moveDownButton'
+              )}
+              unrankedOptionsLabel={translationService.translateUI(
+                'unrankedOptionsLabel'
+              )}
+              positionMessage={translationService.translateUI(
+                'rankingPositionMessage'
+              )}
               classes={getFieldClasses(settings)}
               colorClasses={settings.colorClasses}
               styleClasses={settings.styleClasses}
@@ -1819,7 +1463,13 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
                 disabled ? 'cursor-not-allowed opacity-50' : ''
               }`}
               onClick={
-                props?.onClick
+                component.eventHandlers?.onClick
+                  ? () =>
+                      void runEventActions(
+                        component.eventHandlers?.onClick,
+                        fieldId
+                      )
+                  : props?.onClick
                   ? () => handleButtonClick(props.onClick as string)
                   : undefined
               }
@@ -1835,7 +1485,15 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
               fieldId={prefixedFieldId}
               label={label}
               children={component.children}
-              renderComponent={renderComponent}
+              renderComponent={(child, parentId) => (
+                <div
+                  onFocus={getFocusHandler(
+                    parentId ? `${parentId}.${child.id}` : child.id
+                  )}
+                >
+                  {renderComponent(child, parentId)}
+                </div>
+              )}
               classes={getFieldClasses(settings)}
               colorClasses={settings.colorClasses}
               styleClasses={settings.styleClasses}
@@ -1855,7 +1513,12 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
               >
                 {Array.isArray(component.children) &&
                   component.children.map((child, index) => (
-                    <div key={index}>{renderComponent(child, fieldId)}</div>
+                    <div
+                      key={index}
+                      onFocus={getFocusHandler(`${fieldId}.${child.id}`)}
+                    >
+                      {renderComponent(child, fieldId)}
+                    </div>
                   ))}
                 {/* Remove Submit and Reset buttons - Next button handles submission */}
               </form>
@@ -1936,8 +1599,13 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
           return (
             <FormConfirmationField
               fieldId={prefixedFieldId}
+              locale={locale}
               label={label}
-              formValues={formValues}
+              formValues={applyHiddenFieldPolicy(
+                formJson,
+                formValues,
+                'submit'
+              )}
               formComponents={getAllFormComponents()}
               props={processPropsWithTemplates(props)}
               classes={getFieldClasses(settings)}
@@ -1977,7 +1645,31 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
             />
           );
 
-        default:
+        default: {
+          const customField = resolveCustomField(type);
+          if (customField) {
+            const CustomField = customField.component;
+            return (
+              <CustomField
+                fieldId={prefixedFieldId}
+                label={translatedLabel}
+                value={formValues[fieldId]}
+                onChange={(value) => handleInputChange(fieldId, value)}
+                onBlur={() => handleBlur(fieldId)}
+                validation={translatedValidation}
+                props={processPropsWithTemplates(translatedProps)}
+                showError={showError}
+                validationErrors={validationErrors[fieldId] || []}
+                disabled={disabled}
+                classes={getFieldClasses(settings)}
+                colorClasses={settings.colorClasses}
+                styleClasses={settings.styleClasses}
+                component={component}
+                formValues={formValues}
+              />
+            );
+          }
+
           return (
             <div
               className={
@@ -1988,6 +1680,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
               Unsupported component type: {type}
             </div>
           );
+        }
       }
     },
     [
@@ -2000,9 +1693,15 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
       prefixId,
       handleInputChange,
       handleBlur,
+      handleFocus,
       processPropsWithTemplates,
       shouldShowError,
       getPrefixedId,
+      fieldRegistry,
+      getDataSourceState,
+      isUploading,
+      getUploadError,
+      componentTypes,
     ]
   );
 
@@ -2081,6 +1780,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
         return (
           <FormInputField
             fieldId={prefixedFieldId}
+            locale={locale}
             label={translatedLabel}
             value={typeof currentValue === 'string' ? currentValue : ''}
             onChange={(value) =>
@@ -2241,7 +1941,34 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
           />
         );
 
-      default:
+      default: {
+        const customField = resolveCustomField(comp.type);
+        if (customField) {
+          const CustomField = customField.component;
+          return (
+            <CustomField
+              fieldId={prefixedFieldId}
+              label={translatedLabel}
+              value={currentValue}
+              onChange={(value) =>
+                handleArrayItemChange(arrayFieldId, itemIndex, comp.id, value)
+              }
+              onBlur={() => handleBlur(fieldId)}
+              validation={translatedValidation}
+              props={processPropsWithTemplates(translatedProps)}
+              showError={showError}
+              validationErrors={validationErrors[fieldId] || []}
+              disabled={disabled}
+              classes={getFieldClasses(settings)}
+              colorClasses={settings.colorClasses}
+              styleClasses={settings.styleClasses}
+              component={comp}
+              formValues={itemValue}
+              isArrayItem={true}
+            />
+          );
+        }
+
         return (
           <div
             className={
@@ -2252,6 +1979,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
             Unsupported array item component type: {comp.type}
           </div>
         );
+      }
     }
   };
 
@@ -2264,21 +1992,9 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
     const showError =
       shouldShowError(fieldId) && validationErrors[fieldId]?.length > 0;
 
-    const handleAddItem = () => {
-      const newItem: Record<string, unknown> = {};
-      component.arrayItems?.forEach((arrayItem) => {
-        arrayItem.components.forEach((comp) => {
-          newItem[comp.id] = undefined;
-        });
-      });
-      const newItems = [...items, newItem];
-      handleInputChange(fieldId, newItems);
-    };
+    const handleAddItem = () => addArrayItem(component, fieldId);
 
-    const handleRemoveItem = (index: number) => {
-      const newItems = items.filter((_, i) => i !== index);
-      handleInputChange(fieldId, newItems);
-    };
+    const handleRemoveItem = (index: number) => removeArrayItem(fieldId, index);
 
     return (
       <div className="mb-4">
@@ -2325,7 +2041,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
               {component.props.helperText}
             </p>
           )}
-        {items.map((_, index) => (
+        {items.map((item, index) => (
           <div
             key={index}
             className={
@@ -2336,16 +2052,23 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
             <div className="flex-1">
               {component.arrayItems?.map((arrayItem) => (
                 <div key={arrayItem.id} className="mb-2">
-                  {arrayItem.components.map((comp) => (
-                    <div
-                      key={comp.id}
-                      className={
-                        getMergedClasses('arrayItemField', settings) || 'mb-2'
-                      }
-                    >
-                      {renderArrayItemComponent(comp, fieldId, index)}
-                    </div>
-                  ))}
+                  {arrayItem.components
+                    .filter((comp) =>
+                      isComponentVisible(comp, { ...formValues, ...item })
+                    )
+                    .map((comp) => (
+                      <div
+                        key={comp.id}
+                        className={
+                          getMergedClasses('arrayItemField', settings) || 'mb-2'
+                        }
+                        onFocus={getFocusHandler(
+                          `${fieldId}[${index}].${comp.id}`
+                        )}
+                      >
+                        {renderArrayItemComponent(comp, fieldId, index)}
+                      </div>
+                    ))}
                 </div>
               ))}
             </div>
@@ -2514,7 +2237,9 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
         <div className={`${page.layout ? `grid ${layoutClass}` : ''}`}>
           {Array.isArray(page.components) &&
             page.components.map((component, index) => (
-              <div key={index}>{renderComponent(component)}</div>
+              <div key={index} onFocus={getFocusHandler(component.id)}>
+                {renderComponent(component)}
+              </div>
             ))}
         </div>
       </div>
@@ -2561,8 +2286,8 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
   return (
     <ExpressionContextProvider
       formValues={formValues}
-      validation={validation}
-      required={required}
+      validation={emptyFieldFlags}
+      required={emptyFieldFlags}
       errors={Object.fromEntries(
         Object.entries(validationErrors).map(([key, value]) => [
           key,
@@ -2570,8 +2295,8 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
         ])
       )}
       metadata={{
-        currentStep: getCurrentStep().currentStep,
-        totalSteps: getCurrentStep().totalSteps,
+        currentStep: progress.currentStep,
+        totalSteps: progress.totalSteps,
         isSubmitted,
         disabled,
       }}
@@ -2618,12 +2343,13 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
                     }
                   >
                     {translationService.translateUI('multiPageInfo', {
-                      pageCount: getLogicalPageCount(logicalPageOrder),
+                      pageCount,
                     })}
                   </div>
                 )}
             </div>
 
+            {renderDraftPrompt()}
             <div className="space-y-8">{renderMultiStepForm()}</div>
 
             {hasSubmissions && !disabled && settings.showFormSubmissions && (
@@ -2657,3 +2383,9 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
     </ExpressionContextProvider>
   );
 };
+
+/**
+ * Renders a form definition. The ref gives the host application access to
+ * FormRendererHandle, e.g. to prefill values or to validate a page.
+ */
+export const FormRenderer = forwardRef(FormRendererWithRef);
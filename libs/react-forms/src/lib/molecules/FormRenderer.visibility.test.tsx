@@ -0,0 +1,151 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi } from 'vitest';
+import { FormRenderer } from './FormRenderer';
+import { FormDefinition } from '../interfaces/form-interfaces';
+
+const surveyForm: FormDefinition = {
+  app: {
+    title: 'Survey',
+    pages: [
+      {
+        id: 'profile',
+        title: 'Profile',
+        route: '/profile',
+        components: [
+          { type: 'input', id: 'role', label: 'Role' },
+          { type: 'input', id: 'team', label: 'Team' },
+          {
+            type: 'section',
+            id: 'management',
+            label: 'Management',
+            visibilityConditions: [
+              {
+                anyOf: [
+                  { field: 'role', operator: 'in', value: ['lead', 'manager'] },
+                  { field: 'team', operator: 'matches', value: '^board' },
+                ],
+              },
+            ],
+            children: [
+              {
+                type: 'input',
+                id: 'reports',
+                label: 'Direct reports',
+                validation: { required: true },
+              },
+            ],
+          },
+        ],
+      },
+      {
+        id: 'team-details',
+        title: 'Team details',
+        route: '/team-details',
+        visibilityConditions: [{ field: 'team', operator: 'isNotEmpty' }],
+        components: [{ type: 'input', id: 'teamSize', label: 'Team size' }],
+      },
+      {
+        id: 'finish',
+        title: 'Finish',
+        route: '/finish',
+        isEndPage: true,
+        components: [{ type: 'input', id: 'remarks', label: 'Remarks' }],
+      },
+    ],
+  },
+};
+
+const changeValue = (label: string, value: string) => {
+  fireEvent.change(screen.getByLabelText(label), { target: { value } });
+};
+
+describe('FormRenderer visibility', () => {
+  it('should show sections when one of the anyOf rules matches', () => {
+    render(<FormRenderer formJson={surveyForm} />);
+
+    expect(screen.queryByLabelText(/Direct reports/)).not.toBeInTheDocument();
+
+    changeValue('Role', 'manager');
+    expect(screen.getByLabelText(/Direct reports/)).toBeInTheDocument();
+
+    changeValue('Role', 'developer');
+    changeValue('Team', 'board members');
+    expect(screen.getByLabelText(/Direct reports/)).toBeInTheDocument();
+  });
+
+  it('should not validate hidden fields', () => {
+    render(<FormRenderer formJson={surveyForm} />);
+
+    changeValue('Team', 'Platform');
+    fireEvent.click(screen.getByText('Next'));
+
+    expect(screen.getByText('Team details')).toBeInTheDocument();
+  });
+
+  it('should skip hidden pages during navigation', () => {
+    const onSubmit = vi.fn();
+    render(<FormRenderer formJson={surveyForm} onSubmit={onSubmit} />);
+
+    changeValue('Role', 'developer');
+    fireEvent.click(screen.getByText('Next'));
+
+    expect(screen.getByText('Finish')).toBeInTheDocument();
+    expect(screen.queryByText('Team details')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Previous'));
+    expect(screen.getByLabelText('Role')).toHaveValue('developer');
+  });
+
+  it('should evaluate conditions of array children against the item', () => {
+    render(
+      <FormRenderer
+        formJson={{
+          app: {
+            title: 'Contacts',
+            pages: [
+              {
+                id: 'contacts',
+                title: 'Contacts',
+                route: '/contacts',
+                components: [
+                  {
+                    type: 'array',
+                    id: 'contacts',
+                    label: 'Contacts',
+                    arrayItems: [
+                      {
+                        id: 'contact',
+                        components: [
+                          { type: 'input', id: 'channel', label: 'Channel' },
+                          {
+                            type: 'input',
+                            id: 'phone',
+                            label: 'Phone',
+                            visibilityConditions: [
+                              {
+                                field: 'channel',
+                                operator: '==',
+                                value: 'phone',
+                              },
+                            ],
+                          },
+                        ],
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        }}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Add Item'));
+    expect(screen.queryByLabelText('Phone')).not.toBeInTheDocument();
+
+    changeValue('Channel', 'phone');
+    expect(screen.getByLabelText('Phone')).toBeInTheDocument();
+  });
+});
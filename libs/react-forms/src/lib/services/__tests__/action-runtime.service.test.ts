@@ -0,0 +1,130 @@
+import { vi } from 'vitest';
+import {
+  actionRegistry,
+  registerAction,
+  runActions,
+  toActionList,
+} from '../action-runtime.service';
+import { ActionContext } from '../../interfaces/action-interfaces';
+import { FormValues } from '../../interfaces/form-interfaces';
+
+const createContext = (initialValues: FormValues = {}) => {
+  let values = initialValues;
+  const context: ActionContext = {
+    getValues: () => values,
+    setValue: vi.fn((fieldId: string, value: unknown) => {
+      values = { ...values, [fieldId]: value };
+    }),
+    navigate: vi.fn(() => true),
+    showMessage: vi.fn(),
+    validatePage: vi.fn(() => true),
+    submit: vi.fn(() => Promise.resolve()),
+    reset: vi.fn(),
+    loadDataSource: vi.fn(() => Promise.resolve({ user: { city: 'Utrecht' } })),
+  };
+  return context;
+};
+
+describe('Action runtime', () => {
+  afterEach(() => {
+    actionRegistry.clear();
+  });
+
+  it('should normalize event handlers to a list', () => {
+    expect(toActionList(undefined)).toEqual([]);
+    expect(toActionList({ type: 'submit' })).toEqual([{ type: 'submit' }]);
+  });
+
+  it('should let later actions see values set by earlier actions', async () => {
+    const context = createContext({ price: 10, quantity: 3 });
+
+    const completed = await runActions(
+      [
+        { type: 'setValue', field: 'total', expression: 'price * quantity' },
+        { type: 'setValue', field: 'copy', value: '{{total}}' },
+        { type: 'showMessage', message: 'Total: {{total}}' },
+      ],
+      context
+    );
+
+    expect(completed).toBe(true);
+    expect(context.getValues()).toEqual(
+      expect.objectContaining({ total: 30, copy: 30 })
+    );
+    expect(context.showMessage).toHaveBeenCalledWith('Total: 30', undefined);
+  });
+
+  it('should stop when validatePage fails and skip actions whose condition is false', async () => {
+    const context = createContext({ age: 16 });
+    vi.mocked(context.validatePage).mockReturnValue(false);
+
+    await runActions(
+      [
+        { type: 'navigate', targetPage: 'adults', condition: 'age >= 18' },
+        { type: 'validatePage' },
+        { type: 'submit' },
+      ],
+      context
+    );
+
+    expect(context.navigate).not.toHaveBeenCalled();
+    expect(context.submit).not.toHaveBeenCalled();
+  });
+
+  it('should store the result of a data source in a field', async () => {
+    const context = createContext({ postcode: '3511AB' });
+
+    await runActions(
+      [
+        {
+          type: 'callDataSource',
+          dataSource: 'address',
+          params: { postcode: '{{postcode}}' },
+          field: 'city',
+          valuePath: 'user.city',
+        },
+      ],
+      context
+    );
+
+    expect(context.loadDataSource).toHaveBeenCalledWith('address', {
+      postcode: '3511AB',
+    });
+    expect(context.setValue).toHaveBeenCalledWith('city', 'Utrecht');
+  });
+
+  it('should run registered actions, preferring the renderer registry', async () => {
+    const context = createContext();
+    const globalHandler = vi.fn();
+    const localHandler = vi.fn();
+    registerAction('track', globalHandler);
+    registerAction('save', globalHandler);
+
+    await runActions([{ type: 'track' }, { type: 'save' }], context, {
+      actions: { save: localHandler },
+    });
+
+    expect(globalHandler).toHaveBeenCalledTimes(1);
+    expect(globalHandler).toHaveBeenCalledWith({ type: 'track' }, context);
+    expect(localHandler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report failing and unknown actions', async () => {
+    const context = createContext();
+    const onError = vi.fn();
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const completed = await runActions(
+      [{ type: 'doesNotExist' }, { type: 'submit' }],
+      context,
+      { onError }
+    );
+
+    expect(completed).toBe(false);
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), {
+      type: 'doesNotExist',
+    });
+    expect(context.submit).not.toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
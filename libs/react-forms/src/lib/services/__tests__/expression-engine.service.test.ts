@@ -76,6 +76,34 @@ describe('ExpressionEngineService', () => {
     });
   });
 
+  describe('String Concatenation', () => {
+    it('should concatenate strings with || in calculated values', () => {
+      const context: FormContext = {
+        firstName: { value: 'Jane', valid: true, required: false },
+        lastName: { value: 'Doe', valid: true, required: false },
+      };
+
+      const result = service.evaluate('firstName || " " || lastName', context);
+
+      expect(result.value).toBe('Jane Doe');
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should read || as "or" in conditions but not in strings', () => {
+      const context: FormContext = {
+        country: { value: 'BE', valid: true, required: false },
+        separator: { value: '||', valid: true, required: false },
+      };
+
+      expect(
+        service.evaluateCondition("country == 'NL' || country == 'BE'", context)
+      ).toBe(true);
+      expect(service.evaluateCondition("separator == '||'", context)).toBe(
+        true
+      );
+    });
+  });
+
   describe('Math Functions', () => {
     it('should evaluate Math functions', () => {
       const context: FormContext = {
@@ -102,6 +130,45 @@ describe('ExpressionEngineService', () => {
     });
   });
 
+  describe('Survey Functions', () => {
+    it('should categorize NPS scores', () => {
+      const context: FormContext = {
+        nps: { value: 6, valid: true, required: false },
+      };
+
+      const result = service.evaluate(
+        "npsCategory(nps) == 'detractor'",
+        context
+      );
+
+      expect(result.value).toBe(true);
+    });
+
+    it('should find the position of a ranked option', () => {
+      const context: FormContext = {
+        priorities: { value: ['speed', 'price'], valid: true, required: false },
+      };
+
+      expect(
+        service.evaluate("rankOf(priorities, 'price')", context).value
+      ).toBe(2);
+      expect(
+        service.evaluate("rankOf(priorities, 'support')", context).value
+      ).toBe(0);
+    });
+
+    it('should average ratings', () => {
+      const context: FormContext = {
+        speed: { value: 4, valid: true, required: false },
+        quality: { value: 5, valid: true, required: false },
+      };
+
+      const result = service.evaluate('avg([speed, quality])', context);
+
+      expect(result.value).toBe(4.5);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle invalid expressions', () => {
       const context: FormContext = {};
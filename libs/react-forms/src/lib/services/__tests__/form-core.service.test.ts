@@ -0,0 +1,230 @@
+import { vi } from 'vitest';
+import { FormCore } from '../form-core.service';
+import { FormDefinition } from '../../interfaces/form-interfaces';
+import { MultiLanguageFormDefinition } from '../../interfaces/multi-language-interfaces';
+
+const createForm = (): FormDefinition => ({
+  app: {
+    title: 'Membership',
+    pages: [
+      {
+        id: 'personal',
+        route: '/personal',
+        title: 'Personal',
+        components: [
+          {
+            type: 'input',
+            id: 'name',
+            label: 'Name',
+            validation: { required: true },
+          },
+          { type: 'input', id: 'membership', label: 'Membership' },
+          {
+            type: 'input',
+            id: 'studentNumber',
+            label: 'Student number',
+            visibilityConditions: [
+              { field: 'membership', operator: '==', value: 'student' },
+            ],
+          },
+        ],
+        branches: [
+          {
+            condition: {
+              field: 'membership',
+              operator: '==',
+              value: 'student',
+            },
+            nextPage: 'student',
+          },
+        ],
+        nextPage: 'payment',
+      },
+      {
+        id: 'student',
+        route: '/student',
+        title: 'Student',
+        nextPage: 'payment',
+        components: [{ type: 'input', id: 'school', label: 'School' }],
+      },
+      {
+        id: 'payment',
+        route: '/payment',
+        title: 'Payment',
+        isEndPage: true,
+        components: [
+          { type: 'input', id: 'iban', label: 'IBAN' },
+          { type: 'input', id: 'quantity', label: 'Quantity' },
+        ],
+      },
+    ],
+  },
+});
+
+describe('FormCore', () => {
+  it('should start on the first page with initial values', () => {
+    const onPageChange = vi.fn();
+    const core = new FormCore(createForm(), { onPageChange });
+
+    expect(core.currentPage?.id).toBe('personal');
+    expect(core.getState().values).toMatchObject({ name: '', iban: '' });
+    expect(core.getVisibleComponents().map((c) => c.id)).toEqual([
+      'name',
+      'membership',
+    ]);
+    expect(core.getProgress()).toEqual({ currentStep: 1, totalSteps: 3 });
+    expect(core.canGoBack()).toBe(false);
+    expect(onPageChange).not.toHaveBeenCalled();
+
+    core.start();
+    core.start();
+    expect(onPageChange).toHaveBeenCalledTimes(1);
+    expect(onPageChange).toHaveBeenCalledWith(
+      expect.objectContaining({ pageId: 'personal', isFirstPage: true })
+    );
+  });
+
+  it('should start from and reset to initialValues', () => {
+    const core = new FormCore(createForm(), {
+      initialValues: { name: 'Jane' },
+    });
+
+    expect(core.getState().values).toMatchObject({ name: 'Jane', iban: '' });
+    core.setValue('name', 'John');
+    core.reset();
+    expect(core.getState().values.name).toBe('Jane');
+  });
+
+  it('should validate the page before following a branch', () => {
+    const core = new FormCore(createForm());
+    const listener = vi.fn();
+    core.subscribe(listener);
+
+    core.next();
+    expect(core.currentPage?.id).toBe('personal');
+    expect(core.getState().errors.name).toEqual(['Name is required']);
+    expect(listener).toHaveBeenCalled();
+
+    core.setValue('name', 'Jane');
+    core.setValue('membership', 'student');
+    core.next();
+    expect(core.currentPage?.id).toBe('student');
+    expect(core.canGoBack()).toBe(true);
+
+    core.previous();
+    expect(core.currentPage?.id).toBe('personal');
+    expect(core.getState().values.name).toBe('Jane');
+  });
+
+  it('should only show errors of fields that were left', () => {
+    const core = new FormCore(createForm());
+
+    core.blur('name');
+    expect(core.shouldShowError('name')).toBe(true);
+    expect(core.shouldShowError('membership')).toBe(false);
+    expect(core.getState().errors.name).toEqual(['Name is required']);
+
+    core.setValue('name', 'Jane');
+    expect(core.getState().errors.name).toBeUndefined();
+  });
+
+  it('should translate error messages', () => {
+    const form: MultiLanguageFormDefinition = {
+      ...createForm(),
+      defaultLanguage: 'en',
+      supportedLanguages: ['en', 'nl'],
+      translations: {
+        nl: {
+          app: { title: 'Lidmaatschap' },
+          pages: [],
+          errorMessages: { required: '{fieldLabel} is verplicht' },
+        },
+      },
+    };
+    const core = new FormCore(form, { language: 'nl' });
+
+    core.next();
+
+    expect(core.getState().errors.name).toEqual(['Name is verplicht']);
+  });
+
+  it('should submit the values on the end page', async () => {
+    const onSubmit = vi.fn();
+    const core = new FormCore(createForm(), { onSubmit });
+
+    core.setValue('name', 'Jane');
+    expect(core.goTo('payment')).toBe(true);
+    core.setValue('iban', 'NL00BANK0123456789');
+
+    await expect(core.submit()).resolves.toBe(true);
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Jane', iban: 'NL00BANK0123456789' })
+    );
+    // Without a thank you page the form starts over
+    expect(core.currentPage?.id).toBe('personal');
+    expect(core.getState().values.name).toBe('');
+  });
+
+  it('should show field errors returned by onSubmit on their page', async () => {
+    const onSubmit = vi.fn().mockResolvedValue({
+      fieldErrors: { name: ['Name is already registered'] },
+    });
+    const core = new FormCore(createForm(), { onSubmit });
+
+    core.setValue('name', 'Jane');
+    core.goTo('payment');
+
+    await expect(core.submit()).resolves.toBe(false);
+    expect(core.currentPage?.id).toBe('personal');
+    expect(core.getState().errors.name).toEqual(['Name is already registered']);
+
+    core.setValue('name', 'Janet');
+    expect(core.getState().errors.name).toBeUndefined();
+  });
+
+  it('should report events and wait for pending work', async () => {
+    const onEvent = vi.fn();
+    let isUploading = true;
+    const core = new FormCore(createForm(), {
+      onEvent,
+      hasPendingWork: () => isUploading,
+    });
+
+    core.blur('name');
+    core.setValue('name', 'Jane');
+    core.setValue('membership', 'student');
+    core.next();
+    expect(core.currentPage?.id).toBe('personal');
+
+    isUploading = false;
+    core.next();
+    expect(core.currentPage?.id).toBe('student');
+    await core.submit();
+
+    expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual([
+      'fieldBlur',
+      'validationFailed',
+      'fieldChange',
+      'fieldChange',
+      'branchTaken',
+      'submitAttempt',
+      'submitSuccess',
+    ]);
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'validationFailed',
+        fieldId: 'name',
+        rule: 'required',
+        trigger: 'blur',
+      })
+    );
+  });
+
+  it('should evaluate expressions with the form values', () => {
+    const core = new FormCore(createForm());
+
+    core.setValue('quantity', 3);
+
+    expect(core.evaluate('quantity * 2')).toBe(6);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Action Runtime Service
+ *
+ * Runs the declarative actions of component event handlers. Built-in actions
+ * change values, navigate, validate, submit and call data sources, other action
+ * types are resolved from the host's action registry.
+ */
+
+import {
+  ActionContext,
+  ActionHandler,
+  ActionRegistry,
+  BuiltInActionName,
+} from '../interfaces/action-interfaces';
+import { ActionType, FormValues } from '../interfaces/form-interfaces';
+import { evaluateVisibility } from '../utils/visibility-utils';
+import { getValueByPath, resolveParams } from './data-source.service';
+import { expressionEngine } from './expression-engine.service';
+import { createFormContext } from '../utils/calculated-values';
+
+export class ActionRegistryService {
+  private handlers = new Map<string, ActionHandler>();
+
+  /**
+   * Register a handler for an action type
+   */
+  register(type: string, handler: ActionHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Remove the handler of an action type
+   */
+  unregister(type: string): void {
+    this.handlers.delete(type);
+  }
+
+  get(type: string): ActionHandler | undefined {
+    return this.handlers.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.handlers.has(type);
+  }
+
+  clear(): void {
+    this.handlers.clear();
+  }
+
+  /**
+   * Resolve a handler, giving precedence to a per-renderer registry
+   */
+  resolve(
+    type: string,
+    localRegistry?: ActionRegistry
+  ): ActionHandler | undefined {
+    return localRegistry?.[type] ?? this.get(type);
+  }
+}
+
+// Export singleton instance
+export const actionRegistry = new ActionRegistryService();
+
+/**
+ * Register an action globally for all FormRenderer instances
+ */
+export const registerAction = (type: string, handler: ActionHandler): void => {
+  actionRegistry.register(type, handler);
+};
+
+/**
+ * Normalizes an event handler to a list of actions
+ */
+export const toActionList = (
+  actions: ActionType | ActionType[] | undefined
+): ActionType[] => {
+  if (!actions) {
+    return [];
+  }
+  return Array.isArray(actions) ? actions : [actions];
+};
+
+/**
+ * Replaces {{fieldId}} references in a text with form values
+ */
+const interpolate = (text: string, formValues: FormValues): string =>
+  String(resolveParams({ text }, formValues).text ?? '');
+
+const requireProperty = (
+  action: ActionType,
+  property: 'field' | 'targetPage' | 'dataSource'
+): string => {
+  const value = action[property];
+  if (!value) {
+    throw new Error(`Action "${action.type}" requires "${property}"`);
+  }
+  return value;
+};
+
+const getSetValue = (action: ActionType, formValues: FormValues): unknown => {
+  if (action.expression) {
+    const result = expressionEngine.evaluate(
+      action.expression,
+      createFormContext(formValues)
+    );
+    if (result.error) {
+      throw new Error(result.error);
+    }
+    return result.value;
+  }
+  return resolveParams({ value: action.value }, formValues).value;
+};
+
+const builtInActions: Record<BuiltInActionName, ActionHandler> = {
+  setValue: (action, context) => {
+    context.setValue(
+      requireProperty(action, 'field'),
+      getSetValue(action, context.getValues())
+    );
+  },
+  clearValue: (action, context) => {
+    context.setValue(requireProperty(action, 'field'), undefined);
+  },
+  navigate: (action, context) =>
+    context.navigate(requireProperty(action, 'targetPage')),
+  showMessage: (action, context) => {
+    context.showMessage(
+      interpolate(action.message ?? '', context.getValues()),
+      action.messageType
+    );
+  },
+  validatePage: (_action, context) => context.validatePage(),
+  submit: (_action, context) => context.submit(),
+  callDataSource: async (action, context) => {
+    const result = await context.loadDataSource(
+      requireProperty(action, 'dataSource'),
+      resolveParams(action.params, context.getValues())
+    );
+    if (action.field) {
+      context.setValue(action.field, getValueByPath(result, action.valuePath));
+    }
+  },
+  reset: (_action, context) => {
+    context.reset();
+  },
+};
+
+export const isBuiltInAction = (type: string): type is BuiltInActionName =>
+  Object.prototype.hasOwnProperty.call(builtInActions, type);
+
+/**
+ * Runs actions in order. An action that returns false stops the remaining
+ * actions, an action that fails stops them as well and is reported to onError.
+ * Returns true when all actions ran.
+ */
+export const runActions = async (
+  actions: ActionType[],
+  context: ActionContext,
+  options: {
+    actions?: ActionRegistry;
+    onError?: (error: unknown, action: ActionType) => void;
+  } = {}
+): Promise<boolean> => {
+  for (const action of actions) {
+    if (
+      action.condition &&
+      !evaluateVisibility(
+        [{ expression: action.condition }],
+        context.getValues()
+      )
+    ) {
+      continue;
+    }
+
+    try {
+      const handler = isBuiltInAction(action.type)
+        ? builtInActions[action.type]
+        : actionRegistry.resolve(action.type, options.actions);
+      if (!handler) {
+        throw new Error(`Action "${action.type}" is not registered`);
+      }
+      if ((await handler(action, context)) === false) {
+        return false;
+      }
+    } catch (error) {
+      console.error('Action failed:', error);
+      options.onError?.(error, action);
+      return false;
+    }
+  }
+  return true;
+};
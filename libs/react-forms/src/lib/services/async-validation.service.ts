@@ -0,0 +1,133 @@
+/**
+ * Async Validation Service
+ *
+ * Keeps track of named async validators and runs the async validator that is
+ * configured on a field, either a registered validator or a data source check.
+ */
+
+import {
+  AsyncValidationResult,
+  AsyncValidator,
+  AsyncValidatorConfig,
+  AsyncValidatorContext,
+  AsyncValidatorRegistry,
+  FieldAsyncValidationState,
+} from '../interfaces/async-validation-interfaces';
+import {
+  DataSourceService,
+  getValueByPath,
+  resolveParams,
+} from './data-source.service';
+
+export class AsyncValidatorRegistryService {
+  private validators = new Map<string, AsyncValidator>();
+
+  /**
+   * Register a named async validator
+   */
+  register(name: string, validator: AsyncValidator): void {
+    this.validators.set(name, validator);
+  }
+
+  /**
+   * Remove a named async validator
+   */
+  unregister(name: string): void {
+    this.validators.delete(name);
+  }
+
+  get(name: string): AsyncValidator | undefined {
+    return this.validators.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.validators.has(name);
+  }
+
+  clear(): void {
+    this.validators.clear();
+  }
+
+  /**
+   * Resolve a validator, giving precedence to a per-renderer registry
+   */
+  resolve(
+    name: string,
+    localRegistry?: AsyncValidatorRegistry
+  ): AsyncValidator | undefined {
+    return localRegistry?.[name] ?? this.get(name);
+  }
+}
+
+// Export singleton instance
+export const asyncValidatorRegistry = new AsyncValidatorRegistryService();
+
+/**
+ * Register an async validator globally for all FormRenderer instances
+ */
+export const registerAsyncValidator = (
+  name: string,
+  validator: AsyncValidator
+): void => {
+  asyncValidatorRegistry.register(name, validator);
+};
+
+/**
+ * Converts the result of a validator to a field validation state
+ */
+export const toAsyncValidationState = (
+  result: AsyncValidationResult
+): FieldAsyncValidationState => {
+  if (result === false) {
+    return { status: 'invalid' };
+  }
+  if (typeof result === 'string' && result) {
+    return { status: 'invalid', message: result };
+  }
+  return { status: 'valid' };
+};
+
+/**
+ * Runs the async validator configured for a field
+ */
+export const runAsyncValidator = async (
+  config: AsyncValidatorConfig,
+  value: unknown,
+  context: AsyncValidatorContext,
+  options: {
+    validators?: AsyncValidatorRegistry;
+    dataSourceService: DataSourceService;
+  }
+): Promise<AsyncValidationResult> => {
+  if (config.validator) {
+    const validator = asyncValidatorRegistry.resolve(
+      config.validator,
+      options.validators
+    );
+    if (!validator) {
+      throw new Error(
+        `Async validator "${config.validator}" is not registered`
+      );
+    }
+    return validator(value, context);
+  }
+
+  if (config.dataSource) {
+    const response = await options.dataSourceService.load(
+      config.dataSource,
+      resolveParams(config.params ?? { value: '{{value}}' }, {
+        ...context.formValues,
+        value,
+      }),
+      // Validation results must reflect the server state at the time of the check
+      { signal: context.signal, cache: false }
+    );
+    if (getValueByPath(response, config.validPath ?? 'valid')) {
+      return true;
+    }
+    const message = getValueByPath(response, config.messagePath ?? 'message');
+    return typeof message === 'string' && message ? message : false;
+  }
+
+  return true;
+};
@@ -0,0 +1,270 @@
+/**
+ * Data Source Service
+ *
+ * Loads data from the named data sources declared in `app.dataSources`
+ * (REST, GraphQL or static lists) and maps responses to field options.
+ */
+
+import {
+  DataSourceDefinition,
+  DataSourceFetchAdapter,
+  DataSourceResponseMapping,
+  FieldDataSourceConfig,
+} from '../interfaces/data-source-interfaces';
+import { FormValues, Option } from '../interfaces/form-interfaces';
+
+const TEMPLATE_PATTERN = /\{\{([^}]+)\}\}/g;
+
+const defaultFetchAdapter: DataSourceFetchAdapter = (url, init) =>
+  fetch(url, init);
+
+/**
+ * Reads a value from an object using a dot notation path
+ */
+export const getValueByPath = (source: unknown, path?: string): unknown => {
+  if (!path) {
+    return source;
+  }
+  return path.split('.').reduce<unknown>((current, key) => {
+    if (current && typeof current === 'object') {
+      return (current as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, source);
+};
+
+/**
+ * Normalizes the `props.dataSource` value of a field
+ */
+export const toFieldDataSourceConfig = (
+  dataSource: unknown
+): FieldDataSourceConfig | undefined => {
+  if (typeof dataSource === 'string' && dataSource) {
+    return { id: dataSource };
+  }
+  if (
+    dataSource &&
+    typeof dataSource === 'object' &&
+    typeof (dataSource as FieldDataSourceConfig).id === 'string'
+  ) {
+    return dataSource as FieldDataSourceConfig;
+  }
+  return undefined;
+};
+
+/**
+ * Returns the field ids referenced with {{fieldId}} in parameter values
+ */
+export const getParamDependencies = (
+  params: Record<string, unknown> = {}
+): string[] => {
+  const dependencies = new Set<string>();
+  Object.values(params).forEach((value) => {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(TEMPLATE_PATTERN)) {
+        dependencies.add(match[1].trim());
+      }
+    }
+  });
+  return Array.from(dependencies);
+};
+
+/**
+ * Replaces {{fieldId}} references in parameter values with form values.
+ * A parameter that consists of a single reference keeps the raw value.
+ */
+export const resolveParams = (
+  params: Record<string, unknown> = {},
+  formValues: FormValues
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(params).map(([key, value]) => {
+      if (typeof value !== 'string') {
+        return [key, value];
+      }
+      const singleReference = value.match(/^\{\{([^}]+)\}\}$/);
+      if (singleReference) {
+        return [key, formValues[singleReference[1].trim()]];
+      }
+      return [
+        key,
+        value.replace(TEMPLATE_PATTERN, (_match, fieldId: string) =>
+          String(formValues[fieldId.trim()] ?? '')
+        ),
+      ];
+    })
+  );
+
+/**
+ * Maps a data source response to a list of options
+ */
+export const mapResponseToOptions = (
+  response: unknown,
+  mapping: DataSourceResponseMapping = {}
+): Option[] => {
+  const items = getValueByPath(response, mapping.items);
+  if (!Array.isArray(items)) {
+    return [];
+  }
+  return items.map((item) => {
+    if (item === null || typeof item !== 'object') {
+      return String(item);
+    }
+    const value = getValueByPath(item, mapping.value ?? 'value');
+    const label = getValueByPath(item, mapping.label ?? 'label');
+    return {
+      value: value === undefined ? undefined : String(value),
+      label: label === undefined ? String(value ?? '') : String(label),
+    };
+  });
+};
+
+export class DataSourceService {
+  private dataSources: Map<string, DataSourceDefinition>;
+  private fetchAdapter: DataSourceFetchAdapter;
+  private cache = new Map<string, Promise<unknown>>();
+
+  constructor(
+    dataSources: DataSourceDefinition[] = [],
+    fetchAdapter: DataSourceFetchAdapter = defaultFetchAdapter
+  ) {
+    this.dataSources = new Map(
+      dataSources.map((source) => [source.id, source])
+    );
+    this.fetchAdapter = fetchAdapter;
+  }
+
+  getDataSource(id: string): DataSourceDefinition | undefined {
+    return this.dataSources.get(id);
+  }
+
+  /**
+   * Load data from a data source. GET requests are cached per parameter set,
+   * unless `cache` is false (e.g. for validation requests that must be fresh).
+   */
+  async load(
+    id: string,
+    params: Record<string, unknown> = {},
+    options: { signal?: AbortSignal; cache?: boolean } = {}
+  ): Promise<unknown> {
+    const dataSource = this.dataSources.get(id);
+    if (!dataSource) {
+      throw new Error(`Data source "${id}" is not defined`);
+    }
+
+    const mergedParams = { ...dataSource.params, ...params };
+    if (dataSource.type === 'static') {
+      return dataSource.data ?? [];
+    }
+
+    const method =
+      dataSource.type === 'graphql' ? 'POST' : dataSource.method ?? 'GET';
+    const useCache = method === 'GET' && options.cache !== false;
+    const cacheKey = JSON.stringify([id, mergedParams]);
+    if (useCache && this.cache.has(cacheKey)) {
+      return this.cache.get(cacheKey);
+    }
+
+    const request = this.request(
+      dataSource,
+      method,
+      mergedParams,
+      options.signal
+    );
+    if (useCache) {
+      this.cache.set(cacheKey, request);
+      // Don't keep failed requests so they can be retried
+      request.catch(() => this.cache.delete(cacheKey));
+    }
+    return request;
+  }
+
+  /**
+   * Load options for a field from a data source
+   */
+  async loadOptions(
+    config: FieldDataSourceConfig,
+    formValues: FormValues
+  ): Promise<Option[]> {
+    const response = await this.load(
+      config.id,
+      resolveParams(config.params, formValues)
+    );
+    return mapResponseToOptions(
+      response,
+      config.responseMapping ?? this.getDataSource(config.id)?.responseMapping
+    );
+  }
+
+  /**
+   * Load a single value for a field from a data source (prefill)
+   */
+  async loadValue(
+    config: FieldDataSourceConfig,
+    formValues: FormValues
+  ): Promise<unknown> {
+    const response = await this.load(
+      config.id,
+      resolveParams(config.params, formValues)
+    );
+    return getValueByPath(response, config.valuePath);
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async request(
+    dataSource: DataSourceDefinition,
+    method: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    if (!dataSource.url) {
+      throw new Error(`Data source "${dataSource.id}" has no url`);
+    }
+
+    let url = dataSource.url;
+    let body: string | undefined;
+    if (dataSource.type === 'graphql') {
+      body = JSON.stringify({ query: dataSource.query, variables: params });
+    } else if (method === 'GET') {
+      const searchParams = new URLSearchParams();
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          searchParams.append(key, String(value));
+        }
+      });
+      const queryString = searchParams.toString();
+      if (queryString) {
+        url += (url.includes('?') ? '&' : '?') + queryString;
+      }
+    } else {
+      body = JSON.stringify(params);
+    }
+
+    const response = await this.fetchAdapter(url, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...dataSource.headers },
+      body,
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Data source "${dataSource.id}" responded with status ${response.status}`
+      );
+    }
+
+    const data = await response.json();
+    // GraphQL responses wrap the result in "data"
+    if (
+      dataSource.type === 'graphql' &&
+      data &&
+      typeof data === 'object' &&
+      'data' in data
+    ) {
+      return (data as { data: unknown }).data;
+    }
+    return data;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Draft Storage Service
+ *
+ * Storage adapters used by FormRenderer to autosave partially filled forms.
+ * Drafts can be kept in localStorage, in IndexedDB or in any custom
+ * (possibly async) adapter implementing DraftStorageAdapter.
+ */
+
+import {
+  DraftStorage,
+  DraftStorageAdapter,
+  FormDraft,
+} from '../interfaces/draft-interfaces';
+
+export class LocalStorageDraftAdapter implements DraftStorageAdapter {
+  load(key: string): FormDraft | null {
+    if (typeof localStorage === 'undefined') {
+      return null;
+    }
+    const stored = localStorage.getItem(key);
+    if (!stored) {
+      return null;
+    }
+    try {
+      return JSON.parse(stored) as FormDraft;
+    } catch {
+      // Ignore corrupt drafts
+      return null;
+    }
+  }
+
+  save(key: string, draft: FormDraft): void {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+    localStorage.setItem(key, JSON.stringify(draft));
+  }
+
+  remove(key: string): void {
+    if (typeof localStorage === 'undefined') {
+      return;
+    }
+    localStorage.removeItem(key);
+  }
+}
+
+export class IndexedDBDraftAdapter implements DraftStorageAdapter {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly databaseName = 'react-forms-drafts',
+    private readonly storeName = 'drafts'
+  ) {}
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async runRequest<T>(
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = createRequest(transaction.objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async load(key: string): Promise<FormDraft | null> {
+    const draft = await this.runRequest<FormDraft | undefined>(
+      'readonly',
+      (store) => store.get(key)
+    );
+    return draft ?? null;
+  }
+
+  async save(key: string, draft: FormDraft): Promise<void> {
+    await this.runRequest('readwrite', (store) => store.put(draft, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.runRequest('readwrite', (store) => store.delete(key));
+  }
+}
+
+/**
+ * Resolves the storage setting into an adapter instance
+ */
+export const createDraftStorageAdapter = (
+  storage: DraftStorage = 'localStorage'
+): DraftStorageAdapter => {
+  if (storage === 'localStorage') {
+    return new LocalStorageDraftAdapter();
+  }
+  if (storage === 'indexedDB') {
+    return new IndexedDBDraftAdapter();
+  }
+  return storage;
+};
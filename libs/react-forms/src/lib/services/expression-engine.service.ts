@@ -8,6 +8,8 @@ import {
   TemplateProcessingService,
   TemplateContext,
 } from './template-processing.service';
+import { getNpsCategory } from '../utils/rating-utils';
+import { getRankPosition } from '../utils/ranking-utils';
 
 /**
  * Form context interface for expression evaluation
@@ -30,6 +32,22 @@ export interface ExpressionResult {
   dependencies: string[];
 }
 
+// Quoted strings, or a || outside of them
+const logicalOrPattern = /("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|\|\|/g;
+
+// || concatenates strings in expr-eval, in conditions it means "or"
+const replaceLogicalOr = (expression: string): string =>
+  expression.replace(
+    logicalOrPattern,
+    (match, quoted?: string) => quoted ?? ' or '
+  );
+
+export const isEmptyValue = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
 /**
  * Expression engine service for dynamic form calculations
  * Now integrated with dependency resolution and template processing
@@ -231,6 +249,32 @@ export class ExpressionEngineService {
       // Conditional functions
       if: (condition: boolean, trueValue: any, falseValue: any) =>
         condition ? trueValue : falseValue,
+      contains: (collection: unknown, item: unknown) => {
+        if (Array.isArray(collection)) {
+          return collection.some((entry) => String(entry) === String(item));
+        }
+        if (typeof collection === 'string') {
+          return collection.includes(String(item));
+        }
+        return false;
+      },
+      isEmpty: (value: unknown) => isEmptyValue(value),
+      isNotEmpty: (value: unknown) => !isEmptyValue(value),
+      equals: (a: unknown, b: unknown) => String(a) === String(b),
+      // Survey functions
+      npsCategory: (score: unknown) => getNpsCategory(score),
+      rankOf: (ranking: unknown, option: unknown) =>
+        getRankPosition(ranking, option),
+      matches: (value: unknown, pattern: unknown) => {
+        if (isEmptyValue(value)) {
+          return false;
+        }
+        try {
+          return new RegExp(String(pattern)).test(String(value));
+        } catch {
+          return false;
+        }
+      },
       // Override unsupported functions to throw errors
       sin: () => {
         throw new Error('Function sin is not supported');
@@ -306,6 +350,46 @@ export class ExpressionEngineService {
     }
   }
 
+  /**
+   * Evaluate an expression as a boolean condition, e.g. for page branches.
+   * Fields that have no value yet are treated as null so conditions like
+   * "isEmpty(email)" can be evaluated before the field is filled in.
+   */
+  evaluateCondition(expression: string, context: FormContext): boolean {
+    const condition = replaceLogicalOr(expression);
+    const conditionContext: FormContext = { ...context };
+    try {
+      const variables = this.parser
+        .parse(this.preprocessExpression(condition, context))
+        .variables();
+      variables.forEach((variable) => {
+        if (
+          !(variable in conditionContext) &&
+          !(variable in this.parser.functions) &&
+          !this.calculatedValues.has(variable)
+        ) {
+          conditionContext[variable] = {
+            value: null,
+            valid: true,
+            required: false,
+          };
+        }
+      });
+    } catch {
+      // Syntax errors are reported by evaluate below
+    }
+
+    const result = this.evaluate(condition, conditionContext);
+    if (result.error) {
+      console.warn(
+        `Condition "${expression}" could not be evaluated:`,
+        result.error
+      );
+      return false;
+    }
+    return !!result.value;
+  }
+
   /**
    * Validate an expression without evaluating it
    */
@@ -441,6 +525,15 @@ export class ExpressionEngineService {
       'count',
       'avg',
       'sumLineTotal',
+      // Condition functions
+      'contains',
+      'isEmpty',
+      'isNotEmpty',
+      'equals',
+      'matches',
+      // Survey functions
+      'npsCategory',
+      'rankOf',
     ];
     return builtInFunctions.includes(name);
   }
@@ -795,10 +888,17 @@ export class ExpressionEngineService {
   /**
    * Process template strings with variable substitution
    */
-  processTemplate(template: string, formValues: Record<string, any>): string {
+  processTemplate(
+    template: string,
+    formValues: Record<string, any>,
+    locale?: string,
+    fieldTypes?: Record<string, string>
+  ): string {
     const context: TemplateContext = {
       formValues,
       calculatedValues: this.getAllCalculatedValues(),
+      locale,
+      fieldTypes,
     };
 
     return this.templateService.processTemplate(template, context);
@@ -0,0 +1,112 @@
+/**
+ * Field Registry Service
+ *
+ * Keeps track of custom field types that can be rendered by FormRenderer
+ * next to the built-in atoms. Custom types are looked up after the built-in
+ * types, so a registered type can never replace a built-in field.
+ */
+
+import {
+  CustomFieldComponent,
+  CustomFieldDefinition,
+  FieldRegistry,
+} from '../interfaces/field-registry-interfaces';
+import { FormComponentFieldProps } from '../interfaces/form-interfaces';
+
+/**
+ * Normalizes a registry entry (component or definition) into a definition
+ */
+export const toCustomFieldDefinition = (
+  entry: CustomFieldComponent | CustomFieldDefinition
+): CustomFieldDefinition => {
+  if (typeof entry === 'object' && entry !== null && 'component' in entry) {
+    return entry;
+  }
+  return { component: entry as CustomFieldComponent };
+};
+
+/**
+ * Resolves the initial value for a custom field
+ */
+export const getCustomFieldDefaultValue = (
+  definition: CustomFieldDefinition,
+  component: FormComponentFieldProps
+): unknown => {
+  if (component.defaultValue !== undefined) {
+    return component.defaultValue;
+  }
+  if (typeof definition.defaultValue === 'function') {
+    return definition.defaultValue(component);
+  }
+  return definition.defaultValue ?? null;
+};
+
+export class FieldRegistryService {
+  private fieldTypes = new Map<string, CustomFieldDefinition>();
+
+  /**
+   * Register a custom field type
+   */
+  register(
+    type: string,
+    entry: CustomFieldComponent | CustomFieldDefinition
+  ): void {
+    this.fieldTypes.set(type, toCustomFieldDefinition(entry));
+  }
+
+  /**
+   * Remove a custom field type
+   */
+  unregister(type: string): void {
+    this.fieldTypes.delete(type);
+  }
+
+  /**
+   * Get the definition of a registered field type
+   */
+  get(type: string): CustomFieldDefinition | undefined {
+    return this.fieldTypes.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.fieldTypes.has(type);
+  }
+
+  /**
+   * Get all registered field type names
+   */
+  getTypes(): string[] {
+    return Array.from(this.fieldTypes.keys());
+  }
+
+  clear(): void {
+    this.fieldTypes.clear();
+  }
+
+  /**
+   * Resolve a field type, giving precedence to a per-renderer registry
+   */
+  resolve(
+    type: string,
+    localRegistry?: FieldRegistry
+  ): CustomFieldDefinition | undefined {
+    const localEntry = localRegistry?.[type];
+    if (localEntry) {
+      return toCustomFieldDefinition(localEntry);
+    }
+    return this.get(type);
+  }
+}
+
+// Export singleton instance
+export const fieldRegistry = new FieldRegistryService();
+
+/**
+ * Register a custom field type globally for all FormRenderer instances
+ */
+export const registerFieldType = (
+  type: string,
+  entry: CustomFieldComponent | CustomFieldDefinition
+): void => {
+  fieldRegistry.register(type, entry);
+};
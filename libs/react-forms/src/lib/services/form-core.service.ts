@@ -0,0 +1,745 @@
+import {
+  FormComponentFieldProps,
+  FormDefinition,
+  FormSubmitResult,
+  FormValues,
+  PageProps,
+  ValidationErrors,
+} from '../interfaces/form-interfaces';
+import {
+  FormCoreListener,
+  FormCoreOptions,
+  FormCoreState,
+  FormValidator,
+} from '../interfaces/form-core-interfaces';
+import { FormEventData } from '../interfaces/form-event-interfaces';
+import { MultiLanguageFormDefinition } from '../interfaces/multi-language-interfaces';
+import { TranslationService } from './translation-service';
+import { expressionEngine } from './expression-engine.service';
+import { fieldRegistry as globalFieldRegistry } from './field-registry.service';
+import {
+  calculateLogicalPageOrder,
+  LogicalPageOrder,
+} from '../utils/page-ordering';
+import {
+  createPageChangeEvent,
+  getFollowingPageIndex,
+  getFormProgress,
+  getInitialValues,
+  getLogicalIndexFromPageIndex,
+  getPreviousPageIndex,
+} from '../utils/form-navigation';
+import { createFormValidator } from '../utils/form-validation';
+import {
+  createFormContext,
+  withCalculatedValues,
+} from '../utils/calculated-values';
+import { findPageIndexForField, isFieldOnPage } from '../utils/field-lookup';
+import { applyHiddenFieldPolicy } from '../utils/hidden-field-utils';
+import { isComponentVisible } from '../utils/visibility-utils';
+import { findMatchingBranch } from '../utils/branch-utils';
+import { findPageIndexByRoute } from '../utils/routing-utils';
+
+/**
+ * Framework agnostic form engine with the behaviour of FormRenderer: values,
+ * validation, visibility, branching, step history and submission, without
+ * React or the DOM. Renderers subscribe to state changes and call its
+ * methods on user input.
+ */
+export class FormCore {
+  private formJson: FormDefinition;
+  private options: FormCoreOptions;
+  private logicalPageOrder: LogicalPageOrder[];
+  private translator: TranslationService;
+  private validator: FormValidator;
+  private state: FormCoreState;
+  private listeners = new Set<FormCoreListener>();
+  // Field errors returned by onSubmit, kept until the field is changed
+  private submitFieldErrors: ValidationErrors = {};
+  private isStarted = false;
+  // Next or submit used while work was pending, runs once the work finished
+  private pendingAction: { run: () => void; cancel: () => void } | null = null;
+
+  constructor(formJson: FormDefinition, options: FormCoreOptions = {}) {
+    this.formJson = formJson;
+    this.options = options;
+    this.logicalPageOrder = calculateLogicalPageOrder(formJson);
+
+    const multiLangForm = formJson as MultiLanguageFormDefinition;
+    this.translator = this.createTranslationService(
+      options.language || multiLangForm.defaultLanguage || 'en'
+    );
+    this.validator = this.createValidator();
+    this.state = this.createInitialState();
+  }
+
+  get translationService(): TranslationService {
+    return this.translator;
+  }
+
+  getState(): FormCoreState {
+    return this.state;
+  }
+
+  /**
+   * Reports the first page to onPageChange, call it once the form is shown
+   */
+  start(): void {
+    if (this.isStarted) {
+      return;
+    }
+    this.isStarted = true;
+    this.emitPageChange(this.state.currentPageIndex);
+  }
+
+  /**
+   * Replaces the callbacks and settings, e.g. when the props of a renderer
+   * change. The language is changed with setLanguage.
+   */
+  setOptions(options: FormCoreOptions): void {
+    this.options = options;
+  }
+
+  /** Translates the error messages, the errors that are shown are updated */
+  setLanguage(language: string): void {
+    if (language === this.translator.getLanguage()) {
+      return;
+    }
+    this.translator = this.createTranslationService(language);
+    this.validator = this.createValidator();
+    if (this.state.isSubmitted || Object.keys(this.state.errors).length > 0) {
+      this.validateCurrentPage();
+    } else {
+      this.notify();
+    }
+  }
+
+  /**
+   * Calls the listener on every state change, returns a function to unsubscribe
+   */
+  subscribe(listener: FormCoreListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get currentPage(): PageProps | undefined {
+    return this.formJson?.app?.pages?.[this.state.currentPageIndex];
+  }
+
+  /** Top-level components of the current page that are visible */
+  getVisibleComponents(): FormComponentFieldProps[] {
+    return (this.currentPage?.components ?? []).filter((component) =>
+      this.isComponentVisible(component)
+    );
+  }
+
+  isComponentVisible(
+    component: FormComponentFieldProps,
+    values: FormValues = this.state.values
+  ): boolean {
+    return isComponentVisible(component, values);
+  }
+
+  getProgress(): { currentStep: number; totalSteps: number } {
+    return getFormProgress(
+      this.formJson,
+      this.logicalPageOrder,
+      this.state.currentPageIndex,
+      this.state.values
+    );
+  }
+
+  canGoBack(): boolean {
+    return (
+      this.formJson?.app?.settings?.allowBackNavigation !== false &&
+      this.getProgress().currentStep > 1
+    );
+  }
+
+  shouldShowError(fieldId: string): boolean {
+    return this.state.isSubmitted || this.state.touched[fieldId] === true;
+  }
+
+  getFieldLabel(component: FormComponentFieldProps): string {
+    return this.validator.getFieldLabel(component);
+  }
+
+  setValue(fieldId: string, value: unknown): void {
+    this.clearSubmitFieldError(fieldId);
+    this.emitEvent({ type: 'fieldChange', fieldId });
+    this.updateValues((values) => ({ ...values, [fieldId]: value }));
+  }
+
+  /**
+   * Sets several values at once, e.g. values prefilled by the application.
+   * Fields set to undefined are removed from the values.
+   */
+  setValues(values: FormValues): void {
+    Object.keys(values).forEach((fieldId) =>
+      this.clearSubmitFieldError(fieldId)
+    );
+    this.updateValues((previous) => {
+      const next = { ...previous };
+      Object.entries(values).forEach(([fieldId, value]) => {
+        if (value === undefined) {
+          delete next[fieldId];
+        } else {
+          next[fieldId] = value;
+        }
+      });
+      return next;
+    });
+  }
+
+  /**
+   * Applies a change to the latest values, e.g. values loaded by a data
+   * source. Values of hidden fields are cleared according to the hidden
+   * field policy and onValuesChange is called.
+   */
+  updateValues(update: (values: FormValues) => FormValues): void {
+    const previous = this.state.values;
+    const next = update(previous);
+    if (next === previous) {
+      return;
+    }
+    const values = applyHiddenFieldPolicy(this.formJson, next, 'hide');
+    this.setState({ values });
+    this.options.onValuesChange?.(withCalculatedValues(this.formJson, values));
+    this.revalidate();
+  }
+
+  /**
+   * Shows values the application owns (controlled values), they are not
+   * reported to onValuesChange
+   */
+  syncValues(values: FormValues): void {
+    if (values === this.state.values) {
+      return;
+    }
+    this.setState({ values });
+    this.revalidate();
+  }
+
+  /** Sets the value of a field in an item of an array field */
+  setArrayItemValue(
+    arrayFieldId: string,
+    itemIndex: number,
+    fieldId: string,
+    value: unknown
+  ): void {
+    const path = `${arrayFieldId}[${itemIndex}].${fieldId}`;
+    this.clearSubmitFieldError(path);
+    this.emitEvent({ type: 'fieldChange', fieldId: path });
+    this.updateValues((values) => {
+      // Copy the items, the previous values may be owned by the application
+      const items = [
+        ...((values[arrayFieldId] as Array<Record<string, unknown>>) || []),
+      ];
+      while (items.length <= itemIndex) {
+        items.push({});
+      }
+      items[itemIndex] = { ...items[itemIndex], [fieldId]: value };
+      return { ...values, [arrayFieldId]: items };
+    });
+  }
+
+  /** Marks a field as visited, its errors are shown from then on */
+  blur(fieldId: string): void {
+    this.setState({ touched: { ...this.state.touched, [fieldId]: true } });
+    this.revalidate();
+    this.emitEvent({ type: 'fieldBlur', fieldId });
+    this.emitValidationFailures('blur', fieldId);
+  }
+
+  /**
+   * Validates a page and shows its errors, the current page by default.
+   * Returns false when a field has an error or the page is unknown.
+   */
+  validate(pageId?: string): boolean {
+    const pageIndex =
+      pageId === undefined
+        ? this.state.currentPageIndex
+        : this.formJson?.app?.pages?.findIndex((page) => page.id === pageId) ??
+          -1;
+    if (pageIndex === -1) {
+      console.warn(`Page "${pageId}" not found`);
+      return false;
+    }
+    if (pageIndex === this.state.currentPageIndex) {
+      this.setState({ isSubmitted: true });
+      return this.validateCurrentPage();
+    }
+
+    const pageErrors = this.validator.validatePage(
+      this.formJson.app.pages[pageIndex],
+      this.state.values
+    );
+    this.setState({ errors: { ...this.state.errors, ...pageErrors } });
+    return Object.keys(pageErrors).length === 0;
+  }
+
+  /**
+   * Updates the errors once the user has interacted with the form, e.g. after
+   * an async validator finished
+   */
+  revalidate(): void {
+    if (this.state.isSubmitted || Object.keys(this.state.touched).length > 0) {
+      this.validateCurrentPage();
+    }
+  }
+
+  /**
+   * Validates the current page and goes to the next page, submits on the last page
+   */
+  next(): void {
+    this.setState({ isSubmitted: true });
+    if (this.options.hasPendingWork?.()) {
+      this.deferUntilIdle(() => this.next());
+      return;
+    }
+    if (!this.validateCurrentPage()) {
+      this.emitValidationFailures('next');
+      return;
+    }
+
+    const currentPage = this.currentPage;
+    if (currentPage?.isEndPage || currentPage?.isConfirmationPage) {
+      void this.submit();
+      return;
+    }
+
+    const nextPageIndex = getFollowingPageIndex(
+      this.formJson,
+      this.logicalPageOrder,
+      this.state.currentPageIndex,
+      this.state.values
+    );
+    if (nextPageIndex === -1) {
+      void this.submit();
+      return;
+    }
+
+    const branch = findMatchingBranch(currentPage?.branches, this.state.values);
+    const nextPageId = this.formJson.app.pages[nextPageIndex].id;
+    if (currentPage && branch?.nextPage === nextPageId) {
+      this.emitEvent({
+        type: 'branchTaken',
+        pageId: currentPage.id,
+        branchIndex: currentPage.branches?.indexOf(branch) ?? -1,
+        nextPageId,
+      });
+    }
+    this.setState({ isSubmitted: false });
+    this.goToPageIndex(nextPageIndex);
+  }
+
+  /** Goes back through the visited pages */
+  previous(): void {
+    const { stepHistory, currentPageIndex } = this.state;
+    if (stepHistory.length > 1) {
+      const previousIndex = stepHistory[stepHistory.length - 2];
+      this.showPage(previousIndex, stepHistory.slice(0, -1));
+      return;
+    }
+
+    const previousIndex = getPreviousPageIndex(
+      this.formJson,
+      this.logicalPageOrder,
+      currentPageIndex,
+      this.state.values
+    );
+    if (previousIndex !== -1) {
+      this.showPage(previousIndex, [previousIndex]);
+    }
+  }
+
+  /** Goes to a page without validating, returns false for unknown pages */
+  goTo(pageId: string): boolean {
+    const pageIndex =
+      this.formJson?.app?.pages?.findIndex((page) => page.id === pageId) ?? -1;
+    if (pageIndex === -1) {
+      console.warn(`Page "${pageId}" not found`);
+      return false;
+    }
+    this.setState({ isSubmitted: false });
+    this.goToPageIndex(pageIndex);
+    return true;
+  }
+
+  /**
+   * Goes to the page of a route. Only pages in the history (going back) and
+   * the page that follows the current page, once the current page is valid,
+   * can be opened. Returns false when the page can't be opened.
+   */
+  goToRoute(path: string): boolean {
+    const pages = this.formJson?.app?.pages ?? [];
+    const { currentPageIndex, stepHistory, values } = this.state;
+    const pageIndex = findPageIndexByRoute(pages, path);
+    if (pageIndex === -1 || this.state.isCompleted) {
+      return false;
+    }
+    if (pageIndex === currentPageIndex) {
+      return true;
+    }
+
+    if (stepHistory.includes(pageIndex)) {
+      if (this.formJson.app.settings?.allowBackNavigation === false) {
+        return false;
+      }
+      this.goToPageIndex(pageIndex);
+      return true;
+    }
+
+    const currentPage = this.currentPage;
+    if (
+      pageIndex !==
+        getFollowingPageIndex(
+          this.formJson,
+          this.logicalPageOrder,
+          currentPageIndex,
+          values
+        ) ||
+      currentPage?.isEndPage ||
+      currentPage?.isConfirmationPage ||
+      this.options.hasPendingWork?.()
+    ) {
+      return false;
+    }
+    this.setState({ isSubmitted: true });
+    if (!this.validateCurrentPage()) {
+      return false;
+    }
+    this.setState({ isSubmitted: false });
+    this.goToPageIndex(pageIndex);
+    return true;
+  }
+
+  /**
+   * Continues saved progress, e.g. a draft. Values of fields and pages that
+   * are no longer in the form are ignored.
+   */
+  restore(values: FormValues, stepHistory: string[]): void {
+    const pages = this.formJson?.app?.pages ?? [];
+    const restoredValues = Object.fromEntries(
+      Object.entries(values).filter(
+        ([fieldId]) => findPageIndexForField(pages, fieldId) !== -1
+      )
+    );
+    this.updateValues((previous) => ({ ...previous, ...restoredValues }));
+
+    const restoredHistory = stepHistory
+      .map((pageId) => pages.findIndex((page) => page.id === pageId))
+      .filter((pageIndex) => pageIndex !== -1);
+    if (restoredHistory.length > 0) {
+      const pageIndex = restoredHistory[restoredHistory.length - 1];
+      if (pageIndex === this.state.currentPageIndex) {
+        this.setState({ stepHistory: restoredHistory });
+      } else {
+        this.showPage(pageIndex, restoredHistory);
+      }
+    }
+  }
+
+  /**
+   * Validates the current page and submits the values, hidden fields are
+   * removed according to the hidden field policy
+   */
+  async submit(): Promise<boolean> {
+    this.setState({ isSubmitted: true });
+    const isValid = this.validateCurrentPage();
+    if (this.state.isSubmitting) {
+      return false;
+    }
+    if (this.options.hasPendingWork?.()) {
+      return new Promise<boolean>((resolve) =>
+        this.deferUntilIdle(
+          () => resolve(this.submit()),
+          () => resolve(false)
+        )
+      );
+    }
+    this.emitEvent({ type: 'submitAttempt' });
+    if (!isValid) {
+      this.emitEvent({
+        type: 'submitFailure',
+        reason: 'validation',
+        fieldIds: this.emitValidationFailures('submit'),
+      });
+      return false;
+    }
+
+    this.setState({ submitError: null });
+    const submissionValues = applyHiddenFieldPolicy(
+      this.formJson,
+      this.state.values,
+      'submit'
+    );
+    if (this.options.onSubmit) {
+      let result: void | FormSubmitResult;
+      try {
+        const submitResult = this.options.onSubmit(submissionValues);
+        if (submitResult instanceof Promise) {
+          this.setState({ isSubmitting: true });
+          result = await submitResult;
+        } else {
+          result = submitResult;
+        }
+      } catch (error) {
+        console.error('Form submission failed:', error);
+        this.setState({
+          submitError: this.translationService.translateUI('submitError'),
+        });
+        this.emitEvent({ type: 'submitFailure', reason: 'error' });
+        return false;
+      } finally {
+        this.setState({ isSubmitting: false });
+      }
+
+      if (result?.fieldErrors && Object.keys(result.fieldErrors).length > 0) {
+        this.applySubmitFieldErrors(result.fieldErrors);
+        this.emitEvent({
+          type: 'submitFailure',
+          reason: 'fieldErrors',
+          fieldIds: Object.keys(result.fieldErrors),
+        });
+        return false;
+      }
+    }
+    this.emitEvent({ type: 'submitSuccess' });
+    this.setState({ submittedValues: submissionValues });
+
+    if (this.formJson.app.thankYouPage) {
+      this.setState({ isCompleted: true });
+    } else {
+      this.reset();
+    }
+    return true;
+  }
+
+  /**
+   * Runs next or submit when it was used while work was pending, call it once
+   * the pending work finished
+   */
+  resumePendingAction(): void {
+    const action = this.pendingAction;
+    if (!action || this.options.hasPendingWork?.()) {
+      return;
+    }
+    this.pendingAction = null;
+    action.run();
+  }
+
+  /** Goes back to the first page with the initial values */
+  reset(): void {
+    this.cancelPendingAction();
+    this.submitFieldErrors = {};
+    this.state = {
+      ...this.createInitialState(),
+      submittedValues: this.state.submittedValues,
+    };
+    this.notify();
+    this.options.onValuesChange?.(
+      withCalculatedValues(this.formJson, this.state.values)
+    );
+    this.emitPageChange(this.state.currentPageIndex);
+  }
+
+  /**
+   * Evaluates an expression (e.g. "quantity * price") with the form values
+   */
+  evaluate(expression: string): unknown {
+    return expressionEngine.evaluate(
+      expression,
+      createFormContext(this.state.values)
+    ).value;
+  }
+
+  private resolveCustomField = (type: string) =>
+    globalFieldRegistry.resolve(type, this.options.fieldRegistry);
+
+  private createTranslationService(language: string): TranslationService {
+    const multiLangForm = this.formJson as MultiLanguageFormDefinition;
+    return new TranslationService(
+      multiLangForm.translations || {},
+      language,
+      multiLangForm.defaultLanguage || 'en'
+    );
+  }
+
+  private createValidator(): FormValidator {
+    return createFormValidator({
+      formJson: this.formJson,
+      translationService: this.translator,
+      resolveCustomField: this.resolveCustomField,
+      getAsyncValidationState: (fieldId) =>
+        this.options.getAsyncValidationState?.(fieldId),
+      isFieldTouched: (fieldId) => this.shouldShowError(fieldId),
+    });
+  }
+
+  private createInitialState(): FormCoreState {
+    const firstPageId = this.logicalPageOrder[0]?.pageId;
+    const firstPageIndex = Math.max(
+      0,
+      this.formJson?.app?.pages?.findIndex((page) => page.id === firstPageId) ??
+        0
+    );
+    return {
+      values: applyHiddenFieldPolicy(
+        this.formJson,
+        {
+          ...getInitialValues(this.formJson, this.resolveCustomField),
+          ...this.options.initialValues,
+        },
+        'hide'
+      ),
+      errors: {},
+      touched: {},
+      isSubmitted: false,
+      currentPageIndex: firstPageIndex,
+      stepHistory: [firstPageIndex],
+      isSubmitting: false,
+      submitError: null,
+      isCompleted: false,
+      submittedValues: null,
+    };
+  }
+
+  private setState(update: Partial<FormCoreState>): void {
+    this.state = { ...this.state, ...update };
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+
+  // Validates the current page, returns false when a field has an error
+  private validateCurrentPage(): boolean {
+    const currentPage = this.currentPage;
+    const errors = this.validator.validatePage(currentPage, this.state.values);
+    let isValid = Object.keys(errors).length === 0;
+
+    // Keep errors reported by onSubmit until the user changes the field
+    Object.entries(this.submitFieldErrors).forEach(([fieldId, messages]) => {
+      errors[fieldId] = [...(errors[fieldId] || []), ...messages];
+      if (currentPage && isFieldOnPage(currentPage, fieldId)) {
+        isValid = false;
+      }
+    });
+
+    this.setState({ errors });
+    return isValid;
+  }
+
+  private emitEvent(event: FormEventData): void {
+    this.options.onEvent?.(event);
+  }
+
+  // Reports the errors of the current page, returns the fields with an error
+  private emitValidationFailures(
+    trigger: 'blur' | 'next' | 'submit',
+    fieldId?: string
+  ): string[] {
+    const errors = this.validator
+      .getPageErrors(this.currentPage, this.state.values)
+      .filter((error) => !fieldId || error.fieldId === fieldId);
+    errors.forEach((error) =>
+      this.emitEvent({
+        type: 'validationFailed',
+        fieldId: error.fieldId,
+        rule: error.rule ?? 'generic',
+        message: error.message,
+        trigger,
+      })
+    );
+    return [...new Set(errors.map((error) => error.fieldId))];
+  }
+
+  private clearSubmitFieldError(fieldId: string): void {
+    if (fieldId in this.submitFieldErrors) {
+      this.submitFieldErrors = { ...this.submitFieldErrors };
+      delete this.submitFieldErrors[fieldId];
+    }
+  }
+
+  // Go to a page, returning to it when it is already in the history
+  private goToPageIndex(pageIndex: number): void {
+    const { currentPageIndex, stepHistory } = this.state;
+    if (pageIndex === currentPageIndex) {
+      return;
+    }
+    const historyIndex = stepHistory.indexOf(pageIndex);
+    this.showPage(
+      pageIndex,
+      historyIndex !== -1
+        ? stepHistory.slice(0, historyIndex + 1)
+        : [...stepHistory, pageIndex]
+    );
+  }
+
+  // Only the last next or submit runs, an earlier submit resolves with false
+  private deferUntilIdle(
+    run: () => void,
+    cancel: () => void = () => undefined
+  ) {
+    this.cancelPendingAction();
+    this.pendingAction = { run, cancel };
+  }
+
+  private cancelPendingAction(): void {
+    const action = this.pendingAction;
+    this.pendingAction = null;
+    action?.cancel();
+  }
+
+  private showPage(pageIndex: number, stepHistory: number[]): void {
+    // Navigating replaces a next or submit that is waiting
+    this.cancelPendingAction();
+    const previousPageIndex = this.state.currentPageIndex;
+    this.setState({ currentPageIndex: pageIndex, stepHistory });
+    this.emitPageChange(pageIndex, previousPageIndex);
+    this.revalidate();
+  }
+
+  // Show errors returned by onSubmit on the first page containing one of them
+  private applySubmitFieldErrors(fieldErrors: ValidationErrors): void {
+    this.submitFieldErrors = fieldErrors;
+    const pageIndexes = Object.keys(fieldErrors)
+      .map((fieldId) => findPageIndexForField(this.formJson.app.pages, fieldId))
+      .filter((pageIndex) => pageIndex !== -1);
+    if (pageIndexes.length > 0) {
+      const getLogicalIndex = (pageIndex: number) =>
+        getLogicalIndexFromPageIndex(
+          this.formJson,
+          this.logicalPageOrder,
+          pageIndex
+        );
+      this.goToPageIndex(
+        pageIndexes.reduce((first, pageIndex) =>
+          getLogicalIndex(pageIndex) < getLogicalIndex(first)
+            ? pageIndex
+            : first
+        )
+      );
+    }
+    this.validateCurrentPage();
+  }
+
+  private emitPageChange(pageIndex: number, previousPageIndex?: number): void {
+    if (!this.options.onPageChange) {
+      return;
+    }
+    const event = createPageChangeEvent(
+      this.formJson,
+      this.logicalPageOrder,
+      pageIndex,
+      previousPageIndex
+    );
+    if (event) {
+      this.options.onPageChange(event);
+    }
+  }
+}
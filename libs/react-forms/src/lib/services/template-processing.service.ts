@@ -5,6 +5,9 @@
  * This service handles template compilation, variable substitution, and reactive updates.
  */
 
+import { formatDisplayValue, formatValue } from '../utils/locale-format';
+import { DateFieldKind, getDateFieldKind } from '../utils/date-limits';
+
 export interface TemplateVariable {
   name: string;
   path: string[];
@@ -24,6 +27,10 @@ export interface TemplateContext {
   formValues: Record<string, any>;
   calculatedValues: Record<string, any>;
   metadata?: Record<string, any>;
+  /** Locale numbers and dates are formatted for, e.g. the current language */
+  locale?: string;
+  /** Field types by field id, only values of date fields are shown as dates */
+  fieldTypes?: Record<string, string>;
 }
 
 export interface TemplateProcessorOptions {
@@ -220,7 +227,13 @@ export class TemplateProcessingService {
 
     variables.forEach((variable) => {
       const value = this.resolveVariable(variable, context);
-      const displayValue = this.formatValueForDisplay(value);
+      const displayValue = this.formatValueForDisplay(
+        value,
+        context.locale,
+        getDateFieldKind(
+          context.fieldTypes?.[variable.path[variable.path.length - 1]] ?? ''
+        )
+      );
 
       // Replace all occurrences of this variable
       const regex = new RegExp(
@@ -249,7 +262,7 @@ export class TemplateProcessingService {
 
     // Handle function calls
     if (this.enableFunctionCalls && variable.name.includes('(')) {
-      return this.evaluateFunction(variable.name, fullContext);
+      return this.evaluateFunction(variable.name, fullContext, context.locale);
     }
 
     // Handle nested access
@@ -290,7 +303,8 @@ export class TemplateProcessingService {
    */
   private evaluateFunction(
     functionCall: string,
-    context: Record<string, any>
+    context: Record<string, any>,
+    locale?: string
   ): any {
     try {
       // Extract function name and arguments
@@ -314,7 +328,7 @@ export class TemplateProcessingService {
         case 'count':
           return this.handleCountFunction(args);
         case 'format':
-          return this.handleFormatFunction(args);
+          return this.handleFormatFunction(args, locale);
         default:
           // Try to find function in context
           const fn = context[functionName];
@@ -455,9 +469,10 @@ export class TemplateProcessingService {
   }
 
   /**
-   * Handle format function
+   * Handle format function, e.g. format(total, 'currency', 'EUR') or
+   * format(startDate, 'date', 'long'), formatted for the locale
    */
-  private handleFormatFunction(args: any[]): string {
+  private handleFormatFunction(args: any[], locale?: string): string {
     if (args.length < 2) return '';
 
     const value = args[0];
@@ -465,33 +480,17 @@ export class TemplateProcessingService {
 
     if (typeof format !== 'string') return String(value);
 
-    // Simple formatting - in production, use a proper formatting library
-    switch (format.toLowerCase()) {
-      case 'currency':
-        return new Intl.NumberFormat('en-US', {
-          style: 'currency',
-          currency: 'USD',
-        }).format(this.toNumber(value));
-
-      case 'number':
-        return new Intl.NumberFormat('en-US').format(this.toNumber(value));
-
-      case 'percent':
-        return new Intl.NumberFormat('en-US', {
-          style: 'percent',
-          minimumFractionDigits: 0,
-          maximumFractionDigits: 2,
-        }).format(this.toNumber(value) / 100);
-
-      default:
-        return String(value);
-    }
+    return formatValue(value, format, args.slice(2), locale);
   }
 
   /**
    * Format value for display in template
    */
-  private formatValueForDisplay(value: any): string {
+  private formatValueForDisplay(
+    value: any,
+    locale?: string,
+    dateKind?: DateFieldKind
+  ): string {
     if (value === null || value === undefined) {
       return this.defaultEmptyValue;
     }
@@ -510,7 +509,9 @@ export class TemplateProcessingService {
         return `${value.length} item${value.length === 1 ? '' : 's'}`;
       }
 
-      return value.join(', ');
+      return value
+        .map((item) => formatDisplayValue(item, locale, dateKind))
+        .join(', ');
     }
 
     if (typeof value === 'object') {
@@ -522,7 +523,7 @@ export class TemplateProcessingService {
       return `${keys.length} propert${keys.length === 1 ? 'y' : 'ies'}`;
     }
 
-    return String(value);
+    return formatDisplayValue(value, locale, dateKind);
   }
 
   /**
@@ -549,7 +550,9 @@ export class TemplateProcessingService {
    */
   private getCacheKey(template: string, context: TemplateContext): string {
     const relevantContext = this.getRelevantContext(template, context);
-    return `${template}:${JSON.stringify(relevantContext)}`;
+    return `${template}:${context.locale ?? ''}:${JSON.stringify(
+      relevantContext
+    )}`;
   }
 
   /**
@@ -562,19 +565,9 @@ export class TemplateProcessingService {
     const variables = this.extractVariables(template);
     const relevant: Record<string, any> = {};
 
-    const fullContext = {
-      ...context.formValues,
-      ...context.calculatedValues,
-      ...context.metadata,
-    };
-
+    // Function calls are resolved as well, so their arguments are part of the key
     variables.forEach((variable) => {
-      if (variable.isNested) {
-        const value = this.resolveNestedValue(variable.path, fullContext);
-        relevant[variable.name] = value;
-      } else {
-        relevant[variable.name] = fullContext[variable.name];
-      }
+      relevant[variable.name] = this.resolveVariable(variable, context);
     });
 
     return relevant;
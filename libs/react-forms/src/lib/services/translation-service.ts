@@ -34,6 +34,38 @@ export class TranslationService {
       requiredText: 'Required',
       loadingText: 'Loading...',
       submittingText: 'Submitting...',
+      submitError: 'Something went wrong while submitting. Please try again.',
+      resumeDraftMessage:
+        'You have an unfinished version of this form. Do you want to continue where you left off?',
+      resumeDraftButton: 'Resume',
+      discardDraftButton: 'Start over',
+      dataSourceError: 'Could not load options',
+      retryButton: 'Retry',
+      uploadingText: 'Uploading...',
+      uploadError: 'The file could not be uploaded. Please try again.',
+      clearSignatureButton: 'Clear',
+      undoSignatureButton: 'Undo',
+      typeSignatureButton: 'Type your name instead',
+      drawSignatureButton: 'Draw your signature instead',
+      signaturePadLabel: 'Signature pad',
+      ratingValueLabel: '{value} of {max}',
+      addToRankingButton: 'Add',
+      removeFromRankingButton: 'Remove',
+      moveUpButton: 'Move up',
+      moveDownButton: 'Move down',
+      unrankedOptionsLabel: 'Not ranked',
+      rankingPositionMessage:
+        '{option} is now at position {position} of {count}',
+      selectPlaceholder: 'Select an option',
+      searchPlaceholder: 'Type to search...',
+      noOptionsFound: 'No options found',
+      otherOption: 'Other (please specify)',
+      otherInputLabel: 'Please specify',
+      removeSelectionButton: 'Remove',
+      startDateLabel: 'Start date',
+      endDateLabel: 'End date',
+      validatingText: 'Validating...',
+      actionError: 'Something went wrong, please try again.',
       requiredFieldAriaLabel: 'Required field',
       optionalFieldAriaLabel: 'Optional field',
       errorAriaLabel: 'Error',
@@ -54,6 +86,29 @@ export class TranslationService {
       invalidEmail: 'Please enter a valid email address for {fieldLabel}',
       invalidNumber: 'Please enter a valid number for {fieldLabel}',
       invalidDate: 'Please enter a valid date for {fieldLabel}',
+      invalidMask: 'Please enter a complete value for {fieldLabel}',
+      maxDecimals: '{fieldLabel} can have at most {decimals} decimals',
+      statementRequired: 'Please answer "{statement}" for {fieldLabel}',
+      invalidTime: 'Please enter a valid time for {fieldLabel}',
+      minTime: '{fieldLabel} must be {minTime} or later',
+      maxTime: '{fieldLabel} must be {maxTime} or earlier',
+      dateRangeIncomplete:
+        'Please enter a start and an end date for {fieldLabel}',
+      dateRangeOrder:
+        'The end date of {fieldLabel} must be on or after the start date',
+      maxFiles: 'Please upload no more than {maxFiles} files for {fieldLabel}',
+      maxFileSize: '{fileName} exceeds the maximum file size of {maxFileSize}',
+      invalidFileType:
+        '{fileName} is not an accepted file type for {fieldLabel}',
+      fieldEquals: '{fieldLabel} must match {otherFieldLabel}',
+      fieldNotEquals: '{fieldLabel} must be different from {otherFieldLabel}',
+      fieldGreaterThan: '{fieldLabel} must be greater than {otherFieldLabel}',
+      fieldGreaterThanOrEqual:
+        '{fieldLabel} must be at least {otherFieldLabel}',
+      fieldLessThan: '{fieldLabel} must be less than {otherFieldLabel}',
+      fieldLessThanOrEqual: '{fieldLabel} cannot exceed {otherFieldLabel}',
+      requireOneOf: 'Please fill in at least one of {fieldLabels}',
+      asyncValidation: '{fieldLabel} is not valid',
       generic: '{fieldLabel} is invalid',
     },
   };
@@ -72,6 +127,10 @@ export class TranslationService {
     this.currentLanguage = language;
   }
 
+  getLanguage(): string {
+    return this.currentLanguage;
+  }
+
   translate(
     path: string,
     fallback?: string,
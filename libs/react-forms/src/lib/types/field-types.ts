@@ -11,7 +11,21 @@ export type FieldType =
   | 'form'
   | 'section'
   | 'date'
+  | 'time'
+  | 'datetime'
+  | 'date-range'
+  | 'file'
+  | 'signature'
+  | 'matrix'
+  | 'rating'
+  | 'nps'
+  | 'ranking'
   | 'slider-range'
   | 'html'
   | 'decisionTree'
   | 'confirmation';
+
+/**
+ * Any type name registered through the field registry
+ */
+export type CustomFieldType = string & Record<never, never>;
@@ -0,0 +1,188 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  findMatchingBranch,
+  getBranchExpression,
+  getBranchLabel,
+  isBranchMatched,
+} from '../branch-utils';
+import { expressionEngine } from '../../services/expression-engine.service';
+import { PageBranch } from '../../interfaces/form-interfaces';
+
+describe('Branch Utilities', () => {
+  afterEach(() => {
+    expressionEngine.clearAllCalculatedValues();
+  });
+
+  describe('isBranchMatched', () => {
+    it('should evaluate simple field conditions', () => {
+      const branch: PageBranch = {
+        condition: { field: 'age', operator: '>=', value: '18' },
+        nextPage: 'adult',
+      };
+
+      expect(isBranchMatched(branch, { age: 21 })).toBe(true);
+      expect(isBranchMatched(branch, { age: 16 })).toBe(false);
+    });
+
+    it('should combine conditions with and/or', () => {
+      const branch: PageBranch = {
+        expression: "age >= 18 and (country == 'NL' || country == 'BE')",
+        nextPage: 'benelux',
+      };
+
+      expect(isBranchMatched(branch, { age: 30, country: 'BE' })).toBe(true);
+      expect(isBranchMatched(branch, { age: 30, country: 'DE' })).toBe(false);
+      expect(isBranchMatched(branch, { age: 12, country: 'NL' })).toBe(false);
+    });
+
+    it('should support array membership and empty checks', () => {
+      expect(
+        isBranchMatched(
+          { expression: "contains(interests, 'sports')", nextPage: 'sports' },
+          { interests: ['music', 'sports'] }
+        )
+      ).toBe(true);
+      expect(
+        isBranchMatched(
+          { expression: 'isEmpty(interests)', nextPage: 'none' },
+          { interests: [] }
+        )
+      ).toBe(true);
+      expect(
+        isBranchMatched(
+          { expression: 'isNotEmpty(email)', nextPage: 'newsletter' },
+          {}
+        )
+      ).toBe(false);
+    });
+
+    it('should use calculated values', () => {
+      expressionEngine.setCalculatedValue('total', 250);
+
+      expect(
+        isBranchMatched(
+          { expression: 'total > 100', nextPage: 'approval' },
+          { quantity: 5 }
+        )
+      ).toBe(true);
+    });
+
+    it('should prefer the expression over the simple condition', () => {
+      const branch: PageBranch = {
+        condition: { field: 'age', operator: '<', value: '18' },
+        expression: 'age >= 18',
+        nextPage: 'adult',
+      };
+
+      expect(isBranchMatched(branch, { age: 40 })).toBe(true);
+    });
+
+    it('should not match invalid expressions', () => {
+      const consoleWarn = vi
+        .spyOn(console, 'warn')
+        .mockImplementation(() => undefined);
+
+      expect(
+        isBranchMatched({ expression: 'age >=', nextPage: 'adult' }, { age: 1 })
+      ).toBe(false);
+      consoleWarn.mockRestore();
+    });
+  });
+
+  describe('findMatchingBranch', () => {
+    it('should return the first matching branch', () => {
+      const branches: PageBranch[] = [
+        { expression: 'score > 90', nextPage: 'excellent' },
+        { expression: 'score > 50', nextPage: 'good' },
+      ];
+
+      expect(findMatchingBranch(branches, { score: 95 })?.nextPage).toBe(
+        'excellent'
+      );
+      expect(findMatchingBranch(branches, { score: 60 })?.nextPage).toBe(
+        'good'
+      );
+      expect(findMatchingBranch(branches, { score: 10 })).toBeUndefined();
+    });
+  });
+
+  describe('getBranchLabel', () => {
+    it('should describe conditions and expressions', () => {
+      expect(
+        getBranchLabel({
+          condition: { field: 'age', operator: '>=', value: '18' },
+          nextPage: 'adult',
+        })
+      ).toBe('age >= 18');
+      expect(
+        getBranchLabel({ expression: ' isEmpty(email) ', nextPage: 'email' })
+      ).toBe('isEmpty(email)');
+    });
+  });
+
+  describe('getBranchExpression', () => {
+    it('should convert conditions to expressions with the same result', () => {
+      const cases: Array<
+        [PageBranch['condition'], string, unknown[], unknown[]]
+      > = [
+        [
+          { field: 'role', operator: '==', value: 'admin' },
+          "role == 'admin'",
+          ['admin'],
+          ['user', undefined],
+        ],
+        [
+          { field: 'name', operator: '!=', value: "O'Brien" },
+          "name != 'O\\'Brien'",
+          ['Smith'],
+          ["O'Brien"],
+        ],
+        [
+          { field: 'age', operator: '==', value: '18' },
+          'equals(age, 18)',
+          [18, '18'],
+          [17, ''],
+        ],
+        [
+          { field: 'age', operator: '!=', value: '18' },
+          'not equals(age, 18)',
+          [21],
+          ['18'],
+        ],
+        [
+          { field: 'age', operator: '>=', value: '18' },
+          'age >= 18',
+          [18, '21'],
+          [16, '9'],
+        ],
+      ];
+
+      cases.forEach(([condition, expression, matching, notMatching]) => {
+        const branch: PageBranch = { condition, nextPage: 'next' };
+        const converted: PageBranch = {
+          expression: getBranchExpression(branch),
+          nextPage: 'next',
+        };
+
+        expect(converted.expression).toBe(expression);
+        [...matching, ...notMatching].forEach((value) => {
+          const values = { [condition?.field ?? '']: value };
+          expect(isBranchMatched(converted, values)).toBe(
+            isBranchMatched(branch, values)
+          );
+        });
+        matching.forEach((value) =>
+          expect(
+            isBranchMatched(converted, { [condition?.field ?? '']: value })
+          ).toBe(true)
+        );
+      });
+    });
+
+    it('should keep expressions', () => {
+      expect(
+        getBranchExpression({ expression: ' isEmpty(email) ', nextPage: 'e' })
+      ).toBe('isEmpty(email)');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { FormDefinition } from '../../interfaces/form-interfaces';
+import {
+  getCalculatedValues,
+  withCalculatedValues,
+} from '../calculated-values';
+
+const form: FormDefinition = {
+  app: {
+    title: 'Order',
+    pages: [
+      {
+        id: 'order',
+        title: 'Order',
+        route: '/order',
+        components: [
+          { type: 'input', id: 'quantity', label: 'Quantity' },
+          { type: 'input', id: 'price', label: 'Price' },
+          {
+            type: 'input',
+            id: 'total',
+            label: 'Total',
+            expression: { expression: 'subtotal * 1.25', mode: 'value' },
+          },
+          {
+            type: 'input',
+            id: 'subtotal',
+            label: 'Subtotal',
+            props: {
+              expression: {
+                expression: 'quantity * price',
+                mode: 'value',
+                defaultValue: 0,
+              },
+            },
+          },
+          {
+            type: 'text',
+            id: 'label',
+            expression: { expression: 'quantity > 1', mode: 'visibility' },
+          },
+        ],
+      },
+    ],
+  },
+};
+
+describe('calculated values', () => {
+  it('should evaluate value expressions, also when they use each other', () => {
+    expect(getCalculatedValues(form, { quantity: 2, price: 10 })).toEqual({
+      total: 25,
+      subtotal: 20,
+    });
+  });
+
+  it('should use the default value when the expression has no result', () => {
+    expect(getCalculatedValues(form, {}).subtotal).toBe(0);
+  });
+
+  it('should add the calculated values to the form values', () => {
+    expect(
+      withCalculatedValues(form, { quantity: 1, price: 4, total: 1 })
+    ).toEqual({ quantity: 1, price: 4, subtotal: 4, total: 5 });
+  });
+});
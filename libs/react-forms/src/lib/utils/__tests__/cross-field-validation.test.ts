@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCrossFieldValidationRules,
+  validateCrossFieldRules,
+} from '../cross-field-validation';
+import { FormComponentFieldProps } from '../../interfaces/form-interfaces';
+
+const field = (
+  rules: NonNullable<FormComponentFieldProps['validation']>['rules']
+): FormComponentFieldProps => ({
+  type: 'input',
+  id: 'field',
+  validation: { rules },
+});
+
+describe('Cross-field validation', () => {
+  it('should compare dates, numbers and text', () => {
+    const afterStart = field([{ field: 'startDate', operator: '>' }]);
+
+    expect(
+      validateCrossFieldRules(afterStart, '2025-03-01', {
+        startDate: '2025-02-01',
+      })
+    ).toEqual([]);
+    expect(
+      validateCrossFieldRules(afterStart, '2025-01-01', {
+        startDate: '2025-02-01',
+      })
+    ).toEqual([
+      expect.objectContaining({
+        errorType: 'fieldGreaterThan',
+        fields: ['startDate'],
+      }),
+    ]);
+
+    const atMostMax = field([{ field: 'max', operator: '<=' }]);
+    expect(validateCrossFieldRules(atMostMax, '9', { max: '10' })).toEqual([]);
+    expect(
+      validateCrossFieldRules(atMostMax, '11', { max: '10' })
+    ).toHaveLength(1);
+
+    const sameEmail = field([{ field: 'email', operator: '==' }]);
+    expect(
+      validateCrossFieldRules(sameEmail, 'a@example.com', {
+        email: 'b@example.com',
+      })
+    ).toEqual([expect.objectContaining({ errorType: 'fieldEquals' })]);
+  });
+
+  it('should skip comparisons while one of the values is empty', () => {
+    const rule = field([{ field: 'startDate', operator: '>' }]);
+
+    expect(
+      validateCrossFieldRules(rule, '', { startDate: '2025-02-01' })
+    ).toEqual([]);
+    expect(validateCrossFieldRules(rule, '2025-01-01', {})).toEqual([]);
+  });
+
+  it('should require one of the fields', () => {
+    const rule = field([{ requireOneOf: ['phone', 'email'] }]);
+
+    expect(validateCrossFieldRules(rule, '', { phone: '', email: '' })).toEqual(
+      [
+        expect.objectContaining({
+          errorType: 'requireOneOf',
+          fields: ['phone', 'email'],
+        }),
+      ]
+    );
+    expect(
+      validateCrossFieldRules(rule, '', { phone: '', email: 'a@example.com' })
+    ).toEqual([]);
+    expect(validateCrossFieldRules(rule, 'x', {})).toEqual([]);
+  });
+
+  it('should validate expressions including validation mode expressions', () => {
+    const component: FormComponentFieldProps = {
+      type: 'input',
+      id: 'maxGuests',
+      validation: { rules: [{ expression: 'maxGuests >= minGuests' }] },
+      expression: {
+        mode: 'validation',
+        expression: 'maxGuests <= 100',
+        errorMessage: 'No more than 100 guests',
+      },
+    };
+
+    expect(getCrossFieldValidationRules(component)).toHaveLength(2);
+    expect(
+      validateCrossFieldRules(component, 10, { maxGuests: 10, minGuests: 5 })
+    ).toEqual([]);
+
+    const failures = validateCrossFieldRules(component, 200, {
+      maxGuests: 200,
+      minGuests: 250,
+    });
+    expect(failures.map((failure) => failure.rule.message)).toEqual([
+      undefined,
+      'No more than 100 guests',
+    ]);
+  });
+});
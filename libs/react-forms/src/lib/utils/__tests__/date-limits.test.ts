@@ -0,0 +1,105 @@
+import {
+  formatDateFieldValue,
+  getDateInputLimits,
+  getDateLimitField,
+  isDateRangeValue,
+  parseDateFieldValue,
+  resolveDateLimit,
+  toDateFieldValue,
+} from '../date-limits';
+
+// Thursday May 15th 2025, 10:30 local time
+const now = new Date(2025, 4, 15, 10, 30);
+
+const resolveDate = (
+  limit: string,
+  bound: 'min' | 'max' = 'min',
+  formValues: Record<string, unknown> = {}
+) => {
+  const date = resolveDateLimit(limit, bound, 'date', formValues, now);
+  return date ? toDateFieldValue(date, 'date') : null;
+};
+
+describe('Date limits', () => {
+  it('should resolve limits relative to today', () => {
+    expect(resolveDate('2025-01-31')).toBe('2025-01-31');
+    expect(resolveDate('today')).toBe('2025-05-15');
+    expect(resolveDate('today+30d')).toBe('2025-06-14');
+    expect(resolveDate('-18y', 'max')).toBe('2007-05-15');
+    expect(resolveDate('+2w')).toBe('2025-05-29');
+    expect(resolveDate('today + 1m - 1d')).toBe('2025-06-14');
+    expect(resolveDate('next week')).toBeNull();
+  });
+
+  it('should resolve limits that reference other fields', () => {
+    const values = {
+      startDate: '2025-06-01',
+      stay: { start: '2025-06-01', end: '2025-06-07' },
+      empty: '',
+    };
+
+    expect(resolveDate('startDate', 'min', values)).toBe('2025-06-01');
+    expect(resolveDate('after startDate', 'min', values)).toBe('2025-06-02');
+    expect(resolveDate('before startDate', 'max', values)).toBe('2025-05-31');
+    expect(resolveDate('startDate+1m', 'min', values)).toBe('2025-07-01');
+    expect(resolveDate('after stay', 'min', values)).toBe('2025-06-08');
+    expect(resolveDate('after empty', 'min', values)).toBeNull();
+    expect(getDateLimitField('after startDate')).toBe('startDate');
+    expect(getDateLimitField('today+1d')).toBeUndefined();
+  });
+
+  it('should resolve time and datetime limits to the minute', () => {
+    const resolve = (
+      limit: string,
+      kind: 'time' | 'datetime',
+      formValues: Record<string, unknown> = {}
+    ) => {
+      const date = resolveDateLimit(limit, 'min', kind, formValues, now);
+      return date ? toDateFieldValue(date, kind) : null;
+    };
+
+    expect(resolve('09:00', 'time')).toBe('09:00');
+    expect(resolve('now+1h', 'time')).toBe('11:30');
+    expect(resolve('after start', 'time', { start: '08:45' })).toBe('08:46');
+    expect(resolve('now', 'datetime')).toBe('2025-05-15T10:30');
+    expect(resolve('today+1d', 'datetime')).toBe('2025-05-16T00:00');
+    expect(
+      resolve('after stay', 'datetime', {
+        stay: { start: '2025-06-01', end: '2025-06-07' },
+      })
+    ).toBe('2025-06-08T00:00');
+    expect(parseDateFieldValue('25:00', 'time')).toBeNull();
+    expect(parseDateFieldValue('15-05-2025', 'date')).toBeNull();
+  });
+
+  it('should give the input limits and format values for the locale', () => {
+    expect(
+      getDateInputLimits(
+        {
+          type: 'date-range',
+          props: { maxDate: 'today+1y' },
+          validation: { minDate: 'today' },
+        },
+        {},
+        now
+      )
+    ).toEqual({ min: '2025-05-15', max: '2026-05-15' });
+    expect(
+      getDateInputLimits(
+        { type: 'time', validation: { minTime: '09:00', minDate: 'today' } },
+        {},
+        now
+      )
+    ).toEqual({ min: '09:00', max: undefined });
+
+    expect(formatDateFieldValue('2025-05-15', 'date', 'nl')).toBe(
+      '15 mei 2025'
+    );
+    expect(formatDateFieldValue('09:30', 'time', 'en')).toMatch(/^9:30\sAM$/);
+    expect(formatDateFieldValue('2025-05-15T09:30', 'datetime', 'nl')).toMatch(
+      /^15 mei 2025.+09:30$/
+    );
+    expect(isDateRangeValue({ start: '2025-05-15', end: '' })).toBe(true);
+    expect(isDateRangeValue('2025-05-15')).toBe(false);
+  });
+});
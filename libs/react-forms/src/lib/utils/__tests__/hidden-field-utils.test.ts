@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { applyHiddenFieldPolicy } from '../hidden-field-utils';
+import {
+  FormDefinition,
+  HiddenFieldPolicy,
+} from '../../interfaces/form-interfaces';
+
+const createForm = (
+  hiddenFieldPolicy?: HiddenFieldPolicy,
+  fieldPolicy?: HiddenFieldPolicy
+): FormDefinition => ({
+  app: {
+    title: 'Insurance',
+    settings: { hiddenFieldPolicy },
+    pages: [
+      {
+        id: 'vehicle',
+        title: 'Vehicle',
+        route: '/vehicle',
+        components: [
+          { type: 'radio', id: 'hasCar', label: 'Do you own a car?' },
+          {
+            type: 'input',
+            id: 'licensePlate',
+            label: 'License plate',
+            hiddenFieldPolicy: fieldPolicy,
+            visibilityConditions: [
+              { field: 'hasCar', operator: '==', value: 'yes' },
+            ],
+          },
+          {
+            type: 'array',
+            id: 'drivers',
+            label: 'Drivers',
+            arrayItems: [
+              {
+                id: 'driver',
+                components: [
+                  { type: 'input', id: 'name', label: 'Name' },
+                  {
+                    type: 'input',
+                    id: 'licenseYear',
+                    label: 'License year',
+                    visibilityConditions: [
+                      { field: 'name', operator: 'isNotEmpty' },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        id: 'extras',
+        title: 'Extras',
+        route: '/extras',
+        visibilityConditions: [
+          { field: 'hasCar', operator: '==', value: 'yes' },
+        ],
+        components: [
+          {
+            type: 'section',
+            id: 'coverage',
+            label: 'Coverage',
+            children: [{ type: 'checkbox', id: 'theft', label: 'Theft' }],
+          },
+        ],
+      },
+    ],
+  },
+});
+
+const values = {
+  hasCar: 'no',
+  licensePlate: 'AB-123-C',
+  drivers: [{ name: '', licenseYear: '2001' }],
+  'coverage.theft': true,
+};
+
+describe('applyHiddenFieldPolicy', () => {
+  it('should keep values of hidden fields by default', () => {
+    const form = createForm();
+
+    expect(applyHiddenFieldPolicy(form, values, 'hide')).toBe(values);
+    expect(applyHiddenFieldPolicy(form, values, 'submit')).toBe(values);
+  });
+
+  it('should clear values of hidden fields, array children and hidden pages', () => {
+    const result = applyHiddenFieldPolicy(
+      createForm('clearOnHide'),
+      values,
+      'hide'
+    );
+
+    expect(result).toEqual({ hasCar: 'no', drivers: [{ name: '' }] });
+    expect(values.licensePlate).toBe('AB-123-C');
+  });
+
+  it('should only exclude values on submit with excludeOnSubmit', () => {
+    const form = createForm('excludeOnSubmit');
+
+    expect(applyHiddenFieldPolicy(form, values, 'hide')).toBe(values);
+    expect(applyHiddenFieldPolicy(form, values, 'submit')).toEqual({
+      hasCar: 'no',
+      drivers: [{ name: '' }],
+    });
+  });
+
+  it('should let the field policy override the form policy', () => {
+    const result = applyHiddenFieldPolicy(
+      createForm('clearOnHide', 'keep'),
+      values,
+      'submit'
+    );
+
+    expect(result).toEqual({
+      hasCar: 'no',
+      licensePlate: 'AB-123-C',
+      drivers: [{ name: '' }],
+    });
+  });
+
+  it('should not touch values of visible fields', () => {
+    const visibleValues = { ...values, hasCar: 'yes' };
+
+    expect(
+      applyHiddenFieldPolicy(createForm('clearOnHide'), visibleValues, 'submit')
+    ).toEqual({ ...visibleValues, drivers: [{ name: '' }] });
+  });
+});
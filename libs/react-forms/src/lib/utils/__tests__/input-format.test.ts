@@ -0,0 +1,65 @@
+import {
+  applyMask,
+  formatInputValue,
+  getEditableInputValue,
+  getInputFormatError,
+  getMaskPattern,
+  isMaskComplete,
+  parseInputValue,
+  unmaskValue,
+} from '../input-format';
+
+describe('Input format utilities', () => {
+  it('should apply and remove masks', () => {
+    expect(applyMask('1234ab', '9999 AA')).toBe('1234 AB');
+    expect(applyMask('12', '9999 AA')).toBe('12');
+    expect(applyMask('612345678', '+31 9 99999999')).toBe('+31 6 12345678');
+
+    expect(unmaskValue('1234 ab', '9999 AA')).toBe('1234AB');
+    expect(unmaskValue('12x34ABC', '9999 AA')).toBe('1234AB');
+    expect(unmaskValue('+31 6 1234', '+31 9 99999999')).toBe('61234');
+    expect(unmaskValue('0612', '+31 9 99999999')).toBe('0612');
+  });
+
+  it('should check whether a mask is complete', () => {
+    expect(isMaskComplete('1234AB', '9999 AA')).toBe(true);
+    expect(isMaskComplete('1234A', '9999 AA')).toBe(false);
+    expect(isMaskComplete('12345B', '9999 AA')).toBe(false);
+    expect(getMaskPattern('99-A')).toBe('^\\d\\d[A-Z]$');
+  });
+
+  it('should parse and format numbers for the locale', () => {
+    const props = {
+      format: 'currency' as const,
+      locale: 'nl-NL',
+      currency: 'EUR',
+      decimals: 2,
+    };
+
+    expect(parseInputValue('1.234,567', props)).toBe('1234.56');
+    expect(parseInputValue('€ 12,5', props)).toBe('12.5');
+    expect(parseInputValue('1234.5', props)).toBe('1234.5');
+    expect(parseInputValue('0.75', props)).toBe('0.75');
+    expect(parseInputValue('1.234', props)).toBe('1234');
+    expect(parseInputValue('1.234.567', props)).toBe('1234567');
+    expect(formatInputValue('1234.5', props)).toMatch(/€\s1\.234,50/);
+    expect(getEditableInputValue('1234.5', props)).toBe('1234,5');
+    expect(
+      formatInputValue('1234.5', { format: 'number', locale: 'en-US' })
+    ).toBe('1,234.5');
+    expect(formatInputValue('abc', props)).toBe('abc');
+  });
+
+  it('should validate masks and decimals', () => {
+    expect(getInputFormatError('1234', { mask: '9999 AA' })).toEqual({
+      errorType: 'invalidMask',
+    });
+    expect(getInputFormatError('1234AB', { mask: '9999 AA' })).toBeUndefined();
+    expect(
+      getInputFormatError('12.345', { format: 'number', decimals: 2 })
+    ).toEqual({ errorType: 'maxDecimals', params: { decimals: 2 } });
+    expect(
+      getInputFormatError('12.34', { format: 'number', decimals: 2 })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  formatCurrency,
+  formatDate,
+  formatDisplayValue,
+  formatPercent,
+  formatValue,
+  parseDateValue,
+} from '../locale-format';
+
+describe('Locale format utilities', () => {
+  it('should format amounts, numbers and percentages for the locale', () => {
+    expect(formatCurrency(1234.5, 'nl')).toMatch(/^€\s1\.234,50$/);
+    expect(formatCurrency('1234.5', 'en-US', 'USD')).toBe('$1,234.50');
+    expect(formatValue(1234.5, 'currency', ['EUR', 0], 'nl')).toMatch(
+      /^€\s1\.235$/
+    );
+    expect(formatValue(1234.5, 'number', [], 'nl')).toBe('1.234,5');
+    expect(formatValue(2.5, 'number', [2], 'en')).toBe('2.50');
+    expect(formatPercent(25, 'nl')).toBe('25%');
+    expect(formatValue(12.5, 'percent', [1], 'en')).toBe('12.5%');
+  });
+
+  it('should format dates in the date style of the locale', () => {
+    expect(formatDate('2024-05-01', 'nl')).toBe('1 mei 2024');
+    expect(formatDate('2024-05-01', 'en')).toBe('May 1, 2024');
+    expect(formatValue('2024-05-01', 'date', ['short'], 'nl')).toBe(
+      '01-05-2024'
+    );
+    expect(formatValue('2024-05-01', 'date', ['full'], 'en')).toBe(
+      'Wednesday, May 1, 2024'
+    );
+    expect(parseDateValue('2024-05-01')?.getDate()).toBe(1);
+    expect(formatDate('not a date', 'nl')).toBe('not a date');
+  });
+
+  it('should format plain values for display', () => {
+    expect(formatDisplayValue(1234.5, 'nl')).toBe('1234,5');
+    expect(formatDisplayValue(2024, 'en')).toBe('2024');
+    expect(formatDisplayValue('2024-05-01', 'nl', 'date')).toBe('1 mei 2024');
+    expect(formatDisplayValue('2024-05-01', 'nl')).toBe('2024-05-01');
+    expect(formatDisplayValue('2024-05-01T09:30', 'en', 'datetime')).toMatch(
+      /^May 1, 2024.+9:30\sAM$/
+    );
+    expect(formatDisplayValue('text', 'nl')).toBe('text');
+    expect(formatDisplayValue(undefined, 'nl')).toBe('');
+  });
+
+  it('should fall back to the default locale for unsupported locales', () => {
+    expect(formatCurrency(1, 'not a locale!', 'EUR', 2)).toContain('1');
+    expect(formatValue(1, 'unknown', [], 'nl')).toBe('1');
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  getMatrixAnswerLabel,
+  getMatrixAnswers,
+  getMatrixOptions,
+  getUnansweredStatements,
+  isMatrixValue,
+} from '../matrix-utils';
+
+const component = {
+  props: {
+    statements: [
+      { id: 'speed', label: 'Speed', required: true },
+      { id: 'quality', label: 'Quality' },
+      { id: 'price', label: 'Price' },
+    ],
+    options: [
+      { label: 'Unsatisfied', value: 'unsatisfied' },
+      { label: 'Satisfied', value: 'satisfied' },
+    ],
+  },
+};
+
+describe('Matrix utilities', () => {
+  it('should recognize matrix values', () => {
+    expect(isMatrixValue({ speed: 'satisfied' })).toBe(true);
+    expect(isMatrixValue({})).toBe(true);
+    expect(isMatrixValue(['satisfied'])).toBe(false);
+    expect(isMatrixValue('satisfied')).toBe(false);
+    expect(isMatrixValue(null)).toBe(false);
+  });
+
+  it('should use plain string options as label and value', () => {
+    expect(getMatrixOptions({ props: { options: ['Yes', 'No'] } })).toEqual([
+      { label: 'Yes', value: 'Yes' },
+      { label: 'No', value: 'No' },
+    ]);
+    expect(getMatrixOptions({})).toEqual([]);
+  });
+
+  it('should find the unanswered required statements', () => {
+    expect(
+      getUnansweredStatements(component, {}).map((statement) => statement.id)
+    ).toEqual(['speed']);
+    expect(getUnansweredStatements(component, { speed: 'satisfied' })).toEqual(
+      []
+    );
+    expect(
+      getUnansweredStatements(
+        { ...component, validation: { required: true } },
+        { speed: 'satisfied', quality: [] }
+      ).map((statement) => statement.id)
+    ).toEqual(['quality', 'price']);
+  });
+
+  it('should list the answers with option labels in statement order', () => {
+    expect(
+      getMatrixAnswers(component, {
+        price: ['unsatisfied', 'satisfied'],
+        speed: 'satisfied',
+      })
+    ).toEqual([
+      { statement: component.props.statements[0], answer: 'Satisfied' },
+      {
+        statement: component.props.statements[2],
+        answer: 'Unsatisfied, Satisfied',
+      },
+    ]);
+    expect(getMatrixAnswerLabel(component, 'unknown')).toBe('unknown');
+    expect(getMatrixAnswers(component, undefined)).toEqual([]);
+  });
+});
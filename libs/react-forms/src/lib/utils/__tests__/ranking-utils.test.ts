@@ -0,0 +1,59 @@
+import {
+  getRankPosition,
+  getRankingLabels,
+  isRankingValue,
+  moveRankedOption,
+} from '../ranking-utils';
+
+const component = {
+  props: {
+    options: [
+      { label: 'Price', value: 'price' },
+      { label: 'Speed', value: 'speed' },
+      { label: 'Support', value: 'support' },
+    ],
+  },
+};
+
+describe('Ranking utilities', () => {
+  it('should recognize rankings', () => {
+    expect(isRankingValue(['price', 'speed'])).toBe(true);
+    expect(isRankingValue([])).toBe(true);
+    expect(isRankingValue([1, 2])).toBe(false);
+    expect(isRankingValue('price')).toBe(false);
+  });
+
+  it('should move and insert options', () => {
+    const ranking = ['price', 'speed', 'support'];
+    expect(moveRankedOption(ranking, 'support', 0)).toEqual([
+      'support',
+      'price',
+      'speed',
+    ]);
+    expect(moveRankedOption(ranking, 'price', 2)).toEqual([
+      'speed',
+      'support',
+      'price',
+    ]);
+    expect(moveRankedOption(['price'], 'speed', 10)).toEqual([
+      'price',
+      'speed',
+    ]);
+    expect(ranking).toEqual(['price', 'speed', 'support']);
+  });
+
+  it('should list the labels of the ranked options', () => {
+    expect(getRankingLabels(component, ['support', 'price'])).toEqual([
+      'Support',
+      'Price',
+    ]);
+    expect(getRankingLabels(component, ['other'])).toEqual(['other']);
+    expect(getRankingLabels(component, null)).toEqual([]);
+  });
+
+  it('should find the position of an option', () => {
+    expect(getRankPosition(['support', 'price'], 'price')).toBe(2);
+    expect(getRankPosition(['support', 'price'], 'speed')).toBe(0);
+    expect(getRankPosition(null, 'speed')).toBe(0);
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  getNpsCategory,
+  getRatingEmoji,
+  getRatingMax,
+  isScoreValue,
+} from '../rating-utils';
+
+describe('Rating utilities', () => {
+  it('should recognize scores', () => {
+    expect(isScoreValue(0)).toBe(true);
+    expect(isScoreValue(4)).toBe(true);
+    expect(isScoreValue('4')).toBe(false);
+    expect(isScoreValue(null)).toBe(false);
+    expect(isScoreValue(NaN)).toBe(false);
+  });
+
+  it('should use props.max as highest rating within limits', () => {
+    expect(getRatingMax({})).toBe(5);
+    expect(getRatingMax({ props: { max: 3 } })).toBe(3);
+    expect(getRatingMax({ props: { max: 1 } })).toBe(5);
+    expect(getRatingMax({ props: { max: 100 } })).toBe(10);
+  });
+
+  it('should pick emojis from sad to happy', () => {
+    expect(getRatingEmoji(1, 5)).toBe('😞');
+    expect(getRatingEmoji(3, 5)).toBe('😐');
+    expect(getRatingEmoji(5, 5)).toBe('😀');
+    expect(getRatingEmoji(1, 3)).toBe('😞');
+    expect(getRatingEmoji(2, 3)).toBe('😐');
+    expect(getRatingEmoji(10, 10)).toBe('😀');
+  });
+
+  it('should categorize NPS scores', () => {
+    expect(getNpsCategory(0)).toBe('detractor');
+    expect(getNpsCategory(6)).toBe('detractor');
+    expect(getNpsCategory(7)).toBe('passive');
+    expect(getNpsCategory('8')).toBe('passive');
+    expect(getNpsCategory(9)).toBe('promoter');
+    expect(getNpsCategory(10)).toBe('promoter');
+    expect(getNpsCategory(null)).toBe('');
+    expect(getNpsCategory('')).toBe('');
+  });
+});
@@ -0,0 +1,32 @@
+import {
+  findPageIndexByRoute,
+  getHashRoute,
+  normalizeRoute,
+} from '../routing-utils';
+import { PageProps } from '../../interfaces/form-interfaces';
+
+const pages: PageProps[] = [
+  { id: 'start', title: 'Start', route: '/', components: [] },
+  { id: 'contact', title: 'Contact', route: 'contact/', components: [] },
+];
+
+describe('Routing utilities', () => {
+  it('should normalize routes', () => {
+    expect(normalizeRoute('contact/')).toBe('/contact');
+    expect(normalizeRoute('/contact')).toBe('/contact');
+    expect(normalizeRoute('/')).toBe('/');
+    expect(normalizeRoute(undefined)).toBe('');
+  });
+
+  it('should read the route from the location hash', () => {
+    expect(getHashRoute('#/contact')).toBe('/contact');
+    expect(getHashRoute('')).toBe('');
+  });
+
+  it('should find pages by route', () => {
+    expect(findPageIndexByRoute(pages, '/')).toBe(0);
+    expect(findPageIndexByRoute(pages, '/contact')).toBe(1);
+    expect(findPageIndexByRoute(pages, '/unknown')).toBe(-1);
+    expect(findPageIndexByRoute(pages, '')).toBe(-1);
+  });
+});
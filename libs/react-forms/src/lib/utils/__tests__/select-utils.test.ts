@@ -0,0 +1,74 @@
+import {
+  filterSelectOptions,
+  getOtherSelectText,
+  getSelectLabels,
+  getSelectOptions,
+  getSelectedValues,
+  groupSelectOptions,
+  isComboboxSelect,
+} from '../select-utils';
+
+const component = {
+  props: {
+    options: [
+      { label: 'Netherlands', value: 'NL', group: 'Europe' },
+      { label: 'Curaçao', value: 'CW', group: 'Caribbean' },
+      'Other country',
+      { label: 'Belgium', value: 'BE', group: 'Europe', description: 'EU' },
+    ],
+  },
+};
+
+describe('Select utilities', () => {
+  it('should normalize the options', () => {
+    expect(getSelectOptions(component)).toEqual([
+      { label: 'Netherlands', value: 'NL', group: 'Europe' },
+      { label: 'Curaçao', value: 'CW', group: 'Caribbean' },
+      { label: 'Other country', value: 'Other country' },
+      { label: 'Belgium', value: 'BE', group: 'Europe', description: 'EU' },
+    ]);
+    expect(
+      getSelectOptions({ options: [{ label: 'Yes', value: 'yes' }] })
+    ).toEqual([{ label: 'Yes', value: 'yes' }]);
+    expect(isComboboxSelect({ searchable: true })).toBe(true);
+    expect(isComboboxSelect({ multiple: true })).toBe(true);
+    expect(isComboboxSelect({})).toBe(false);
+  });
+
+  it('should group the options in order of appearance', () => {
+    expect(
+      groupSelectOptions(getSelectOptions(component)).map(
+        ({ group, options }) => [group, options.map((option) => option.value)]
+      )
+    ).toEqual([
+      [undefined, ['Other country']],
+      ['Europe', ['NL', 'BE']],
+      ['Caribbean', ['CW']],
+    ]);
+  });
+
+  it('should search case and accent insensitive', () => {
+    const options = getSelectOptions(component);
+    const search = (query: string) =>
+      filterSelectOptions(options, query).map((option) => option.value);
+
+    expect(search('curac')).toEqual(['CW']);
+    expect(search('NETH')).toEqual(['NL']);
+    expect(search('eu')).toEqual(['BE']);
+    expect(search(' ')).toHaveLength(4);
+  });
+
+  it('should find the chosen values, labels and other text', () => {
+    const options = getSelectOptions(component);
+
+    expect(getSelectedValues('NL')).toEqual(['NL']);
+    expect(getSelectedValues('')).toEqual([]);
+    expect(getSelectedValues(['NL', 1, ''])).toEqual(['NL']);
+    expect(getOtherSelectText(options, ['NL', 'Aruba'])).toBe('Aruba');
+    expect(getOtherSelectText(options, 'NL')).toBe('');
+    expect(getSelectLabels(component, ['CW', 'Aruba'])).toEqual([
+      'Curaçao',
+      'Aruba',
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  createSvgSignature,
+  createTypedSignature,
+  getStrokePath,
+  isSignatureValue,
+} from '../signature-utils';
+
+const options = { width: 200, height: 100 };
+
+describe('Signature utilities', () => {
+  it('should create SVG path data for strokes', () => {
+    expect(
+      getStrokePath([
+        { x: 10, y: 20 },
+        { x: 30.25, y: 40 },
+      ])
+    ).toBe('M 10 20 L 30.3 40');
+    expect(getStrokePath([{ x: 5, y: 5 }])).toBe('M 5 5 l 0.1 0');
+    expect(getStrokePath([])).toBe('');
+  });
+
+  it('should create an SVG data URL of the drawn strokes', () => {
+    const value = createSvgSignature(
+      [
+        [
+          { x: 10, y: 20 },
+          { x: 30, y: 40 },
+        ],
+      ],
+      options
+    );
+    const svg = decodeURIComponent(value.split(',')[1]);
+
+    expect(isSignatureValue(value)).toBe(true);
+    expect(svg).toContain('viewBox="0 0 200 100"');
+    expect(svg).toContain('<path d="M 10 20 L 30 40"/>');
+    expect(createSvgSignature([], options)).toBe('');
+  });
+
+  it('should create an SVG data URL of a typed name', () => {
+    const value = createTypedSignature(' Jane <Doe> ', options);
+    const svg = decodeURIComponent(value.split(',')[1]);
+
+    expect(isSignatureValue(value)).toBe(true);
+    expect(svg).toContain('>Jane &lt;Doe&gt;</text>');
+    expect(createTypedSignature('  ', options)).toBe('');
+  });
+
+  it('should recognize signature values', () => {
+    expect(isSignatureValue('data:image/png;base64,iVBORw0')).toBe(true);
+    expect(isSignatureValue('data:image/jpeg;base64,abc')).toBe(false);
+    expect(isSignatureValue('Jane Doe')).toBe(false);
+    expect(isSignatureValue(undefined)).toBe(false);
+  });
+});
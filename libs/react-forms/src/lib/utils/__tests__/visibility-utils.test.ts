@@ -0,0 +1,170 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  evaluateVisibility,
+  getVisibilityRules,
+  isVisibilityCondition,
+} from '../visibility-utils';
+import { expressionEngine } from '../../services/expression-engine.service';
+import { VisibilityRule } from '../../interfaces/form-interfaces';
+
+describe('Visibility Utilities', () => {
+  afterEach(() => {
+    expressionEngine.clearAllCalculatedValues();
+  });
+
+  describe('evaluateVisibility', () => {
+    it('should be visible without rules', () => {
+      expect(evaluateVisibility(undefined, {})).toBe(true);
+      expect(evaluateVisibility([], {})).toBe(true);
+    });
+
+    it('should keep supporting the comparison operators', () => {
+      const values = { country: 'NL', age: '21' };
+
+      expect(
+        evaluateVisibility(
+          [{ field: 'country', operator: '==', value: 'NL' }],
+          values
+        )
+      ).toBe(true);
+      expect(
+        evaluateVisibility(
+          [{ field: 'country', operator: 'notEquals', value: 'NL' }],
+          values
+        )
+      ).toBe(false);
+      expect(
+        evaluateVisibility(
+          [{ field: 'age', operator: 'greaterThan', value: 18 }],
+          values
+        )
+      ).toBe(true);
+      expect(
+        evaluateVisibility(
+          [{ field: 'age', operator: '<=', value: 18 }],
+          values
+        )
+      ).toBe(false);
+      expect(
+        evaluateVisibility([{ field: 'missing', operator: '>', value: -1 }], {})
+      ).toBe(false);
+    });
+
+    it('should require all top-level rules to match', () => {
+      const rules: VisibilityRule[] = [
+        { field: 'country', operator: '==', value: 'NL' },
+        { field: 'age', operator: '>=', value: 18 },
+      ];
+
+      expect(evaluateVisibility(rules, { country: 'NL', age: 30 })).toBe(true);
+      expect(evaluateVisibility(rules, { country: 'NL', age: 12 })).toBe(false);
+    });
+
+    it('should support contains, isEmpty, isNotEmpty, in and matches', () => {
+      const values = {
+        interests: ['music', 'sports'],
+        notes: '',
+        email: 'jane@example.com',
+        plan: 'pro',
+      };
+
+      expect(
+        evaluateVisibility(
+          [{ field: 'interests', operator: 'contains', value: 'sports' }],
+          values
+        )
+      ).toBe(true);
+      expect(
+        evaluateVisibility([{ field: 'notes', operator: 'isEmpty' }], values)
+      ).toBe(true);
+      expect(
+        evaluateVisibility([{ field: 'notes', operator: 'isNotEmpty' }], values)
+      ).toBe(false);
+      expect(
+        evaluateVisibility(
+          [{ field: 'plan', operator: 'in', value: ['pro', 'enterprise'] }],
+          values
+        )
+      ).toBe(true);
+      expect(
+        evaluateVisibility(
+          [{ field: 'email', operator: 'matches', value: '@example\\.com$' }],
+          values
+        )
+      ).toBe(true);
+      expect(
+        evaluateVisibility(
+          [{ field: 'email', operator: 'matches', value: '^admin@' }],
+          values
+        )
+      ).toBe(false);
+    });
+
+    it('should combine rules with anyOf, allOf and not groups', () => {
+      const rules: VisibilityRule[] = [
+        {
+          anyOf: [
+            { field: 'role', operator: '==', value: 'admin' },
+            {
+              allOf: [
+                { field: 'role', operator: '==', value: 'editor' },
+                { not: { field: 'team', operator: 'isEmpty' } },
+              ],
+            },
+          ],
+        },
+      ];
+
+      expect(evaluateVisibility(rules, { role: 'admin' })).toBe(true);
+      expect(evaluateVisibility(rules, { role: 'editor', team: 'web' })).toBe(
+        true
+      );
+      expect(evaluateVisibility(rules, { role: 'editor', team: '' })).toBe(
+        false
+      );
+      expect(evaluateVisibility(rules, { role: 'viewer' })).toBe(false);
+    });
+
+    it('should evaluate expressions with calculated values', () => {
+      expressionEngine.setCalculatedValue('total', 120);
+
+      expect(
+        evaluateVisibility([{ expression: 'total > 100' }], { quantity: 2 })
+      ).toBe(true);
+    });
+
+    it('should work with field ids that are not valid identifiers', () => {
+      expect(
+        evaluateVisibility([{ field: 'first-name', operator: 'isNotEmpty' }], {
+          'first-name': 'Jane',
+        })
+      ).toBe(true);
+    });
+  });
+
+  describe('getVisibilityRules', () => {
+    it('should include visibility expressions', () => {
+      expect(
+        getVisibilityRules({
+          visibilityConditions: [{ field: 'a', operator: 'isEmpty' }],
+          props: { expression: { expression: 'b > 1', mode: 'visibility' } },
+        })
+      ).toEqual([{ field: 'a', operator: 'isEmpty' }, { expression: 'b > 1' }]);
+      expect(
+        getVisibilityRules({
+          props: { expression: { expression: 'b * 2', mode: 'value' } },
+        })
+      ).toBeUndefined();
+    });
+  });
+
+  describe('isVisibilityCondition', () => {
+    it('should distinguish conditions from groups', () => {
+      expect(
+        isVisibilityCondition({ field: 'a', operator: '==', value: 'b' })
+      ).toBe(true);
+      expect(isVisibilityCondition({ anyOf: [] })).toBe(false);
+      expect(isVisibilityCondition({ expression: 'a' })).toBe(false);
+    });
+  });
+});
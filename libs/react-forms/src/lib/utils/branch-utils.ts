@@ -0,0 +1,135 @@
+import { BranchCondition, PageBranch } from '../interfaces/form-interfaces';
+import { expressionEngine } from '../services/expression-engine.service';
+import { createFormContext } from './calculated-values';
+
+/**
+ * Evaluates a single field comparison of a branch
+ */
+export function evaluateBranchCondition(
+  condition: BranchCondition,
+  formValues: Record<string, unknown>
+): boolean {
+  const fieldValue = formValues[condition.field];
+  const conditionValue = condition.value;
+
+  switch (condition.operator) {
+    case '==':
+      return String(fieldValue) === String(conditionValue);
+    case '!=':
+      return String(fieldValue) !== String(conditionValue);
+    case '>':
+      return Number(fieldValue) > Number(conditionValue);
+    case '<':
+      return Number(fieldValue) < Number(conditionValue);
+    case '>=':
+      return Number(fieldValue) >= Number(conditionValue);
+    case '<=':
+      return Number(fieldValue) <= Number(conditionValue);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks whether a branch matches the current form values.
+ * Branch expressions can use all form values and calculated values,
+ * e.g. "age >= 18 and (contains(interests, 'sports') or isNotEmpty(club))"
+ */
+export function isBranchMatched(
+  branch: PageBranch,
+  formValues: Record<string, unknown>
+): boolean {
+  if (typeof branch.expression === 'string' && branch.expression.trim()) {
+    return expressionEngine.evaluateCondition(
+      branch.expression,
+      createFormContext(formValues)
+    );
+  }
+
+  if (branch.condition) {
+    return evaluateBranchCondition(branch.condition, formValues);
+  }
+
+  return false;
+}
+
+/**
+ * Returns the first branch that matches the current form values
+ */
+export function findMatchingBranch(
+  branches: PageBranch[] | undefined,
+  formValues: Record<string, unknown>
+): PageBranch | undefined {
+  return branches?.find((branch) => isBranchMatched(branch, formValues));
+}
+
+/**
+ * Human readable description of a branch, e.g. "age >= 18"
+ */
+export function getBranchLabel(branch: PageBranch): string {
+  if (typeof branch.expression === 'string' && branch.expression.trim()) {
+    return branch.expression.trim();
+  }
+  if (branch.condition) {
+    return `${branch.condition.field} ${branch.condition.operator} ${branch.condition.value}`;
+  }
+  return '';
+}
+
+const isNumeric = (value: string): boolean =>
+  value.trim() !== '' && !Number.isNaN(Number(value));
+
+const quote = (value: string): string =>
+  `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+/**
+ * Converts a simple condition to an expression that matches the same values.
+ * `==` in expressions is strict, so numbers are compared with equals(), which
+ * also matches numbers entered as text, and other values as quoted strings,
+ * e.g. "role == 'admin'".
+ */
+function toConditionExpression(condition: BranchCondition): string {
+  const { field, operator } = condition;
+  const value = String(condition.value ?? '');
+  switch (operator) {
+    case '==':
+    case '!=':
+      if (isNumeric(value)) {
+        const expression = `equals(${field}, ${Number(value)})`;
+        return operator === '==' ? expression : `not ${expression}`;
+      }
+      return `${field} ${operator} ${quote(value)}`;
+    case '>':
+    case '<':
+    case '>=':
+    case '<=':
+      return `${field} ${operator} ${
+        isNumeric(value) ? Number(value) : quote(value)
+      }`;
+    default:
+      // Unknown operators never match
+      return 'false';
+  }
+}
+
+/**
+ * Expression of a branch for editing, simple conditions are converted to an
+ * expression with the same result. Use getBranchLabel to display a branch.
+ */
+export function getBranchExpression(branch: PageBranch): string {
+  if (typeof branch.expression === 'string' && branch.expression.trim()) {
+    return branch.expression.trim();
+  }
+  return branch.condition ? toConditionExpression(branch.condition) : '';
+}
+
+/**
+ * Checks the syntax of a branch expression, returns an error message for
+ * invalid expressions
+ */
+export function validateBranchExpression(
+  expression: string
+): string | undefined {
+  const result = expressionEngine.validate(expression);
+  return result.valid ? undefined : result.error;
+}
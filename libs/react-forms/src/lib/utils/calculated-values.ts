@@ -0,0 +1,94 @@
+import {
+  FormComponentFieldProps,
+  FormDefinition,
+  FormValues,
+} from '../interfaces/form-interfaces';
+import { ExpressionConfig } from '../interfaces/expression-interfaces';
+import {
+  expressionEngine,
+  FormContext,
+} from '../services/expression-engine.service';
+
+/**
+ * Expression context for form values, validity and required flags are not tracked
+ */
+export function createFormContext(values: FormValues): FormContext {
+  const context: FormContext = {};
+  Object.entries(values).forEach(([fieldId, value]) => {
+    context[fieldId] = { value, valid: true, required: false };
+  });
+  return context;
+}
+
+const getValueExpression = (
+  component: FormComponentFieldProps
+): ExpressionConfig | undefined => {
+  const expression = component.expression ?? component.props?.expression;
+  return expression?.mode === 'value' && expression.expression
+    ? expression
+    : undefined;
+};
+
+/**
+ * Values of calculated fields (expressions with mode 'value') per field id.
+ * Fields inside array items are not included.
+ */
+export function getCalculatedValues(
+  formJson: FormDefinition,
+  values: FormValues
+): FormValues {
+  const calculatedFields: Array<{
+    fieldId: string;
+    expression: ExpressionConfig;
+  }> = [];
+  const collect = (
+    components: FormComponentFieldProps[],
+    parentId?: string
+  ) => {
+    components.forEach((component) => {
+      const fieldId = parentId ? `${parentId}.${component.id}` : component.id;
+      const expression = getValueExpression(component);
+      if (expression) {
+        calculatedFields.push({ fieldId, expression });
+      }
+      if (component.children && component.type !== 'array') {
+        collect(component.children, fieldId);
+      }
+    });
+  };
+  formJson?.app?.pages?.forEach((page) => collect(page.components ?? []));
+
+  const calculatedValues: FormValues = {};
+  // Calculated fields can use each other, evaluate until the values are stable
+  for (let pass = 0; pass <= calculatedFields.length; pass++) {
+    const context = createFormContext({ ...values, ...calculatedValues });
+    let hasChanges = false;
+    calculatedFields.forEach(({ fieldId, expression }) => {
+      const result = expressionEngine.evaluate(
+        expression.expression,
+        context,
+        fieldId
+      );
+      const value =
+        result.error || result.value === undefined || result.value === null
+          ? expression.defaultValue ?? null
+          : result.value;
+      if (!Object.is(calculatedValues[fieldId], value)) {
+        calculatedValues[fieldId] = value;
+        hasChanges = true;
+      }
+    });
+    if (!hasChanges) {
+      break;
+    }
+  }
+  return calculatedValues;
+}
+
+/**
+ * Form values including the values of calculated fields
+ */
+export const withCalculatedValues = (
+  formJson: FormDefinition,
+  values: FormValues
+): FormValues => ({ ...values, ...getCalculatedValues(formJson, values) });
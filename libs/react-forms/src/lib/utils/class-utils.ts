@@ -115,6 +115,8 @@ export const convertToFieldClasses = (
       fieldCheckbox: legacyClasses.fieldCheckbox,
       fieldRadio: legacyClasses.fieldRadio,
       fieldDate: legacyClasses.fieldDate,
+      fieldFile: legacyClasses.fieldFile,
+      fieldSignature: legacyClasses.fieldSignature,
       fieldSlider: legacyClasses.fieldSlider,
       fieldText: legacyClasses.fieldText,
       fieldError: legacyClasses.fieldError,
@@ -135,6 +137,8 @@ export const convertToFieldClasses = (
       'fieldCheckbox',
       'fieldRadio',
       'fieldDate',
+      'fieldFile',
+      'fieldSignature',
       'fieldSlider',
       'fieldText',
       'fieldError',
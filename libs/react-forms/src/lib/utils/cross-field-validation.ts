@@ -0,0 +1,172 @@
+import {
+  CrossFieldValidationRule,
+  FieldComparisonRule,
+  FormComponentFieldProps,
+  RequireOneOfRule,
+  ValidationExpressionRule,
+} from '../interfaces/form-interfaces';
+import {
+  expressionEngine,
+  isEmptyValue,
+} from '../services/expression-engine.service';
+import { createFormContext } from './calculated-values';
+
+export interface CrossFieldValidationFailure {
+  rule: CrossFieldValidationRule;
+  /** Default error message type for the rule */
+  errorType: string;
+  /** Ids of the other fields the rule references */
+  fields: string[];
+}
+
+const comparisonErrorTypes: Record<FieldComparisonRule['operator'], string> = {
+  '==': 'fieldEquals',
+  '!=': 'fieldNotEquals',
+  '>': 'fieldGreaterThan',
+  '>=': 'fieldGreaterThanOrEqual',
+  '<': 'fieldLessThan',
+  '<=': 'fieldLessThanOrEqual',
+};
+
+export function isFieldComparisonRule(
+  rule: CrossFieldValidationRule
+): rule is FieldComparisonRule {
+  return (
+    typeof (rule as FieldComparisonRule).field === 'string' &&
+    typeof (rule as FieldComparisonRule).operator === 'string'
+  );
+}
+
+export function isRequireOneOfRule(
+  rule: CrossFieldValidationRule
+): rule is RequireOneOfRule {
+  return Array.isArray((rule as RequireOneOfRule).requireOneOf);
+}
+
+export function isValidationExpressionRule(
+  rule: CrossFieldValidationRule
+): rule is ValidationExpressionRule {
+  return typeof (rule as ValidationExpressionRule).expression === 'string';
+}
+
+/**
+ * Returns the cross-field validation rules of a component, including an
+ * expression configured with mode 'validation'
+ */
+export function getCrossFieldValidationRules(
+  component: Pick<
+    FormComponentFieldProps,
+    'validation' | 'props' | 'expression'
+  >
+): CrossFieldValidationRule[] {
+  const rules = [...(component.validation?.rules ?? [])];
+  const expression = component.props?.expression ?? component.expression;
+  if (expression?.mode === 'validation' && expression.expression) {
+    rules.push({
+      expression: expression.expression,
+      message: expression.errorMessage,
+    });
+  }
+  return rules;
+}
+
+/**
+ * Compares numbers as numbers, dates as dates and other values as text
+ */
+const compareValues = (value: unknown, otherValue: unknown): number => {
+  const numberValue = Number(value);
+  const otherNumberValue = Number(otherValue);
+  if (!Number.isNaN(numberValue) && !Number.isNaN(otherNumberValue)) {
+    return numberValue - otherNumberValue;
+  }
+
+  const dateValue = Date.parse(String(value));
+  const otherDateValue = Date.parse(String(otherValue));
+  if (!Number.isNaN(dateValue) && !Number.isNaN(otherDateValue)) {
+    return dateValue - otherDateValue;
+  }
+
+  return String(value).localeCompare(String(otherValue));
+};
+
+const isComparisonValid = (
+  rule: FieldComparisonRule,
+  value: unknown,
+  otherValue: unknown
+): boolean => {
+  switch (rule.operator) {
+    case '==':
+      return String(value) === String(otherValue);
+    case '!=':
+      return String(value) !== String(otherValue);
+    case '>':
+      return compareValues(value, otherValue) > 0;
+    case '>=':
+      return compareValues(value, otherValue) >= 0;
+    case '<':
+      return compareValues(value, otherValue) < 0;
+    case '<=':
+      return compareValues(value, otherValue) <= 0;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Validates the cross-field rules of a component and returns the failed rules.
+ * Comparisons are skipped while one of the fields is empty, use `required`
+ * or `requireOneOf` for that.
+ */
+export function validateCrossFieldRules(
+  component: Pick<
+    FormComponentFieldProps,
+    'validation' | 'props' | 'expression'
+  >,
+  value: unknown,
+  formValues: Record<string, unknown>
+): CrossFieldValidationFailure[] {
+  const failures: CrossFieldValidationFailure[] = [];
+
+  getCrossFieldValidationRules(component).forEach((rule) => {
+    if (isFieldComparisonRule(rule)) {
+      const otherValue = formValues[rule.field];
+      if (
+        !isEmptyValue(value) &&
+        !isEmptyValue(otherValue) &&
+        !isComparisonValid(rule, value, otherValue)
+      ) {
+        failures.push({
+          rule,
+          errorType: comparisonErrorTypes[rule.operator] ?? 'generic',
+          fields: [rule.field],
+        });
+      }
+    } else if (isRequireOneOfRule(rule)) {
+      if (
+        isEmptyValue(value) &&
+        rule.requireOneOf.every((field) => isEmptyValue(formValues[field]))
+      ) {
+        failures.push({
+          rule,
+          errorType: 'requireOneOf',
+          fields: rule.requireOneOf,
+        });
+      }
+    } else if (isValidationExpressionRule(rule)) {
+      if (
+        !expressionEngine.evaluateCondition(
+          rule.expression,
+          createFormContext(formValues)
+        )
+      ) {
+        failures.push({
+          rule,
+          errorType: 'generic',
+          fields: [],
+        });
+      }
+    }
+  });
+
+  return failures;
+}
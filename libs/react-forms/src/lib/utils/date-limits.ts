@@ -0,0 +1,260 @@
+import { FormComponentFieldProps } from '../interfaces/form-interfaces';
+import { formatDate, formatDateTime, parseDateValue } from './locale-format';
+
+/**
+ * Kind of value of date and time fields, all values are local wall-clock
+ * times without a timezone: "2024-05-01", "09:30" and "2024-05-01T09:30"
+ */
+export type DateFieldKind = 'date' | 'time' | 'datetime';
+
+/** Value of a date-range field, ISO dates of the first and last day */
+export interface DateRangeValue {
+  start: string;
+  end: string;
+}
+
+const isoTimePattern = /^(\d{2}):(\d{2})(?::\d{2})?$/;
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?)?$/;
+// A base (today, now or a field id) followed by offsets, e.g. "today+30d"
+const relativeLimitPattern =
+  /^([A-Za-z_][\w.]*)?\s*((?:[+-]\s*\d+\s*(?:min|[dwmyh])\s*)*)$/;
+const offsetPattern = /([+-])\s*(\d+)\s*(min|[dwmyh])/g;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Kind of value of a field type, undefined for types that aren't date fields
+ */
+export function getDateFieldKind(type: string): DateFieldKind | undefined {
+  switch (type) {
+    case 'date':
+    case 'date-range':
+      return 'date';
+    case 'time':
+      return 'time';
+    case 'datetime':
+      return 'datetime';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Checks whether a value is the value of a date-range field
+ */
+export function isDateRangeValue(value: unknown): value is DateRangeValue {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    typeof (value as DateRangeValue).start === 'string' &&
+    typeof (value as DateRangeValue).end === 'string'
+  );
+}
+
+/**
+ * Reads the value of a date field as a local date, times are read as a time
+ * of the day of `now`
+ */
+export function parseDateFieldValue(
+  value: unknown,
+  kind: DateFieldKind,
+  now: Date = new Date()
+): Date | null {
+  if (kind === 'time') {
+    const match = typeof value === 'string' ? isoTimePattern.exec(value) : null;
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+      return null;
+    }
+    const time = new Date(now);
+    time.setHours(Number(match[1]), Number(match[2]), 0, 0);
+    return time;
+  }
+  if (typeof value !== 'string' || !isoDatePattern.test(value)) {
+    return null;
+  }
+  return parseDateValue(value);
+}
+
+/**
+ * ISO value of a date for a field kind, in local time
+ */
+export function toDateFieldValue(date: Date, kind: DateFieldKind): string {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  switch (kind) {
+    case 'date':
+      return day;
+    case 'time':
+      return time;
+    default:
+      return `${day}T${time}`;
+  }
+}
+
+/**
+ * Formats the value of a date field for the locale, e.g. "1 mei 2024 09:30"
+ */
+export function formatDateFieldValue(
+  value: unknown,
+  kind: DateFieldKind,
+  locale?: string
+): string {
+  const date = parseDateFieldValue(value, kind);
+  if (!date) {
+    return value === undefined || value === null ? '' : String(value);
+  }
+  switch (kind) {
+    case 'date':
+      return formatDate(date, locale);
+    case 'time':
+      return formatDateTime(date, locale, 'short', true);
+    default:
+      return formatDateTime(date, locale);
+  }
+}
+
+const addOffset = (date: Date, amount: number, unit: string) => {
+  switch (unit) {
+    case 'y':
+      date.setFullYear(date.getFullYear() + amount);
+      break;
+    case 'm':
+      date.setMonth(date.getMonth() + amount);
+      break;
+    case 'w':
+      date.setDate(date.getDate() + amount * 7);
+      break;
+    case 'd':
+      date.setDate(date.getDate() + amount);
+      break;
+    case 'h':
+      date.setHours(date.getHours() + amount);
+      break;
+    case 'min':
+      date.setMinutes(date.getMinutes() + amount);
+      break;
+  }
+};
+
+/**
+ * Field id a limit references, e.g. "startDate" for "after startDate"
+ */
+export function getDateLimitField(limit: unknown): string | undefined {
+  if (typeof limit !== 'string') {
+    return undefined;
+  }
+  const base = relativeLimitPattern.exec(
+    limit.trim().replace(/^(after|before)\s+/i, '')
+  )?.[1];
+  return base && base !== 'today' && base !== 'now' ? base : undefined;
+}
+
+/**
+ * Resolves a minimum or maximum of a date field to a local date. A limit is:
+ * - an ISO value: "2024-05-01", "09:00" for time fields
+ * - relative to today or now: "today", "now", "today+30d", "-18y"
+ *   (units: d, w, m, y, h and min)
+ * - another field with optional offsets: "startDate", "startDate+1d"
+ * "after" and "before" make a limit exclusive, e.g. "after startDate". Returns
+ * null when there is no limit or the referenced field is empty.
+ */
+export function resolveDateLimit(
+  limit: unknown,
+  bound: 'min' | 'max',
+  kind: DateFieldKind,
+  formValues: Record<string, unknown> = {},
+  now: Date = new Date()
+): Date | null {
+  if (typeof limit !== 'string' || limit.trim() === '') {
+    return null;
+  }
+  let text = limit.trim();
+  const isExclusive = /^(after|before)\s+/i.test(text);
+  text = text.replace(/^(after|before)\s+/i, '');
+
+  // Limits given as a whole day step a day when exclusive, others a minute
+  let isDay = kind === 'date';
+  let date = parseDateFieldValue(text, kind, now);
+  if (date) {
+    isDay ||= !text.includes('T') && kind === 'datetime';
+  } else {
+    const match = relativeLimitPattern.exec(text);
+    if (!match) {
+      return null;
+    }
+    const base = match[1] ?? 'today';
+    if (base === 'today' || base === 'now') {
+      date = new Date(now);
+      if (base === 'today' && kind !== 'time') {
+        date.setHours(0, 0, 0, 0);
+        isDay = true;
+      }
+    } else {
+      const fieldValue = formValues[base];
+      const value = isDateRangeValue(fieldValue) ? fieldValue.end : fieldValue;
+      date = parseDateFieldValue(value, kind, now);
+      isDay ||=
+        kind === 'datetime' &&
+        typeof value === 'string' &&
+        !value.includes('T');
+    }
+    if (!date) {
+      return null;
+    }
+    for (const [, sign, amount, unit] of match[2].matchAll(offsetPattern)) {
+      addOffset(date, Number(amount) * (sign === '-' ? -1 : 1), unit);
+    }
+  }
+
+  if (kind === 'date') {
+    date.setHours(0, 0, 0, 0);
+  } else {
+    date.setSeconds(0, 0);
+  }
+  // Exclusive limits become the next day or minute that is allowed
+  if (isExclusive) {
+    addOffset(date, bound === 'min' ? 1 : -1, isDay ? 'd' : 'min');
+  }
+  return date;
+}
+
+/**
+ * Minimum and maximum of a date field: `minDate` and `maxDate`, or `minTime`
+ * and `maxTime` for time fields, from the validation or the props
+ */
+export function getDateLimits(
+  component: Pick<FormComponentFieldProps, 'type' | 'props' | 'validation'>
+): { min?: string; max?: string } {
+  const isTime = getDateFieldKind(component.type) === 'time';
+  const limit = (key: 'minDate' | 'maxDate' | 'minTime' | 'maxTime') =>
+    component.validation?.[key] ?? component.props?.[key];
+  return {
+    min: limit(isTime ? 'minTime' : 'minDate'),
+    max: limit(isTime ? 'maxTime' : 'maxDate'),
+  };
+}
+
+/**
+ * Resolved limits of a date field as ISO values for the min and max
+ * attributes of its input
+ */
+export function getDateInputLimits(
+  component: Pick<FormComponentFieldProps, 'type' | 'props' | 'validation'>,
+  formValues: Record<string, unknown>,
+  now: Date = new Date()
+): { min?: string; max?: string } {
+  const kind = getDateFieldKind(component.type);
+  if (!kind) {
+    return {};
+  }
+  const { min, max } = getDateLimits(component);
+  const minDate = resolveDateLimit(min, 'min', kind, formValues, now);
+  const maxDate = resolveDateLimit(max, 'max', kind, formValues, now);
+  return {
+    min: minDate ? toDateFieldValue(minDate, kind) : undefined,
+    max: maxDate ? toDateFieldValue(maxDate, kind) : undefined,
+  };
+}
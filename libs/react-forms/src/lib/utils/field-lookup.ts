@@ -0,0 +1,119 @@
+import {
+  FormComponentFieldProps,
+  PageProps,
+} from '../interfaces/form-interfaces';
+
+/**
+ * Returns the top-level component id of a field path,
+ * e.g. "items[0].name" -> "items" and "address.street" -> "address"
+ */
+export function getRootFieldId(fieldId: string): string {
+  return fieldId.split(/[.[]/)[0];
+}
+
+/**
+ * Checks whether a component with the given id exists in a component tree,
+ * including section/form children and array item components
+ */
+export function containsComponent(
+  components: FormComponentFieldProps[] | undefined,
+  componentId: string
+): boolean {
+  if (!components) {
+    return false;
+  }
+
+  return components.some(
+    (component) =>
+      component.id === componentId ||
+      containsComponent(component.children, componentId) ||
+      (component.arrayItems ?? []).some((arrayItem) =>
+        containsComponent(arrayItem.components, componentId)
+      )
+  );
+}
+
+/**
+ * Checks whether a field (by id or path) is rendered on the given page
+ */
+export function isFieldOnPage(
+  page: PageProps | undefined,
+  fieldId: string
+): boolean {
+  if (!page) {
+    return false;
+  }
+  return (
+    containsComponent(page.components, fieldId) ||
+    containsComponent(page.components, getRootFieldId(fieldId))
+  );
+}
+
+/**
+ * Finds the array index of the page that renders the given field (by id or path)
+ */
+export function findPageIndexForField(
+  pages: PageProps[] | undefined,
+  fieldId: string
+): number {
+  if (!pages) {
+    return -1;
+  }
+  return pages.findIndex((page) => isFieldOnPage(page, fieldId));
+}
+
+/**
+ * Types of the components by id, including section/form children and array
+ * item components
+ */
+export function getComponentTypes(
+  components: FormComponentFieldProps[] | undefined
+): Record<string, string> {
+  const types: Record<string, string> = {};
+  const collect = (components: FormComponentFieldProps[] | undefined) => {
+    (components ?? []).forEach((component) => {
+      types[component.id] = component.type;
+      collect(component.children);
+      (component.arrayItems ?? []).forEach((arrayItem) =>
+        collect(arrayItem.components)
+      );
+    });
+  };
+  collect(components);
+  return types;
+}
+
+/**
+ * Finds a component by id in the pages, including section/form children and
+ * array item components
+ */
+export function findComponentById(
+  pages: PageProps[] | undefined,
+  componentId: string
+): FormComponentFieldProps | undefined {
+  const find = (
+    components: FormComponentFieldProps[] | undefined
+  ): FormComponentFieldProps | undefined => {
+    for (const component of components ?? []) {
+      const match =
+        component.id === componentId
+          ? component
+          : find(component.children) ??
+            (component.arrayItems ?? [])
+              .map((arrayItem) => find(arrayItem.components))
+              .find(Boolean);
+      if (match) {
+        return match;
+      }
+    }
+    return undefined;
+  };
+
+  for (const page of pages ?? []) {
+    const component = find(page.components);
+    if (component) {
+      return component;
+    }
+  }
+  return undefined;
+}
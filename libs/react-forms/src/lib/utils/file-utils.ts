@@ -0,0 +1,78 @@
+import { FileReference } from '../interfaces/file-upload-interfaces';
+
+/**
+ * Creates a reference with the metadata of a selected file
+ */
+export function toFileReference(file: File): FileReference {
+  return {
+    name: file.name,
+    size: file.size,
+    type: file.type,
+  };
+}
+
+/**
+ * Checks whether a value is a list of file references
+ */
+export function isFileReferenceList(value: unknown): value is FileReference[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (item) =>
+        item !== null &&
+        typeof item === 'object' &&
+        typeof (item as FileReference).name === 'string'
+    )
+  );
+}
+
+/**
+ * Checks a file against an `accept` attribute value,
+ * e.g. "image/*,.pdf" or "application/pdf"
+ */
+export function isFileTypeAccepted(
+  file: Pick<FileReference, 'name' | 'type'>,
+  accept?: string
+): boolean {
+  if (!accept || accept.trim() === '') {
+    return true;
+  }
+
+  const fileName = file.name.toLowerCase();
+  const mimeType = (file.type || '').toLowerCase();
+
+  return accept
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => entry !== '')
+    .some((entry) => {
+      if (entry.startsWith('.')) {
+        return fileName.endsWith(entry);
+      }
+      if (entry.endsWith('/*')) {
+        return mimeType.startsWith(entry.slice(0, -1));
+      }
+      return mimeType === entry;
+    });
+}
+
+export function isImageFile(file: Pick<FileReference, 'type'>): boolean {
+  return (file.type || '').startsWith('image/');
+}
+
+/**
+ * Formats a file size in bytes for display, e.g. 1536 -> "1.5 KB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unitIndex = 0;
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex++;
+  }
+  return `${Number(size.toFixed(1))} ${units[unitIndex]}`;
+}
@@ -0,0 +1,302 @@
+import {
+  FormComponentFieldProps,
+  FormDefinition,
+  FormValues,
+  PageChangeEvent,
+  PageProps,
+} from '../interfaces/form-interfaces';
+import { CustomFieldResolver } from '../interfaces/form-core-interfaces';
+import { getCustomFieldDefaultValue } from '../services/field-registry.service';
+import { findMatchingBranch } from './branch-utils';
+import {
+  getLogicalPageCount,
+  getLogicalPageIndex,
+  isFirstLogicalPage,
+  isLastLogicalPage,
+  LogicalPageOrder,
+} from './page-ordering';
+import { evaluateVisibility } from './visibility-utils';
+
+/**
+ * Initial value of every field in the form, e.g. '' for inputs and false for checkboxes
+ */
+export function getInitialValues(
+  formJson: FormDefinition,
+  resolveCustomField: CustomFieldResolver = () => undefined
+): FormValues {
+  const initialValues: FormValues = {};
+
+  const initializeFieldValues = (components: FormComponentFieldProps[]) => {
+    components.forEach((component) => {
+      if (component.id) {
+        // Initialize based on component type
+        switch (component.type) {
+          case 'slider-range':
+            if (component.props?.mode === 'range') {
+              initialValues[component.id] = {
+                min: component.props?.min ?? 0,
+                max: component.props?.max ?? 100,
+              };
+            } else {
+              initialValues[component.id] = component.props?.min ?? 0;
+            }
+            break;
+          case 'input':
+          case 'textarea':
+            initialValues[component.id] = '';
+            break;
+          case 'select':
+          case 'radio':
+            initialValues[component.id] =
+              component.type === 'select' && component.props?.multiple
+                ? []
+                : '';
+            break;
+          case 'checkbox':
+            initialValues[component.id] = false;
+            break;
+          case 'date':
+          case 'time':
+          case 'datetime':
+          case 'signature':
+            initialValues[component.id] = '';
+            break;
+          case 'date-range':
+            initialValues[component.id] = { start: '', end: '' };
+            break;
+          case 'file':
+            initialValues[component.id] = [];
+            break;
+          case 'matrix':
+            initialValues[component.id] = {};
+            break;
+          case 'rating':
+          case 'nps':
+            initialValues[component.id] = null;
+            break;
+          case 'ranking':
+            initialValues[component.id] = [];
+            break;
+          default: {
+            const customField = resolveCustomField(component.type);
+            initialValues[component.id] = customField
+              ? getCustomFieldDefaultValue(customField, component)
+              : null;
+          }
+        }
+      }
+
+      // Recursively initialize children
+      if (component.children) {
+        initializeFieldValues(component.children);
+      }
+    });
+  };
+
+  // Initialize values for all pages - with null checks
+  if (formJson?.app?.pages && Array.isArray(formJson.app.pages)) {
+    formJson.app.pages.forEach((page) => {
+      if (page.components) {
+        initializeFieldValues(page.components);
+      }
+    });
+  }
+
+  return initialValues;
+}
+
+export const isPageVisible = (page: PageProps, values: FormValues): boolean =>
+  evaluateVisibility(page.visibilityConditions, values);
+
+/**
+ * Id of the page that follows a page: the first matching branch, otherwise `nextPage`
+ */
+export function getNextPageId(
+  page: PageProps | undefined,
+  values: FormValues
+): string | null {
+  if (!page) return null;
+
+  // Check for conditional branches first
+  const matchingBranch = findMatchingBranch(page.branches, values);
+  if (matchingBranch) {
+    return matchingBranch.nextPage;
+  }
+
+  // If no branch conditions are met, use the nextPage field
+  return page.nextPage || null;
+}
+
+/**
+ * Gets the index in `app.pages` of the page at a position of the logical page order
+ */
+export function getPageIndexFromLogicalIndex(
+  formJson: FormDefinition,
+  logicalPageOrder: LogicalPageOrder[],
+  logicalIndex: number
+): number {
+  if (logicalIndex < 0 || logicalIndex >= logicalPageOrder.length) {
+    return -1;
+  }
+  const pageId = logicalPageOrder[logicalIndex].pageId;
+  return formJson?.app?.pages?.findIndex((page) => page.id === pageId) ?? -1;
+}
+
+/**
+ * Gets the position in the logical page order of the page at an index of `app.pages`
+ */
+export function getLogicalIndexFromPageIndex(
+  formJson: FormDefinition,
+  logicalPageOrder: LogicalPageOrder[],
+  pageIndex: number
+): number {
+  if (pageIndex < 0 || pageIndex >= (formJson?.app?.pages?.length ?? 0)) {
+    return -1;
+  }
+  const pageId = formJson?.app?.pages?.[pageIndex]?.id;
+  if (!pageId) return -1;
+  return getLogicalPageIndex(pageId, logicalPageOrder);
+}
+
+/**
+ * Resolves the page that follows the given page, skipping hidden pages.
+ * Returns -1 when the given page is the last page.
+ */
+export function getFollowingPageIndex(
+  formJson: FormDefinition,
+  logicalPageOrder: LogicalPageOrder[],
+  pageIndex: number,
+  values: FormValues
+): number {
+  const pages = formJson?.app?.pages ?? [];
+  const visited = new Set<number>();
+  let index = pageIndex;
+
+  while (!visited.has(index)) {
+    visited.add(index);
+    const nextPageId = getNextPageId(pages[index], values);
+    let nextIndex = nextPageId
+      ? pages.findIndex((page) => page.id === nextPageId)
+      : -1;
+
+    // If no specific next page is defined, use the next page in logical sequence
+    if (nextIndex === -1) {
+      const logicalIndex = getLogicalIndexFromPageIndex(
+        formJson,
+        logicalPageOrder,
+        index
+      );
+      nextIndex =
+        logicalIndex >= 0
+          ? getPageIndexFromLogicalIndex(
+              formJson,
+              logicalPageOrder,
+              logicalIndex + 1
+            )
+          : -1;
+    }
+
+    if (nextIndex === -1 || isPageVisible(pages[nextIndex], values)) {
+      return nextIndex;
+    }
+    index = nextIndex;
+  }
+  return -1;
+}
+
+/**
+ * Resolves the visible page before the given page in the logical page order,
+ * used when there is no navigation history. Returns -1 for the first page.
+ */
+export function getPreviousPageIndex(
+  formJson: FormDefinition,
+  logicalPageOrder: LogicalPageOrder[],
+  pageIndex: number,
+  values: FormValues
+): number {
+  const currentLogicalIndex = getLogicalIndexFromPageIndex(
+    formJson,
+    logicalPageOrder,
+    pageIndex
+  );
+  if (currentLogicalIndex <= 0) {
+    return -1;
+  }
+
+  // Skip hidden pages
+  let previousLogicalIndex = currentLogicalIndex - 1;
+  while (
+    previousLogicalIndex > 0 &&
+    !isPageVisible(logicalPageOrder[previousLogicalIndex].page, values)
+  ) {
+    previousLogicalIndex--;
+  }
+  return getPageIndexFromLogicalIndex(
+    formJson,
+    logicalPageOrder,
+    previousLogicalIndex
+  );
+}
+
+/**
+ * Position of the page in the flow, hidden pages are not counted
+ */
+export function getFormProgress(
+  formJson: FormDefinition,
+  logicalPageOrder: LogicalPageOrder[],
+  pageIndex: number,
+  values: FormValues
+): { currentStep: number; totalSteps: number } {
+  const currentPage = formJson?.app?.pages?.[pageIndex];
+  if (!currentPage) {
+    return { currentStep: 1, totalSteps: 1 };
+  }
+
+  const visiblePageOrder = logicalPageOrder.filter(
+    (entry) =>
+      entry.pageId === currentPage.id || isPageVisible(entry.page, values)
+  );
+  const logicalPageIndex = visiblePageOrder.findIndex(
+    (entry) => entry.pageId === currentPage.id
+  );
+
+  // Convert to 1-indexed for display
+  return {
+    currentStep: logicalPageIndex + 1,
+    totalSteps: getLogicalPageCount(visiblePageOrder),
+  };
+}
+
+/**
+ * Describes a page change with logical page indexes
+ */
+export function createPageChangeEvent(
+  formJson: FormDefinition,
+  logicalPageOrder: LogicalPageOrder[],
+  pageIndex: number,
+  previousPageIndex?: number
+): PageChangeEvent | null {
+  const page = formJson?.app?.pages?.[pageIndex];
+  if (!page) {
+    return null;
+  }
+  const previousPage =
+    previousPageIndex !== undefined
+      ? formJson.app.pages[previousPageIndex]
+      : undefined;
+
+  return {
+    pageId: page.id,
+    pageIndex: getLogicalPageIndex(page.id, logicalPageOrder),
+    pageTitle: page.title,
+    totalPages: getLogicalPageCount(logicalPageOrder),
+    isFirstPage: isFirstLogicalPage(page.id, logicalPageOrder),
+    isLastPage: isLastLogicalPage(page.id, logicalPageOrder),
+    isEndPage: page.isEndPage === true,
+    isConfirmationPage: page.isConfirmationPage === true,
+    previousPageId: previousPage?.id,
+    previousPageIndex: previousPage
+      ? getLogicalPageIndex(previousPage.id, logicalPageOrder)
+      : undefined,
+  };
+}
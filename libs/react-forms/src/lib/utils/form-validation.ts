@@ -0,0 +1,725 @@
+import {
+  FormComponentFieldProps,
+  FormValues,
+  PageProps,
+  ValidationError,
+  ValidationErrors,
+} from '../interfaces/form-interfaces';
+import {
+  FormValidator,
+  FormValidatorConfig,
+} from '../interfaces/form-core-interfaces';
+import {
+  CrossFieldValidationFailure,
+  validateCrossFieldRules,
+} from './cross-field-validation';
+import {
+  formatDateFieldValue,
+  getDateFieldKind,
+  getDateLimits,
+  isDateRangeValue,
+  parseDateFieldValue,
+  resolveDateLimit,
+  toDateFieldValue,
+} from './date-limits';
+import { findComponentById } from './field-lookup';
+import {
+  formatFileSize,
+  isFileReferenceList,
+  isFileTypeAccepted,
+} from './file-utils';
+import { getUnansweredStatements } from './matrix-utils';
+import { isRankingValue } from './ranking-utils';
+import { getInputFormatError, isNumericInput } from './input-format';
+import { isComponentVisible } from './visibility-utils';
+
+// Empty values are not validated further, unlike the expression engine's
+// isEmpty an empty list is a value here
+const isEmptyValue = (value: unknown): boolean => {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string' && value.trim() === '') return true;
+  return false;
+};
+
+/**
+ * Creates the validator for the fields of a form, error messages are
+ * translated with the translation service
+ */
+export function createFormValidator(
+  config: FormValidatorConfig
+): FormValidator {
+  const {
+    formJson,
+    translationService,
+    resolveCustomField = () => undefined,
+    getAsyncValidationState = () => undefined,
+    isFieldTouched = () => true,
+  } = config;
+
+  // Helper function to get field label for error messages
+  const getFieldLabel = (component: FormComponentFieldProps): string => {
+    if (typeof component.label === 'string' && component.label) {
+      // Try to translate the label using the translation service
+      const translatedLabel = translationService.translateComponent(
+        component.id,
+        0, // Assuming single page form for now
+        'label',
+        component.label
+      );
+      return translatedLabel;
+    }
+    // Fallback to ID if no label
+    return component.id
+      .replace(/([A-Z])/g, ' $1')
+      .replace(/^./, (str) => str.toUpperCase());
+  };
+
+  // Helper function to get WCAG-compatible error message with fallbacks
+  const getErrorMessage = (
+    component: FormComponentFieldProps,
+    errorType: string,
+    params: Record<string, string | number> = {}
+  ): string => {
+    const fieldLabel = getFieldLabel(component);
+
+    // First try to get a translated error message
+    const translatedError = translationService.translateError(
+      errorType as keyof (typeof translationService)['defaultTexts']['errorMessages'],
+      fieldLabel,
+      params
+    );
+
+    // Check if we have a custom translation for this error type
+    const hasCustomTranslation =
+      translationService.translate(
+        `errorMessages.${errorType}`,
+        undefined,
+        undefined,
+        { fieldLabel, ...params }
+      ) !== `errorMessages.${errorType}`;
+
+    // If we have a custom translation, use it
+    if (hasCustomTranslation) {
+      return translatedError;
+    }
+
+    // If no custom translation, try component-specific error message
+    const customMessage =
+      component.validation?.errorMessages?.[
+        errorType as keyof typeof component.validation.errorMessages
+      ];
+
+    if (customMessage) {
+      // TODO: Remove this deprecation warning in a future version
+      // Only show warning in development mode, not during tests
+      if (import.meta.env.MODE === 'development' && !import.meta.env.VITEST) {
+        console.warn(
+          `Field-level errorMessages are deprecated. Please use translations instead. ` +
+            `Field: ${component.id}, ErrorType: ${errorType}. ` +
+            `Add this to your translations: errorMessages.${errorType}`
+        );
+      }
+      return translationService.replacePlaceholders(customMessage, params);
+    }
+
+    // Fall back to default translated error message
+    return translatedError;
+  };
+  // Errors of an invalid date or time, or one outside the limits of the
+  // field. Limits can be relative or reference other fields, see
+  // resolveDateLimit
+  const getDateErrors = (
+    component: FormComponentFieldProps,
+    fieldId: string,
+    value: unknown,
+    formData: FormValues
+  ): ValidationError[] => {
+    const kind = getDateFieldKind(component.type) ?? 'date';
+    const date = parseDateFieldValue(value, kind);
+    if (!date) {
+      const rule = kind === 'time' ? 'invalidTime' : 'invalidDate';
+      return [{ fieldId, rule, message: getErrorMessage(component, rule) }];
+    }
+
+    const errors: ValidationError[] = [];
+    const locale = translationService.getLanguage();
+    const { min, max } = getDateLimits(component);
+    const minRule = kind === 'time' ? 'minTime' : 'minDate';
+    const maxRule = kind === 'time' ? 'maxTime' : 'maxDate';
+    // Limits at midnight of datetime fields are shown as a day
+    const formatLimit = (limit: Date) => {
+      const limitKind =
+        kind === 'datetime' && limit.getHours() + limit.getMinutes() === 0
+          ? 'date'
+          : kind;
+      return formatDateFieldValue(
+        toDateFieldValue(limit, limitKind),
+        limitKind,
+        locale
+      );
+    };
+
+    const minDate = resolveDateLimit(min, 'min', kind, formData);
+    if (minDate && date < minDate) {
+      errors.push({
+        fieldId,
+        rule: minRule,
+        message: getErrorMessage(component, minRule, {
+          [minRule]: formatLimit(minDate),
+        }),
+      });
+    }
+    const maxDate = resolveDateLimit(max, 'max', kind, formData);
+    if (maxDate && date > maxDate) {
+      errors.push({
+        fieldId,
+        rule: maxRule,
+        message: getErrorMessage(component, maxRule, {
+          [maxRule]: formatLimit(maxDate),
+        }),
+      });
+    }
+    return errors;
+  };
+
+  // Message of a failed cross-field rule: a message for the rule id, the
+  // message of the rule or the default message for the rule type
+  const getRuleErrorMessage = (
+    component: FormComponentFieldProps,
+    failure: CrossFieldValidationFailure
+  ): string => {
+    const getLabel = (fieldId: string) => {
+      const field = findComponentById(
+        formJson?.app?.pages,
+        fieldId.split('.').pop() ?? fieldId
+      );
+      return field ? getFieldLabel(field) : fieldId;
+    };
+    const params = {
+      otherFieldLabel: failure.fields.map(getLabel).join(', '),
+      fieldLabels: [
+        getFieldLabel(component),
+        ...failure.fields.map(getLabel),
+      ].join(', '),
+    };
+    const { rule } = failure;
+
+    if (rule.id) {
+      const message = getErrorMessage(component, rule.id, params);
+      if (message !== `errorMessages.${rule.id}`) {
+        return message;
+      }
+    }
+    if (rule.message) {
+      return translationService.replacePlaceholders(rule.message, {
+        fieldLabel: getFieldLabel(component),
+        ...params,
+      });
+    }
+    return getErrorMessage(component, failure.errorType, params);
+  };
+  const validateComponent = (
+    component: FormComponentFieldProps,
+    formData: Record<string, unknown>,
+    parentId?: string
+  ): ValidationError[] => {
+    const errors: ValidationError[] = [];
+    const fieldId = parentId ? `${parentId}.${component.id}` : component.id;
+    const value = formData[fieldId];
+
+    // Handle form component validation recursively
+    if (component.type === 'form' && component.children) {
+      // Validate all child components
+      component.children.forEach((child) => {
+        if (isComponentVisible(child, formData)) {
+          const childErrors = validateComponent(child, formData, fieldId);
+          errors.push(...childErrors);
+        }
+      });
+      return errors;
+    }
+
+    // Handle array component validation
+    if (component.type === 'array' && component.arrayItems) {
+      const arrayValue = value as Array<Record<string, unknown>>;
+
+      if (
+        component.validation?.required &&
+        (!arrayValue || arrayValue.length === 0)
+      ) {
+        errors.push({
+          fieldId,
+          rule: 'required',
+          message: getErrorMessage(component, 'required'),
+        });
+      }
+      if (arrayValue) {
+        if (
+          component.validation?.minItems &&
+          arrayValue.length < component.validation.minItems
+        ) {
+          errors.push({
+            fieldId,
+            rule: 'minItems',
+            message: getErrorMessage(component, 'minItems', {
+              minItems: component.validation.minItems,
+            }),
+          });
+        }
+        if (
+          component.validation?.maxItems &&
+          arrayValue.length > component.validation.maxItems
+        ) {
+          errors.push({
+            fieldId,
+            rule: 'maxItems',
+            message: getErrorMessage(component, 'maxItems', {
+              maxItems: component.validation.maxItems,
+            }),
+          });
+        }
+        // Validate each array item
+        arrayValue.forEach((item, index) => {
+          component.arrayItems?.forEach((arrayItem) => {
+            arrayItem.components.forEach((child) => {
+              const childFieldId = `${fieldId}[${index}].${child.id}`;
+              // Conditions of array children can use the item's fields
+              const shouldValidateChild =
+                isFieldTouched(childFieldId) &&
+                isComponentVisible(child, { ...formData, ...item });
+
+              // Only validate child components that have been interacted with
+              if (shouldValidateChild) {
+                const childErrors = validateComponent(
+                  child,
+                  item,
+                  `${fieldId}[${index}]`
+                );
+                errors.push(...childErrors);
+              }
+            });
+          });
+        });
+      }
+      return errors;
+    }
+
+    // Handle section component validation
+    if (component.type === 'section' && component.children) {
+      component.children.forEach((child) => {
+        if (isComponentVisible(child, formData)) {
+          const childErrors = validateComponent(child, formData, fieldId);
+          errors.push(...childErrors);
+        }
+      });
+      return errors;
+    }
+
+    // Matrix fields are required per statement
+    if (component.type === 'matrix') {
+      getUnansweredStatements(component, value).forEach((statement) => {
+        errors.push({
+          fieldId,
+          rule: 'statementRequired',
+          message: getErrorMessage(component, 'statementRequired', {
+            statement: statement.label,
+          }),
+        });
+      });
+    }
+
+    // Handle basic validation for other component types
+    const isEmptyList =
+      (component.type === 'file' ||
+        component.type === 'ranking' ||
+        component.type === 'select') &&
+      Array.isArray(value) &&
+      value.length === 0;
+    const isEmptyDateRange =
+      component.type === 'date-range' &&
+      isDateRangeValue(value) &&
+      !value.start &&
+      !value.end;
+    if (
+      component.validation?.required &&
+      component.type !== 'matrix' &&
+      (isEmptyValue(value) || isEmptyList || isEmptyDateRange)
+    ) {
+      errors.push({
+        fieldId,
+        rule: 'required',
+        message: getErrorMessage(component, 'required'),
+      });
+    }
+
+    // Ranking fields and multi-selects, e.g. at least the top 3 has to be
+    // ranked. An empty list is only invalid when the field is required
+    if (
+      (component.type === 'ranking' ||
+        (component.type === 'select' && !!component.props?.multiple)) &&
+      isRankingValue(value)
+    ) {
+      if (
+        component.validation?.minItems &&
+        value.length > 0 &&
+        value.length < component.validation.minItems
+      ) {
+        errors.push({
+          fieldId,
+          rule: 'minItems',
+          message: getErrorMessage(component, 'minItems', {
+            minItems: component.validation.minItems,
+          }),
+        });
+      }
+      if (
+        component.validation?.maxItems &&
+        value.length > component.validation.maxItems
+      ) {
+        errors.push({
+          fieldId,
+          rule: 'maxItems',
+          message: getErrorMessage(component, 'maxItems', {
+            maxItems: component.validation.maxItems,
+          }),
+        });
+      }
+    }
+
+    // Custom field types can add their own validation
+    const customField = resolveCustomField(component.type);
+    if (customField?.validate) {
+      const customErrors = customField.validate(value, {
+        component,
+        formValues: formData,
+        getErrorMessage: (errorType, params) =>
+          getErrorMessage(component, errorType, params),
+      });
+      customErrors.forEach((message) => {
+        errors.push({ fieldId, rule: component.type, message });
+      });
+    }
+
+    // Rules that reference other fields
+    validateCrossFieldRules(component, value, formData).forEach((failure) => {
+      errors.push({
+        fieldId,
+        rule: failure.rule.id ?? failure.errorType,
+        message: getRuleErrorMessage(component, failure),
+      });
+    });
+
+    const asyncValidationState = getAsyncValidationState(fieldId);
+    if (asyncValidationState?.status === 'invalid') {
+      errors.push({
+        fieldId,
+        rule: 'asyncValidation',
+        message:
+          asyncValidationState.message ??
+          getErrorMessage(component, 'asyncValidation'),
+      });
+    }
+
+    if (!isEmptyValue(value)) {
+      if (component.type === 'file' && isFileReferenceList(value)) {
+        if (
+          component.validation?.maxFiles &&
+          value.length > component.validation.maxFiles
+        ) {
+          errors.push({
+            fieldId,
+            rule: 'maxFiles',
+            message: getErrorMessage(component, 'maxFiles', {
+              maxFiles: component.validation.maxFiles,
+            }),
+          });
+        }
+        value.forEach((file) => {
+          if (!isFileTypeAccepted(file, component.props?.accept)) {
+            errors.push({
+              fieldId,
+              rule: 'invalidFileType',
+              message: getErrorMessage(component, 'invalidFileType', {
+                fileName: file.name,
+                accept: component.props?.accept ?? '',
+              }),
+            });
+          }
+          if (
+            component.validation?.maxFileSize &&
+            file.size > component.validation.maxFileSize
+          ) {
+            errors.push({
+              fieldId,
+              rule: 'maxFileSize',
+              message: getErrorMessage(component, 'maxFileSize', {
+                fileName: file.name,
+                maxFileSize: formatFileSize(component.validation.maxFileSize),
+              }),
+            });
+          }
+        });
+      } else if (component.type === 'date-range' && isDateRangeValue(value)) {
+        if (!value.start || !value.end) {
+          // An empty range is only invalid when the field is required
+          if (value.start || value.end) {
+            errors.push({
+              fieldId,
+              rule: 'dateRangeIncomplete',
+              message: getErrorMessage(component, 'dateRangeIncomplete'),
+            });
+          }
+        } else {
+          // Both dates are checked, a rule is reported once for the range
+          const rangeErrors = [
+            ...getDateErrors(component, fieldId, value.start, formData),
+            ...getDateErrors(component, fieldId, value.end, formData),
+          ];
+          errors.push(
+            ...rangeErrors.filter(
+              (error, index) =>
+                rangeErrors.findIndex((other) => other.rule === error.rule) ===
+                index
+            )
+          );
+          if (value.end < value.start) {
+            errors.push({
+              fieldId,
+              rule: 'dateRangeOrder',
+              message: getErrorMessage(component, 'dateRangeOrder'),
+            });
+          }
+        }
+      } else if (getDateFieldKind(component.type)) {
+        errors.push(...getDateErrors(component, fieldId, value, formData));
+      } else if (['input', 'textarea'].includes(component.type)) {
+        const stringValue = String(value);
+
+        // Email validation for email input type
+        if (component.props?.inputType === 'email' && stringValue) {
+          const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+          if (!emailPattern.test(stringValue)) {
+            errors.push({
+              fieldId,
+              rule: 'invalidEmail',
+              message: getErrorMessage(component, 'invalidEmail'),
+            });
+          }
+        }
+
+        // Masks and decimals of formatted inputs
+        const formatError =
+          component.type === 'input'
+            ? getInputFormatError(stringValue, component.props)
+            : undefined;
+        if (formatError) {
+          errors.push({
+            fieldId,
+            rule: formatError.errorType,
+            message: getErrorMessage(
+              component,
+              formatError.errorType,
+              formatError.params
+            ),
+          });
+        }
+
+        // Number validation for number inputs and number or currency formats
+        if (isNumericInput(component.props) && stringValue) {
+          const numValue = Number(stringValue);
+          if (isNaN(numValue)) {
+            errors.push({
+              fieldId,
+              rule: 'invalidNumber',
+              message: getErrorMessage(component, 'invalidNumber'),
+            });
+          } else {
+            if (
+              component.validation?.min !== undefined &&
+              numValue < component.validation.min
+            ) {
+              errors.push({
+                fieldId,
+                rule: 'min',
+                message: getErrorMessage(component, 'min', {
+                  min: component.validation.min,
+                }),
+              });
+            }
+            if (
+              component.validation?.max !== undefined &&
+              numValue > component.validation.max
+            ) {
+              errors.push({
+                fieldId,
+                rule: 'max',
+                message: getErrorMessage(component, 'max', {
+                  max: component.validation.max,
+                }),
+              });
+            }
+          }
+        }
+
+        if (
+          component.validation?.minLength &&
+          stringValue.length < component.validation.minLength
+        ) {
+          errors.push({
+            fieldId,
+            rule: 'minLength',
+            message: getErrorMessage(component, 'minLength', {
+              minLength: component.validation.minLength,
+            }),
+          });
+        }
+        if (
+          component.validation?.maxLength &&
+          stringValue.length > component.validation.maxLength
+        ) {
+          errors.push({
+            fieldId,
+            rule: 'maxLength',
+            message: getErrorMessage(component, 'maxLength', {
+              maxLength: component.validation.maxLength,
+            }),
+          });
+        }
+        if (
+          component.validation?.pattern &&
+          !new RegExp(component.validation.pattern).test(stringValue)
+        ) {
+          errors.push({
+            fieldId,
+            rule: 'pattern',
+            message: getErrorMessage(component, 'pattern'),
+          });
+        }
+      } else if (component.type === 'slider-range') {
+        const rangeValue = value as { min: number; max: number };
+
+        if (
+          rangeValue &&
+          typeof rangeValue === 'object' &&
+          'min' in rangeValue &&
+          'max' in rangeValue
+        ) {
+          // Validate range span
+          const rangeSpan = rangeValue.max - rangeValue.min;
+
+          if (
+            component.validation?.minRange &&
+            rangeSpan < component.validation.minRange
+          ) {
+            errors.push({
+              fieldId,
+              rule: 'minRange',
+              message: getErrorMessage(component, 'minRange', {
+                minRange: component.validation.minRange,
+              }),
+            });
+          }
+
+          if (
+            component.validation?.maxRange &&
+            rangeSpan > component.validation.maxRange
+          ) {
+            errors.push({
+              fieldId,
+              rule: 'maxRange',
+              message: getErrorMessage(component, 'maxRange', {
+                maxRange: component.validation.maxRange,
+              }),
+            });
+          }
+
+          // Validate minimum value constraints
+          if (
+            component.validation?.minValueMin !== undefined &&
+            rangeValue.min < component.validation.minValueMin
+          ) {
+            errors.push({
+              fieldId,
+              rule: 'minValueMin',
+              message: getErrorMessage(component, 'minValueMin', {
+                minValueMin: component.validation.minValueMin,
+              }),
+            });
+          }
+
+          if (
+            component.validation?.minValueMax !== undefined &&
+            rangeValue.min > component.validation.minValueMax
+          ) {
+            errors.push({
+              fieldId,
+              rule: 'minValueMax',
+              message: getErrorMessage(component, 'minValueMax', {
+                minValueMax: component.validation.minValueMax,
+              }),
+            });
+          }
+
+          // Validate maximum value constraints
+          if (
+            component.validation?.maxValueMin !== undefined &&
+            rangeValue.max < component.validation.maxValueMin
+          ) {
+            errors.push({
+              fieldId,
+              rule: 'maxValueMin',
+              message: getErrorMessage(component, 'maxValueMin', {
+                maxValueMin: component.validation.maxValueMin,
+              }),
+            });
+          }
+
+          if (
+            component.validation?.maxValueMax !== undefined &&
+            rangeValue.max > component.validation.maxValueMax
+          ) {
+            errors.push({
+              fieldId,
+              rule: 'maxValueMax',
+              message: getErrorMessage(component, 'maxValueMax', {
+                maxValueMax: component.validation.maxValueMax,
+              }),
+            });
+          }
+        }
+      }
+    }
+
+    return errors;
+  };
+
+  const getPageErrors = (
+    page: PageProps | undefined,
+    values: FormValues
+  ): ValidationError[] =>
+    (page?.components ?? [])
+      .filter((component) => isComponentVisible(component, values))
+      .flatMap((component) => validateComponent(component, values));
+
+  const validatePage = (
+    page: PageProps | undefined,
+    values: FormValues
+  ): ValidationErrors => {
+    const validationErrors: ValidationErrors = {};
+    getPageErrors(page, values).forEach((error) => {
+      if (!validationErrors[error.fieldId]) {
+        validationErrors[error.fieldId] = [];
+      }
+      validationErrors[error.fieldId].push(error.message);
+    });
+    return validationErrors;
+  };
+
+  return {
+    getFieldLabel,
+    getErrorMessage,
+    validateComponent,
+    getPageErrors,
+    validatePage,
+  };
+}
@@ -0,0 +1,134 @@
+import {
+  FormComponentFieldProps,
+  FormDefinition,
+  FormValues,
+  HiddenFieldPolicy,
+} from '../interfaces/form-interfaces';
+import { evaluateVisibility, getVisibilityRules } from './visibility-utils';
+
+/**
+ * 'hide' is applied while filling in the form, 'submit' to the values that
+ * are submitted and shown on the confirmation page
+ */
+export type HiddenFieldPhase = 'hide' | 'submit';
+
+const shouldRemoveValue = (
+  policy: HiddenFieldPolicy,
+  phase: HiddenFieldPhase
+): boolean =>
+  policy === 'clearOnHide' ||
+  (phase === 'submit' && policy === 'excludeOnSubmit');
+
+/**
+ * Removes values of hidden fields according to the hidden field policy of the
+ * fields (or the form). Fields are hidden when their own visibility rules,
+ * those of a parent section or those of their page don't match.
+ * Returns the given values object when nothing was removed.
+ */
+export function applyHiddenFieldPolicy(
+  formDefinition: FormDefinition,
+  formValues: FormValues,
+  phase: HiddenFieldPhase
+): FormValues {
+  const pages = formDefinition?.app?.pages;
+  if (!Array.isArray(pages)) {
+    return formValues;
+  }
+
+  const formPolicy = formDefinition.app.settings?.hiddenFieldPolicy ?? 'keep';
+  let result = formValues;
+
+  const setValue = (fieldId: string, value: unknown) => {
+    if (result === formValues) {
+      result = { ...formValues };
+    }
+    if (value === undefined) {
+      delete result[fieldId];
+    } else {
+      result[fieldId] = value;
+    }
+  };
+
+  const applyToArrayItems = (
+    component: FormComponentFieldProps,
+    fieldId: string,
+    isArrayHidden: boolean,
+    arrayPolicy: HiddenFieldPolicy
+  ) => {
+    const items = result[fieldId];
+    if (!Array.isArray(items)) {
+      return;
+    }
+
+    let itemsChanged = false;
+    const updatedItems = items.map((item: Record<string, unknown>) => {
+      let updatedItem = item;
+      component.arrayItems?.forEach((arrayItem) => {
+        arrayItem.components.forEach((child) => {
+          const policy = child.hiddenFieldPolicy ?? arrayPolicy;
+          // Conditions of array children can use the item's fields
+          const isHidden =
+            isArrayHidden ||
+            !evaluateVisibility(getVisibilityRules(child), {
+              ...formValues,
+              ...item,
+            });
+          if (
+            isHidden &&
+            shouldRemoveValue(policy, phase) &&
+            child.id in updatedItem
+          ) {
+            if (updatedItem === item) {
+              updatedItem = { ...item };
+            }
+            delete updatedItem[child.id];
+          }
+        });
+      });
+      itemsChanged = itemsChanged || updatedItem !== item;
+      return updatedItem;
+    });
+
+    if (itemsChanged) {
+      setValue(fieldId, updatedItems);
+    }
+  };
+
+  const applyToComponents = (
+    components: FormComponentFieldProps[],
+    isParentHidden: boolean,
+    parentPolicy: HiddenFieldPolicy,
+    parentId?: string
+  ) => {
+    components.forEach((component) => {
+      const fieldId = parentId ? `${parentId}.${component.id}` : component.id;
+      const policy = component.hiddenFieldPolicy ?? parentPolicy;
+      const isHidden =
+        isParentHidden ||
+        !evaluateVisibility(getVisibilityRules(component), formValues);
+
+      if (isHidden && shouldRemoveValue(policy, phase) && fieldId in result) {
+        setValue(fieldId, undefined);
+      }
+
+      if (component.children) {
+        applyToComponents(component.children, isHidden, policy, fieldId);
+      }
+      if (component.type === 'array' && component.arrayItems) {
+        applyToArrayItems(component, fieldId, isHidden, policy);
+      }
+    });
+  };
+
+  pages.forEach((page) => {
+    if (page.components) {
+      applyToComponents(
+        page.components,
+        !evaluateVisibility(page.visibilityConditions, formValues),
+        formPolicy
+      );
+    }
+  });
+
+  return result;
+}
@@ -0,0 +1,269 @@
+import { InputFormatProps } from '../interfaces/form-interfaces';
+import { formatCurrency, formatNumber } from './locale-format';
+
+const maskTokens: Record<string, RegExp> = {
+  '9': /\d/,
+  a: /[a-z]/i,
+  A: /[a-z]/i,
+  '*': /[a-z\d]/i,
+};
+
+const isMaskToken = (maskCharacter: string | undefined): boolean =>
+  !!maskCharacter && maskCharacter in maskTokens;
+
+const isNumberFormat = (props?: InputFormatProps): boolean =>
+  props?.format === 'number' || props?.format === 'currency';
+
+/**
+ * Checks whether the input shows a masked or formatted value
+ */
+export function hasInputFormat(props?: InputFormatProps): boolean {
+  return !!props?.mask || isNumberFormat(props);
+}
+
+/**
+ * Places the raw characters in the mask, literals are added up to the last
+ * typed character, e.g. "1234ab" with "9999 AA" becomes "1234 AB"
+ */
+export function applyMask(raw: string, mask: string): string {
+  let result = '';
+  let rawIndex = 0;
+  for (const maskCharacter of mask) {
+    if (rawIndex >= raw.length) {
+      break;
+    }
+    if (isMaskToken(maskCharacter)) {
+      const character = raw[rawIndex++];
+      result += maskCharacter === 'A' ? character.toUpperCase() : character;
+    } else {
+      result += maskCharacter;
+    }
+  }
+  return result;
+}
+
+/**
+ * Gets the raw characters from a typed or pasted text, literals of the mask
+ * and characters that don't fit the mask are left out
+ */
+export function unmaskValue(text: string, mask: string): string {
+  let raw = '';
+  let maskIndex = 0;
+  for (const character of text) {
+    if (maskIndex >= mask.length) {
+      break;
+    }
+    if (!isMaskToken(mask[maskIndex]) && character === mask[maskIndex]) {
+      maskIndex++;
+      continue;
+    }
+    let tokenIndex = maskIndex;
+    while (tokenIndex < mask.length && !isMaskToken(mask[tokenIndex])) {
+      tokenIndex++;
+    }
+    const token = mask[tokenIndex];
+    if (isMaskToken(token) && maskTokens[token].test(character)) {
+      raw += token === 'A' ? character.toUpperCase() : character;
+      maskIndex = tokenIndex + 1;
+    }
+  }
+  return raw;
+}
+
+/**
+ * Checks whether a raw value fills all tokens of the mask
+ */
+export function isMaskComplete(raw: string, mask: string): boolean {
+  const tokens = mask.split('').filter(isMaskToken);
+  return (
+    raw.length === tokens.length &&
+    tokens.every((token, index) => maskTokens[token].test(raw[index]))
+  );
+}
+
+const maskPatterns: Record<string, string> = {
+  '9': '\\d',
+  a: '[a-zA-Z]',
+  A: '[A-Z]',
+  '*': '[a-zA-Z0-9]',
+};
+
+/**
+ * Regular expression source for the raw value of a mask, e.g. "^\d\d[A-Z]$"
+ * for "99-A"
+ */
+export function getMaskPattern(mask: string): string {
+  return `^${mask
+    .split('')
+    .map((maskCharacter) => maskPatterns[maskCharacter] ?? '')
+    .join('')}$`;
+}
+
+const getNumberSeparators = (locale?: string) => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return {
+    group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+  };
+};
+
+const isNumberString = (value: string): boolean =>
+  /^-?(\d+\.?\d*|\.\d+)$/.test(value);
+
+const getDecimalCount = (value: string): number =>
+  value.includes('.') ? value.split('.')[1].length : 0;
+
+/**
+ * Gets the raw number string from a number typed in the notation of the
+ * locale, e.g. "1.234,5" in "nl-NL" becomes "1234.5". Characters that can't
+ * be part of a number are left out and decimals beyond `decimals` are cut off.
+ */
+export function parseFormattedNumber(
+  text: string,
+  props?: InputFormatProps
+): string {
+  const { group, decimal } = getNumberSeparators(props?.locale);
+  // A single "." that isn't followed by three digits can't be a group
+  // separator, so "1234.5" is read as a decimal number in "nl-NL" too
+  const dots = text.split('.').length - 1;
+  if (
+    group === '.' &&
+    dots === 1 &&
+    !text.includes(decimal) &&
+    !/\.\d{3}(?!\d)/.test(text)
+  ) {
+    text = text.replace('.', decimal);
+  }
+  const raw = text
+    .split(group)
+    .join('')
+    .split(decimal)
+    .join('.')
+    .replace(/[^\d.-]/g, '');
+  if (props?.decimals === undefined || !raw.includes('.')) {
+    return raw;
+  }
+  const [integerPart, fraction] = raw.split('.', 2);
+  return props.decimals > 0
+    ? `${integerPart}.${fraction.slice(0, props.decimals)}`
+    : integerPart;
+}
+
+/**
+ * Formats a raw number string with Intl.NumberFormat, values that aren't a
+ * number or can't be formatted for the locale are returned as is
+ */
+export function formatNumberValue(
+  value: string,
+  props?: InputFormatProps
+): string {
+  if (!isNumberString(value)) {
+    return value;
+  }
+  return props?.format === 'currency'
+    ? formatCurrency(value, props.locale, props.currency, props.decimals)
+    : formatNumber(value, props?.locale, {
+        minimumFractionDigits: props?.decimals,
+        maximumFractionDigits: props?.decimals ?? 10,
+      });
+}
+
+/**
+ * The value as it is shown when the input doesn't have the focus
+ */
+export function formatInputValue(
+  value: string,
+  props?: InputFormatProps
+): string {
+  if (value === '') {
+    return value;
+  }
+  if (props?.mask) {
+    return applyMask(value, props.mask);
+  }
+  return isNumberFormat(props) ? formatNumberValue(value, props) : value;
+}
+
+/**
+ * The value as it is shown while editing: masks stay applied and numbers are
+ * shown without grouping and currency, e.g. "1234,5" in "nl-NL"
+ */
+export function getEditableInputValue(
+  value: string,
+  props?: InputFormatProps
+): string {
+  if (!isNumberFormat(props) || props?.mask) {
+    return formatInputValue(value, props);
+  }
+  return value.replace('.', getNumberSeparators(props?.locale).decimal);
+}
+
+/**
+ * Gets the raw value that is kept in the form values from the typed text
+ */
+export function parseInputValue(
+  text: string,
+  props?: InputFormatProps
+): string {
+  if (props?.mask) {
+    return unmaskValue(text, props.mask);
+  }
+  return isNumberFormat(props) ? parseFormattedNumber(text, props) : text;
+}
+
+export interface InputFormatError {
+  errorType: 'invalidMask' | 'maxDecimals';
+  params?: Record<string, string | number>;
+}
+
+/**
+ * Validates a raw value against the mask or the decimals of the input, see
+ * isNumericInput for the number validation
+ */
+export function getInputFormatError(
+  value: string,
+  props?: InputFormatProps
+): InputFormatError | undefined {
+  if (props?.mask) {
+    return isMaskComplete(value, props.mask)
+      ? undefined
+      : { errorType: 'invalidMask' };
+  }
+  if (
+    isNumberFormat(props) &&
+    props?.decimals !== undefined &&
+    isNumberString(value) &&
+    getDecimalCount(value) > props.decimals
+  ) {
+    return { errorType: 'maxDecimals', params: { decimals: props.decimals } };
+  }
+  return undefined;
+}
+
+/**
+ * Checks whether the input holds a number, which is validated as a number
+ * including min and max
+ */
+export function isNumericInput(
+  props?: InputFormatProps & { inputType?: string }
+): boolean {
+  return (
+    props?.inputType === 'number' || (!props?.mask && isNumberFormat(props))
+  );
+}
+
+/**
+ * Keyboard for touch devices, only digits for masks without letters
+ */
+export function getInputMode(
+  props?: InputFormatProps
+): 'decimal' | 'numeric' | undefined {
+  if (props?.mask) {
+    return props.mask
+      .split('')
+      .some((maskCharacter) => ['a', 'A', '*'].includes(maskCharacter))
+      ? undefined
+      : 'numeric';
+  }
+  return isNumberFormat(props) ? 'decimal' : undefined;
+}
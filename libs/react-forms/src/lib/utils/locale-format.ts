@@ -0,0 +1,224 @@
+import type { DateFieldKind } from './date-limits';
+
+export type DateFormatStyle = 'short' | 'medium' | 'long' | 'full';
+
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}$/;
+const isoDateTimePattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+const dateFormatStyles: DateFormatStyle[] = ['short', 'medium', 'long', 'full'];
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    return Number(value);
+  }
+  return NaN;
+};
+
+const toDateStyle = (style: unknown): DateFormatStyle =>
+  dateFormatStyles.includes(style as DateFormatStyle)
+    ? (style as DateFormatStyle)
+    : 'medium';
+
+// Formats with the locale, or the default locale when the locale isn't
+// supported by Intl
+const withLocale = (
+  locale: string | undefined,
+  format: (locale?: string) => string
+): string => {
+  try {
+    return format(locale);
+  } catch {
+    return format(undefined);
+  }
+};
+
+/**
+ * Reads a date value, ISO dates without a time are read as local dates so
+ * "2024-05-01" stays May 1st in every timezone
+ */
+export function parseDateValue(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+  if (typeof value === 'string' && isoDatePattern.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Formats a number for the locale, values that aren't a number are returned
+ * as text
+ */
+export function formatNumber(
+  value: unknown,
+  locale?: string,
+  options?: Intl.NumberFormatOptions
+): string {
+  const number = toNumber(value);
+  if (isNaN(number)) {
+    return value === undefined || value === null ? '' : String(value);
+  }
+  try {
+    return withLocale(locale, (currentLocale) =>
+      new Intl.NumberFormat(currentLocale, options).format(number)
+    );
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Formats an amount in the currency, e.g. "€ 1.234,50" for "nl"
+ */
+export function formatCurrency(
+  value: unknown,
+  locale?: string,
+  currency = 'EUR',
+  decimals?: number
+): string {
+  return formatNumber(value, locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+}
+
+/**
+ * Formats a percentage, 25 is shown as "25%"
+ */
+export function formatPercent(
+  value: unknown,
+  locale?: string,
+  decimals?: number
+): string {
+  const number = toNumber(value);
+  return formatNumber(isNaN(number) ? value : number / 100, locale, {
+    style: 'percent',
+    minimumFractionDigits: decimals ?? 0,
+    maximumFractionDigits: decimals ?? 2,
+  });
+}
+
+/**
+ * Formats a date in a date style of the locale, values that aren't a date are
+ * returned as text
+ */
+export function formatDate(
+  value: unknown,
+  locale?: string,
+  style?: DateFormatStyle
+): string {
+  const date = parseDateValue(value);
+  if (!date) {
+    return value === undefined || value === null ? '' : String(value);
+  }
+  return withLocale(locale, (currentLocale) =>
+    new Intl.DateTimeFormat(currentLocale, {
+      dateStyle: toDateStyle(style),
+    }).format(date)
+  );
+}
+
+/**
+ * Formats a date with its time, or only the time with `timeOnly`
+ */
+export function formatDateTime(
+  value: unknown,
+  locale?: string,
+  style?: DateFormatStyle,
+  timeOnly = false
+): string {
+  const date = parseDateValue(value);
+  if (!date) {
+    return value === undefined || value === null ? '' : String(value);
+  }
+  const timeStyle = toDateStyle(style) === 'short' ? 'short' : 'medium';
+  return withLocale(locale, (currentLocale) =>
+    new Intl.DateTimeFormat(
+      currentLocale,
+      timeOnly
+        ? { timeStyle }
+        : { dateStyle: toDateStyle(style), timeStyle: 'short' }
+    ).format(date)
+  );
+}
+
+/**
+ * Formats a value with a named format, the arguments follow the format like in
+ * the template function `format(total, 'currency', 'EUR', 2)`:
+ * - currency: currency code (default EUR) and decimals
+ * - number and percent: decimals
+ * - date, datetime and time: short, medium (default), long or full
+ */
+export function formatValue(
+  value: unknown,
+  format: string,
+  args: unknown[] = [],
+  locale?: string
+): string {
+  const decimalsAt = (index: number) =>
+    typeof args[index] === 'number' ? (args[index] as number) : undefined;
+  switch (format.toLowerCase()) {
+    case 'currency':
+      return formatCurrency(
+        value,
+        locale,
+        typeof args[0] === 'string' ? args[0] : undefined,
+        decimalsAt(1)
+      );
+    case 'number': {
+      const decimals = decimalsAt(0);
+      return formatNumber(value, locale, {
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals ?? 10,
+      });
+    }
+    case 'percent':
+      return formatPercent(value, locale, decimalsAt(0));
+    case 'date':
+      return formatDate(value, locale, args[0] as DateFormatStyle);
+    case 'datetime':
+      return formatDateTime(value, locale, args[0] as DateFormatStyle);
+    case 'time':
+      return formatDateTime(value, locale, args[0] as DateFormatStyle, true);
+    default:
+      return value === undefined || value === null ? '' : String(value);
+  }
+}
+
+/**
+ * Formats a plain value for display: numbers with the decimal separator of the
+ * locale and without grouping, so years and codes stay readable. Values of
+ * date and datetime fields (`dateKind`) are shown in the date format of the
+ * locale, other values are returned as text.
+ */
+export function formatDisplayValue(
+  value: unknown,
+  locale?: string,
+  dateKind?: DateFieldKind
+): string {
+  if (typeof value === 'number') {
+    return formatNumber(value, locale, {
+      useGrouping: false,
+      maximumFractionDigits: 10,
+    });
+  }
+  if (typeof value === 'string') {
+    if (dateKind === 'date' && isoDatePattern.test(value)) {
+      return formatDate(value, locale);
+    }
+    if (dateKind === 'datetime' && isoDateTimePattern.test(value)) {
+      return formatDateTime(value, locale);
+    }
+  }
+  return value === undefined || value === null ? '' : String(value);
+}
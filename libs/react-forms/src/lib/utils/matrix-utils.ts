@@ -0,0 +1,107 @@
+import {
+  FormComponentFieldProps,
+  MatrixStatement,
+  Option,
+} from '../interfaces/form-interfaces';
+
+/** Answers of a matrix field keyed by statement id */
+export type MatrixValue = Record<string, string | string[]>;
+
+export interface MatrixOption {
+  label: string;
+  value: string;
+}
+
+/**
+ * Checks whether a value is an object of matrix answers
+ */
+export function isMatrixValue(value: unknown): value is MatrixValue {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Statements (rows) of a matrix field
+ */
+export function getMatrixStatements(
+  component: Pick<FormComponentFieldProps, 'props'>
+): MatrixStatement[] {
+  const statements = component.props?.statements;
+  return Array.isArray(statements)
+    ? statements.filter((statement) => !!statement?.id)
+    : [];
+}
+
+/**
+ * Scale options (columns) of a matrix field, plain strings are used as label
+ * and value
+ */
+export function getMatrixOptions(
+  component: Pick<FormComponentFieldProps, 'props'>
+): MatrixOption[] {
+  const options = component.props?.options;
+  if (!Array.isArray(options)) {
+    return [];
+  }
+  return (options as Option[]).map((option) =>
+    typeof option === 'string'
+      ? { label: option, value: option }
+      : {
+          label: option.label ?? option.value ?? '',
+          value: option.value ?? '',
+        }
+  );
+}
+
+const isAnswered = (answer: unknown): boolean =>
+  Array.isArray(answer)
+    ? answer.length > 0
+    : typeof answer === 'string' && answer !== '';
+
+/**
+ * Statements that have to be answered but aren't, all statements are
+ * required when the field is required
+ */
+export function getUnansweredStatements(
+  component: Pick<FormComponentFieldProps, 'props' | 'validation'>,
+  value: unknown
+): MatrixStatement[] {
+  const answers = isMatrixValue(value) ? value : {};
+  return getMatrixStatements(component).filter(
+    (statement) =>
+      (statement.required || !!component.validation?.required) &&
+      !isAnswered(answers[statement.id])
+  );
+}
+
+/**
+ * Labels of the chosen options of a statement, e.g. "Agree"
+ */
+export function getMatrixAnswerLabel(
+  component: Pick<FormComponentFieldProps, 'props'>,
+  answer: string | string[] | undefined
+): string {
+  const options = getMatrixOptions(component);
+  const values = Array.isArray(answer) ? answer : answer ? [answer] : [];
+  return values
+    .map(
+      (value) =>
+        options.find((option) => option.value === value)?.label ?? value
+    )
+    .join(', ');
+}
+
+/**
+ * The answered statements with the labels of their answers, in statement order
+ */
+export function getMatrixAnswers(
+  component: Pick<FormComponentFieldProps, 'props'>,
+  value: unknown
+): Array<{ statement: MatrixStatement; answer: string }> {
+  const answers = isMatrixValue(value) ? value : {};
+  return getMatrixStatements(component)
+    .filter((statement) => isAnswered(answers[statement.id]))
+    .map((statement) => ({
+      statement,
+      answer: getMatrixAnswerLabel(component, answers[statement.id]),
+    }));
+}
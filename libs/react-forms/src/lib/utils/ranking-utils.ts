@@ -0,0 +1,58 @@
+import { FormComponentFieldProps } from '../interfaces/form-interfaces';
+import { getMatrixOptions, MatrixOption } from './matrix-utils';
+
+export type RankingOption = MatrixOption;
+
+/**
+ * Checks whether a value is a ranking, the option values from first to last
+ */
+export function isRankingValue(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+  );
+}
+
+/**
+ * Options of a ranking field, plain strings are used as label and value
+ */
+export const getRankingOptions: (
+  component: Pick<FormComponentFieldProps, 'props'>
+) => RankingOption[] = getMatrixOptions;
+
+/**
+ * Moves an option to a position in the ranking, options that aren't ranked
+ * yet are inserted at that position
+ */
+export function moveRankedOption(
+  ranking: string[],
+  value: string,
+  position: number
+): string[] {
+  const nextRanking = ranking.filter((item) => item !== value);
+  const index = Math.min(Math.max(position, 0), nextRanking.length);
+  nextRanking.splice(index, 0, value);
+  return nextRanking;
+}
+
+/**
+ * Labels of the ranked options from first to last
+ */
+export function getRankingLabels(
+  component: Pick<FormComponentFieldProps, 'props'>,
+  value: unknown
+): string[] {
+  if (!isRankingValue(value)) {
+    return [];
+  }
+  const options = getRankingOptions(component);
+  return value.map(
+    (item) => options.find((option) => option.value === item)?.label ?? item
+  );
+}
+
+/**
+ * Position of an option in a ranking starting at 1, 0 when it isn't ranked
+ */
+export function getRankPosition(ranking: unknown, value: unknown): number {
+  return isRankingValue(ranking) ? ranking.indexOf(String(value)) + 1 : 0;
+}
@@ -0,0 +1,59 @@
+import { FormComponentFieldProps } from '../interfaces/form-interfaces';
+
+export const defaultRatingMax = 5;
+
+/** Highest score of a rating field is limited so the symbols fit on a line */
+const maxRatingMax = 10;
+
+const ratingEmojis = ['😞', '🙁', '😐', '🙂', '😀'];
+
+/** Scores of an NPS field, 0 (not at all likely) to 10 (extremely likely) */
+export const npsScores = Array.from({ length: 11 }, (_, score) => score);
+
+export type NpsCategory = 'detractor' | 'passive' | 'promoter';
+
+/**
+ * Checks whether a value is a score of a rating or NPS field
+ */
+export function isScoreValue(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Highest score of a rating field, `props.max` or 5
+ */
+export function getRatingMax(
+  component: Pick<FormComponentFieldProps, 'props'>
+): number {
+  const max = Number(component.props?.max);
+  return Number.isFinite(max) && max >= 2
+    ? Math.min(Math.round(max), maxRatingMax)
+    : defaultRatingMax;
+}
+
+/**
+ * Emoji of a score, from sad for the lowest to happy for the highest score
+ */
+export function getRatingEmoji(score: number, max: number): string {
+  const position = max > 1 ? (score - 1) / (max - 1) : 1;
+  const index = Math.round(
+    Math.min(Math.max(position, 0), 1) * (ratingEmojis.length - 1)
+  );
+  return ratingEmojis[index];
+}
+
+/**
+ * NPS category of a score: detractors score 0-6, passives 7-8 and
+ * promoters 9-10
+ */
+export function getNpsCategory(score: unknown): NpsCategory | '' {
+  const value =
+    typeof score === 'string' && score !== '' ? Number(score) : score;
+  if (!isScoreValue(value)) {
+    return '';
+  }
+  if (value >= 9) {
+    return 'promoter';
+  }
+  return value >= 7 ? 'passive' : 'detractor';
+}
@@ -0,0 +1,34 @@
+import { PageProps } from '../interfaces/form-interfaces';
+
+/**
+ * Normalizes a route for comparison, e.g. "contact/" -> "/contact"
+ */
+export function normalizeRoute(route: string | undefined): string {
+  const trimmed = (route ?? '').trim();
+  if (!trimmed) {
+    return '';
+  }
+  const path = trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+  return path.replace(/\/+$/, '') || '/';
+}
+
+/**
+ * Finds the array index of the page with the given route
+ */
+export function findPageIndexByRoute(
+  pages: PageProps[] | undefined,
+  path: string
+): number {
+  const route = normalizeRoute(path);
+  if (!pages || !route) {
+    return -1;
+  }
+  return pages.findIndex((page) => normalizeRoute(page.route) === route);
+}
+
+/**
+ * Reads the route from the location hash, e.g. "#/contact" -> "/contact"
+ */
+export function getHashRoute(hash: string): string {
+  return normalizeRoute(hash.replace(/^#/, ''));
+}
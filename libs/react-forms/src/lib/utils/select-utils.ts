@@ -0,0 +1,141 @@
+import {
+  FormComponentFieldProps,
+  Option,
+  SelectProps,
+} from '../interfaces/form-interfaces';
+
+export interface SelectOption {
+  label: string;
+  value: string;
+  group?: string;
+  description?: string;
+}
+
+export interface SelectOptionGroup {
+  /** Title of the group, undefined for options without a group */
+  group?: string;
+  options: SelectOption[];
+}
+
+/**
+ * Value of the "Other (please specify)" choice in the option list, it's never
+ * stored: the typed text is the value
+ */
+export const otherSelectOptionValue = '__other__';
+
+/**
+ * Options of a select field from `props.options` or `options`, plain strings
+ * are used as label and value
+ */
+export function getSelectOptions(
+  component: Pick<FormComponentFieldProps, 'props' | 'options'>
+): SelectOption[] {
+  const options = component.props?.options ?? component.options;
+  if (!Array.isArray(options)) {
+    return [];
+  }
+  return (options as Option[]).map((option) =>
+    typeof option === 'string'
+      ? { label: option, value: option }
+      : {
+          label: option.label ?? option.value ?? '',
+          value: option.value ?? '',
+          ...(option.group && { group: option.group }),
+          ...(option.description && { description: option.description }),
+        }
+  );
+}
+
+/**
+ * Whether a select field uses the searchable list instead of a native select
+ */
+export function isComboboxSelect(
+  props?: Pick<SelectProps, 'searchable'> & { multiple?: boolean }
+): boolean {
+  return !!(props?.searchable || props?.multiple);
+}
+
+/**
+ * Chosen values of a select field as a list, for single and multi-selects
+ */
+export function getSelectedValues(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter(
+      (item): item is string => typeof item === 'string' && item !== ''
+    );
+  }
+  return typeof value === 'string' && value !== '' ? [value] : [];
+}
+
+/**
+ * Options grouped by their group in order of first appearance, options
+ * without a group come first
+ */
+export function groupSelectOptions(
+  options: SelectOption[]
+): SelectOptionGroup[] {
+  const groups: SelectOptionGroup[] = [];
+  options.forEach((option) => {
+    const group = groups.find((item) => item.group === option.group);
+    if (group) {
+      group.options.push(option);
+    } else if (option.group === undefined) {
+      groups.unshift({ options: [option] });
+    } else {
+      groups.push({ group: option.group, options: [option] });
+    }
+  });
+  return groups;
+}
+
+// Case and accent insensitive text for searching, "Curaçao" matches "curac"
+const toSearchText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+/**
+ * Options whose label, value or description contain the search text
+ */
+export function filterSelectOptions(
+  options: SelectOption[],
+  query: string
+): SelectOption[] {
+  const search = toSearchText(query.trim());
+  if (!search) {
+    return options;
+  }
+  return options.filter((option) =>
+    [option.label, option.value, option.description ?? ''].some((text) =>
+      toSearchText(text).includes(search)
+    )
+  );
+}
+
+/**
+ * Text typed for the other choice: the chosen value that isn't an option
+ */
+export function getOtherSelectText(
+  options: SelectOption[],
+  value: unknown
+): string {
+  return (
+    getSelectedValues(value).find(
+      (item) => !options.some((option) => option.value === item)
+    ) ?? ''
+  );
+}
+
+/**
+ * Labels of the chosen options, other texts are shown as typed
+ */
+export function getSelectLabels(
+  component: Pick<FormComponentFieldProps, 'props' | 'options'>,
+  value: unknown
+): string[] {
+  const options = getSelectOptions(component);
+  return getSelectedValues(value).map(
+    (item) => options.find((option) => option.value === item)?.label ?? item
+  );
+}
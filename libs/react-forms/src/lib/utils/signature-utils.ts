@@ -0,0 +1,132 @@
+export interface SignaturePoint {
+  x: number;
+  y: number;
+}
+
+/** Points of one pen stroke, from pen down to pen up */
+export type SignatureStroke = SignaturePoint[];
+
+export interface SignatureImageOptions {
+  width: number;
+  height: number;
+  penColor?: string;
+}
+
+export const defaultSignatureWidth = 400;
+export const defaultSignatureHeight = 150;
+export const signatureLineWidth = 2;
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const toSvgDataUrl = (svg: string): string =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+const createSvg = (content: string, options: SignatureImageOptions): string =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${options.width}" height="${options.height}" viewBox="0 0 ${options.width} ${options.height}">${content}</svg>`;
+
+/**
+ * Checks whether a value is the PNG or SVG data URL of a signature
+ */
+export function isSignatureValue(value: unknown): value is string {
+  return (
+    typeof value === 'string' && /^data:image\/(png|svg\+xml)[;,]/.test(value)
+  );
+}
+
+/**
+ * SVG path data of a stroke, a single point becomes a dot
+ */
+export function getStrokePath(stroke: SignatureStroke): string {
+  if (stroke.length === 0) {
+    return '';
+  }
+  const [first, ...rest] = stroke;
+  const start = `M ${round(first.x)} ${round(first.y)}`;
+  if (rest.length === 0) {
+    return `${start} l 0.1 0`;
+  }
+  return `${start} ${rest
+    .map((point) => `L ${round(point.x)} ${round(point.y)}`)
+    .join(' ')}`;
+}
+
+/**
+ * SVG data URL of the drawn strokes, empty when nothing is drawn
+ */
+export function createSvgSignature(
+  strokes: SignatureStroke[],
+  options: SignatureImageOptions
+): string {
+  const paths = strokes
+    .filter((stroke) => stroke.length > 0)
+    .map((stroke) => `<path d="${getStrokePath(stroke)}"/>`);
+  if (paths.length === 0) {
+    return '';
+  }
+  return toSvgDataUrl(
+    createSvg(
+      `<g fill="none" stroke="${escapeXml(
+        options.penColor || '#000000'
+      )}" stroke-width="${signatureLineWidth}" stroke-linecap="round" stroke-linejoin="round">${paths.join(
+        ''
+      )}</g>`,
+      options
+    )
+  );
+}
+
+/**
+ * SVG data URL of a typed name in a handwriting font, the keyboard
+ * alternative for drawing a signature. Empty when the name is empty.
+ */
+export function createTypedSignature(
+  name: string,
+  options: SignatureImageOptions
+): string {
+  if (name.trim() === '') {
+    return '';
+  }
+  return toSvgDataUrl(
+    createSvg(
+      `<text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" font-family="'Brush Script MT', 'Segoe Script', cursive" font-size="${round(
+        options.height * 0.4
+      )}" fill="${escapeXml(options.penColor || '#000000')}">${escapeXml(
+        name.trim()
+      )}</text>`,
+      options
+    )
+  );
+}
+
+/**
+ * Draws the strokes on a cleared canvas
+ */
+export function drawSignatureStrokes(
+  context: CanvasRenderingContext2D,
+  strokes: SignatureStroke[],
+  options: SignatureImageOptions
+): void {
+  context.clearRect(0, 0, options.width, options.height);
+  context.strokeStyle = options.penColor || '#000000';
+  context.lineWidth = signatureLineWidth;
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+  strokes.forEach((stroke) => {
+    if (stroke.length === 0) {
+      return;
+    }
+    context.beginPath();
+    context.moveTo(stroke[0].x, stroke[0].y);
+    // A single point is drawn as a dot
+    const points = stroke.length === 1 ? [stroke[0], stroke[0]] : stroke;
+    points.slice(1).forEach((point) => context.lineTo(point.x, point.y));
+    context.stroke();
+  });
+}
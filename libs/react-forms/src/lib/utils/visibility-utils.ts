@@ -0,0 +1,195 @@
+import {
+  FormComponentFieldProps,
+  VisibilityCondition,
+  VisibilityConditionGroup,
+  VisibilityExpression,
+  VisibilityRule,
+} from '../interfaces/form-interfaces';
+import {
+  expressionEngine,
+  FormContext,
+} from '../services/expression-engine.service';
+import { createFormContext } from './calculated-values';
+
+const numericOperators = ['greaterThan', 'lessThan', '>', '<', '>=', '<='];
+
+export function isVisibilityCondition(
+  rule: VisibilityRule
+): rule is VisibilityCondition {
+  return typeof (rule as VisibilityCondition).field === 'string';
+}
+
+export function isVisibilityExpression(
+  rule: VisibilityRule
+): rule is VisibilityExpression {
+  return typeof (rule as VisibilityExpression).expression === 'string';
+}
+
+const toLiteral = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(toLiteral).join(', ')}]`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(
+    value === undefined || value === null ? '' : String(value)
+  );
+};
+
+/**
+ * Compiles visibility rules to an expression for the expression engine.
+ * Field values are passed as variables (`_v0`, `_v1`, ...) so rules work for
+ * any field id; the variables are added to the given context.
+ */
+export function toVisibilityExpression(
+  rules: VisibilityRule[],
+  formValues: Record<string, unknown>,
+  context: FormContext
+): string {
+  let variableCount = 0;
+
+  const addVariable = (value: unknown): string => {
+    const name = `_v${variableCount++}`;
+    context[name] = {
+      value: value === undefined ? null : value,
+      valid: true,
+      required: false,
+    };
+    return name;
+  };
+
+  const compileCondition = (condition: VisibilityCondition): string => {
+    const fieldValue = formValues[condition.field];
+    const value = condition.value;
+
+    if (numericOperators.includes(condition.operator)) {
+      const numericValue = Number(fieldValue);
+      const conditionValue = Number(value);
+      if (Number.isNaN(numericValue) || Number.isNaN(conditionValue)) {
+        return 'false';
+      }
+      const variable = addVariable(numericValue);
+      const operator =
+        condition.operator === 'greaterThan'
+          ? '>'
+          : condition.operator === 'lessThan'
+          ? '<'
+          : condition.operator;
+      return `${variable} ${operator} ${conditionValue}`;
+    }
+
+    const variable = addVariable(fieldValue);
+    switch (condition.operator) {
+      case 'equals':
+      case '==':
+        return `equals(${variable}, ${toLiteral(value)})`;
+      case 'notEquals':
+      case '!=':
+        return `not equals(${variable}, ${toLiteral(value)})`;
+      case 'contains':
+        return `contains(${variable}, ${toLiteral(value)})`;
+      case 'isEmpty':
+        return `isEmpty(${variable})`;
+      case 'isNotEmpty':
+        return `isNotEmpty(${variable})`;
+      case 'in':
+        return `contains(${toLiteral(
+          Array.isArray(value) ? value : [value]
+        )}, ${variable})`;
+      case 'matches':
+        return `matches(${variable}, ${toLiteral(value)})`;
+      default:
+        return 'true';
+    }
+  };
+
+  const compileGroup = (group: VisibilityConditionGroup): string => {
+    const parts: string[] = [];
+    if (group.allOf) {
+      parts.push(compileAll(group.allOf));
+    }
+    if (group.anyOf) {
+      parts.push(
+        group.anyOf.length > 0
+          ? `(${group.anyOf.map(compileRule).join(' or ')})`
+          : 'false'
+      );
+    }
+    if (group.not) {
+      parts.push(`not (${compileRule(group.not)})`);
+    }
+    return compileAll(parts);
+  };
+
+  function compileRule(rule: VisibilityRule): string {
+    if (isVisibilityCondition(rule)) {
+      return compileCondition(rule);
+    }
+    if (isVisibilityExpression(rule)) {
+      return `(${rule.expression})`;
+    }
+    return compileGroup(rule);
+  }
+
+  function compileAll(rules: Array<VisibilityRule | string>): string {
+    if (rules.length === 0) {
+      return 'true';
+    }
+    return `(${rules
+      .map((rule) => (typeof rule === 'string' ? rule : compileRule(rule)))
+      .join(' and ')})`;
+  }
+
+  return compileAll(rules);
+}
+
+/**
+ * Evaluates visibility rules against the form values, all rules have to match.
+ * Expressions can also use calculated values.
+ */
+export function evaluateVisibility(
+  rules: VisibilityRule[] | undefined,
+  formValues: Record<string, unknown>
+): boolean {
+  if (!rules || rules.length === 0) {
+    return true;
+  }
+
+  const context = createFormContext(formValues);
+  const expression = toVisibilityExpression(rules, formValues, context);
+  return expressionEngine.evaluateCondition(expression, context);
+}
+
+/**
+ * Returns the visibility rules of a component, including a visibility
+ * expression configured with `expression` or `props.expression`
+ */
+export function getVisibilityRules(
+  component: Pick<
+    FormComponentFieldProps,
+    'visibilityConditions' | 'props' | 'expression'
+  >
+): VisibilityRule[] | undefined {
+  const expression = component.props?.expression ?? component.expression;
+  if (expression?.mode === 'visibility' && expression.expression) {
+    return [
+      ...(component.visibilityConditions ?? []),
+      { expression: expression.expression },
+    ];
+  }
+  return component.visibilityConditions;
+}
+
+/**
+ * Evaluates the visibility rules of a component against the form values
+ */
+export function isComponentVisible(
+  component: Pick<
+    FormComponentFieldProps,
+    'visibilityConditions' | 'props' | 'expression'
+  >,
+  formValues: Record<string, unknown>
+): boolean {
+  return evaluateVisibility(getVisibilityRules(component), formValues);
+}
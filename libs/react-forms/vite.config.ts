@@ -33,10 +33,9 @@ export default defineConfig(() => ({
       transformMixedEsModules: true,
     },
     lib: {
-      // Could also be a dictionary or array of multiple entry points.
-      entry: 'src/index.ts',
+      // "core" is the React-free engine for other renderers
+      entry: { index: 'src/index.ts', core: 'src/core.ts' },
       name: 'react-forms',
-      fileName: 'index',
       // Change this to the formats you want to support.
       // Don't forget to update your package.json as well.
       formats: ['es' as const],